@@ -5,6 +5,7 @@ module.exports = {
     cwd: "/home/dev/escrow",
     env: {
       PORT: "3007",
+      BALANCE_PROVIDER: "casino",
       CASINO_DB_PATH: "/home/dev/casino/data/casino.db",
     }
   }]
@@ -0,0 +1,348 @@
+/**
+ * Operator access — admin credentials, roles and the audit log.
+ *
+ * Operators hold their own `eak_` keys, separate from casino keys and escrow
+ * tokens, each with one role:
+ *   viewer    read escrows, events, disputes, failures, the ledger and the audit log
+ *   operator  also force-release, force-refund, reassign and resolve disputes,
+ *             freeze agents, manage the arbiter pool and retry settlements
+ *   admin     also issue and revoke admin credentials
+ * ESCROW_ADMIN_KEY still works as a bootstrap credential with the admin role.
+ *
+ * Every mutating admin call is appended to admin_audit_log, whether it
+ * succeeded or not; the table rejects updates and deletes.
+ */
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { escrowDb } from "./db.js";
+import { EscrowError } from "./errors.js";
+
+// ─── Config ───
+export const ADMIN_KEY_PREFIX = "eak_";
+export const ADMIN_ROLES = ["viewer", "operator", "admin"] as const;
+export const MIN_ADMIN_NOTE_LENGTH = 3;
+export const AUDIT_DEFAULT_LIMIT = 50;
+export const AUDIT_MAX_LIMIT = 200;
+const BOOTSTRAP_KEY = process.env.ESCROW_ADMIN_KEY || "";
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+// ─── Types ───
+export interface AdminCredential {
+  id: string;
+  name: string;
+  role: AdminRole;
+  key_hash: string;
+  key_prefix: string;
+  created_by: string;
+  created_at: number;
+  revoked_at: number | null;
+  last_used_at: number | null;
+}
+
+/** Who an admin request acts as. The bootstrap key acts as id "admin". */
+export interface AdminAuth {
+  id: string;
+  name: string;
+  role: AdminRole;
+}
+
+export interface AuditEntry {
+  id: number;
+  admin_id: string;
+  admin_role: AdminRole;
+  action: string;
+  target: string | null;
+  note: string | null;
+  outcome: "ok" | "error";
+  error: string | null;
+  details: string | null;
+  created_at: number;
+}
+
+export interface AdminEvent {
+  id: string;
+  escrow_id: string;
+  event: string;
+  actor_id: string | null;
+  note: string | null;
+  created_at: number;
+  seq: number;
+}
+
+export interface ListEventsInput {
+  escrowId?: string;
+  event?: string;
+  actorId?: string;
+  since?: string | number;
+  limit?: number;
+  cursor?: string;
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function parseLimit(limit: number | undefined): number {
+  const value = limit ?? AUDIT_DEFAULT_LIMIT;
+  if (!Number.isInteger(value) || value < 1 || value > AUDIT_MAX_LIMIT) {
+    throw new EscrowError("invalid_query", `limit must be an integer between 1 and ${AUDIT_MAX_LIMIT}`);
+  }
+  return value;
+}
+
+// Accepts unix seconds or anything Date can parse (ISO 8601)
+function parseSince(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number" || /^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new EscrowError("invalid_query", "since must be an ISO 8601 date or unix seconds");
+  return Math.floor(ms / 1000);
+}
+
+// ─── Credentials ───
+function validateRole(role: string | undefined): AdminRole {
+  if (!(ADMIN_ROLES as readonly string[]).includes(role ?? "")) {
+    throw new EscrowError("invalid_admin", `role must be one of: ${ADMIN_ROLES.join(", ")}`);
+  }
+  return role as AdminRole;
+}
+
+/** Creates a credential. The plaintext key is returned only here. */
+export function issueAdminCredential(
+  issuer: AdminAuth,
+  input: { name?: string; role?: string }
+): { credential: AdminCredential; secret: string } {
+  const role = validateRole(input.role);
+  const name = input.name?.trim();
+  if (!name || name.length > 100) throw new EscrowError("invalid_admin", "name is required (at most 100 characters)");
+
+  const id = `adm_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  const secret = `${ADMIN_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  escrowDb.prepare(`
+    INSERT INTO admin_credentials (id, name, role, key_hash, key_prefix, created_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, name, role, hashKey(secret), secret.slice(0, ADMIN_KEY_PREFIX.length + 8), issuer.id);
+  return { credential: getAdminCredential(id), secret };
+}
+
+export function getAdminCredential(id: string): AdminCredential {
+  const credential = escrowDb.prepare("SELECT * FROM admin_credentials WHERE id = ?").get(id) as AdminCredential | undefined;
+  if (!credential) throw new EscrowError("not_found", "Admin credential not found");
+  return credential;
+}
+
+export function listAdminCredentials(includeRevoked = false): AdminCredential[] {
+  return escrowDb.prepare(`
+    SELECT * FROM admin_credentials ${includeRevoked ? "" : "WHERE revoked_at IS NULL"}
+    ORDER BY created_at DESC, rowid DESC
+  `).all() as AdminCredential[];
+}
+
+export function revokeAdminCredential(id: string): AdminCredential {
+  getAdminCredential(id);
+  escrowDb.prepare("UPDATE admin_credentials SET revoked_at = unixepoch() WHERE id = ? AND revoked_at IS NULL").run(id);
+  return getAdminCredential(id);
+}
+
+// ─── Authentication ───
+
+/**
+ * Resolves an admin bearer credential. Returns null for anything that is not
+ * an admin key; a revoked key is rejected with a reason.
+ */
+export function authenticateAdmin(credential: string): AdminAuth | null {
+  if (!credential.startsWith(ADMIN_KEY_PREFIX)) {
+    if (!BOOTSTRAP_KEY) return null;
+    const given = createHash("sha256").update(credential).digest();
+    const expected = createHash("sha256").update(BOOTSTRAP_KEY).digest();
+    return timingSafeEqual(given, expected) ? { id: "admin", name: "bootstrap", role: "admin" } : null;
+  }
+
+  const row = escrowDb.prepare("SELECT * FROM admin_credentials WHERE key_hash = ?").get(hashKey(credential)) as
+    | AdminCredential
+    | undefined;
+  if (!row) return null;
+  if (row.revoked_at) throw new EscrowError("unauthorized", "Admin credential has been revoked");
+  escrowDb.prepare("UPDATE admin_credentials SET last_used_at = unixepoch() WHERE id = ?").run(row.id);
+  return { id: row.id, name: row.name, role: row.role };
+}
+
+export function hasAdminRole(admin: AdminAuth, role: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(admin.role) >= ADMIN_ROLES.indexOf(role);
+}
+
+export function requireAdminRole(admin: AdminAuth, role: AdminRole): void {
+  if (!hasAdminRole(admin, role)) {
+    throw new EscrowError("insufficient_role", `This action needs the '${role}' admin role`, {
+      required_role: role,
+      admin_role: admin.role,
+    });
+  }
+}
+
+/** Force actions must say why; the note goes to the audit log and the escrow's events. */
+export function requireAdminNote(note: string | undefined): string {
+  const trimmed = note?.trim() ?? "";
+  if (trimmed.length < MIN_ADMIN_NOTE_LENGTH || trimmed.length > 1000) {
+    throw new EscrowError("invalid_admin", `note is required (${MIN_ADMIN_NOTE_LENGTH}–1000 characters)`);
+  }
+  return trimmed;
+}
+
+// ─── Audit log ───
+function appendAudit(
+  admin: AdminAuth,
+  action: string,
+  target: string | null,
+  note: string | null,
+  outcome: AuditEntry["outcome"],
+  error: string | null,
+  details: unknown
+): void {
+  escrowDb.prepare(`
+    INSERT INTO admin_audit_log (admin_id, admin_role, action, target, note, outcome, error, details)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(admin.id, admin.role, action, target, note, outcome, error, details === undefined ? null : JSON.stringify(details));
+}
+
+/**
+ * Checks the role and runs a mutating admin action, appending the outcome to
+ * the audit log either way — refused and failed attempts are recorded too.
+ */
+export async function audited<T>(
+  admin: AdminAuth,
+  role: AdminRole,
+  action: string,
+  target: string | null,
+  note: string | null,
+  fn: () => T | Promise<T>
+): Promise<T> {
+  try {
+    requireAdminRole(admin, role);
+    const result = await fn();
+    appendAudit(admin, action, target, note, "ok", null, undefined);
+    return result;
+  } catch (err: any) {
+    const error = err instanceof EscrowError ? `${err.code}: ${err.message}` : err?.message ?? String(err);
+    const details = err instanceof EscrowError && Object.keys(err.details).length ? err.details : undefined;
+    appendAudit(admin, action, target, note, "error", error, details);
+    throw err;
+  }
+}
+
+/** Newest first; `before` is the id of the last entry on the previous page. */
+export function listAuditLog(input: { target?: string; adminId?: string; action?: string; before?: number; limit?: number } = {}): {
+  entries: AuditEntry[];
+  nextBefore: number | null;
+} {
+  const limit = parseLimit(input.limit);
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const filters: [string, unknown][] = [["target", input.target], ["admin_id", input.adminId], ["action", input.action]];
+  for (const [column, value] of filters) {
+    if (value === undefined || value === "") continue;
+    where.push(`${column} = ?`);
+    params.push(value);
+  }
+  if (input.before !== undefined) {
+    if (!Number.isInteger(input.before)) throw new EscrowError("invalid_query", "before must be an audit entry id");
+    where.push("id < ?");
+    params.push(input.before);
+  }
+
+  const rows = escrowDb.prepare(`
+    SELECT * FROM admin_audit_log ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY id DESC LIMIT ?
+  `).all(...params, limit + 1) as AuditEntry[];
+  const entries = rows.slice(0, limit);
+  return { entries, nextBefore: rows.length > limit ? entries[entries.length - 1].id : null };
+}
+
+// ─── Events ───
+
+/** Escrow events across all escrows, oldest first, keyset-paginated on (created_at, rowid). */
+export function listEvents(input: ListEventsInput = {}): { events: AdminEvent[]; nextCursor: string | null } {
+  const limit = parseLimit(input.limit);
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const filters: [string, unknown][] = [["escrow_id", input.escrowId], ["event", input.event], ["actor_id", input.actorId]];
+  for (const [column, value] of filters) {
+    if (value === undefined || value === "") continue;
+    where.push(`${column} = ?`);
+    params.push(value);
+  }
+  const since = parseSince(input.since);
+  if (since !== undefined) {
+    where.push("created_at >= ?");
+    params.push(since);
+  }
+
+  if (input.cursor) {
+    let cursor: { t?: unknown; r?: unknown };
+    try {
+      cursor = JSON.parse(Buffer.from(input.cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new EscrowError("invalid_query", "cursor is malformed");
+    }
+    if (typeof cursor?.t !== "number" || typeof cursor?.r !== "number") throw new EscrowError("invalid_query", "cursor is malformed");
+    where.push("(created_at > ? OR (created_at = ? AND rowid > ?))");
+    params.push(cursor.t, cursor.t, cursor.r);
+  }
+
+  const rows = escrowDb.prepare(`
+    SELECT *, rowid AS seq FROM escrow_events ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY created_at ASC, rowid ASC LIMIT ?
+  `).all(...params, limit + 1) as AdminEvent[];
+  const events = rows.slice(0, limit);
+  const last = events[events.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? Buffer.from(JSON.stringify({ t: last.created_at, r: last.seq })).toString("base64url")
+    : null;
+  return { events, nextCursor };
+}
+
+// ─── Views ───
+export function adminCredentialView(credential: AdminCredential, opts: { secret?: string } = {}) {
+  return {
+    credential_id: credential.id,
+    name: credential.name,
+    role: credential.role,
+    prefix: credential.key_prefix,
+    created_by: credential.created_by,
+    created_at: iso(credential.created_at),
+    revoked_at: iso(credential.revoked_at),
+    active: !credential.revoked_at,
+    last_used_at: iso(credential.last_used_at),
+    ...(opts.secret ? { key: opts.secret } : {}),
+  };
+}
+
+export function auditEntryView(entry: AuditEntry) {
+  return {
+    id: entry.id,
+    admin_id: entry.admin_id,
+    admin_role: entry.admin_role,
+    action: entry.action,
+    target: entry.target,
+    note: entry.note,
+    outcome: entry.outcome,
+    error: entry.error,
+    details: entry.details ? JSON.parse(entry.details) : null,
+    created_at: iso(entry.created_at),
+  };
+}
+
+export function adminEventView(event: AdminEvent) {
+  return {
+    event_id: event.id,
+    escrow_id: event.escrow_id,
+    event: event.event,
+    actor_id: event.actor_id,
+    note: event.note,
+    created_at: iso(event.created_at),
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Escrow amendments — changing a funded escrow's terms by agreement.
+ *
+ * Either party proposes new terms: a later deadline, a different amount or a
+ * revised description. The other party approves or rejects; the proposer can
+ * withdraw. One amendment can be pending per escrow. On approval a top-up is
+ * debited from the creator (counting against the spend cap of the creator's
+ * token) and a reduction is refunded to them, through an "amendment"
+ * settlement; commission is recalculated on the new amount. Every step is
+ * recorded in escrow_events.
+ *
+ * Amendments apply to single-counterparty escrows that are funded or
+ * completed. Milestone escrows can be extended or re-described, but their
+ * amount is the sum of the milestones and cannot be amended.
+ */
+import { randomUUID } from "crypto";
+import { escrowDb, amendEscrow, getMilestones, getPayees, recordEvent, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { InsufficientBalanceError } from "./balance.js";
+import { chargeTokenSpend, refundTokenSpend } from "./api-tokens.js";
+import {
+  loadEscrow,
+  MIN_AMOUNT,
+  MIN_AMOUNT_MICROS,
+  MAX_TIMEOUT_HOURS,
+  type CreateEscrowOptions,
+} from "./escrow-service.js";
+import { commissionOf, scheduleOf } from "./fees.js";
+import { getReferrals, referralOf } from "./referrals.js";
+import { formatMoney, microsToUsd, usdToMicros, type Micros } from "./money.js";
+import { toUsd } from "./currencies.js";
+import {
+  openSettlement,
+  getSettlement,
+  applySettlementLegs,
+  markSettlementApplied,
+  failSettlement,
+  noteSettlementError,
+  rollbackSettlement,
+  settle,
+} from "./settlement.js";
+
+// ─── Types ───
+export type AmendmentStatus = "pending" | "approved" | "rejected" | "withdrawn" | "void";
+
+export interface Amendment {
+  id: string;
+  escrow_id: string;
+  proposed_by: string;
+  // Set when the creator proposed; a top-up counts against this token's spending cap
+  proposer_token_id: string | null;
+  amount_micros: Micros | null;
+  description: string | null;
+  extend_hours: number | null;
+  reason: string | null;
+  status: AmendmentStatus;
+  decided_by: string | null;
+  settlement_id: string | null;
+  created_at: number;
+  decided_at: number | null;
+}
+
+export interface ProposeAmendmentInput {
+  extendHours?: number;
+  // New total amount
+  amountUsd?: number;
+  description?: string;
+  reason?: string;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function invalid(message: string): never {
+  throw new EscrowError("invalid_amendment", message);
+}
+
+function isAmendable(escrow: Escrow): boolean {
+  return escrow.status === "funded" || escrow.status === "completed";
+}
+
+function otherParty(escrow: Escrow, actorId: string): string {
+  return actorId === escrow.creator_id ? escrow.counterparty_id : escrow.creator_id;
+}
+
+// Loads an escrow the actor is a party to and whose terms can still change
+function loadAmendable(actorId: string, escrowId: string): Escrow {
+  const escrow = loadEscrow(escrowId);
+  if (escrow.creator_id !== actorId && escrow.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the creator and counterparty can amend an escrow");
+  }
+  if (getPayees(escrow.id).length) invalid("Multi-party escrows cannot be amended");
+  if (!isAmendable(escrow)) {
+    throw new EscrowError("invalid_status", `Escrow terms can only change while funded or completed (status '${escrow.status}')`);
+  }
+  return escrow;
+}
+
+function pendingAmendment(escrowId: string): Amendment | null {
+  return (escrowDb.prepare("SELECT * FROM escrow_amendments WHERE escrow_id = ? AND status = 'pending'").get(escrowId) as
+    | Amendment
+    | undefined) ?? null;
+}
+
+function loadPending(actorId: string, escrowId: string): { escrow: Escrow; amendment: Amendment } {
+  const escrow = loadEscrow(escrowId);
+  const amendment = pendingAmendment(escrowId);
+  if (!amendment || (escrow.creator_id !== actorId && escrow.counterparty_id !== actorId)) {
+    throw new EscrowError("not_found", "No pending amendment on this escrow");
+  }
+  if (!isAmendable(escrow)) {
+    // The escrow settled while the amendment waited; it can no longer apply
+    escrowDb.prepare("UPDATE escrow_amendments SET status = 'void', decided_at = unixepoch() WHERE id = ? AND status = 'pending'").run(amendment.id);
+    throw new EscrowError("invalid_status", `Escrow is ${escrow.status}; the pending amendment no longer applies`);
+  }
+  return { escrow, amendment };
+}
+
+function describeChanges(escrow: Escrow, amendment: Amendment): string {
+  const changes: string[] = [];
+  if (amendment.extend_hours !== null) changes.push(`deadline +${amendment.extend_hours}h`);
+  if (amendment.amount_micros !== null) changes.push(`amount ${formatMoney(escrow.amount_micros, escrow.currency)} → ${formatMoney(amendment.amount_micros, escrow.currency)}`);
+  if (amendment.description !== null) changes.push(`description → "${amendment.description.slice(0, 200)}"`);
+  return changes.join("; ");
+}
+
+// ─── Propose ───
+export function proposeAmendment(
+  actorId: string,
+  escrowId: string,
+  input: ProposeAmendmentInput,
+  opts: CreateEscrowOptions = {}
+): Amendment {
+  const escrow = loadAmendable(actorId, escrowId);
+
+  const extendHours = input.extendHours ?? null;
+  if (extendHours !== null && (!Number.isInteger(extendHours) || extendHours < 1 || extendHours > MAX_TIMEOUT_HOURS)) {
+    invalid(`extend_hours must be a whole number from 1 to ${MAX_TIMEOUT_HOURS}`);
+  }
+  let amount: Micros | null = null;
+  if (input.amountUsd !== undefined) {
+    if (getMilestones(escrow.id).length) invalid("A milestone escrow's amount is the sum of its milestones and cannot be amended");
+    amount = usdToMicros(input.amountUsd);
+    if (!Number.isFinite(amount) || amount < MIN_AMOUNT_MICROS) throw new EscrowError("invalid_amount", `Minimum escrow amount is $${MIN_AMOUNT}`);
+    if (amount === escrow.amount_micros) amount = null;
+  }
+  let description: string | null = null;
+  if (input.description !== undefined) {
+    description = input.description.trim();
+    if (description.length < 3) throw new EscrowError("invalid_description", "description is required (min 3 chars)");
+    if (description === escrow.description) description = null;
+  }
+  if (extendHours === null && amount === null && description === null) {
+    invalid("An amendment must extend the deadline or change the amount or description");
+  }
+  const reason = input.reason?.trim().slice(0, 500) || null;
+
+  const id = `amd_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.transaction(() => {
+    const inserted = escrowDb.prepare(`
+      INSERT INTO escrow_amendments (id, escrow_id, proposed_by, proposer_token_id, amount_micros, description, extend_hours, reason)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT DO NOTHING
+    `).run(id, escrowId, actorId, actorId === escrow.creator_id ? opts.tokenId ?? null : null, amount, description, extendHours, reason);
+    if (inserted.changes === 0) {
+      throw new EscrowError("invalid_status", "An amendment is already pending on this escrow — it must be answered or withdrawn first");
+    }
+    const amendment = getAmendment(id)!;
+    recordEvent(escrowId, "amendment_proposed", actorId, `Proposed ${describeChanges(escrow, amendment)}${reason ? ` — ${reason}` : ""}`);
+  })();
+  return getAmendment(id)!;
+}
+
+// ─── Answer ───
+/**
+ * Approves the pending amendment and applies it. A top-up is debited from the
+ * creator before the new terms are written, and rolled back if they cannot be;
+ * a reduction is refunded once the new terms are committed.
+ */
+export async function approveAmendment(actorId: string, escrowId: string, opts: CreateEscrowOptions = {}): Promise<Amendment> {
+  const { escrow, amendment } = loadPending(actorId, escrowId);
+  if (otherParty(escrow, amendment.proposed_by) !== actorId) {
+    throw new EscrowError("forbidden", "Waiting for the other party to answer this amendment");
+  }
+
+  const amount = amendment.amount_micros ?? escrow.amount_micros;
+  // The new amount is priced under the schedule the escrow was created with
+  const schedule = scheduleOf(escrow);
+  const commissionMicros = amount === escrow.amount_micros ? escrow.commission_micros : commissionOf(amount, schedule);
+  const delta = amount - escrow.amount_micros;
+  const note = `Approved ${describeChanges(escrow, amendment)}` +
+    (delta === 0 ? "" : `; commission ${formatMoney(escrow.commission_micros, escrow.currency)} → ${formatMoney(commissionMicros, escrow.currency)}`);
+
+  // Writes the new terms and marks the amendment approved; false if either changed underneath us
+  const apply = (settlementId: string | null): boolean => {
+    const decided = escrowDb.prepare(`
+      UPDATE escrow_amendments SET status = 'approved', decided_by = ?, decided_at = unixepoch(), settlement_id = COALESCE(?, settlement_id)
+      WHERE id = ? AND status = 'pending'
+    `).run(actorId, settlementId, amendment.id);
+    if (decided.changes === 0) return false;
+    return amendEscrow({
+      id: escrow.id,
+      expectedAmountMicros: escrow.amount_micros,
+      amountMicros: amount,
+      commissionMicros,
+      referralCommissionMicros: delta === 0
+        ? escrow.referral_commission_micros
+        : referralOf(commissionMicros, getReferrals(escrow.id)),
+      description: amendment.description ?? escrow.description,
+      extendHours: amendment.extend_hours ?? 0,
+      actorId,
+      note,
+    });
+  };
+  const changedConcurrently = () => new EscrowError("invalid_status", "Escrow or amendment changed concurrently — fetch it again");
+
+  if (delta > 0) {
+    // The creator's token pays for the top-up: the approving one, or the one the creator proposed with
+    const tokenId = actorId === escrow.creator_id ? opts.tokenId : amendment.proposer_token_id;
+    const spend = toUsd(delta, escrow.currency);
+    if (tokenId) chargeTokenSpend(tokenId, spend);
+    const refundSpend = () => tokenId && refundTokenSpend(tokenId, spend);
+    // Each attempt debits under its own reference: an earlier attempt left
+    // pending is rolled back by the reconciler, since the amendment now points
+    // at this settlement, without touching this one's debit
+    const reference = `${amendment.id}_${randomUUID().replace(/-/g, "").slice(0, 8)}`;
+    const settlementId = escrowDb.transaction(() => {
+      const id = openSettlement(escrow.id, "amendment", [
+        { agentId: escrow.creator_id, direction: "debit", amount: delta, reason: `escrow_amendment_topup: ${escrow.id}`, reference },
+      ]);
+      escrowDb.prepare("UPDATE escrow_amendments SET settlement_id = ? WHERE id = ?").run(id, amendment.id);
+      return id;
+    })();
+
+    try {
+      await applySettlementLegs(getSettlement(settlementId)!);
+    } catch (err: any) {
+      refundSpend();
+      if (err instanceof InsufficientBalanceError) {
+        failSettlement(settlementId, err.message);
+        throw new EscrowError("insufficient_balance", `The creator's balance cannot cover the ${formatMoney(delta, escrow.currency)} top-up`);
+      }
+      // The debit may have landed anyway; the reconciler reverses it unless this approval went through
+      noteSettlementError(settlementId, err);
+      console.error(`[escrow/amend] top-up for ${amendment.id} left pending:`, err?.message);
+      throw new EscrowError("debit_failed", "Failed to debit the top-up. Any debit that went through is reversed automatically; try again shortly.");
+    }
+
+    try {
+      escrowDb.transaction(() => {
+        if (!apply(settlementId)) throw changedConcurrently();
+        markSettlementApplied(settlementId);
+      })();
+    } catch (err: any) {
+      await rollbackSettlement(settlementId, "escrow_amendment_failed_refund");
+      refundSpend();
+      if (err instanceof EscrowError) throw err;
+      console.error("[escrow/amend] DB error:", err?.message);
+      throw new EscrowError("internal_error", "Failed to apply the amendment.");
+    }
+  } else {
+    const settlementId = escrowDb.transaction(() => {
+      const id = delta < 0
+        ? openSettlement(escrow.id, "amendment", [
+            { agentId: escrow.creator_id, direction: "credit", amount: -delta, reason: `escrow_amendment_refund: ${escrow.id}`, reference: amendment.id },
+          ])
+        : null;
+      if (!apply(id)) throw changedConcurrently();
+      return id;
+    })();
+    if (settlementId) await settle(settlementId);
+  }
+  return getAmendment(amendment.id)!;
+}
+
+/** Declines the pending amendment; when the proposer calls it, the amendment is withdrawn. */
+export function rejectAmendment(actorId: string, escrowId: string, reason?: string): Amendment {
+  const { amendment } = loadPending(actorId, escrowId);
+  const withdrawn = actorId === amendment.proposed_by;
+  const trimmed = reason?.trim().slice(0, 500);
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE escrow_amendments SET status = ?, decided_by = ?, decided_at = unixepoch() WHERE id = ? AND status = 'pending'"
+    ).run(withdrawn ? "withdrawn" : "rejected", actorId, amendment.id);
+    if (result.changes === 0) throw new EscrowError("invalid_status", "Amendment changed concurrently — fetch it again");
+    recordEvent(
+      escrowId,
+      withdrawn ? "amendment_withdrawn" : "amendment_rejected",
+      actorId,
+      `${withdrawn ? "Withdrawn" : "Rejected"} amendment ${amendment.id}${trimmed ? `: ${trimmed}` : ""}`
+    );
+  })();
+  return getAmendment(amendment.id)!;
+}
+
+// ─── Queries ───
+export function getAmendment(id: string): Amendment | null {
+  return (escrowDb.prepare("SELECT * FROM escrow_amendments WHERE id = ?").get(id) as Amendment | undefined) ?? null;
+}
+
+/** Every amendment on the escrow, oldest first. Parties and the arbiter only. */
+export function listAmendments(actorId: string, escrowId: string): Amendment[] {
+  const escrow = loadEscrow(escrowId);
+  if (![escrow.creator_id, escrow.counterparty_id, escrow.arbiter_id].includes(actorId)) {
+    throw new EscrowError("forbidden", "Only the parties and arbiter can see an escrow's amendments");
+  }
+  return escrowDb.prepare("SELECT * FROM escrow_amendments WHERE escrow_id = ? ORDER BY created_at ASC, rowid ASC").all(escrowId) as Amendment[];
+}
+
+// ─── Views ───
+export function amendmentView(amendment: Amendment) {
+  return {
+    amendment_id: amendment.id,
+    escrow_id: amendment.escrow_id,
+    status: amendment.status,
+    proposed_by: amendment.proposed_by,
+    extend_hours: amendment.extend_hours,
+    amount_usd: amendment.amount_micros === null ? null : microsToUsd(amendment.amount_micros),
+    description: amendment.description,
+    reason: amendment.reason,
+    decided_by: amendment.decided_by,
+    created_at: iso(amendment.created_at),
+    decided_at: iso(amendment.decided_at),
+  };
+}
+
+/** The amendment awaiting an answer on this escrow, if any. */
+export function pendingAmendmentView(escrow: Escrow) {
+  const amendment = pendingAmendment(escrow.id);
+  if (!amendment) return null;
+  return { ...amendmentView(amendment), awaiting_agent_id: otherParty(escrow, amendment.proposed_by) };
+}
@@ -0,0 +1,233 @@
+/**
+ * Scoped escrow API tokens.
+ *
+ * A casino API key can also gamble and withdraw, so agents can mint
+ * escrow-only bearer tokens instead: each carries a set of scopes, an optional
+ * cap on the escrow value it may create and an optional expiry, and can be
+ * revoked at any time. Only the sha256 of a token is stored. Both transports
+ * accept either credential; a casino key acts with every scope.
+ */
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { escrowDb } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { balanceProvider } from "./balance-provider.js";
+import { microsToUsd, usdToMicros, type Micros } from "./money.js";
+import { requireNotFrozen } from "./freezes.js";
+
+// ─── Config ───
+export const TOKEN_PREFIX = "etk_";
+export const TOKEN_SCOPES = ["read", "create", "offer", "complete", "release", "dispute"] as const;
+export const MAX_TOKEN_TTL_HOURS = 24 * 365;
+const MAX_ACTIVE_TOKENS_PER_AGENT = 50;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// ─── Types ───
+export interface ApiToken {
+  id: string;
+  agent_id: string;
+  name: string | null;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string;
+  spend_cap_micros: Micros | null;
+  spent_micros: Micros;
+  expires_at: number | null;
+  revoked_at: number | null;
+  last_used_at: number | null;
+  created_at: number;
+}
+
+/** Who a request acts for. `token` is null when a full casino API key was used. */
+export interface AgentAuth {
+  agentId: string;
+  token: ApiToken | null;
+}
+
+export interface IssueTokenInput {
+  name?: string;
+  scopes: string[] | undefined;
+  spendCapUsd?: number;
+  expiresInHours?: number;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function scopesOf(token: ApiToken): TokenScope[] {
+  return JSON.parse(token.scopes) as TokenScope[];
+}
+
+// ─── Issuance ───
+function validateScopes(scopes: string[] | undefined): TokenScope[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new EscrowError("invalid_token", `scopes must be a non-empty array of: ${TOKEN_SCOPES.join(", ")}`);
+  }
+  const unknown = scopes.filter((s) => !(TOKEN_SCOPES as readonly string[]).includes(s));
+  if (unknown.length) {
+    throw new EscrowError("invalid_token", `Unknown scopes: ${unknown.join(", ")}. Valid: ${TOKEN_SCOPES.join(", ")}`);
+  }
+  return TOKEN_SCOPES.filter((s) => scopes.includes(s));
+}
+
+/** Creates a token. The plaintext is returned only here; it cannot be recovered later. */
+export function issueApiToken(agentId: string, input: IssueTokenInput): { token: ApiToken; secret: string } {
+  const scopes = validateScopes(input.scopes);
+
+  const name = input.name?.trim() || null;
+  if (name && name.length > 100) throw new EscrowError("invalid_token", "name must be at most 100 characters");
+
+  let spendCap: Micros | null = null;
+  if (input.spendCapUsd !== undefined) {
+    spendCap = usdToMicros(input.spendCapUsd);
+    if (!Number.isFinite(spendCap) || spendCap <= 0) {
+      throw new EscrowError("invalid_token", "spend_cap_usd must be a positive number");
+    }
+  }
+
+  let expiresAt: number | null = null;
+  if (input.expiresInHours !== undefined) {
+    const hours = input.expiresInHours;
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_TOKEN_TTL_HOURS) {
+      throw new EscrowError("invalid_token", `expires_in_hours must be greater than 0 and at most ${MAX_TOKEN_TTL_HOURS}`);
+    }
+    expiresAt = Math.floor(Date.now() / 1000 + hours * 3600);
+  }
+
+  const { count } = escrowDb.prepare(
+    "SELECT COUNT(*) AS count FROM api_tokens WHERE agent_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > unixepoch())"
+  ).get(agentId) as { count: number };
+  if (count >= MAX_ACTIVE_TOKENS_PER_AGENT) {
+    throw new EscrowError("invalid_token", `At most ${MAX_ACTIVE_TOKENS_PER_AGENT} active tokens per agent — revoke one first`);
+  }
+
+  const id = `tok_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  const secret = `${TOKEN_PREFIX}${randomBytes(24).toString("hex")}`;
+  escrowDb.prepare(`
+    INSERT INTO api_tokens (id, agent_id, name, token_hash, token_prefix, scopes, spend_cap_micros, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, agentId, name, hashToken(secret), secret.slice(0, TOKEN_PREFIX.length + 8), JSON.stringify(scopes), spendCap, expiresAt);
+  return { token: getApiToken(agentId, id), secret };
+}
+
+export function getApiToken(agentId: string, id: string): ApiToken {
+  const token = escrowDb.prepare("SELECT * FROM api_tokens WHERE id = ? AND agent_id = ?").get(id, agentId) as
+    | ApiToken
+    | undefined;
+  if (!token) throw new EscrowError("not_found", "Token not found");
+  return token;
+}
+
+export function listApiTokens(agentId: string, includeInactive = false): ApiToken[] {
+  return escrowDb.prepare(`
+    SELECT * FROM api_tokens
+    WHERE agent_id = ? ${includeInactive ? "" : "AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > unixepoch())"}
+    ORDER BY created_at DESC, rowid DESC
+  `).all(agentId) as ApiToken[];
+}
+
+export function revokeApiToken(agentId: string, id: string): ApiToken {
+  getApiToken(agentId, id);
+  escrowDb.prepare("UPDATE api_tokens SET revoked_at = unixepoch() WHERE id = ? AND revoked_at IS NULL").run(id);
+  return getApiToken(agentId, id);
+}
+
+// ─── Authentication ───
+
+/**
+ * Resolves a bearer credential: escrow tokens are checked here, anything else
+ * is handed to the balance provider as a casino API key. Returns null for an
+ * unknown credential; a revoked or expired token is rejected with a reason.
+ */
+export async function authenticateCredential(credential: string): Promise<AgentAuth | null> {
+  if (!credential.startsWith(TOKEN_PREFIX)) {
+    const agentId = await balanceProvider.authenticate(credential);
+    return agentId ? { agentId, token: null } : null;
+  }
+
+  const token = escrowDb.prepare("SELECT * FROM api_tokens WHERE token_hash = ?").get(hashToken(credential)) as
+    | ApiToken
+    | undefined;
+  if (!token) return null;
+  if (token.revoked_at) throw new EscrowError("unauthorized", "Escrow token has been revoked");
+  if (token.expires_at && token.expires_at <= Math.floor(Date.now() / 1000)) {
+    throw new EscrowError("unauthorized", "Escrow token has expired");
+  }
+  escrowDb.prepare("UPDATE api_tokens SET last_used_at = unixepoch() WHERE id = ?").run(token.id);
+  return { agentId: token.agent_id, token };
+}
+
+export function hasScope(auth: AgentAuth, scope: TokenScope): boolean {
+  return auth.token === null || scopesOf(auth.token).includes(scope);
+}
+
+export function requireScope(auth: AgentAuth, scope: TokenScope): void {
+  if (!hasScope(auth, scope)) {
+    throw new EscrowError("insufficient_scope", `This token lacks the '${scope}' scope`, {
+      required_scope: scope,
+      token_scopes: scopesOf(auth.token!),
+    });
+  }
+  // A frozen agent keeps read access to its escrows but cannot act on them
+  if (scope !== "read") requireNotFrozen(auth.agentId);
+}
+
+// Tokens cannot mint or revoke tokens — otherwise a leaked token could escalate itself
+export function requireCasinoKey(auth: AgentAuth): void {
+  if (auth.token) {
+    throw new EscrowError("forbidden", "Escrow tokens cannot manage tokens; use your casino API key");
+  }
+}
+
+// ─── Spend caps ───
+
+/** Counts `amount` of newly created escrow against the token's cap, atomically. */
+export function chargeTokenSpend(tokenId: string, amount: Micros): void {
+  const result = escrowDb.prepare(`
+    UPDATE api_tokens SET spent_micros = spent_micros + ?
+    WHERE id = ? AND (spend_cap_micros IS NULL OR spent_micros + ? <= spend_cap_micros)
+  `).run(amount, tokenId, amount);
+  if (result.changes === 0) {
+    const token = escrowDb.prepare("SELECT * FROM api_tokens WHERE id = ?").get(tokenId) as ApiToken;
+    throw new EscrowError("spend_cap_exceeded", "This escrow would exceed the token's spending cap", {
+      spend_cap_usd: microsToUsd(token.spend_cap_micros ?? 0),
+      spent_usd: microsToUsd(token.spent_micros),
+    });
+  }
+}
+
+/** False once the token is revoked or expired — used by work that runs later on a token's behalf. */
+export function isTokenActive(tokenId: string): boolean {
+  const token = escrowDb.prepare("SELECT * FROM api_tokens WHERE id = ?").get(tokenId) as ApiToken | undefined;
+  return !!token && !token.revoked_at && !(token.expires_at && token.expires_at <= Math.floor(Date.now() / 1000));
+}
+
+/** Gives back a charge whose escrow was never created. */
+export function refundTokenSpend(tokenId: string, amount: Micros): void {
+  escrowDb.prepare("UPDATE api_tokens SET spent_micros = MAX(0, spent_micros - ?) WHERE id = ?").run(amount, tokenId);
+}
+
+// ─── Views ───
+export function apiTokenView(token: ApiToken, opts: { secret?: string } = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    token_id: token.id,
+    name: token.name,
+    prefix: token.token_prefix,
+    scopes: scopesOf(token),
+    spend_cap_usd: token.spend_cap_micros === null ? null : microsToUsd(token.spend_cap_micros),
+    spent_usd: microsToUsd(token.spent_micros),
+    remaining_usd: token.spend_cap_micros === null ? null : microsToUsd(Math.max(0, token.spend_cap_micros - token.spent_micros)),
+    expires_at: iso(token.expires_at),
+    revoked_at: iso(token.revoked_at),
+    active: !token.revoked_at && !(token.expires_at && token.expires_at <= now),
+    last_used_at: iso(token.last_used_at),
+    created_at: iso(token.created_at),
+    ...(opts.secret ? { token: opts.secret } : {}),
+  };
+}
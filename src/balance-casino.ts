@@ -0,0 +1,87 @@
+/**
+ * Casino balance provider — reads and writes the casino's own SQLite database
+ * (its `agents` and `ledger_entries` tables). The casino stores REAL dollars;
+ * amounts arrive as micros and every balance write is rounded to six decimals
+ * so float error cannot accumulate there.
+ */
+import Database from "better-sqlite3";
+import { createHash } from "crypto";
+import { microsToUsd, usdToMicros } from "./money.js";
+import { InsufficientBalanceError, ledgerEntryId, type BalanceAgent, type BalanceLeg, type BalanceProvider } from "./balance.js";
+
+interface CasinoAgentRow {
+  id: string;
+  balance_usd: number;
+  referred_by: string | null;
+  referral_code: string | null;
+}
+
+function toAgent(row: CasinoAgentRow | undefined): BalanceAgent | null {
+  if (!row) return null;
+  return { id: row.id, balance: usdToMicros(row.balance_usd), referredBy: row.referred_by, referralCode: row.referral_code };
+}
+
+export function createCasinoBalanceProvider(path: string): BalanceProvider {
+  const casinoDb = new Database(path);
+  casinoDb.pragma("journal_mode = WAL");
+  casinoDb.pragma("busy_timeout = 30000");
+
+  const hasEntry = (entryId: string) => !!casinoDb.prepare("SELECT 1 FROM ledger_entries WHERE id = ?").get(entryId);
+
+  function writeEntry(leg: BalanceLeg): void {
+    const balance = () =>
+      (casinoDb.prepare("SELECT balance_usd FROM agents WHERE id = ?").get(leg.agentId) as { balance_usd: number } | undefined)
+        ?.balance_usd;
+
+    if (leg.direction === "debit") {
+      const current = balance();
+      if (current === undefined || usdToMicros(current) < leg.amount) throw new InsufficientBalanceError(leg.agentId);
+      casinoDb.prepare("UPDATE agents SET balance_usd = ROUND(balance_usd - ?, 6) WHERE id = ?").run(microsToUsd(leg.amount), leg.agentId);
+    } else {
+      const result = casinoDb.prepare("UPDATE agents SET balance_usd = ROUND(balance_usd + ?, 6) WHERE id = ?").run(microsToUsd(leg.amount), leg.agentId);
+      if (result.changes === 0) throw new Error(`casino agent ${leg.agentId} not found`);
+    }
+
+    casinoDb.prepare(`
+      INSERT INTO ledger_entries (id, agent_id, type, amount, balance_after, reason, reference, service, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'escrow', unixepoch())
+    `).run(ledgerEntryId(leg), leg.agentId, leg.direction, microsToUsd(leg.amount), balance(), leg.reason, leg.reference);
+  }
+
+  const applyAll = casinoDb.transaction((legs: BalanceLeg[]) => {
+    for (const leg of legs) {
+      if (!hasEntry(ledgerEntryId(leg))) writeEntry(leg);
+    }
+  });
+
+  return {
+    name: "casino",
+
+    async getAgent(agentId) {
+      return toAgent(casinoDb.prepare(
+        "SELECT id, balance_usd, referred_by, referral_code FROM agents WHERE id = ?"
+      ).get(agentId) as CasinoAgentRow | undefined);
+    },
+
+    async getAgentByReferralCode(code) {
+      return toAgent(casinoDb.prepare(
+        "SELECT id, balance_usd, referred_by, referral_code FROM agents WHERE referral_code = ?"
+      ).get(code) as CasinoAgentRow | undefined);
+    },
+
+    // Casino API keys are stored as sha256 hashes
+    async authenticate(apiKey) {
+      const keyHash = createHash("sha256").update(apiKey).digest("hex");
+      const row = casinoDb.prepare("SELECT id FROM agents WHERE api_key_hash = ?").get(keyHash) as { id: string } | undefined;
+      return row?.id ?? null;
+    },
+
+    async hasLedgerEntry(entryId) {
+      return hasEntry(entryId);
+    },
+
+    async applyLegs(legs) {
+      applyAll(legs);
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * HTTP balance provider — talks to a wallet service. Amounts cross the wire as
+ * integer micros. The wallet must apply a transfer batch atomically and treat
+ * each leg's `entry_id` as an idempotency key.
+ *
+ *   GET  /agents/:id                       → { id, balance_micros, referred_by, referral_code } | 404
+ *   GET  /agents?referral_code=:code       → same | 404
+ *   POST /auth/resolve { api_key }         → { agent_id } | 401/404
+ *   GET  /ledger/:entry_id                 → 200 | 404
+ *   POST /transfers { service, legs: [...] } → 200 | 409 { error: "insufficient_balance", agent_id }
+ *
+ * A provider for a currency other than USD (CURRENCY_PROVIDERS) is given an
+ * `asset`: it is sent as `?asset=USDC` on agent lookups and as `asset` in the
+ * transfer body, and `balance_micros` is read as that asset's balance.
+ */
+import { InsufficientBalanceError, ledgerEntryId, type BalanceAgent, type BalanceProvider } from "./balance.js";
+
+export interface HttpBalanceProviderOptions {
+  baseUrl: string;
+  token?: string;
+  timeoutMs: number;
+  // Currency code the wallet holds the balances in; omitted for USD
+  asset?: string;
+}
+
+interface WalletAgent {
+  id: string;
+  balance_micros: number;
+  referred_by?: string | null;
+  referral_code?: string | null;
+}
+
+export function createHttpBalanceProvider(opts: HttpBalanceProviderOptions): BalanceProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, "");
+  const assetQuery = opts.asset ? `?asset=${encodeURIComponent(opts.asset)}` : "";
+
+  // `expected` lists the non-2xx statuses that are answers rather than failures (e.g. 404 "no such agent")
+  async function call(method: "GET" | "POST", path: string, body?: unknown, expected: number[] = [404]): Promise<Response> {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "purpleflea-escrow/1.0",
+        ...(opts.token ? { authorization: `Bearer ${opts.token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(opts.timeoutMs),
+    });
+    if (!res.ok && !expected.includes(res.status)) {
+      throw new Error(`wallet ${method} ${path} failed: HTTP ${res.status}`);
+    }
+    return res;
+  }
+
+  async function agentFrom(res: Response): Promise<BalanceAgent | null> {
+    if (res.status === 404) return null;
+    const body = (await res.json()) as WalletAgent;
+    if (!Number.isSafeInteger(body.balance_micros)) throw new Error("wallet returned a non-integer balance_micros");
+    return {
+      id: body.id,
+      balance: body.balance_micros,
+      referredBy: body.referred_by ?? null,
+      referralCode: body.referral_code ?? null,
+    };
+  }
+
+  return {
+    name: "http",
+
+    async getAgent(agentId) {
+      return agentFrom(await call("GET", `/agents/${encodeURIComponent(agentId)}${assetQuery}`));
+    },
+
+    async getAgentByReferralCode(code) {
+      return agentFrom(await call("GET", `/agents?referral_code=${encodeURIComponent(code)}`));
+    },
+
+    async authenticate(apiKey) {
+      const res = await call("POST", "/auth/resolve", { api_key: apiKey }, [401, 404]);
+      if (!res.ok) return null;
+      const body = (await res.json()) as { agent_id?: string };
+      return body.agent_id ?? null;
+    },
+
+    async hasLedgerEntry(entryId) {
+      return (await call("GET", `/ledger/${encodeURIComponent(entryId)}`)).ok;
+    },
+
+    async applyLegs(legs) {
+      if (legs.length === 0) return;
+      const res = await call("POST", "/transfers", {
+        service: "escrow",
+        ...(opts.asset ? { asset: opts.asset } : {}),
+        legs: legs.map((leg) => ({
+          entry_id: ledgerEntryId(leg),
+          agent_id: leg.agentId,
+          direction: leg.direction,
+          amount_micros: leg.amount,
+          reason: leg.reason,
+          reference: leg.reference,
+        })),
+      }, [409]);
+      if (res.status === 409) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string; agent_id?: string };
+        if (body.error === "insufficient_balance") throw new InsufficientBalanceError(body.agent_id ?? legs[0].agentId);
+        throw new Error(`wallet rejected transfer: ${body.error ?? "conflict"}`);
+      }
+    },
+  };
+}
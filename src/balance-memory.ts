@@ -0,0 +1,109 @@
+/**
+ * In-memory balance provider for tests and local development. State lives in
+ * the process and is lost on restart; agents come from an optional JSON seed
+ * file (BALANCE_MEMORY_SEED) or are added with `addAgent`.
+ *
+ * Seed file format:
+ *   [{ "id": "ag_alice", "api_key": "dev_alice", "balance_usd": 100,
+ *      "referral_code": "alice", "referred_by": null }]
+ */
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+import { usdToMicros, type Micros } from "./money.js";
+import { InsufficientBalanceError, ledgerEntryId, type BalanceAgent, type BalanceLeg, type BalanceProvider } from "./balance.js";
+
+export interface MemoryAgentSeed {
+  id: string;
+  api_key?: string;
+  balance_usd?: number;
+  referral_code?: string | null;
+  referred_by?: string | null;
+}
+
+export interface MemoryLedgerEntry extends BalanceLeg {
+  id: string;
+  balanceAfter: Micros;
+  createdAt: number;
+}
+
+export interface MemoryBalanceProvider extends BalanceProvider {
+  addAgent(seed: MemoryAgentSeed): BalanceAgent;
+  entries(): MemoryLedgerEntry[];
+}
+
+const hashKey = (apiKey: string) => createHash("sha256").update(apiKey).digest("hex");
+
+export function createMemoryBalanceProvider(seedPath?: string): MemoryBalanceProvider {
+  const agents = new Map<string, BalanceAgent>();
+  const apiKeys = new Map<string, string>(); // sha256(api key) → agent id
+  const ledger = new Map<string, MemoryLedgerEntry>();
+
+  function addAgent(seed: MemoryAgentSeed): BalanceAgent {
+    const agent: BalanceAgent = {
+      id: seed.id,
+      balance: usdToMicros(seed.balance_usd ?? 0),
+      referredBy: seed.referred_by ?? null,
+      referralCode: seed.referral_code ?? null,
+    };
+    agents.set(agent.id, agent);
+    if (seed.api_key) apiKeys.set(hashKey(seed.api_key), agent.id);
+    return { ...agent };
+  }
+
+  if (seedPath) {
+    const seeds = JSON.parse(readFileSync(seedPath, "utf8")) as MemoryAgentSeed[];
+    for (const seed of seeds) addAgent(seed);
+    console.log(`[balance] memory provider seeded with ${seeds.length} agents from ${seedPath}`);
+  }
+
+  return {
+    name: "memory",
+    addAgent,
+
+    entries() {
+      return [...ledger.values()].map((e) => ({ ...e }));
+    },
+
+    async getAgent(agentId) {
+      const agent = agents.get(agentId);
+      return agent ? { ...agent } : null;
+    },
+
+    async getAgentByReferralCode(code) {
+      const agent = [...agents.values()].find((a) => a.referralCode === code);
+      return agent ? { ...agent } : null;
+    },
+
+    async authenticate(apiKey) {
+      return apiKeys.get(hashKey(apiKey)) ?? null;
+    },
+
+    async hasLedgerEntry(entryId) {
+      return ledger.has(entryId);
+    },
+
+    // Validated against a scratch copy of the balances first, so a failing leg leaves nothing applied
+    async applyLegs(legs) {
+      const balances = new Map<string, Micros>();
+      const pending = legs.filter((leg) => !ledger.has(ledgerEntryId(leg)));
+      for (const leg of pending) {
+        const agent = agents.get(leg.agentId);
+        if (!agent) {
+          if (leg.direction === "debit") throw new InsufficientBalanceError(leg.agentId);
+          throw new Error(`agent ${leg.agentId} not found`);
+        }
+        const current = balances.get(leg.agentId) ?? agent.balance;
+        if (leg.direction === "debit" && current < leg.amount) throw new InsufficientBalanceError(leg.agentId);
+        balances.set(leg.agentId, current + (leg.direction === "debit" ? -leg.amount : leg.amount));
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      for (const leg of pending) {
+        const agent = agents.get(leg.agentId)!;
+        agent.balance += leg.direction === "debit" ? -leg.amount : leg.amount;
+        const id = ledgerEntryId(leg);
+        ledger.set(id, { ...leg, id, balanceAfter: agent.balance, createdAt: now });
+      }
+    },
+  };
+}
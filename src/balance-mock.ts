@@ -0,0 +1,87 @@
+/**
+ * Mock asset provider for local testing of non-USD escrows. It holds one
+ * currency's balances in the process — lost on restart — seeded from an
+ * optional JSON file (MOCK_ASSET_SEED) or with `deposit`. Like a wallet
+ * service it opens a wallet on an agent's first credit; it knows nothing
+ * about API keys or referrals, which stay with the main provider.
+ *
+ * Seed file format, by currency:
+ *   { "USDC": { "ag_alice": 100, "ag_bob": 0 } }
+ */
+import { readFileSync } from "fs";
+import { usdToMicros, type Micros } from "./money.js";
+import { InsufficientBalanceError, ledgerEntryId, type BalanceAgent, type BalanceLeg, type BalanceProvider } from "./balance.js";
+
+export interface MockLedgerEntry extends BalanceLeg {
+  id: string;
+  balanceAfter: Micros;
+  createdAt: number;
+}
+
+export interface MockAssetProvider extends BalanceProvider {
+  readonly currency: string;
+  deposit(agentId: string, amount: Micros): void;
+  entries(): MockLedgerEntry[];
+}
+
+export function createMockAssetProvider(currency: string, seedPath?: string): MockAssetProvider {
+  const balances = new Map<string, Micros>();
+  const ledger = new Map<string, MockLedgerEntry>();
+
+  if (seedPath) {
+    const seed = (JSON.parse(readFileSync(seedPath, "utf8")) as Record<string, Record<string, number>>)[currency] ?? {};
+    for (const [agentId, amount] of Object.entries(seed)) balances.set(agentId, usdToMicros(amount));
+    console.log(`[balance] mock ${currency} provider seeded with ${balances.size} wallets from ${seedPath}`);
+  }
+
+  const wallet = (agentId: string): BalanceAgent | null =>
+    balances.has(agentId) ? { id: agentId, balance: balances.get(agentId)!, referredBy: null, referralCode: null } : null;
+
+  return {
+    name: "mock",
+    currency,
+
+    deposit(agentId, amount) {
+      balances.set(agentId, (balances.get(agentId) ?? 0) + amount);
+    },
+
+    entries() {
+      return [...ledger.values()].map((e) => ({ ...e }));
+    },
+
+    async getAgent(agentId) {
+      return wallet(agentId);
+    },
+
+    async getAgentByReferralCode() {
+      return null;
+    },
+
+    async authenticate() {
+      return null;
+    },
+
+    async hasLedgerEntry(entryId) {
+      return ledger.has(entryId);
+    },
+
+    // Checked against a scratch copy first, so a failing leg leaves nothing applied
+    async applyLegs(legs) {
+      const scratch = new Map<string, Micros>();
+      const pending = legs.filter((leg) => !ledger.has(ledgerEntryId(leg)));
+      for (const leg of pending) {
+        const current = scratch.get(leg.agentId) ?? balances.get(leg.agentId) ?? 0;
+        if (leg.direction === "debit" && current < leg.amount) throw new InsufficientBalanceError(leg.agentId);
+        scratch.set(leg.agentId, current + (leg.direction === "debit" ? -leg.amount : leg.amount));
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      for (const leg of pending) {
+        const balance = (balances.get(leg.agentId) ?? 0) + (leg.direction === "debit" ? -leg.amount : leg.amount);
+        balances.set(leg.agentId, balance);
+        const id = ledgerEntryId(leg);
+        ledger.set(id, { ...leg, id, balanceAfter: balance, createdAt: now });
+      }
+    },
+  };
+}
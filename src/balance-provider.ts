@@ -0,0 +1,55 @@
+/**
+ * Picks the balance providers from config. Kept apart from balance.ts so the
+ * provider implementations can import the contract without a cycle.
+ */
+import { BALANCE_PROVIDERS, type BalanceProvider, type BalanceProviderName } from "./balance.js";
+import { createCasinoBalanceProvider } from "./balance-casino.js";
+import { createMemoryBalanceProvider } from "./balance-memory.js";
+import { createHttpBalanceProvider } from "./balance-http.js";
+import { createMockAssetProvider } from "./balance-mock.js";
+import { BASE_CURRENCY, CURRENCY_PROVIDERS } from "./currencies.js";
+
+function walletOptions(asset?: string) {
+  const baseUrl = process.env.WALLET_API_URL;
+  if (!baseUrl) throw new Error(`${asset ? `CURRENCY_PROVIDERS ${asset}=http` : "BALANCE_PROVIDER=http"} requires WALLET_API_URL`);
+  return {
+    baseUrl,
+    token: process.env.WALLET_API_TOKEN,
+    timeoutMs: parseInt(process.env.WALLET_TIMEOUT_MS || "10000"),
+    asset,
+  };
+}
+
+function createBalanceProvider(): BalanceProvider {
+  const name = (process.env.BALANCE_PROVIDER || "casino") as BalanceProviderName;
+  switch (name) {
+    case "casino":
+      return createCasinoBalanceProvider(process.env.CASINO_DB_PATH || "/home/dev/casino/data/casino.db");
+    case "memory":
+      return createMemoryBalanceProvider(process.env.BALANCE_MEMORY_SEED);
+    case "http":
+      return createHttpBalanceProvider(walletOptions());
+    default:
+      throw new Error(`Unknown BALANCE_PROVIDER '${name}' — expected one of: ${BALANCE_PROVIDERS.join(", ")}`);
+  }
+}
+
+/** Agent lookups, API-key auth and USD balances. */
+export const balanceProvider: BalanceProvider = createBalanceProvider();
+
+const assetProviders = new Map<string, BalanceProvider>(
+  [...CURRENCY_PROVIDERS].map(([currency, name]) => [
+    currency,
+    name === "http"
+      ? createHttpBalanceProvider(walletOptions(currency))
+      : createMockAssetProvider(currency, process.env.MOCK_ASSET_SEED),
+  ])
+);
+
+/** The provider holding balances in `currency`; USD goes to the main provider. */
+export function providerFor(currency: string): BalanceProvider {
+  if (currency === BASE_CURRENCY) return balanceProvider;
+  const provider = assetProviders.get(currency);
+  if (!provider) throw new Error(`No balance provider for ${currency} — add it to CURRENCY_PROVIDERS`);
+  return provider;
+}
@@ -0,0 +1,65 @@
+/**
+ * Balance providers — where agent balances, API keys and the money ledger live.
+ *
+ * Escrow never touches balances directly: agent lookups, API-key auth and every
+ * debit/credit go through the provider selected by BALANCE_PROVIDER
+ * (see balance-provider.ts):
+ *   casino  the casino's SQLite database (default, production)
+ *   memory  an in-process ledger for tests and local development
+ *   http    a wallet service reached over its HTTP API
+ *
+ * Escrows in other currencies go to the provider CURRENCY_PROVIDERS names for
+ * that currency (see currencies.ts): the wallet service, holding the asset,
+ * or the in-process mock. Those providers only hold balances — agents are
+ * still looked up and authenticated through the main one.
+ *
+ * Applying legs is all-or-nothing and idempotent on each leg's ledger entry id,
+ * which is what lets the settlement outbox replay a half-finished settlement.
+ */
+import type { Micros } from "./money.js";
+
+export const BALANCE_PROVIDERS = ["casino", "memory", "http"] as const;
+export type BalanceProviderName = (typeof BALANCE_PROVIDERS)[number];
+export const ASSET_PROVIDERS = ["http", "mock"] as const;
+export type AssetProviderName = (typeof ASSET_PROVIDERS)[number];
+
+export interface BalanceAgent {
+  id: string;
+  balance: Micros;
+  referredBy: string | null;
+  referralCode: string | null;
+}
+
+export interface BalanceLeg {
+  agentId: string;
+  direction: "debit" | "credit";
+  amount: Micros;
+  reason: string;
+  reference: string;
+}
+
+export interface BalanceProvider {
+  readonly name: BalanceProviderName | AssetProviderName;
+  getAgent(agentId: string): Promise<BalanceAgent | null>;
+  getAgentByReferralCode(code: string): Promise<BalanceAgent | null>;
+  /** Agent id for an API key, or null if the key is unknown. */
+  authenticate(apiKey: string): Promise<string | null>;
+  hasLedgerEntry(entryId: string): Promise<boolean>;
+  /**
+   * Applies every leg or none. Legs whose ledger entry already exists are
+   * skipped. Throws InsufficientBalanceError if a debit cannot be covered.
+   */
+  applyLegs(legs: BalanceLeg[]): Promise<void>;
+}
+
+export class InsufficientBalanceError extends Error {
+  constructor(readonly agentId: string) {
+    super(`Insufficient balance for ${agentId}`);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+// A leg's ledger entry id is derived from its reference, so replays are no-ops
+export function ledgerEntryId(leg: Pick<BalanceLeg, "reference" | "direction">): string {
+  return leg.reference + (leg.direction === "debit" ? "_debit" : "_credit");
+}
@@ -0,0 +1,274 @@
+/**
+ * Cancelling a funded escrow before the work is done.
+ *
+ * The creator cancels outright while the counterparty has not acknowledged
+ * the escrow or started work. After that, cancelling takes consent: the
+ * creator requests it and the counterparty (every payee, for a multi-party
+ * escrow) agrees. Either way everything still held is refunded to the creator
+ * at once, less CANCELLATION_FEE_BPS, which is booked as commission. An open
+ * job nobody has been assigned yet is withdrawn instead, with no fee (see
+ * job-board.ts).
+ *
+ * The counterparty counts as engaged once it has acknowledged the escrow,
+ * accepted its offer, been assigned it from the job board, completed any part
+ * of it, or proposed or answered an amendment.
+ */
+import { randomUUID } from "crypto";
+import {
+  escrowDb,
+  counterpartyIds,
+  getMilestones,
+  getPayees,
+  markAcknowledged,
+  markCancelled,
+  recordEvent,
+  type Escrow,
+} from "./db.js";
+import { EscrowError } from "./errors.js";
+import { loadEscrow, outstandingPortion } from "./escrow-service.js";
+import { withdrawJob } from "./job-board.js";
+import { COMMISSION_BPS } from "./fees.js";
+import { getReferrals, referralOf, referralLegs } from "./referrals.js";
+import { bpsOf, formatMoney, microsToUsd, type Micros } from "./money.js";
+import { openSettlement, settle, type SettlementLeg } from "./settlement.js";
+
+// ─── Config ───
+const DEFAULT_CANCELLATION_FEE_BPS = COMMISSION_BPS / 2;
+export const CANCELLATION_FEE_BPS = parseFeeBps(process.env.CANCELLATION_FEE_BPS);
+
+// A value that isn't a number falls back to the default rather than making every fee NaN
+function parseFeeBps(value: string | undefined): number {
+  const bps = parseInt(value || String(DEFAULT_CANCELLATION_FEE_BPS));
+  return Number.isFinite(bps) ? Math.max(0, Math.min(10_000, bps)) : DEFAULT_CANCELLATION_FEE_BPS;
+}
+
+// ─── Types ───
+export type CancellationStatus = "pending" | "accepted" | "declined" | "withdrawn" | "void";
+
+export interface Cancellation {
+  id: string;
+  escrow_id: string;
+  requested_by: string;
+  reason: string | null;
+  status: CancellationStatus;
+  decided_by: string | null;
+  created_at: number;
+  decided_at: number | null;
+}
+
+export interface CancelResult {
+  escrow: Escrow;
+  // The consent request, when the counterparty has to agree first
+  cancellation: Cancellation | null;
+  // Set once the escrow is cancelled
+  refund: { amount: Micros; fee: Micros } | null;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+/** The fee charged for cancelling the amount still held. Rounded half-up, like commission. */
+export function cancellationFeeOf(amount: Micros): Micros {
+  return bpsOf(amount, CANCELLATION_FEE_BPS, "half_up");
+}
+
+/** Whether the counterparty has acknowledged the escrow or started work; cancelling then needs its consent. */
+export function counterpartyEngaged(escrow: Escrow): boolean {
+  if (escrow.acknowledged_at !== null || escrow.accepted_at !== null || escrow.claimed_at !== null || escrow.completed_at !== null) {
+    return true;
+  }
+  if ([...getMilestones(escrow.id), ...getPayees(escrow.id)].some((row) => row.completed_at !== null)) return true;
+  return escrowDb.prepare(
+    "SELECT 1 FROM escrow_amendments WHERE escrow_id = ? AND (proposed_by != ? OR (decided_by IS NOT NULL AND decided_by != ?)) LIMIT 1"
+  ).get(escrow.id, escrow.creator_id, escrow.creator_id) !== undefined;
+}
+
+function pendingCancellation(escrowId: string): Cancellation | null {
+  return (escrowDb.prepare("SELECT * FROM escrow_cancellations WHERE escrow_id = ? AND status = 'pending'").get(escrowId) as
+    | Cancellation
+    | undefined) ?? null;
+}
+
+function consentsTo(cancellationId: string): string[] {
+  return (escrowDb.prepare("SELECT agent_id FROM cancellation_consents WHERE cancellation_id = ? ORDER BY created_at ASC, rowid ASC")
+    .all(cancellationId) as { agent_id: string }[]).map((r) => r.agent_id);
+}
+
+function loadPending(actorId: string, escrowId: string): { escrow: Escrow; cancellation: Cancellation } {
+  const escrow = loadEscrow(escrowId);
+  const cancellation = pendingCancellation(escrowId);
+  if (!cancellation || (escrow.creator_id !== actorId && !counterpartyIds(escrow).includes(actorId))) {
+    throw new EscrowError("not_found", "No pending cancellation request on this escrow");
+  }
+  if (escrow.status !== "funded") {
+    // Completed, released or disputed while the request waited; it can no longer apply
+    escrowDb.prepare("UPDATE escrow_cancellations SET status = 'void', decided_at = unixepoch() WHERE id = ? AND status = 'pending'")
+      .run(cancellation.id);
+    throw new EscrowError("invalid_status", `Escrow is ${escrow.status}; the cancellation request no longer applies`);
+  }
+  return { escrow, cancellation };
+}
+
+// ─── Cancel ───
+/**
+ * Cancels the escrow and opens the refund settlement. Runs inside the caller's
+ * transaction; returns null if the escrow left 'funded' in the meantime.
+ */
+function cancelNow(escrow: Escrow, actorId: string, note: string): { settlementId: string; amount: Micros; fee: Micros } | null {
+  const portion = outstandingPortion(escrow);
+  const fee = cancellationFeeOf(portion.amount);
+  const referral = referralOf(fee, getReferrals(escrow.id));
+  if (!markCancelled(escrow.id, actorId, `${note} — ${formatMoney(portion.amount - fee, escrow.currency)} refunded, ${formatMoney(fee, escrow.currency)} cancellation fee`, fee)) {
+    return null;
+  }
+
+  const legs: SettlementLeg[] = [
+    { agentId: escrow.creator_id, direction: "credit", amount: portion.amount - fee, reason: `escrow_cancel_refund: ${escrow.id}`, reference: escrow.id + "_cancel" },
+    ...referralLegs(escrow, referral, escrow.id + "_cancel"),
+  ];
+  return { settlementId: openSettlement(escrow.id, "refund", legs, fee - referral), amount: portion.amount - fee, fee };
+}
+
+async function finish(escrow: Escrow, cancelled: { settlementId: string; amount: Micros; fee: Micros }) {
+  await settle(cancelled.settlementId);
+  console.log(
+    `[escrow] cancelled ${escrow.id} → creator refunded ${formatMoney(cancelled.amount, escrow.currency)} (fee ${formatMoney(cancelled.fee, escrow.currency)})`
+  );
+  return { amount: cancelled.amount, fee: cancelled.fee };
+}
+
+const changedConcurrently = () => new EscrowError("invalid_status", "Escrow changed concurrently — fetch it again");
+
+/**
+ * The creator cancels a funded escrow: at once if the counterparty is not yet
+ * engaged, otherwise by opening a request the counterparty has to consent to.
+ * An open job has no counterparty yet and is refunded in full.
+ */
+export async function cancelEscrow(actorId: string, escrowId: string, reason?: string): Promise<CancelResult> {
+  const escrow = loadEscrow(escrowId);
+  if (escrow.creator_id !== actorId) throw new EscrowError("forbidden", "Only the creator can cancel an escrow");
+  const trimmed = reason?.trim().slice(0, 500) || null;
+  if (escrow.status === "open") {
+    const withdrawn = await withdrawJob(actorId, escrow.id, trimmed);
+    return { escrow: withdrawn, cancellation: null, refund: { amount: withdrawn.amount_micros, fee: 0 } };
+  }
+  if (escrow.status !== "funded") {
+    throw new EscrowError("invalid_status", `Only a funded escrow or an open job can be cancelled (status '${escrow.status}') — release or dispute it instead`);
+  }
+
+  if (!counterpartyEngaged(escrow)) {
+    const cancelled = escrowDb.transaction(() => cancelNow(escrow, actorId, `Cancelled by the creator${trimmed ? `: ${trimmed}` : ""}`))();
+    if (!cancelled) throw changedConcurrently();
+    const refund = await finish(escrow, cancelled);
+    return { escrow: loadEscrow(escrow.id), cancellation: null, refund };
+  }
+
+  const id = `cxl_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.transaction(() => {
+    const inserted = escrowDb.prepare(
+      "INSERT INTO escrow_cancellations (id, escrow_id, requested_by, reason) VALUES (?, ?, ?, ?) ON CONFLICT DO NOTHING"
+    ).run(id, escrow.id, actorId, trimmed);
+    if (inserted.changes === 0) throw new EscrowError("invalid_status", "A cancellation request is already pending on this escrow");
+    recordEvent(escrow.id, "cancellation_requested", actorId, `Cancellation requested${trimmed ? `: ${trimmed}` : ""}`);
+  })();
+  return { escrow, cancellation: getCancellation(id), refund: null };
+}
+
+/** The counterparty (or one payee) agrees to the pending request; the last consent cancels the escrow. */
+export async function consentToCancellation(actorId: string, escrowId: string): Promise<CancelResult> {
+  const { escrow, cancellation } = loadPending(actorId, escrowId);
+  const required = counterpartyIds(escrow);
+  if (!required.includes(actorId)) throw new EscrowError("forbidden", "Only the counterparty can consent to a cancellation");
+
+  const cancelled = escrowDb.transaction(() => {
+    const consent = escrowDb.prepare(
+      "INSERT INTO cancellation_consents (cancellation_id, agent_id) VALUES (?, ?) ON CONFLICT DO NOTHING"
+    ).run(cancellation.id, actorId);
+    if (consent.changes > 0) recordEvent(escrow.id, "cancellation_consented", actorId, `Consented to cancellation ${cancellation.id}`);
+    const consents = consentsTo(cancellation.id);
+    if (!required.every((agentId) => consents.includes(agentId))) return null;
+
+    const accepted = escrowDb.prepare(
+      "UPDATE escrow_cancellations SET status = 'accepted', decided_by = ?, decided_at = unixepoch() WHERE id = ? AND status = 'pending'"
+    ).run(actorId, cancellation.id);
+    const result = accepted.changes > 0 ? cancelNow(escrow, actorId, "Cancelled by mutual consent") : null;
+    if (!result) throw changedConcurrently();
+    return result;
+  })();
+
+  const refund = cancelled ? await finish(escrow, cancelled) : null;
+  return { escrow: loadEscrow(escrow.id), cancellation: getCancellation(cancellation.id), refund };
+}
+
+/** Declines the pending request; when the creator calls it, the request is withdrawn. */
+export function declineCancellation(actorId: string, escrowId: string, reason?: string): Cancellation {
+  const { cancellation } = loadPending(actorId, escrowId);
+  const withdrawn = actorId === cancellation.requested_by;
+  const trimmed = reason?.trim().slice(0, 500);
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE escrow_cancellations SET status = ?, decided_by = ?, decided_at = unixepoch() WHERE id = ? AND status = 'pending'"
+    ).run(withdrawn ? "withdrawn" : "declined", actorId, cancellation.id);
+    if (result.changes === 0) throw new EscrowError("invalid_status", "Cancellation request changed concurrently — fetch it again");
+    recordEvent(
+      escrowId,
+      withdrawn ? "cancellation_withdrawn" : "cancellation_declined",
+      actorId,
+      `${withdrawn ? "Withdrew" : "Declined"} cancellation ${cancellation.id}${trimmed ? `: ${trimmed}` : ""}`
+    );
+  })();
+  return getCancellation(cancellation.id)!;
+}
+
+// ─── Acknowledge ───
+/** The counterparty (or a payee) confirms it has seen the escrow; from then on cancelling needs its consent. */
+export function acknowledgeEscrow(actorId: string, escrowId: string): Escrow {
+  const escrow = loadEscrow(escrowId);
+  if (!counterpartyIds(escrow).includes(actorId)) throw new EscrowError("forbidden", "Only the counterparty can acknowledge an escrow");
+  if (escrow.status !== "funded") {
+    throw new EscrowError("invalid_status", `Only a funded escrow can be acknowledged (status '${escrow.status}')`);
+  }
+  markAcknowledged(escrow.id, actorId); // already acknowledged is fine
+  return loadEscrow(escrow.id);
+}
+
+// ─── Queries ───
+export function getCancellation(id: string): Cancellation | null {
+  return (escrowDb.prepare("SELECT * FROM escrow_cancellations WHERE id = ?").get(id) as Cancellation | undefined) ?? null;
+}
+
+// ─── Views ───
+export function cancellationView(cancellation: Cancellation) {
+  return {
+    cancellation_id: cancellation.id,
+    escrow_id: cancellation.escrow_id,
+    status: cancellation.status,
+    requested_by: cancellation.requested_by,
+    reason: cancellation.reason,
+    consented_by: consentsTo(cancellation.id),
+    decided_by: cancellation.decided_by,
+    created_at: iso(cancellation.created_at),
+    decided_at: iso(cancellation.decided_at),
+  };
+}
+
+/** What cancelling a funded escrow or open job would take and cost right now; null once it can't be cancelled. */
+export function cancellationTermsView(escrow: Escrow) {
+  if (escrow.status === "open") {
+    return { requires_consent: false, fee_bps: 0, fee_usd: 0, refund_usd: microsToUsd(escrow.amount_micros), pending_request: null };
+  }
+  if (escrow.status !== "funded") return null;
+  const amount = outstandingPortion(escrow).amount;
+  const pending = pendingCancellation(escrow.id);
+  const consents = pending ? consentsTo(pending.id) : [];
+  return {
+    requires_consent: counterpartyEngaged(escrow),
+    fee_bps: CANCELLATION_FEE_BPS,
+    fee_usd: microsToUsd(cancellationFeeOf(amount)),
+    refund_usd: microsToUsd(amount - cancellationFeeOf(amount)),
+    pending_request: pending
+      ? { ...cancellationView(pending), awaiting_agent_ids: counterpartyIds(escrow).filter((id) => !consents.includes(id)) }
+      : null,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Money consistency check — proves from the settlement outbox that every
+ * settled escrow paid out exactly what it locked:
+ *
+ *   amount = net (to creator/counterparty) + house commission + referral
+ *
+ * where amount is what was locked, adjusted by any approved amendments —
+ * and that the public stats totals equal the sums of the escrow rows, currency
+ * by currency.
+ */
+import { escrowDb, getCurrencyStats, type Escrow } from "./db.js";
+import { getSettlement } from "./settlement.js";
+import { sumMicros, type Micros } from "./money.js";
+
+export interface EscrowMoneyCheck {
+  escrow_id: string;
+  status: Escrow["status"];
+  amount_micros: Micros;
+  locked_micros: Micros;
+  net_micros: Micros;
+  house_micros: Micros;
+  referral_micros: Micros;
+  problems: string[];
+}
+
+export interface ConsistencyReport {
+  ok: boolean;
+  checked: number;
+  // Settled before the outbox existed — there are no legs to verify them against
+  unverifiable: string[];
+  failures: EscrowMoneyCheck[];
+  stats: CurrencyStatsCheck[];
+}
+
+export interface CurrencyStatsCheck {
+  currency: string;
+  total_volume_micros: Micros;
+  sum_amount_micros: Micros;
+  total_commission_micros: Micros;
+  sum_commission_charged_micros: Micros;
+  ok: boolean;
+}
+
+const SETTLED_STATUSES = ["released", "refunded", "resolved", "cancelled"];
+
+function checkEscrow(escrow: Escrow): EscrowMoneyCheck | null {
+  const ids = escrowDb.prepare("SELECT id FROM settlements WHERE escrow_id = ? ORDER BY created_at ASC").all(escrow.id) as {
+    id: string;
+  }[];
+  const settlements = ids.map(({ id }) => getSettlement(id)!).filter((s) => s.status !== "rolled_back" && s.status !== "failed");
+  if (settlements.length === 0) return null;
+
+  const problems: string[] = [];
+  const pending = settlements.filter((s) => s.status !== "applied");
+  if (pending.length) problems.push(`${pending.length} settlement(s) not applied: ${pending.map((s) => s.id).join(", ")}`);
+
+  const locks = settlements.filter((s) => s.kind === "lock" || s.kind === "amendment");
+  const payouts = settlements.filter((s) => s.kind !== "lock" && s.kind !== "amendment").flatMap((s) => s.legs);
+  const lockLegs = locks.flatMap((s) => s.legs);
+  const locked = sumMicros(lockLegs.filter((l) => l.direction === "debit").map((l) => l.amount)) -
+    sumMicros(lockLegs.filter((l) => l.direction === "credit").map((l) => l.amount));
+  const referral = sumMicros(payouts.filter((l) => l.reference.endsWith("_refcom")).map((l) => l.amount));
+  const net = sumMicros(payouts.filter((l) => l.direction === "credit" && !l.reference.endsWith("_refcom")).map((l) => l.amount));
+  const house = escrow.commission_charged_micros - referral;
+
+  if (locks.length && locked !== escrow.amount_micros) problems.push("locked amount differs from escrow amount");
+  if (net + house + referral !== escrow.amount_micros) problems.push("amount ≠ net + house + referral");
+  if (house < 0) problems.push("referral exceeds commission charged");
+  if (payouts.some((l) => !Number.isInteger(l.amount))) problems.push("non-integer settlement leg");
+
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    amount_micros: escrow.amount_micros,
+    locked_micros: locked,
+    net_micros: net,
+    house_micros: house,
+    referral_micros: referral,
+    problems,
+  };
+}
+
+export function checkMoneyConsistency(): ConsistencyReport {
+  const settled = escrowDb.prepare(
+    `SELECT * FROM escrows WHERE status IN (${SETTLED_STATUSES.map(() => "?").join(", ")}) ORDER BY created_at ASC`
+  ).all(...SETTLED_STATUSES) as Escrow[];
+
+  const unverifiable: string[] = [];
+  const failures: EscrowMoneyCheck[] = [];
+  for (const escrow of settled) {
+    const check = checkEscrow(escrow);
+    if (!check) unverifiable.push(escrow.id);
+    else if (check.problems.length) failures.push(check);
+  }
+
+  const sums = new Map(
+    (escrowDb.prepare(`
+      SELECT currency, SUM(amount_micros) AS amount, SUM(commission_charged_micros) AS commission
+      FROM escrows WHERE funded_at IS NOT NULL GROUP BY currency
+    `).all() as { currency: string; amount: Micros; commission: Micros }[]).map((row) => [row.currency, row])
+  );
+  const rows = getCurrencyStats();
+  // A currency with funded escrows but no stats row shows up as a zero row
+  for (const currency of sums.keys()) {
+    if (!rows.some((r) => r.currency === currency)) {
+      rows.push({ currency, total_created: 0, total_released: 0, total_disputed: 0, total_volume_micros: 0, total_commission_micros: 0 });
+    }
+  }
+  const stats = rows.map((row): CurrencyStatsCheck => {
+    const sum = sums.get(row.currency) ?? { amount: 0, commission: 0 };
+    return {
+      currency: row.currency,
+      total_volume_micros: row.total_volume_micros,
+      sum_amount_micros: sum.amount,
+      total_commission_micros: row.total_commission_micros,
+      sum_commission_charged_micros: sum.commission,
+      ok: row.total_volume_micros === sum.amount && row.total_commission_micros === sum.commission,
+    };
+  });
+
+  return {
+    ok: failures.length === 0 && stats.every((s) => s.ok),
+    checked: settled.length - unverifiable.length,
+    unverifiable,
+    failures,
+    stats,
+  };
+}
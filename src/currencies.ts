@@ -0,0 +1,158 @@
+/**
+ * Currencies — what an escrow is denominated in and where its money lives.
+ *
+ * Every escrow carries a currency code. USD is held by the balance provider
+ * chosen with BALANCE_PROVIDER; other currencies (USDC and similar tokens)
+ * are enabled with CURRENCY_PROVIDERS, which routes each code to a provider
+ * of its own (see balance-provider.ts):
+ *
+ *   CURRENCY_PROVIDERS="USDC=http,EURC=mock"
+ *   FX_RATES="USDC=1,EURC=1.08"          (USD per unit; required for each)
+ *
+ * All of an escrow's money moves in its own currency. A cross-currency deal
+ * is priced in a quote currency and converted once, at creation, at the rate
+ * then in force; that quote is locked onto the escrow (see FxQuote).
+ * Amounts in USD terms — volume tiers, fee caps, token spending caps and
+ * reputation volume — use the same rates.
+ */
+import { EscrowError } from "./errors.js";
+import { ASSET_PROVIDERS, type AssetProviderName } from "./balance.js";
+import { convertAt, microsToUsd, roundRate, type Micros } from "./money.js";
+
+// ─── Config ───
+export const BASE_CURRENCY = "USD";
+const CURRENCY_CODE = /^[A-Z][A-Z0-9]{1,9}$/;
+
+/** Currency code → provider, for every currency besides USD. */
+export const CURRENCY_PROVIDERS: ReadonlyMap<string, AssetProviderName> = parsePairs("CURRENCY_PROVIDERS", (code, value) => {
+  if (!ASSET_PROVIDERS.includes(value as AssetProviderName)) {
+    throw new Error(`CURRENCY_PROVIDERS: ${code} must use one of: ${ASSET_PROVIDERS.join(", ")}`);
+  }
+  return value as AssetProviderName;
+});
+
+// USD value of one unit of each currency
+const USD_RATES: ReadonlyMap<string, number> = parsePairs("FX_RATES", (code, value) => {
+  const rate = roundRate(parseFloat(value));
+  if (!Number.isFinite(rate) || rate <= 0) throw new Error(`FX_RATES: ${code} must have a positive rate`);
+  return rate;
+});
+
+export const CURRENCIES: readonly string[] = [BASE_CURRENCY, ...CURRENCY_PROVIDERS.keys()];
+
+for (const code of CURRENCY_PROVIDERS.keys()) {
+  if (!USD_RATES.has(code)) throw new Error(`FX_RATES has no rate for ${code}, which CURRENCY_PROVIDERS enables`);
+}
+
+// "USDC=http,EURC=mock" → Map { USDC → "http", EURC → "mock" }
+function parsePairs<T>(name: string, parse: (code: string, value: string) => T): Map<string, T> {
+  const pairs = new Map<string, T>();
+  for (const entry of (process.env[name] ?? "").split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [rawCode, value = ""] = entry.split("=").map((part) => part.trim());
+    const code = rawCode.toUpperCase();
+    if (!CURRENCY_CODE.test(code) || code === BASE_CURRENCY) {
+      throw new Error(`${name}: '${rawCode}' is not a currency code other than ${BASE_CURRENCY}`);
+    }
+    pairs.set(code, parse(code, value));
+  }
+  return pairs;
+}
+
+// ─── Types ───
+/**
+ * The conversion a cross-currency escrow was created under, stored as JSON on
+ * the escrow row. Amounts given in `quote_currency` were converted into the
+ * escrow's currency at `rate`; later counters and amendments are made in the
+ * escrow's currency.
+ */
+export interface FxQuote {
+  quote_currency: string;
+  currency: string;
+  // Units of the escrow's currency per unit of the quote currency
+  rate: number;
+  // The escrow amount as priced, in the quote currency
+  quoted_amount_micros: Micros;
+  locked_at: number;
+}
+
+// ─── Lookup ───
+/** Normalizes and checks a currency code; omitted means USD. */
+export function parseCurrency(input: string | undefined, field = "currency"): string {
+  if (input === undefined || input === null || input === "") return BASE_CURRENCY;
+  const code = String(input).trim().toUpperCase();
+  if (!CURRENCIES.includes(code)) {
+    throw new EscrowError("invalid_currency", `${field} must be one of: ${CURRENCIES.join(", ")}`);
+  }
+  return code;
+}
+
+export function usdRate(currency: string): number {
+  if (currency === BASE_CURRENCY) return 1;
+  const rate = USD_RATES.get(currency);
+  if (rate === undefined) throw new EscrowError("invalid_currency", `No exchange rate for ${currency}`);
+  return rate;
+}
+
+/** Units of `to` per unit of `from`, to eight decimals. */
+export function fxRate(from: string, to: string): number {
+  return from === to ? 1 : roundRate(usdRate(from) / usdRate(to));
+}
+
+/** An amount's USD value at the current rate, rounded half-up. */
+export function toUsd(amount: Micros, currency: string): Micros {
+  return currency === BASE_CURRENCY ? amount : convertAt(amount, usdRate(currency), "half_up");
+}
+
+/** A USD amount in another currency at the current rate, rounded half-up. */
+export function fromUsd(amount: Micros, currency: string): Micros {
+  return currency === BASE_CURRENCY ? amount : convertAt(amount, fxRate(BASE_CURRENCY, currency), "half_up");
+}
+
+// ─── FX quotes ───
+/**
+ * Locks the current rate for pricing an escrow in `quoteCurrency`. Returns
+ * null when there is nothing to convert. `quoted_amount_micros` is filled in
+ * once the amount is known.
+ */
+export function lockFxQuote(quoteCurrency: string | undefined, currency: string): FxQuote | null {
+  if (quoteCurrency === undefined) return null;
+  const from = parseCurrency(quoteCurrency, "quote_currency");
+  if (from === currency) return null;
+  return {
+    quote_currency: from,
+    currency,
+    rate: fxRate(from, currency),
+    quoted_amount_micros: 0,
+    locked_at: Math.floor(Date.now() / 1000),
+  };
+}
+
+/** Converts an amount given in the quote currency into the escrow's currency. */
+export function convertQuoted(amount: Micros, quote: FxQuote | null): Micros {
+  return quote && Number.isFinite(amount) ? convertAt(amount, quote.rate, "half_up") : amount;
+}
+
+export function fxQuoteOf(row: { fx_quote: string | null }): FxQuote | null {
+  return row.fx_quote ? (JSON.parse(row.fx_quote) as FxQuote) : null;
+}
+
+// ─── Views ───
+export function fxQuoteView(quote: FxQuote | null) {
+  if (!quote) return null;
+  return {
+    quote_currency: quote.quote_currency,
+    currency: quote.currency,
+    rate: quote.rate,
+    quoted_amount: microsToUsd(quote.quoted_amount_micros),
+    locked_at: new Date(quote.locked_at * 1000).toISOString(),
+  };
+}
+
+/** Enabled currencies with their providers and USD rates, for the public docs endpoints. */
+export function currenciesView(defaultProvider: string) {
+  return CURRENCIES.map((code) => ({
+    currency: code,
+    provider: code === BASE_CURRENCY ? defaultProvider : CURRENCY_PROVIDERS.get(code)!,
+    usd_rate: usdRate(code),
+  }));
+}
@@ -1,5 +1,10 @@
 import Database, { type Database as DatabaseType } from "better-sqlite3";
 import { existsSync, mkdirSync } from "fs";
+import { formatMoney, type Micros } from "./money.js";
+import { runMigrations } from "./migrations.js";
+import type { FeeSchedule } from "./fees.js";
+import type { ReferralLink } from "./referrals.js";
+import { CURRENCIES, toUsd, type FxQuote } from "./currencies.js";
 
 const dir = "./data";
 if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
@@ -11,70 +16,19 @@ escrowDb.pragma("journal_mode = WAL");
 escrowDb.pragma("foreign_keys = ON");
 escrowDb.pragma("busy_timeout = 30000");
 
-// Casino DB — for balance debit/credit
-const CASINO_DB_PATH = process.env.CASINO_DB_PATH || "/home/dev/casino/data/casino.db";
-export const casinoDb: DatabaseType = new Database(CASINO_DB_PATH);
-casinoDb.pragma("journal_mode = WAL");
-casinoDb.pragma("busy_timeout = 30000");
-
 // ─── Schema ───
-escrowDb.exec(`
-  CREATE TABLE IF NOT EXISTS escrows (
-    id TEXT PRIMARY KEY,
-    creator_id TEXT NOT NULL,
-    counterparty_id TEXT NOT NULL,
-    amount_usd REAL NOT NULL,
-    commission_usd REAL NOT NULL,
-    description TEXT NOT NULL,
-    status TEXT NOT NULL DEFAULT 'funded',
-    timeout_hours INTEGER NOT NULL DEFAULT 24,
-    created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-    funded_at INTEGER,
-    completed_at INTEGER,
-    released_at INTEGER,
-    disputed_at INTEGER,
-    auto_release_at INTEGER NOT NULL,
-    referrer_id TEXT,
-    referral_commission_usd REAL NOT NULL DEFAULT 0
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_escrows_creator ON escrows(creator_id);
-  CREATE INDEX IF NOT EXISTS idx_escrows_counterparty ON escrows(counterparty_id);
-  CREATE INDEX IF NOT EXISTS idx_escrows_status ON escrows(status);
-  CREATE INDEX IF NOT EXISTS idx_escrows_auto_release ON escrows(auto_release_at, status);
-
-  CREATE TABLE IF NOT EXISTS escrow_events (
-    id TEXT PRIMARY KEY,
-    escrow_id TEXT NOT NULL REFERENCES escrows(id),
-    event TEXT NOT NULL,
-    actor_id TEXT,
-    note TEXT,
-    created_at INTEGER NOT NULL DEFAULT (unixepoch())
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_events_escrow ON escrow_events(escrow_id);
-
-  CREATE TABLE IF NOT EXISTS escrow_stats (
-    id INTEGER PRIMARY KEY CHECK (id = 1),
-    total_created INTEGER NOT NULL DEFAULT 0,
-    total_released INTEGER NOT NULL DEFAULT 0,
-    total_disputed INTEGER NOT NULL DEFAULT 0,
-    total_volume_usd REAL NOT NULL DEFAULT 0,
-    total_commission_usd REAL NOT NULL DEFAULT 0
-  );
-
-  INSERT OR IGNORE INTO escrow_stats (id) VALUES (1);
-`);
+// Versioned migrations (see migrations.ts); refuses to start on a newer schema
+runMigrations(escrowDb);
 
 // ─── Types ───
 export interface Escrow {
   id: string;
   creator_id: string;
   counterparty_id: string;
-  amount_usd: number;
-  commission_usd: number;
+  amount_micros: Micros;
+  commission_micros: Micros;
   description: string;
-  status: "funded" | "completed" | "released" | "disputed" | "refunded";
+  status: EscrowStatus;
   timeout_hours: number;
   created_at: number;
   funded_at: number | null;
@@ -83,204 +37,689 @@ export interface Escrow {
   disputed_at: number | null;
   auto_release_at: number;
   referrer_id: string | null;
-  referral_commission_usd: number;
+  referral_commission_micros: Micros;
+  // Commission booked so far (by releases, timeouts and dispute resolutions)
+  commission_charged_micros: Micros;
+  arbiter_id: string | null;
+  dispute_deadline_at: number | null;
+  dispute_outcome: DisputeOutcome | null;
+  dispute_counterparty_pct: number | null;
+  resolved_at: number | null;
+  deliverable_kind: "sha256" | "json_schema" | null;
+  deliverable_spec: string | null;
+  deliverable_verified_at: number | null;
+  timeout_policy: TimeoutPolicy;
+  // Hours after the last completion during which the timeout does not fire
+  completion_grace_hours: number;
+  // 1 if a timeout refund still charges commission
+  commission_on_refund: number;
+  // Set while the escrow is an unaccepted offer (see offers.ts)
+  offer_expires_at: number | null;
+  // Token the creator made the offer with; its spend cap is charged on acceptance
+  offer_token_id: string | null;
+  accepted_at: number | null;
+  // Open jobs (see job-board.ts): JSON array of tags, how the worker is chosen, claim deadline
+  job_tags: string | null;
+  job_claim_mode: JobClaimMode | null;
+  job_deadline_at: number | null;
+  claimed_at: number | null;
+  // Minimum reputation the counterparty must have (see reputation.ts)
+  min_reputation_score: number | null;
+  min_reputation_escrows: number | null;
+  reputation_recorded_at: number | null;
+  // Set on each cycle of a recurring escrow (see recurring.ts)
+  recurring_id: string | null;
+  recurring_cycle: number | null;
+  // When the counterparty (or a payee) acknowledged the escrow (see cancellations.ts)
+  acknowledged_at: number | null;
+  cancelled_at: number | null;
+  // JSON FeeSchedule the commission was worked out under (see fees.ts)
+  fee_schedule: string | null;
+  // What every amount is denominated in (see currencies.ts)
+  currency: string;
+  // JSON FxQuote for an escrow priced in another currency
+  fx_quote: string | null;
 }
 
-// ─── Casino helpers ───
-interface CasinoAgent {
+export type JobClaimMode = "creator_picks" | "first_claim";
+
+// offered/countered/rejected/expired are offers, which never held funds;
+// open is a funded job nobody has been assigned to yet
+export type EscrowStatus =
+  | "open"
+  | "offered"
+  | "countered"
+  | "rejected"
+  | "expired"
+  | "funded"
+  | "completed"
+  | "released"
+  | "disputed"
+  | "refunded"
+  | "resolved"
+  | "cancelled";
+
+export type TimeoutPolicy = "refund_creator" | "release_if_completed" | "escalate_dispute";
+
+export type DisputeOutcome = "release" | "refund" | "split";
+
+export interface DisputeEvidence {
   id: string;
-  balance_usd: number;
-  referred_by: string | null;
-  referral_code: string | null;
-}
-
-export function getCasinoAgent(agentId: string): CasinoAgent | null {
-  return casinoDb.prepare(
-    "SELECT id, balance_usd, referred_by, referral_code FROM agents WHERE id = ?"
-  ).get(agentId) as CasinoAgent | null;
-}
-
-export function debitCasinoBalance(
-  agentId: string,
-  amount: number,
-  reason: string,
-  reference: string
-): boolean {
-  let success = false;
-  casinoDb.transaction(() => {
-    const agent = casinoDb.prepare("SELECT balance_usd FROM agents WHERE id = ?").get(agentId) as
-      | { balance_usd: number }
-      | undefined;
-    if (!agent || agent.balance_usd < amount) return;
-
-    casinoDb.prepare("UPDATE agents SET balance_usd = balance_usd - ? WHERE id = ?").run(amount, agentId);
-    const updated = casinoDb.prepare("SELECT balance_usd FROM agents WHERE id = ?").get(agentId) as {
-      balance_usd: number;
-    };
-
-    casinoDb.prepare(`
-      INSERT INTO ledger_entries (id, agent_id, type, amount, balance_after, reason, reference, service, created_at)
-      VALUES (?, ?, 'debit', ?, ?, ?, ?, 'escrow', unixepoch())
-    `).run(reference + "_debit", agentId, amount, updated.balance_usd, reason, reference);
-
-    success = true;
-  })();
-  return success;
-}
-
-export function creditCasinoBalance(
-  agentId: string,
-  amount: number,
-  reason: string,
-  reference: string
-): void {
-  casinoDb.transaction(() => {
-    casinoDb.prepare("UPDATE agents SET balance_usd = balance_usd + ? WHERE id = ?").run(amount, agentId);
-    const agent = casinoDb.prepare("SELECT balance_usd FROM agents WHERE id = ?").get(agentId) as {
-      balance_usd: number;
-    };
-    casinoDb.prepare(`
-      INSERT INTO ledger_entries (id, agent_id, type, amount, balance_after, reason, reference, service, created_at)
-      VALUES (?, ?, 'credit', ?, ?, ?, ?, 'escrow', unixepoch())
-    `).run(reference + "_credit", agentId, amount, agent.balance_usd, reason, reference);
-  })();
+  escrow_id: string;
+  submitted_by: string;
+  kind: "text" | "link" | "hash";
+  content: string;
+  created_at: number;
+}
+
+export interface EscrowEvent {
+  id: string;
+  escrow_id: string;
+  event: string;
+  actor_id: string | null;
+  note: string | null;
+  created_at: number;
+}
+
+export interface Arbiter {
+  agent_id: string;
+  note: string | null;
+  active: number;
+  created_at: number;
+}
+
+export interface Milestone {
+  id: string;
+  escrow_id: string;
+  seq: number;
+  description: string;
+  amount_micros: Micros;
+  commission_micros: Micros;
+  referral_commission_micros: Micros;
+  status: "pending" | "completed" | "released" | "refunded" | "resolved";
+  completed_at: number | null;
+  released_at: number | null;
+}
+
+export interface Payee {
+  id: string;
+  escrow_id: string;
+  seq: number;
+  agent_id: string;
+  // Share of the escrow in basis points when the payee was given a share rather than an amount
+  share_bps: number | null;
+  amount_micros: Micros;
+  commission_micros: Micros;
+  referral_commission_micros: Micros;
+  status: "pending" | "completed" | "released" | "refunded" | "resolved";
+  completed_at: number | null;
+  released_at: number | null;
 }
 
 // ─── Escrow helpers ───
-export function createEscrow(params: {
+export function insertEscrow(params: {
   id: string;
   creatorId: string;
   counterpartyId: string;
-  amountUsd: number;
-  commissionUsd: number;
+  amountMicros: Micros;
+  commissionMicros: Micros;
+  currency: string;
+  fxQuote: FxQuote | null;
   description: string;
   timeoutHours: number;
   referrerId: string | null;
-  referralCommissionUsd: number;
+  referralCommissionMicros: Micros;
+  arbiterId?: string | null;
+  deliverable?: { kind: "sha256" | "json_schema"; spec: string } | null;
+  timeoutPolicy: TimeoutPolicy;
+  completionGraceHours: number;
+  commissionOnRefund: boolean;
+  feeSchedule: FeeSchedule;
+  referrals: ReferralLink[];
+  milestones?: {
+    description: string;
+    amountMicros: Micros;
+    commissionMicros: Micros;
+    referralCommissionMicros: Micros;
+  }[];
+  payees?: {
+    agentId: string;
+    shareBps: number | null;
+    amountMicros: Micros;
+    commissionMicros: Micros;
+    referralCommissionMicros: Micros;
+  }[];
+  // Insert as an unfunded offer instead of a funded escrow
+  offer?: { expiresAt: number; tokenId: string | null };
+  // Insert as an open job with no counterparty yet
+  job?: { tags: string[]; claimMode: JobClaimMode; deadlineAt: number } | null;
+  minReputation?: { score: number | null; completedEscrows: number | null } | null;
+  // Insert as cycle `cycle` of a recurring escrow
+  recurring?: { id: string; cycle: number } | null;
 }): void {
   const now = Math.floor(Date.now() / 1000);
+  // For an offer this is provisional; acceptance restarts the clock
   const autoReleaseAt = now + params.timeoutHours * 3600;
+  const offer = params.offer ?? null;
+  const job = params.job ?? null;
 
   escrowDb.prepare(`
-    INSERT INTO escrows (id, creator_id, counterparty_id, amount_usd, commission_usd, description, status, timeout_hours, funded_at, auto_release_at, referrer_id, referral_commission_usd)
-    VALUES (?, ?, ?, ?, ?, ?, 'funded', ?, unixepoch(), ?, ?, ?)
+    INSERT INTO escrows (id, creator_id, counterparty_id, amount_micros, commission_micros, description, status, timeout_hours, funded_at, auto_release_at, referrer_id, referral_commission_micros, arbiter_id, deliverable_kind, deliverable_spec, timeout_policy, completion_grace_hours, commission_on_refund, offer_expires_at, offer_token_id, job_tags, job_claim_mode, job_deadline_at, min_reputation_score, min_reputation_escrows, recurring_id, recurring_cycle, fee_schedule, currency, fx_quote)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     params.id,
     params.creatorId,
     params.counterpartyId,
-    params.amountUsd,
-    params.commissionUsd,
+    params.amountMicros,
+    params.commissionMicros,
     params.description,
+    offer ? "offered" : job ? "open" : "funded",
     params.timeoutHours,
+    offer ? null : now,
     autoReleaseAt,
     params.referrerId,
-    params.referralCommissionUsd
+    params.referralCommissionMicros,
+    params.arbiterId ?? null,
+    params.deliverable?.kind ?? null,
+    params.deliverable?.spec ?? null,
+    params.timeoutPolicy,
+    params.completionGraceHours,
+    params.commissionOnRefund ? 1 : 0,
+    offer?.expiresAt ?? null,
+    offer?.tokenId ?? null,
+    job ? JSON.stringify(job.tags) : null,
+    job?.claimMode ?? null,
+    job?.deadlineAt ?? null,
+    params.minReputation?.score ?? null,
+    params.minReputation?.completedEscrows ?? null,
+    params.recurring?.id ?? null,
+    params.recurring?.cycle ?? null,
+    JSON.stringify(params.feeSchedule),
+    params.currency,
+    params.fxQuote ? JSON.stringify(params.fxQuote) : null
+  );
+
+  const insertMilestone = escrowDb.prepare(`
+    INSERT INTO escrow_milestones (id, escrow_id, seq, description, amount_micros, commission_micros, referral_commission_micros)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  (params.milestones ?? []).forEach((m, i) => {
+    insertMilestone.run(`${params.id}_m${i + 1}`, params.id, i + 1, m.description, m.amountMicros, m.commissionMicros, m.referralCommissionMicros);
+  });
+
+  const insertPayee = escrowDb.prepare(`
+    INSERT INTO escrow_payees (id, escrow_id, seq, agent_id, share_bps, amount_micros, commission_micros, referral_commission_micros)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  (params.payees ?? []).forEach((p, i) => {
+    insertPayee.run(`${params.id}_p${i + 1}`, params.id, i + 1, p.agentId, p.shareBps, p.amountMicros, p.commissionMicros, p.referralCommissionMicros);
+  });
+
+  const insertReferral = escrowDb.prepare(
+    "INSERT INTO escrow_referrals (escrow_id, agent_id, side, level, share_bps) VALUES (?, ?, ?, ?, ?)"
   );
+  for (const r of params.referrals) insertReferral.run(params.id, r.agent_id, r.side, r.level, r.share_bps);
 
+  if (offer) {
+    recordEvent(params.id, "offered", params.creatorId, `Offer made: ${formatMoney(params.amountMicros, params.currency)} for "${params.description}"`);
+    return;
+  }
+  recordEvent(
+    params.id,
+    "created",
+    params.creatorId,
+    job
+      ? `Open job posted: ${formatMoney(params.amountMicros, params.currency)} for "${params.description}"`
+      : `Escrow created: ${formatMoney(params.amountMicros, params.currency)} for "${params.description}"`
+  );
+  countFunded(params.amountMicros, params.currency);
+}
+
+type StatsCounter = "total_created" | "total_released" | "total_disputed" | "total_volume_micros" | "total_commission_micros";
+
+// Totals are kept per currency; a currency's row is created by its first escrow
+function countStats(currency: string, deltas: Partial<Record<StatsCounter, number>>): void {
+  const columns = Object.keys(deltas) as StatsCounter[];
   escrowDb.prepare(`
-    INSERT INTO escrow_events (id, escrow_id, event, actor_id, note)
-    VALUES (?, ?, 'created', ?, ?)
-  `).run(params.id + "_created", params.id, params.creatorId, `Escrow created: $${params.amountUsd} for "${params.description}"`);
+    INSERT INTO escrow_stats (currency, ${columns.join(", ")}) VALUES (?, ${columns.map(() => "?").join(", ")})
+    ON CONFLICT(currency) DO UPDATE SET ${columns.map((c) => `${c} = ${c} + excluded.${c}`).join(", ")}
+  `).run(currency, ...columns.map((c) => deltas[c]));
+}
+
+function currencyOf(escrowId: string): string {
+  return (escrowDb.prepare("SELECT currency FROM escrows WHERE id = ?").get(escrowId) as { currency: string }).currency;
+}
 
-  escrowDb.prepare("UPDATE escrow_stats SET total_created = total_created + 1, total_volume_usd = total_volume_usd + ? WHERE id = 1")
-    .run(params.amountUsd);
+// Volume counts money that was actually locked, so offers are counted on acceptance
+function countFunded(amount: Micros, currency: string): void {
+  countStats(currency, { total_created: 1, total_volume_micros: amount });
 }
 
 export function getEscrow(id: string): Escrow | null {
   return escrowDb.prepare("SELECT * FROM escrows WHERE id = ?").get(id) as Escrow | null;
 }
 
-export function markCompleted(id: string, counterpartyId: string): void {
-  escrowDb.prepare("UPDATE escrows SET status = 'completed', completed_at = unixepoch() WHERE id = ? AND status = 'funded'").run(id);
+export function getMilestones(escrowId: string): Milestone[] {
+  return escrowDb.prepare("SELECT * FROM escrow_milestones WHERE escrow_id = ? ORDER BY seq ASC").all(escrowId) as Milestone[];
+}
+
+export function getPayees(escrowId: string): Payee[] {
+  return escrowDb.prepare("SELECT * FROM escrow_payees WHERE escrow_id = ? ORDER BY seq ASC").all(escrowId) as Payee[];
+}
+
+// Everyone the escrow pays: its payees, or the single counterparty
+export function counterpartyIds(escrow: Pick<Escrow, "id" | "counterparty_id">): string[] {
+  const payees = getPayees(escrow.id);
+  return payees.length ? payees.map((p) => p.agent_id) : [escrow.counterparty_id];
+}
+
+// Listeners run synchronously inside the caller's transaction, so anything they
+// write (e.g. webhook deliveries) commits or rolls back together with the event.
+type EscrowEventListener = (event: EscrowEvent) => void;
+const eventListeners: EscrowEventListener[] = [];
+
+export function onEscrowEvent(listener: EscrowEventListener): void {
+  eventListeners.push(listener);
+}
+
+export function recordEvent(escrowId: string, event: string, actorId: string | null, note: string | null): void {
+  const id = `${escrowId}_${event}_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
   escrowDb.prepare(`
     INSERT INTO escrow_events (id, escrow_id, event, actor_id, note)
-    VALUES (?, ?, 'completed', ?, 'Counterparty marked task complete')
-  `).run(id + "_completed_" + Date.now(), id, counterpartyId);
+    VALUES (?, ?, ?, ?, ?)
+  `).run(id, escrowId, event, actorId, note);
+  const row = escrowDb.prepare("SELECT * FROM escrow_events WHERE id = ?").get(id) as EscrowEvent;
+  for (const listener of eventListeners) listener(row);
 }
 
-export function releaseEscrow(id: string, actorId: string | null, note: string): void {
-  escrowDb.prepare(
+// Books commission against the escrow and the public totals in one place, so
+// escrow_stats always equals the sum of commission_charged_micros.
+function chargeCommission(escrowId: string, commission: Micros): void {
+  if (commission === 0) return;
+  escrowDb.prepare("UPDATE escrows SET commission_charged_micros = commission_charged_micros + ? WHERE id = ?").run(commission, escrowId);
+  countStats(currencyOf(escrowId), { total_commission_micros: commission });
+}
+
+// State transitions are conditional on the current status and return false when
+// another caller got there first, so they can be used as an atomic claim.
+export function markCompleted(id: string, counterpartyId: string): boolean {
+  const result = escrowDb.prepare("UPDATE escrows SET status = 'completed', completed_at = unixepoch() WHERE id = ? AND status = 'funded'").run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "completed", counterpartyId, "Counterparty marked task complete");
+  return true;
+}
+
+// `commission` is the commission earned by this final release — milestone
+// escrows book each milestone's commission as it is released.
+export function markReleased(id: string, actorId: string | null, note: string, commission: Micros): boolean {
+  const result = escrowDb.prepare(
     "UPDATE escrows SET status = 'released', released_at = unixepoch() WHERE id = ? AND status IN ('funded', 'completed')"
   ).run(id);
-  escrowDb.prepare(`
-    INSERT INTO escrow_events (id, escrow_id, event, actor_id, note)
-    VALUES (?, ?, 'released', ?, ?)
-  `).run(id + "_released_" + Date.now(), id, actorId, note);
+  if (result.changes === 0) return false;
+  recordEvent(id, "released", actorId, note);
+  countStats(currencyOf(id), { total_released: 1 });
+  chargeCommission(id, commission);
+  return true;
+}
+
+export function markMilestoneCompleted(escrowId: string, seq: number, actorId: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrow_milestones SET status = 'completed', completed_at = unixepoch() WHERE escrow_id = ? AND seq = ? AND status = 'pending'"
+  ).run(escrowId, seq);
+  if (result.changes === 0) return false;
+  recordEvent(escrowId, "milestone_completed", actorId, `Milestone ${seq} marked complete`);
+  return true;
+}
+
+export function markMilestoneReleased(escrowId: string, seq: number, actorId: string | null, note: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrow_milestones SET status = 'released', released_at = unixepoch() WHERE escrow_id = ? AND seq = ? AND status IN ('pending', 'completed')"
+  ).run(escrowId, seq);
+  if (result.changes === 0) return false;
+  recordEvent(escrowId, "milestone_released", actorId, note);
+  const { commission_micros } = escrowDb.prepare(
+    "SELECT commission_micros FROM escrow_milestones WHERE escrow_id = ? AND seq = ?"
+  ).get(escrowId, seq) as { commission_micros: Micros };
+  chargeCommission(escrowId, commission_micros);
+  return true;
+}
+
+export function markDeliverableVerified(id: string, actorId: string, note: string): void {
+  escrowDb.prepare("UPDATE escrows SET deliverable_verified_at = unixepoch() WHERE id = ?").run(id);
+  recordEvent(id, "deliverable_verified", actorId, note);
+}
+
+export function markPayeeCompleted(escrowId: string, agentId: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrow_payees SET status = 'completed', completed_at = unixepoch() WHERE escrow_id = ? AND agent_id = ? AND status = 'pending'"
+  ).run(escrowId, agentId);
+  if (result.changes === 0) return false;
+  recordEvent(escrowId, "payee_completed", agentId, `Payee ${agentId} marked their part complete`);
+  return true;
+}
+
+export function markPayeeReleased(escrowId: string, seq: number): boolean {
+  return escrowDb.prepare(
+    "UPDATE escrow_payees SET status = 'released', released_at = unixepoch() WHERE escrow_id = ? AND seq = ? AND status IN ('pending', 'completed')"
+  ).run(escrowId, seq).changes > 0;
+}
+
+// Payees still owed money when the escrow is released as a whole
+export function markPayeesReleased(escrowId: string): void {
+  escrowDb.prepare(
+    "UPDATE escrow_payees SET status = 'released', released_at = unixepoch() WHERE escrow_id = ? AND status IN ('pending', 'completed')"
+  ).run(escrowId);
+}
+
+export function markPayeesRefunded(escrowId: string): void {
+  escrowDb.prepare(
+    "UPDATE escrow_payees SET status = 'refunded' WHERE escrow_id = ? AND status IN ('pending', 'completed')"
+  ).run(escrowId);
+}
+
+// Milestones still holding funds when an escrow is refunded
+export function markMilestonesRefunded(escrowId: string): void {
   escrowDb.prepare(
-    "UPDATE escrow_stats SET total_released = total_released + 1, total_commission_usd = total_commission_usd + (SELECT commission_usd FROM escrows WHERE id = ?) WHERE id = 1"
+    "UPDATE escrow_milestones SET status = 'refunded' WHERE escrow_id = ? AND status IN ('pending', 'completed')"
+  ).run(escrowId);
+}
+
+export function markDisputed(id: string, actorId: string | null, reason: string, deadlineAt: number): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'disputed', disputed_at = unixepoch(), dispute_deadline_at = ? WHERE id = ? AND status IN ('funded', 'completed')"
+  ).run(deadlineAt, id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "disputed", actorId, reason);
+  countStats(currencyOf(id), { total_disputed: 1 });
+  return true;
+}
+
+// `commission` is what the timeout booked: commission on any refund the escrow's
+// policy charges for, plus that of parts released to the counterparty
+export function markRefunded(id: string, note: string, commission: Micros, actorId: string | null = null): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'refunded', released_at = unixepoch() WHERE id = ? AND status IN ('funded', 'completed')"
   ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "refunded", actorId, note);
+  chargeCommission(id, commission);
+  return true;
 }
 
-export function disputeEscrow(id: string, actorId: string, reason: string): void {
-  escrowDb.prepare("UPDATE escrows SET status = 'disputed', disputed_at = unixepoch() WHERE id = ? AND status IN ('funded', 'completed')").run(id);
-  escrowDb.prepare(`
-    INSERT INTO escrow_events (id, escrow_id, event, actor_id, note)
-    VALUES (?, ?, 'disputed', ?, ?)
-  `).run(id + "_disputed_" + Date.now(), id, actorId, reason);
-  escrowDb.prepare("UPDATE escrow_stats SET total_disputed = total_disputed + 1 WHERE id = 1").run();
+// ─── Offer helpers ───
+// Each transition is conditional on the status the caller saw, so a counter
+// and an acceptance racing on the same offer cannot both win.
+export function markOfferAccepted(id: string, actorId: string, expectedStatus: "offered" | "countered"): boolean {
+  const result = escrowDb.prepare(`
+    UPDATE escrows SET status = 'funded', funded_at = unixepoch(), accepted_at = unixepoch(),
+      auto_release_at = unixepoch() + timeout_hours * 3600, offer_expires_at = NULL
+    WHERE id = ? AND status = ?
+  `).run(id, expectedStatus);
+  if (result.changes === 0) return false;
+  const escrow = getEscrow(id)!;
+  recordEvent(id, "offer_accepted", actorId, `Offer accepted: ${formatMoney(escrow.amount_micros, escrow.currency)} locked`);
+  countFunded(escrow.amount_micros, escrow.currency);
+  return true;
+}
+
+export function markOfferCountered(params: {
+  id: string;
+  actorId: string;
+  expectedStatus: "offered" | "countered";
+  amountMicros: Micros;
+  commissionMicros: Micros;
+  referralCommissionMicros: Micros;
+  description: string;
+  timeoutHours: number;
+  expiresAt: number;
+}): boolean {
+  // The counter hands the turn to the other side
+  const next = params.expectedStatus === "offered" ? "countered" : "offered";
+  const result = escrowDb.prepare(`
+    UPDATE escrows SET status = ?, amount_micros = ?, commission_micros = ?, referral_commission_micros = ?,
+      description = ?, timeout_hours = ?, auto_release_at = unixepoch() + ? * 3600, offer_expires_at = ?
+    WHERE id = ? AND status = ?
+  `).run(
+    next,
+    params.amountMicros,
+    params.commissionMicros,
+    params.referralCommissionMicros,
+    params.description,
+    params.timeoutHours,
+    params.timeoutHours,
+    params.expiresAt,
+    params.id,
+    params.expectedStatus
+  );
+  if (result.changes === 0) return false;
+  recordEvent(
+    params.id,
+    "offer_countered",
+    params.actorId,
+    `Counter-offer: ${formatMoney(params.amountMicros, currencyOf(params.id))} for "${params.description}", ${params.timeoutHours}h timeout`
+  );
+  return true;
 }
 
-export function refundEscrow(id: string, note: string): void {
-  escrowDb.prepare("UPDATE escrows SET status = 'refunded', released_at = unixepoch() WHERE id = ?").run(id);
+export function markOfferRejected(id: string, actorId: string, note: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'rejected', offer_expires_at = NULL WHERE id = ? AND status IN ('offered', 'countered')"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "offer_rejected", actorId, note);
+  return true;
+}
+
+export function markOfferExpired(id: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'expired' WHERE id = ? AND status IN ('offered', 'countered') AND offer_expires_at <= unixepoch()"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "offer_expired", null, "Offer expired without being accepted");
+  return true;
+}
+
+// ─── Job helpers ───
+// Binds the worker and starts the timeout, which runs from assignment rather than posting
+export function markJobAssigned(id: string, agentId: string, actorId: string, note: string): boolean {
+  const result = escrowDb.prepare(`
+    UPDATE escrows SET status = 'funded', counterparty_id = ?, claimed_at = unixepoch(),
+      auto_release_at = unixepoch() + timeout_hours * 3600
+    WHERE id = ? AND status = 'open'
+  `).run(agentId, id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "job_assigned", actorId, note);
+  return true;
+}
+
+// Nobody was assigned before the deadline; the whole amount goes back, commission-free
+export function markJobUnclaimed(id: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'refunded', released_at = unixepoch() WHERE id = ? AND status = 'open'"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "refunded", null, "Job closed without a worker — refunded to creator");
+  escrowDb.prepare("UPDATE escrow_milestones SET status = 'refunded' WHERE escrow_id = ? AND status = 'pending'").run(id);
+  return true;
+}
+
+// The creator takes back a job before anyone was assigned to it
+export function markJobWithdrawn(id: string, actorId: string, note: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'cancelled', cancelled_at = unixepoch() WHERE id = ? AND status = 'open'"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "cancelled", actorId, note);
+  escrowDb.prepare("UPDATE escrow_milestones SET status = 'refunded' WHERE escrow_id = ? AND status = 'pending'").run(id);
+  return true;
+}
+
+// ─── Cancellation helpers ───
+export function markAcknowledged(id: string, actorId: string): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET acknowledged_at = unixepoch() WHERE id = ? AND status = 'funded' AND acknowledged_at IS NULL"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "acknowledged", actorId, "Counterparty acknowledged the escrow");
+  return true;
+}
+
+// Everything still held goes back to the creator, less the cancellation fee,
+// which is booked as commission
+export function markCancelled(id: string, actorId: string, note: string, fee: Micros): boolean {
+  const result = escrowDb.prepare(
+    "UPDATE escrows SET status = 'cancelled', cancelled_at = unixepoch() WHERE id = ? AND status = 'funded'"
+  ).run(id);
+  if (result.changes === 0) return false;
+  recordEvent(id, "cancelled", actorId, note);
+  chargeCommission(id, fee);
+  markMilestonesRefunded(id);
+  markPayeesRefunded(id);
+  return true;
+}
+
+// ─── Amendment helpers ───
+// Applies approved new terms. Conditional on the amount the caller planned
+// against, so a concurrent amendment or settlement cannot be overwritten.
+export function amendEscrow(params: {
+  id: string;
+  expectedAmountMicros: Micros;
+  amountMicros: Micros;
+  commissionMicros: Micros;
+  referralCommissionMicros: Micros;
+  description: string;
+  extendHours: number;
+  actorId: string;
+  note: string;
+}): boolean {
+  const result = escrowDb.prepare(`
+    UPDATE escrows SET amount_micros = ?, commission_micros = ?, referral_commission_micros = ?, description = ?,
+      timeout_hours = timeout_hours + ?, auto_release_at = auto_release_at + ?
+    WHERE id = ? AND status IN ('funded', 'completed') AND amount_micros = ?
+  `).run(
+    params.amountMicros,
+    params.commissionMicros,
+    params.referralCommissionMicros,
+    params.description,
+    params.extendHours,
+    params.extendHours * 3600,
+    params.id,
+    params.expectedAmountMicros
+  );
+  if (result.changes === 0) return false;
+  recordEvent(params.id, "amendment_approved", params.actorId, params.note);
+  // Volume tracks what is locked, so a top-up or reduction moves it too
+  countStats(currencyOf(params.id), { total_volume_micros: params.amountMicros - params.expectedAmountMicros });
+  return true;
+}
+
+// ─── Dispute helpers ───
+export function markResolved(params: {
+  id: string;
+  outcome: DisputeOutcome;
+  counterpartyPct: number;
+  actorId: string | null;
+  note: string;
+  commission: Micros;
+}): boolean {
+  const result = escrowDb.prepare(`
+    UPDATE escrows SET status = 'resolved', resolved_at = unixepoch(), dispute_outcome = ?, dispute_counterparty_pct = ?
+    WHERE id = ? AND status = 'disputed'
+  `).run(params.outcome, params.counterpartyPct, params.id);
+  if (result.changes === 0) return false;
+  escrowDb.prepare(
+    "UPDATE escrow_milestones SET status = 'resolved' WHERE escrow_id = ? AND status IN ('pending', 'completed')"
+  ).run(params.id);
+  escrowDb.prepare(
+    "UPDATE escrow_payees SET status = 'resolved' WHERE escrow_id = ? AND status IN ('pending', 'completed')"
+  ).run(params.id);
+  recordEvent(params.id, "dispute_resolved", params.actorId, params.note);
+  chargeCommission(params.id, params.commission);
+  return true;
+}
+
+export function setArbiter(id: string, arbiterId: string, actorId: string | null, note: string): void {
+  escrowDb.prepare("UPDATE escrows SET arbiter_id = ? WHERE id = ?").run(arbiterId, id);
+  recordEvent(id, "arbiter_assigned", actorId, note);
+}
+
+export function insertEvidence(params: Omit<DisputeEvidence, "created_at">): void {
+  escrowDb.prepare(
+    "INSERT INTO dispute_evidence (id, escrow_id, submitted_by, kind, content) VALUES (?, ?, ?, ?, ?)"
+  ).run(params.id, params.escrow_id, params.submitted_by, params.kind, params.content);
+  recordEvent(params.escrow_id, "evidence_submitted", params.submitted_by, `${params.kind}: ${params.content.slice(0, 200)}`);
+}
+
+export function getEvidence(escrowId: string): DisputeEvidence[] {
+  return escrowDb.prepare(
+    "SELECT * FROM dispute_evidence WHERE escrow_id = ? ORDER BY created_at ASC, rowid ASC"
+  ).all(escrowId) as DisputeEvidence[];
+}
+
+export function listArbiters(includeInactive = false): Arbiter[] {
+  return escrowDb.prepare(
+    `SELECT * FROM arbiters ${includeInactive ? "" : "WHERE active = 1"} ORDER BY created_at ASC`
+  ).all() as Arbiter[];
+}
+
+export function upsertArbiter(agentId: string, note: string | null): void {
   escrowDb.prepare(`
-    INSERT INTO escrow_events (id, escrow_id, event, actor_id, note)
-    VALUES (?, ?, 'refunded', null, ?)
-  `).run(id + "_refunded_" + Date.now(), id, note);
+    INSERT INTO arbiters (agent_id, note, active) VALUES (?, ?, 1)
+    ON CONFLICT(agent_id) DO UPDATE SET active = 1, note = excluded.note
+  `).run(agentId, note);
+}
+
+export function deactivateArbiter(agentId: string): boolean {
+  return escrowDb.prepare("UPDATE arbiters SET active = 0 WHERE agent_id = ?").run(agentId).changes > 0;
+}
+
+// Least-loaded active arbiter who is not a party to the escrow
+export function pickArbiter(excludeIds: string[]): string | null {
+  const placeholders = excludeIds.map(() => "?").join(", ") || "''";
+  const row = escrowDb.prepare(`
+    SELECT a.agent_id FROM arbiters a
+    WHERE a.active = 1 AND a.agent_id NOT IN (${placeholders})
+    ORDER BY (SELECT COUNT(*) FROM escrows e WHERE e.arbiter_id = a.agent_id AND e.status = 'disputed') ASC, a.created_at ASC
+    LIMIT 1
+  `).get(...excludeIds) as { agent_id: string } | undefined;
+  return row?.agent_id ?? null;
 }
 
 export function getEscrowEvents(id: string): unknown[] {
   return escrowDb.prepare("SELECT * FROM escrow_events WHERE escrow_id = ? ORDER BY created_at ASC").all(id);
 }
 
-export function getPublicStats(): {
+export interface PublicStats {
   total_created: number;
   total_released: number;
   total_disputed: number;
-  total_volume_usd: number;
-  total_commission_usd: number;
-} {
-  return escrowDb.prepare("SELECT * FROM escrow_stats WHERE id = 1").get() as {
-    total_created: number;
-    total_released: number;
-    total_disputed: number;
-    total_volume_usd: number;
-    total_commission_usd: number;
-  };
+  total_volume_micros: Micros;
+  total_commission_micros: Micros;
 }
 
-// ─── Auto-release processor ───
-export function processAutoReleases(): void {
-  const now = Math.floor(Date.now() / 1000);
-  const expired = escrowDb.prepare(
-    "SELECT * FROM escrows WHERE status IN ('funded', 'completed') AND auto_release_at <= ?"
-  ).all(now) as Escrow[];
-
-  for (const escrow of expired) {
-    try {
-      // Return funds to creator (minus commission)
-      const netToCreator = escrow.amount_usd - escrow.commission_usd;
-      creditCasinoBalance(escrow.creator_id, netToCreator, `escrow_timeout_refund: ${escrow.id}`, escrow.id + "_timeout");
-
-      // Commission to house (no wallet for house — just record it)
-      // If referrer, pay referral commission
-      if (escrow.referrer_id && escrow.referral_commission_usd > 0) {
-        creditCasinoBalance(
-          escrow.referrer_id,
-          escrow.referral_commission_usd,
-          `escrow_referral_commission: ${escrow.id}`,
-          escrow.id + "_refcom"
-        );
-      }
-
-      refundEscrow(escrow.id, `Auto-refunded after ${escrow.timeout_hours}h timeout`);
-      console.log(`[escrow] auto-refunded ${escrow.id} → creator ${escrow.creator_id} $${netToCreator.toFixed(2)}`);
-    } catch (err: any) {
-      console.error(`[escrow] auto-release failed for ${escrow.id}:`, err?.message);
-    }
-  }
+export interface CurrencyStats extends PublicStats {
+  currency: string;
 }
 
-// Run auto-release every 5 minutes
-setInterval(processAutoReleases, 5 * 60 * 1000);
-// Also run on startup
-processAutoReleases();
+/** Each currency's totals, USD first. */
+export function getCurrencyStats(): CurrencyStats[] {
+  return escrowDb.prepare("SELECT * FROM escrow_stats ORDER BY currency = 'USD' DESC, currency ASC").all() as CurrencyStats[];
+}
+
+/**
+ * Totals across the enabled currencies, with volume and commission in USD at
+ * the current rates. A currency no longer enabled has no rate, so it is left out.
+ */
+export function getPublicStats(): PublicStats {
+  const rows = getCurrencyStats().filter((r) => CURRENCIES.includes(r.currency));
+  const total = (field: keyof PublicStats) => rows.reduce((n, r) => n + r[field], 0);
+  const totalUsd = (field: "total_volume_micros" | "total_commission_micros") =>
+    rows.reduce((n, r) => n + toUsd(r[field], r.currency), 0);
+  return {
+    total_created: total("total_created"),
+    total_released: total("total_released"),
+    total_disputed: total("total_disputed"),
+    total_volume_micros: totalUsd("total_volume_micros"),
+    total_commission_micros: totalUsd("total_commission_micros"),
+  };
+}
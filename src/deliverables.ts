@@ -0,0 +1,142 @@
+/**
+ * Deliverable commitments — conditional release without the creator.
+ *
+ * At creation the creator may commit to what the work must produce: either the
+ * SHA-256 of the exact expected output, or a JSON Schema the output must
+ * satisfy. When the counterparty completes with a deliverable that matches,
+ * the escrow releases on its own. Every check is written to escrow_events as
+ * deliverable_verified or deliverable_rejected.
+ */
+import { createHash } from "crypto";
+import { Ajv, type ValidateFunction } from "ajv";
+import { EscrowError } from "./errors.js";
+import type { Escrow } from "./db.js";
+
+// ─── Config ───
+export const DELIVERABLE_KINDS = ["sha256", "json_schema"] as const;
+const MAX_SCHEMA_BYTES = 16 * 1024;
+export const MAX_DELIVERABLE_BYTES = 256 * 1024;
+
+export type DeliverableKind = (typeof DELIVERABLE_KINDS)[number];
+
+// ─── Types ───
+export interface DeliverableInput {
+  sha256?: string;
+  jsonSchema?: unknown;
+}
+
+export interface DeliverableCommitment {
+  kind: DeliverableKind;
+  // Lowercase hex digest, or the schema as JSON
+  spec: string;
+}
+
+export interface DeliverableVerification {
+  kind: DeliverableKind;
+  matched: boolean;
+  // SHA-256 of what was submitted, so the event log identifies it without storing it
+  deliverableSha256: string;
+  errors: string[];
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new Map<string, ValidateFunction>();
+
+function compile(spec: string): ValidateFunction {
+  let validate = validators.get(spec);
+  if (!validate) {
+    validate = ajv.compile(JSON.parse(spec));
+    validators.set(spec, validate);
+  }
+  return validate;
+}
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+// Strings are hashed as UTF-8 text; any other JSON value by its JSON encoding
+function serialize(deliverable: unknown): string {
+  return typeof deliverable === "string" ? deliverable : JSON.stringify(deliverable);
+}
+
+// ─── Commitment ───
+export function parseCommitment(input: DeliverableInput): DeliverableCommitment {
+  const hasHash = input.sha256 !== undefined;
+  const hasSchema = input.jsonSchema !== undefined;
+  if (hasHash === hasSchema) {
+    throw new EscrowError("invalid_deliverable", "deliverable must have exactly one of sha256 or json_schema");
+  }
+
+  if (hasHash) {
+    const digest = String(input.sha256).trim().toLowerCase().replace(/^sha256:/, "");
+    if (!/^[0-9a-f]{64}$/.test(digest)) {
+      throw new EscrowError("invalid_deliverable", "deliverable.sha256 must be a hex SHA-256 digest");
+    }
+    return { kind: "sha256", spec: digest };
+  }
+
+  const schema = input.jsonSchema;
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new EscrowError("invalid_deliverable", "deliverable.json_schema must be a JSON Schema object");
+  }
+  const spec = JSON.stringify(schema);
+  if (Buffer.byteLength(spec) > MAX_SCHEMA_BYTES) {
+    throw new EscrowError("invalid_deliverable", `deliverable.json_schema must be at most ${MAX_SCHEMA_BYTES} bytes`);
+  }
+  try {
+    compile(spec);
+  } catch (err: any) {
+    throw new EscrowError("invalid_deliverable", `deliverable.json_schema is not a valid JSON Schema: ${err?.message ?? err}`);
+  }
+  return { kind: "json_schema", spec };
+}
+
+export function commitmentOf(escrow: Escrow): DeliverableCommitment | null {
+  return escrow.deliverable_kind && escrow.deliverable_spec
+    ? { kind: escrow.deliverable_kind, spec: escrow.deliverable_spec }
+    : null;
+}
+
+// ─── Verification ───
+export function verifyDeliverable(commitment: DeliverableCommitment, deliverable: unknown): DeliverableVerification {
+  if (deliverable === undefined || deliverable === null) {
+    throw new EscrowError("invalid_deliverable", "deliverable is required");
+  }
+  const serialized = serialize(deliverable);
+  if (Buffer.byteLength(serialized) > MAX_DELIVERABLE_BYTES) {
+    throw new EscrowError("invalid_deliverable", `deliverable must be at most ${MAX_DELIVERABLE_BYTES} bytes`);
+  }
+  const deliverableSha256 = sha256Hex(serialized);
+
+  if (commitment.kind === "sha256") {
+    const matched = deliverableSha256 === commitment.spec;
+    return { kind: "sha256", matched, deliverableSha256, errors: matched ? [] : ["SHA-256 of the deliverable does not match the commitment"] };
+  }
+
+  const validate = compile(commitment.spec);
+  const matched = validate(deliverable) as boolean;
+  const errors = matched ? [] : (validate.errors ?? []).slice(0, 20).map((e) => `${e.instancePath || "/"} ${e.message ?? "is invalid"}`);
+  return { kind: "json_schema", matched, deliverableSha256, errors };
+}
+
+// Note stored with the deliverable_verified / deliverable_rejected event
+export function verificationNote(v: DeliverableVerification): string {
+  const base = `${v.kind} check ${v.matched ? "passed" : "failed"} for deliverable sha256:${v.deliverableSha256}`;
+  return v.matched ? base : `${base}: ${v.errors.join("; ")}`.slice(0, 1000);
+}
+
+// ─── Views ───
+export function commitmentView(escrow: Escrow) {
+  const commitment = commitmentOf(escrow);
+  if (!commitment) return null;
+  return {
+    kind: commitment.kind,
+    ...(commitment.kind === "sha256" ? { sha256: commitment.spec } : { json_schema: JSON.parse(commitment.spec) }),
+    verified_at: escrow.deliverable_verified_at ? new Date(escrow.deliverable_verified_at * 1000).toISOString() : null,
+  };
+}
+
+export function verificationView(v: DeliverableVerification) {
+  return { kind: v.kind, matched: v.matched, deliverable_sha256: v.deliverableSha256, errors: v.errors };
+}
@@ -0,0 +1,303 @@
+/**
+ * Dispute workflow — raising a dispute, evidence, arbiter assignment and
+ * resolution. A disputed escrow always leaves that state: either an arbiter
+ * (or an admin) resolves it, or the deadline passes and the configured
+ * default outcome is applied. Every step is written to escrow_events.
+ */
+import { randomUUID } from "crypto";
+import {
+  escrowDb,
+  markDisputed,
+  markResolved,
+  setArbiter,
+  insertEvidence,
+  getEvidence,
+  pickArbiter,
+  recordEvent,
+  counterpartyIds,
+  type Escrow,
+  type DisputeEvidence,
+  type DisputeOutcome,
+} from "./db.js";
+import { EscrowError } from "./errors.js";
+import { balanceProvider } from "./balance-provider.js";
+import { loadEscrow, outstandingPortion, outstandingShares } from "./escrow-service.js";
+import { referralLegs } from "./referrals.js";
+import { percentOf, sumMicros, type Micros } from "./money.js";
+import { openSettlement, settle, type SettlementLeg, type SettlementStatus } from "./settlement.js";
+
+// ─── Config ───
+export const DISPUTE_DEADLINE_HOURS = Math.max(1, parseInt(process.env.DISPUTE_DEADLINE_HOURS || "72"));
+export const DISPUTE_DEFAULT_OUTCOME: DisputeOutcome = parseOutcome(process.env.DISPUTE_DEFAULT_OUTCOME) ?? "refund";
+export const DISPUTE_DEFAULT_SPLIT_PCT = clampPct(parseFloat(process.env.DISPUTE_DEFAULT_SPLIT_PCT || "50"));
+
+const MAX_EVIDENCE_LENGTH = 4000;
+const EVIDENCE_KINDS = ["text", "link", "hash"] as const;
+
+function parseOutcome(value: string | undefined): DisputeOutcome | null {
+  return value === "release" || value === "refund" || value === "split" ? value : null;
+}
+
+function clampPct(pct: number): number {
+  return Number.isFinite(pct) ? Math.min(100, Math.max(0, pct)) : 50;
+}
+
+// ─── Results ───
+export interface DisputeEscrowResult {
+  escrow: Escrow;
+  reason: string;
+}
+
+export interface ResolveDisputeInput {
+  outcome: string | undefined;
+  counterpartyPct?: number;
+  note?: string;
+}
+
+export interface ResolveDisputeResult {
+  escrow: Escrow;
+  outcome: DisputeOutcome;
+  counterpartyPct: number;
+  toCounterpartyMicros: Micros;
+  toCreatorMicros: Micros;
+  commissionMicros: Micros;
+  settlementStatus: SettlementStatus;
+}
+
+export interface DisputeView {
+  escrow: Escrow;
+  evidence: DisputeEvidence[];
+}
+
+function isParty(escrow: Escrow, agentId: string): boolean {
+  return escrow.creator_id === agentId || counterpartyIds(escrow).includes(agentId);
+}
+
+// ─── Raise ───
+export function disputeEscrow(actorId: string, escrowId: string, reason?: string): DisputeEscrowResult {
+  const escrow = loadEscrow(escrowId);
+  if (!isParty(escrow, actorId)) {
+    throw new EscrowError("forbidden", "Only escrow participants can dispute");
+  }
+  if (!["funded", "completed"].includes(escrow.status)) {
+    throw new EscrowError("invalid_status", `Cannot dispute escrow in status '${escrow.status}'`);
+  }
+
+  const trimmed = reason?.trim() || "No reason provided";
+  openDispute(escrow, actorId, trimmed);
+  return { escrow: loadEscrow(escrowId), reason: trimmed };
+}
+
+// Moves a funded/completed escrow into dispute; `actorId` is null when a timeout policy escalates it
+export function openDispute(escrow: Escrow, actorId: string | null, reason: string): void {
+  const deadlineAt = Math.floor(Date.now() / 1000) + DISPUTE_DEADLINE_HOURS * 3600;
+  escrowDb.transaction(() => {
+    if (!markDisputed(escrow.id, actorId, reason, deadlineAt)) {
+      throw new EscrowError("invalid_status", "Escrow status changed concurrently — fetch it again");
+    }
+    // Arbiter named at creation keeps the case; otherwise draw one from the pool
+    if (!escrow.arbiter_id) {
+      const arbiterId = pickArbiter([escrow.creator_id, ...counterpartyIds(escrow)]);
+      if (arbiterId) setArbiter(escrow.id, arbiterId, null, `Arbiter ${arbiterId} assigned from pool`);
+    }
+  })();
+}
+
+// ─── Evidence ───
+export function submitEvidence(actorId: string, escrowId: string, kind: string | undefined, content: string | undefined): DisputeEvidence {
+  const escrow = loadEscrow(escrowId);
+  if (!isParty(escrow, actorId)) {
+    throw new EscrowError("forbidden", "Only escrow participants can submit evidence");
+  }
+  if (escrow.status !== "disputed") {
+    throw new EscrowError("invalid_status", `Evidence can only be submitted while disputed (status '${escrow.status}')`);
+  }
+
+  const trimmed = content?.trim();
+  if (!kind || !(EVIDENCE_KINDS as readonly string[]).includes(kind)) {
+    throw new EscrowError("invalid_evidence", `kind must be one of: ${EVIDENCE_KINDS.join(", ")}`);
+  }
+  if (!trimmed || trimmed.length > MAX_EVIDENCE_LENGTH) {
+    throw new EscrowError("invalid_evidence", `content is required (max ${MAX_EVIDENCE_LENGTH} chars)`);
+  }
+  if (kind === "link" && !/^https?:\/\/\S+$/i.test(trimmed)) {
+    throw new EscrowError("invalid_evidence", "link evidence must be an http(s) URL");
+  }
+  if (kind === "hash" && !/^(sha256:)?[0-9a-f]{64}$/i.test(trimmed)) {
+    throw new EscrowError("invalid_evidence", "hash evidence must be a hex SHA-256 digest");
+  }
+
+  const evidence = {
+    id: `evd_${randomUUID().replace(/-/g, "").slice(0, 16)}`,
+    escrow_id: escrowId,
+    submitted_by: actorId,
+    kind: kind as DisputeEvidence["kind"],
+    content: trimmed,
+  };
+  insertEvidence(evidence);
+  return getEvidence(escrowId).find((e) => e.id === evidence.id)!;
+}
+
+// ─── View ───
+export function getDispute(actorId: string | null, escrowId: string, opts: { asAdmin?: boolean } = {}): DisputeView {
+  const escrow = loadEscrow(escrowId);
+  const allowed = opts.asAdmin || (actorId && (isParty(escrow, actorId) || escrow.arbiter_id === actorId));
+  if (!allowed) {
+    throw new EscrowError("forbidden", "Only escrow participants and the arbiter can view the dispute");
+  }
+  if (!escrow.disputed_at) {
+    throw new EscrowError("invalid_status", "Escrow has never been disputed");
+  }
+  return { escrow, evidence: getEvidence(escrowId) };
+}
+
+// ─── Arbiter assignment (admin) ───
+export async function assignArbiter(escrowId: string, arbiterId: string | undefined, actorId: string, note?: string): Promise<Escrow> {
+  const escrow = loadEscrow(escrowId);
+  if (escrow.status !== "disputed") {
+    throw new EscrowError("invalid_status", `Cannot assign an arbiter to escrow in status '${escrow.status}'`);
+  }
+
+  const chosen = arbiterId?.trim() || pickArbiter([escrow.creator_id, ...counterpartyIds(escrow)]);
+  if (!chosen) throw new EscrowError("no_arbiter", "No active arbiter available in the pool");
+  if (isParty(escrow, chosen)) {
+    throw new EscrowError("invalid_arbiter", "Arbiter cannot be a party to the escrow");
+  }
+  if (!(await balanceProvider.getAgent(chosen))) throw new EscrowError("invalid_arbiter", "Arbiter agent not found in casino");
+
+  setArbiter(escrowId, chosen, actorId, `Arbiter ${chosen} assigned by ${actorId}${note ? ` — ${note}` : ""}`);
+  return loadEscrow(escrowId);
+}
+
+// ─── Resolution ───
+function normalizeResolution(input: ResolveDisputeInput): { outcome: DisputeOutcome; pct: number } {
+  const outcome = parseOutcome(input.outcome);
+  if (!outcome) throw new EscrowError("invalid_resolution", "outcome must be one of: release, refund, split");
+  if (outcome === "release") return { outcome, pct: 100 };
+  if (outcome === "refund") return { outcome, pct: 0 };
+
+  const pct = input.counterpartyPct;
+  if (typeof pct !== "number" || !Number.isFinite(pct) || pct <= 0 || pct >= 100) {
+    throw new EscrowError("invalid_resolution", "split requires counterparty_pct between 0 and 100 (exclusive)");
+  }
+  return { outcome, pct };
+}
+
+/**
+ * Pays out the outstanding funds of a disputed escrow. The counterparty's
+ * share carries the same proportion of commission (and referral); the
+ * creator's share is returned in full. Shares follow ROUNDING_POLICY.split,
+ * so counterparty + creator + commission is exactly the outstanding amount.
+ * In a multi-party escrow the percentage applies to each open payee's part.
+ */
+async function settleResolution(
+  escrow: Escrow,
+  outcome: DisputeOutcome,
+  pct: number,
+  actorId: string | null,
+  note: string,
+  expiredNote?: string
+): Promise<ResolveDisputeResult> {
+  const { result, settlementId } = escrowDb.transaction(() => {
+    if (expiredNote) recordEvent(escrow.id, "dispute_expired", null, expiredNote);
+    const portion = outstandingPortion(escrow);
+    const legs: SettlementLeg[] = [];
+    const awards = outstandingShares(escrow).map((share) => {
+      const gross = percentOf(share.amount, pct, "half_up");
+      const commission = percentOf(share.commission, pct, "half_up");
+      const referral = percentOf(share.referral, pct, "down");
+      legs.push({ agentId: share.agentId, direction: "credit", amount: gross - commission, reason: `escrow_dispute_award: ${escrow.id}`, reference: share.reference + "_resolution_cp" });
+      legs.push(...referralLegs(escrow, referral, share.reference + "_resolution"));
+      return { gross, commission, referral };
+    });
+    const gross = sumMicros(awards.map((a) => a.gross));
+    const commission = sumMicros(awards.map((a) => a.commission));
+    const referral = sumMicros(awards.map((a) => a.referral));
+    const toCounterparty = gross - commission;
+    const toCreator = portion.amount - gross;
+    legs.push({ agentId: escrow.creator_id, direction: "credit", amount: toCreator, reason: `escrow_dispute_refund: ${escrow.id}`, reference: escrow.id + "_resolution_creator" });
+
+    if (!markResolved({ id: escrow.id, outcome, counterpartyPct: pct, actorId, note, commission })) {
+      throw new EscrowError("invalid_status", "Escrow status changed concurrently — fetch it again");
+    }
+    return {
+      result: {
+        outcome,
+        counterpartyPct: pct,
+        toCounterpartyMicros: toCounterparty,
+        toCreatorMicros: toCreator,
+        commissionMicros: commission,
+      },
+      settlementId: openSettlement(escrow.id, "resolution", legs, commission - referral),
+    };
+  })();
+
+  const settlementStatus = await settle(settlementId);
+  return { escrow: loadEscrow(escrow.id), ...result, settlementStatus };
+}
+
+export async function resolveDispute(
+  actorId: string,
+  escrowId: string,
+  input: ResolveDisputeInput,
+  opts: { asAdmin?: boolean } = {}
+): Promise<ResolveDisputeResult> {
+  const escrow = loadEscrow(escrowId);
+  if (!opts.asAdmin && escrow.arbiter_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the assigned arbiter can resolve this dispute");
+  }
+  if (escrow.status !== "disputed") {
+    throw new EscrowError("invalid_status", `Cannot resolve escrow in status '${escrow.status}'`);
+  }
+
+  const { outcome, pct } = normalizeResolution(input);
+  const summary = outcome === "split" ? `split ${pct}% to counterparty` : outcome;
+  const note = `Resolved by ${opts.asAdmin ? "admin " : "arbiter "}${actorId}: ${summary}${input.note?.trim() ? ` — ${input.note.trim()}` : ""}`;
+  return settleResolution(escrow, outcome, pct, actorId, note);
+}
+
+// ─── Deadline processor ───
+export async function processDisputeDeadlines(): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const expired = escrowDb.prepare(
+    "SELECT * FROM escrows WHERE status = 'disputed' AND dispute_deadline_at IS NOT NULL AND dispute_deadline_at <= ?"
+  ).all(now) as Escrow[];
+
+  for (const escrow of expired) {
+    try {
+      const pct = DISPUTE_DEFAULT_OUTCOME === "release" ? 100 : DISPUTE_DEFAULT_OUTCOME === "refund" ? 0 : DISPUTE_DEFAULT_SPLIT_PCT;
+      await settleResolution(
+        escrow,
+        DISPUTE_DEFAULT_OUTCOME,
+        pct,
+        null,
+        `Default outcome after deadline: ${DISPUTE_DEFAULT_OUTCOME} (${pct}% to counterparty)`,
+        `No resolution within ${DISPUTE_DEADLINE_HOURS}h — applying default outcome`
+      );
+      console.log(`[escrow] dispute deadline passed for ${escrow.id} → ${DISPUTE_DEFAULT_OUTCOME}`);
+    } catch (err: any) {
+      console.error(`[escrow] dispute default failed for ${escrow.id}:`, err?.message);
+    }
+  }
+}
+
+export function disputeView(escrow: Escrow, evidence: DisputeEvidence[]) {
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    arbiter_id: escrow.arbiter_id,
+    disputed_at: escrow.disputed_at ? new Date(escrow.disputed_at * 1000).toISOString() : null,
+    deadline_at: escrow.dispute_deadline_at ? new Date(escrow.dispute_deadline_at * 1000).toISOString() : null,
+    default_outcome: DISPUTE_DEFAULT_OUTCOME,
+    outcome: escrow.dispute_outcome,
+    counterparty_pct: escrow.dispute_counterparty_pct,
+    resolved_at: escrow.resolved_at ? new Date(escrow.resolved_at * 1000).toISOString() : null,
+    evidence: evidence.map((e) => ({
+      id: e.id,
+      submitted_by: e.submitted_by,
+      kind: e.kind,
+      content: e.content,
+      created_at: new Date(e.created_at * 1000).toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Typed escrow errors — thrown by the service layer, mapped to a
+ * response by each transport (REST status code / MCP isError result).
+ */
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+export type EscrowErrorCode =
+  | "unauthorized"
+  | "invalid_amount"
+  | "invalid_description"
+  | "invalid_counterparty"
+  | "invalid_milestones"
+  | "invalid_payees"
+  | "invalid_deliverable"
+  | "deliverable_mismatch"
+  | "invalid_timeout_policy"
+  | "invalid_offer"
+  | "invalid_job"
+  | "invalid_reputation"
+  | "invalid_recurring"
+  | "invalid_amendment"
+  | "invalid_admin"
+  | "invalid_fee_rule"
+  | "invalid_promo_code"
+  | "invalid_currency"
+  | "invalid_arbiter"
+  | "invalid_evidence"
+  | "invalid_resolution"
+  | "invalid_webhook"
+  | "invalid_query"
+  | "invalid_idempotency_key"
+  | "invalid_token"
+  | "insufficient_scope"
+  | "spend_cap_exceeded"
+  | "insufficient_reputation"
+  | "insufficient_role"
+  | "agent_frozen"
+  | "idempotency_key_reused"
+  | "idempotency_in_progress"
+  | "no_arbiter"
+  | "self_escrow"
+  | "counterparty_not_found"
+  | "creator_not_found"
+  | "insufficient_balance"
+  | "debit_failed"
+  | "not_found"
+  | "forbidden"
+  | "invalid_status"
+  | "internal_error";
+
+const HTTP_STATUS: Record<EscrowErrorCode, ContentfulStatusCode> = {
+  unauthorized: 401,
+  invalid_amount: 400,
+  invalid_description: 400,
+  invalid_counterparty: 400,
+  invalid_milestones: 400,
+  invalid_payees: 400,
+  invalid_deliverable: 400,
+  deliverable_mismatch: 422,
+  invalid_timeout_policy: 400,
+  invalid_offer: 400,
+  invalid_job: 400,
+  invalid_reputation: 400,
+  invalid_recurring: 400,
+  invalid_amendment: 400,
+  invalid_admin: 400,
+  invalid_fee_rule: 400,
+  invalid_promo_code: 400,
+  invalid_currency: 400,
+  invalid_arbiter: 400,
+  invalid_evidence: 400,
+  invalid_resolution: 400,
+  invalid_webhook: 400,
+  invalid_query: 400,
+  invalid_idempotency_key: 400,
+  invalid_token: 400,
+  insufficient_scope: 403,
+  spend_cap_exceeded: 403,
+  insufficient_reputation: 403,
+  insufficient_role: 403,
+  agent_frozen: 403,
+  idempotency_key_reused: 422,
+  idempotency_in_progress: 409,
+  no_arbiter: 409,
+  self_escrow: 400,
+  counterparty_not_found: 404,
+  creator_not_found: 404,
+  insufficient_balance: 402,
+  debit_failed: 500,
+  not_found: 404,
+  forbidden: 403,
+  invalid_status: 409,
+  internal_error: 500,
+};
+
+export class EscrowError extends Error {
+  readonly code: EscrowErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: EscrowErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "EscrowError";
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): ContentfulStatusCode {
+    return HTTP_STATUS[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { error: this.code, message: this.message, ...this.details };
+  }
+}
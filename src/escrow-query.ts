@@ -0,0 +1,234 @@
+/**
+ * "What escrows am I in?" — filtered, keyset-paginated listing of the
+ * escrows an agent takes part in. Shared by GET /escrows and list_escrows;
+ * the admin API lists every escrow by passing no agent.
+ */
+import { escrowDb, getPayees, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { microsToUsd, usdToMicros } from "./money.js";
+import { parseCurrency } from "./currencies.js";
+
+export const LIST_DEFAULT_LIMIT = 20;
+export const LIST_MAX_LIMIT = 100;
+
+export const ESCROW_ROLES = ["creator", "counterparty", "arbiter", "any"] as const;
+export const ESCROW_STATUSES = [
+  "open",
+  "offered",
+  "countered",
+  "rejected",
+  "expired",
+  "funded",
+  "completed",
+  "released",
+  "disputed",
+  "refunded",
+  "resolved",
+  "cancelled",
+] as const;
+export const ESCROW_SORTS = ["created_at", "amount_usd", "auto_release_at"] as const;
+
+export type EscrowRole = (typeof ESCROW_ROLES)[number];
+export type EscrowSort = (typeof ESCROW_SORTS)[number];
+
+// Sort names are the API's field names; amounts are stored as micros
+const SORT_COLUMNS = {
+  created_at: "created_at",
+  amount_usd: "amount_micros",
+  auto_release_at: "auto_release_at",
+} as const satisfies Record<EscrowSort, keyof Escrow>;
+
+export interface ListEscrowsInput {
+  role?: string;
+  status?: string | string[];
+  currency?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  createdAfter?: string | number;
+  createdBefore?: string | number;
+  autoReleaseAfter?: string | number;
+  autoReleaseBefore?: string | number;
+  q?: string;
+  sort?: string;
+  order?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ListEscrowsResult {
+  escrows: Escrow[];
+  nextCursor: string | null;
+}
+
+// Position of the last row on a page; bound to the sort it was produced by
+interface Cursor {
+  s: EscrowSort;
+  o: "asc" | "desc";
+  v: number;
+  id: string;
+}
+
+function invalid(message: string): never {
+  throw new EscrowError("invalid_query", message);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string, sort: EscrowSort, order: "asc" | "desc"): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    invalid("cursor is malformed");
+  }
+  if (typeof cursor?.v !== "number" || typeof cursor?.id !== "string") invalid("cursor is malformed");
+  if (cursor.s !== sort || cursor.o !== order) invalid("cursor was issued for a different sort; start again without it");
+  return cursor;
+}
+
+// Accepts unix seconds or anything Date can parse (ISO 8601)
+function parseTime(value: string | number | undefined, field: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number" || /^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) invalid(`${field} must be an ISO 8601 date or unix seconds`);
+  return Math.floor(ms / 1000);
+}
+
+function parseAmountBound(value: number | undefined, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!Number.isFinite(value) || value < 0) invalid(`${field} must be a non-negative number`);
+  return usdToMicros(value);
+}
+
+function parseStatuses(status: string | string[] | undefined): string[] {
+  if (status === undefined) return [];
+  const list = (Array.isArray(status) ? status : status.split(",")).map((s) => s.trim()).filter(Boolean);
+  const unknown = list.filter((s) => !(ESCROW_STATUSES as readonly string[]).includes(s));
+  if (unknown.length) invalid(`Unknown status: ${unknown.join(", ")}. Valid: ${ESCROW_STATUSES.join(", ")}`);
+  return [...new Set(list)];
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+export function listEscrows(agentId: string | null, input: ListEscrowsInput = {}): ListEscrowsResult {
+  const role = (input.role ?? "any") as EscrowRole;
+  if (!ESCROW_ROLES.includes(role)) invalid(`role must be one of: ${ESCROW_ROLES.join(", ")}`);
+  if (agentId === null && role !== "any") invalid("role needs an agent to filter on");
+  const sort = (input.sort ?? "created_at") as EscrowSort;
+  if (!ESCROW_SORTS.includes(sort)) invalid(`sort must be one of: ${ESCROW_SORTS.join(", ")}`);
+  const order = input.order ?? "desc";
+  if (order !== "asc" && order !== "desc") invalid("order must be asc or desc");
+
+  const limit = input.limit ?? LIST_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > LIST_MAX_LIMIT) {
+    invalid(`limit must be an integer between 1 and ${LIST_MAX_LIMIT}`);
+  }
+
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  // Payees of a multi-party escrow count as its counterparties
+  const isPayee = "id IN (SELECT escrow_id FROM escrow_payees WHERE agent_id = ?)";
+  if (agentId !== null) {
+    if (role === "any") {
+      where.push(`(creator_id = ? OR counterparty_id = ? OR arbiter_id = ? OR ${isPayee})`);
+      params.push(agentId, agentId, agentId, agentId);
+    } else if (role === "counterparty") {
+      where.push(`(counterparty_id = ? OR ${isPayee})`);
+      params.push(agentId, agentId);
+    } else {
+      where.push(`${role}_id = ?`);
+      params.push(agentId);
+    }
+  }
+
+  const statuses = parseStatuses(input.status);
+  if (statuses.length) {
+    where.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+    params.push(...statuses);
+  }
+
+  if (input.currency !== undefined) {
+    where.push("currency = ?");
+    params.push(parseCurrency(input.currency));
+  }
+
+  const bounds: [string, string, number | undefined][] = [
+    ["amount_micros", ">=", parseAmountBound(input.minAmount, "min_amount")],
+    ["amount_micros", "<=", parseAmountBound(input.maxAmount, "max_amount")],
+    ["created_at", ">=", parseTime(input.createdAfter, "created_after")],
+    ["created_at", "<", parseTime(input.createdBefore, "created_before")],
+    ["auto_release_at", ">=", parseTime(input.autoReleaseAfter, "auto_release_after")],
+    ["auto_release_at", "<", parseTime(input.autoReleaseBefore, "auto_release_before")],
+  ];
+  for (const [column, op, value] of bounds) {
+    if (value === undefined) continue;
+    where.push(`${column} ${op} ?`);
+    params.push(value);
+  }
+
+  const q = input.q?.trim();
+  if (q) {
+    if (q.length > 200) invalid("q must be at most 200 characters");
+    where.push("description LIKE ? ESCAPE '\\'");
+    params.push(`%${escapeLike(q)}%`);
+  }
+
+  // Keyset pagination on (sort column, id) so pages stay stable while rows are added
+  const column = SORT_COLUMNS[sort];
+  if (input.cursor) {
+    const cursor = decodeCursor(input.cursor, sort, order);
+    const cmp = order === "asc" ? ">" : "<";
+    where.push(`(${column} ${cmp} ? OR (${column} = ? AND id ${cmp} ?))`);
+    params.push(cursor.v, cursor.v, cursor.id);
+  }
+
+  const direction = order === "asc" ? "ASC" : "DESC";
+  const rows = escrowDb.prepare(`
+    SELECT * FROM escrows
+    ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY ${column} ${direction}, id ${direction}
+    LIMIT ?
+  `).all(...params, limit + 1) as Escrow[];
+
+  const escrows = rows.slice(0, limit);
+  const last = escrows[escrows.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({ s: sort, o: order, v: last[column], id: last.id })
+    : null;
+  return { escrows, nextCursor };
+}
+
+export function roleOf(agentId: string, escrow: Escrow): Exclude<EscrowRole, "any"> {
+  if (escrow.creator_id === agentId) return "creator";
+  if (escrow.arbiter_id === agentId) return "arbiter";
+  return "counterparty";
+}
+
+/** Omits `role` when listed without an agent (admin API). */
+export function escrowSummaryView(agentId: string | null, escrow: Escrow) {
+  const iso = (ts: number | null) => (ts ? new Date(ts * 1000).toISOString() : null);
+  const payees = getPayees(escrow.id);
+  return {
+    escrow_id: escrow.id,
+    ...(agentId === null ? {} : { role: roleOf(agentId, escrow) }),
+    status: escrow.status,
+    currency: escrow.currency,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    commission_usd: microsToUsd(escrow.commission_micros),
+    description: escrow.description,
+    creator_id: escrow.creator_id,
+    counterparty_id: escrow.counterparty_id,
+    ...(payees.length ? { payee_ids: payees.map((p) => p.agent_id) } : {}),
+    arbiter_id: escrow.arbiter_id,
+    created_at: iso(escrow.created_at),
+    auto_release_at: iso(escrow.auto_release_at),
+    completed_at: iso(escrow.completed_at),
+    released_at: iso(escrow.released_at),
+  };
+}
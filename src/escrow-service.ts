@@ -0,0 +1,827 @@
+/**
+ * Escrow service — transport-agnostic escrow operations.
+ * Both the Hono REST API (index.ts) and the MCP server (mcp-server.ts) call into
+ * this module so an escrow behaves the same regardless of how an agent reaches it.
+ * Failures are thrown as EscrowError; each transport decides how to render them.
+ */
+import { randomUUID } from "crypto";
+import {
+  escrowDb,
+  insertEscrow,
+  getEscrow,
+  markCompleted,
+  markReleased,
+  markRefunded,
+  markMilestonesRefunded,
+  markPayeesRefunded,
+  getMilestones,
+  getPayees,
+  markMilestoneCompleted,
+  markMilestoneReleased,
+  markPayeeCompleted,
+  markPayeesReleased,
+  markDeliverableVerified,
+  recordEvent,
+  type Escrow,
+  type Milestone,
+  type Payee,
+  type TimeoutPolicy,
+} from "./db.js";
+import { EscrowError } from "./errors.js";
+import { InsufficientBalanceError } from "./balance.js";
+import { balanceProvider, providerFor } from "./balance-provider.js";
+import { BASE_CURRENCY, convertQuoted, lockFxQuote, parseCurrency, toUsd } from "./currencies.js";
+import { chargeTokenSpend, refundTokenSpend } from "./api-tokens.js";
+import {
+  parseCommitment,
+  commitmentOf,
+  verifyDeliverable,
+  verificationNote,
+  verificationView,
+  type DeliverableInput,
+  type DeliverableVerification,
+} from "./deliverables.js";
+import { parseJobListing, type JobInput } from "./job-board.js";
+import { parseMinReputation, requireReputation, type MinReputationInput } from "./reputation.js";
+import { requireNotFrozen } from "./freezes.js";
+import { commissionsFor, resolveFeeSchedule, redeemPromo } from "./fees.js";
+import { resolveReferrals, referralOf, referralLegs } from "./referrals.js";
+import { bpsOf, formatMoney, formatUsd, microsToUsd, sumMicros, usdToMicros, type Micros } from "./money.js";
+import {
+  openSettlement,
+  hasPendingLock,
+  getSettlement,
+  applySettlementLegs,
+  markSettlementApplied,
+  failSettlement,
+  noteSettlementError,
+  rollbackSettlement,
+  settle,
+  type SettlementLeg,
+  type SettlementStatus,
+} from "./settlement.js";
+
+export const MIN_AMOUNT = 0.10;
+export const MIN_AMOUNT_MICROS = usdToMicros(MIN_AMOUNT);
+export const DEFAULT_TIMEOUT_HOURS = 24;
+export const MAX_TIMEOUT_HOURS = 720; // 30 days
+export const MAX_MILESTONES = 20;
+export const MAX_PAYEES = 10;
+export const TIMEOUT_POLICIES = ["refund_creator", "release_if_completed", "escalate_dispute"] as const;
+export const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = "release_if_completed";
+export const DEFAULT_COMPLETION_GRACE_HOURS = 24;
+export const MAX_COMPLETION_GRACE_HOURS = 168;
+
+// ─── Inputs / results ───
+export interface CreateEscrowInput {
+  amountUsd?: number;
+  description: string | undefined;
+  counterpartyId: string | undefined;
+  timeoutHours?: number;
+  referralCode?: string;
+  arbiterId?: string;
+  milestones?: MilestoneInput[];
+  // Multi-party escrow: replaces counterpartyId
+  payees?: PayeeInput[];
+  // Expected output; a matching deliverable on complete releases automatically
+  deliverable?: DeliverableInput;
+  // What happens at timeout (see timeouts.ts)
+  timeoutPolicy?: string;
+  completionGraceHours?: number;
+  commissionOnRefund?: boolean;
+  // Post as an open job without a counterparty (see job-board.ts)
+  job?: JobInput;
+  // The counterparty, each payee or whoever takes the job must meet this (see reputation.ts)
+  minReputation?: MinReputationInput;
+  // Promotional fee rate (see fees.ts)
+  promoCode?: string;
+  // What the escrow is denominated in; USD if omitted (see currencies.ts)
+  currency?: string;
+  // The amounts are given in this currency and converted at a rate locked now
+  quoteCurrency?: string;
+}
+
+export interface CreateEscrowOptions {
+  // Escrow token the request came in on; the amount counts against its spending cap
+  tokenId?: string;
+  // Set by the recurring scheduler: the escrow is this cycle of a recurring escrow
+  recurring?: { id: string; cycle: number };
+}
+
+export interface MilestoneInput {
+  description: string | undefined;
+  amountUsd: number;
+}
+
+// Each payee is given either a fixed amount or a percentage share of the escrow
+export interface PayeeInput {
+  agentId: string | undefined;
+  amountUsd?: number;
+  sharePct?: number;
+}
+
+export interface CreateEscrowResult {
+  escrow: Escrow;
+  netMicros: Micros;
+}
+
+export interface CompleteEscrowResult {
+  escrow: Escrow;
+  verification?: DeliverableVerification;
+  // Set when a verified deliverable released the escrow
+  release?: ReleaseEscrowResult;
+}
+
+export interface ReleaseEscrowResult {
+  escrow: Escrow;
+  netMicros: Micros;
+  payouts: { agentId: string; netMicros: Micros }[];
+  houseCommissionMicros: Micros;
+  settlementId: string;
+  settlementStatus: SettlementStatus;
+}
+
+export interface RefundEscrowResult {
+  escrow: Escrow;
+  refundedMicros: Micros;
+  settlementId: string;
+  settlementStatus: SettlementStatus;
+}
+
+export interface MilestoneResult {
+  escrow: Escrow;
+  milestone: Milestone;
+}
+
+export interface ReleaseMilestoneResult extends MilestoneResult {
+  netMicros: Micros;
+  settlementId: string;
+  settlementStatus: SettlementStatus;
+}
+
+// ─── Helpers ───
+export function netToCounterparty(escrow: Pick<Escrow, "amount_micros" | "commission_micros">): Micros {
+  return escrow.amount_micros - escrow.commission_micros;
+}
+
+export function loadEscrow(escrowId: string): Escrow {
+  const escrow = getEscrow(escrowId);
+  if (!escrow) throw new EscrowError("not_found", "Escrow not found");
+  return escrow;
+}
+
+// The creator's level-1 referrer (see referrals.ts for the rest of the chain). An explicit
+// referral code wins over the creator's own referred_by link; self-referral is ignored.
+async function resolveReferrer(creatorId: string, creatorReferredBy: string | null, referralCode?: string): Promise<string | null> {
+  if (referralCode) {
+    const referrer = await balanceProvider.getAgentByReferralCode(referralCode);
+    return referrer && referrer.id !== creatorId ? referrer.id : null;
+  }
+  return creatorReferredBy;
+}
+
+// ─── Create ───
+// Validates milestone inputs; commission is worked out per milestone once the
+// fee schedule is known, so per-milestone payouts always add up to the escrow.
+function planMilestones(input: MilestoneInput[], convert: (amount: Micros) => Micros) {
+  if (input.length === 0 || input.length > MAX_MILESTONES) {
+    throw new EscrowError("invalid_milestones", `milestones must contain 1-${MAX_MILESTONES} entries`);
+  }
+  return input.map((m, i) => {
+    const description = m.description?.trim();
+    if (!description || description.length < 3) {
+      throw new EscrowError("invalid_milestones", `milestone ${i + 1}: description is required (min 3 chars)`);
+    }
+    const amountMicros = convert(usdToMicros(m.amountUsd));
+    if (!Number.isFinite(amountMicros) || amountMicros < MIN_AMOUNT_MICROS) {
+      throw new EscrowError("invalid_milestones", `milestone ${i + 1}: minimum amount is $${MIN_AMOUNT}`);
+    }
+    return { description, amountMicros };
+  });
+}
+
+// Resolves each payee's part of the escrow. Shares are rounded down and the
+// remainder goes to the first payee, so the parts always add up to the escrow.
+// Amounts are checked as given, then converted out of any quote currency.
+function planPayees(input: PayeeInput[], creatorId: string, requestedAmount: Micros | undefined, convert: (amount: Micros) => Micros) {
+  if (input.length < 2 || input.length > MAX_PAYEES) {
+    throw new EscrowError("invalid_payees", `payees must contain 2-${MAX_PAYEES} entries; use counterparty_agent_id for one`);
+  }
+  const agentIds = input.map((p, i) => {
+    const agentId = p.agentId?.trim();
+    if (!agentId?.startsWith("ag_")) throw new EscrowError("invalid_payees", `payee ${i + 1}: agent_id must be in ag_xxx format`);
+    if (agentId === creatorId) throw new EscrowError("self_escrow", "Cannot name yourself as a payee");
+    return agentId;
+  });
+  if (new Set(agentIds).size !== agentIds.length) throw new EscrowError("invalid_payees", "Each agent can be a payee only once");
+
+  const byShare = input.every((p) => p.sharePct !== undefined && p.amountUsd === undefined);
+  const byAmount = input.every((p) => p.amountUsd !== undefined && p.sharePct === undefined);
+  if (!byShare && !byAmount) {
+    throw new EscrowError("invalid_payees", "Give every payee either amount_usd or share_pct (not both, not mixed)");
+  }
+
+  let amounts: Micros[];
+  let shares: (number | null)[];
+  if (byAmount) {
+    amounts = input.map((p) => usdToMicros(Number(p.amountUsd)));
+    shares = input.map(() => null);
+    const total = sumMicros(amounts);
+    if (requestedAmount !== undefined && Number.isFinite(total) && requestedAmount !== total) {
+      throw new EscrowError(
+        "invalid_payees",
+        `amount_usd (${formatUsd(requestedAmount)}) must equal the sum of payee amounts (${formatUsd(total)})`
+      );
+    }
+    amounts = amounts.map(convert);
+  } else {
+    if (requestedAmount === undefined) throw new EscrowError("invalid_amount", "amount_usd is required when payees are given shares");
+    if (!Number.isFinite(requestedAmount) || requestedAmount < MIN_AMOUNT_MICROS) {
+      throw new EscrowError("invalid_amount", `amount_usd must be a number of at least ${MIN_AMOUNT}`);
+    }
+    shares = input.map((p, i) => {
+      const bps = Math.round(Number(p.sharePct) * 100);
+      if (!Number.isFinite(bps) || bps <= 0) throw new EscrowError("invalid_payees", `payee ${i + 1}: share_pct must be positive`);
+      return bps;
+    });
+    if (sumMicros(shares as number[]) !== 10_000) {
+      throw new EscrowError("invalid_payees", "payee share_pct values must add up to 100");
+    }
+    const whole = convert(requestedAmount);
+    amounts = shares.map((bps) => bpsOf(whole, bps!, "down"));
+    amounts[0] += whole - sumMicros(amounts);
+  }
+
+  return agentIds.map((agentId, i) => {
+    if (!Number.isFinite(amounts[i]) || amounts[i] < MIN_AMOUNT_MICROS) {
+      throw new EscrowError("invalid_payees", `payee ${i + 1}: minimum amount is $${MIN_AMOUNT}`);
+    }
+    return { agentId, shareBps: shares[i], amountMicros: amounts[i] };
+  });
+}
+
+function parseTimeoutPolicy(input: CreateEscrowInput) {
+  const policy = (input.timeoutPolicy ?? DEFAULT_TIMEOUT_POLICY) as TimeoutPolicy;
+  if (!TIMEOUT_POLICIES.includes(policy)) {
+    throw new EscrowError("invalid_timeout_policy", `timeout_policy must be one of: ${TIMEOUT_POLICIES.join(", ")}`);
+  }
+  const graceHours = input.completionGraceHours ?? DEFAULT_COMPLETION_GRACE_HOURS;
+  if (!Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_COMPLETION_GRACE_HOURS) {
+    throw new EscrowError(
+      "invalid_timeout_policy",
+      `completion_grace_hours must be a whole number from 0 to ${MAX_COMPLETION_GRACE_HOURS}`
+    );
+  }
+  if (input.commissionOnRefund !== undefined && typeof input.commissionOnRefund !== "boolean") {
+    throw new EscrowError("invalid_timeout_policy", "commission_on_refund must be true or false");
+  }
+  return { timeoutPolicy: policy, completionGraceHours: graceHours, commissionOnRefund: input.commissionOnRefund ?? false };
+}
+
+// Everything insertEscrow needs except the id: validated terms, commission and referrer
+export type EscrowPlan = Omit<Parameters<typeof insertEscrow>[0], "id" | "offer" | "recurring">;
+
+export interface PlanEscrowOptions {
+  // Pricing a quote: the creator need not be able to fund it yet
+  quote?: boolean;
+}
+
+/** Validates create input and works out commission; checks the creator can fund it, but moves no money. */
+export async function planEscrow(creatorId: string, input: CreateEscrowInput, opts: PlanEscrowOptions = {}): Promise<EscrowPlan> {
+  const currency = parseCurrency(input.currency);
+  const fxQuote = lockFxQuote(input.quoteCurrency, currency);
+  const convert = (amount: Micros) => convertQuoted(amount, fxQuote);
+  // Totals are checked in the currency they were given in
+  const milestoneTotal = input.milestones
+    ? sumMicros(input.milestones.map((m) => usdToMicros(Number(m.amountUsd)) || 0))
+    : undefined;
+  const requestedAmount = input.amountUsd === undefined ? undefined : usdToMicros(input.amountUsd);
+  if (input.payees !== undefined) {
+    if (input.milestones !== undefined) throw new EscrowError("invalid_payees", "payees cannot be combined with milestones");
+    if (input.counterpartyId !== undefined) {
+      throw new EscrowError("invalid_payees", "Give either counterparty_agent_id or payees, not both");
+    }
+  }
+  const payeePlan = input.payees ? planPayees(input.payees, creatorId, requestedAmount, convert) : undefined;
+  if (input.deliverable !== undefined && payeePlan) {
+    throw new EscrowError("invalid_deliverable", "Deliverable commitments are not supported on multi-party escrows");
+  }
+  const deliverable = input.deliverable === undefined ? null : parseCommitment(input.deliverable);
+  const timeoutPolicy = parseTimeoutPolicy(input);
+  if (input.job !== undefined && (input.payees !== undefined || input.counterpartyId !== undefined)) {
+    throw new EscrowError("invalid_job", "An open job has no counterparty_agent_id or payees — the worker is chosen later");
+  }
+  const job = input.job === undefined ? null : parseJobListing(input.job);
+  const minReputation = input.minReputation === undefined ? null : parseMinReputation(input.minReputation);
+  if (milestoneTotal !== undefined && requestedAmount !== undefined && requestedAmount !== milestoneTotal) {
+    throw new EscrowError(
+      "invalid_milestones",
+      `amount_usd ($${input.amountUsd}) must equal the sum of milestone amounts ($${microsToUsd(milestoneTotal)})`
+    );
+  }
+  // Converted part by part, so the parts still add up to the escrow
+  const amount = input.milestones
+    ? sumMicros(input.milestones.map((m) => convert(usdToMicros(Number(m.amountUsd)) || 0)))
+    : payeePlan
+      ? sumMicros(payeePlan.map((p) => p.amountMicros))
+      : requestedAmount === undefined ? undefined : convert(requestedAmount);
+  const description = input.description?.trim();
+  // A multi-party escrow records its first payee as the counterparty; an open job has none yet
+  const counterpartyId = job ? "" : payeePlan ? payeePlan[0].agentId : input.counterpartyId?.trim();
+  const payeeIds = job ? [] : payeePlan ? payeePlan.map((p) => p.agentId) : [counterpartyId];
+  const timeoutHours = Math.min(
+    Math.max(1, Math.floor(input.timeoutHours ?? DEFAULT_TIMEOUT_HOURS)),
+    MAX_TIMEOUT_HOURS
+  );
+
+  if (!amount || !Number.isFinite(amount) || amount < MIN_AMOUNT_MICROS) {
+    throw new EscrowError("invalid_amount", `Minimum escrow amount is ${currency === BASE_CURRENCY ? `$${MIN_AMOUNT}` : `${MIN_AMOUNT} ${currency}`}`);
+  }
+  if (!description || description.length < 3) {
+    throw new EscrowError("invalid_description", "description is required (min 3 chars)");
+  }
+  if (!job && !counterpartyId?.startsWith("ag_")) {
+    throw new EscrowError("invalid_counterparty", "counterparty_agent_id must be in ag_xxx format");
+  }
+  if (counterpartyId === creatorId) {
+    throw new EscrowError("self_escrow", "Cannot create escrow with yourself");
+  }
+
+  requireNotFrozen(creatorId);
+  for (const payeeId of payeeIds) {
+    if (!(await balanceProvider.getAgent(payeeId!))) {
+      throw new EscrowError("counterparty_not_found", `Counterparty agent ${payeeId} not found in casino`);
+    }
+    requireNotFrozen(payeeId!);
+    requireReputation(minReputation, payeeId!);
+  }
+
+  // Optional arbiter named up front; otherwise one is drawn from the pool if a dispute is raised
+  const arbiterId = input.arbiterId?.trim() || null;
+  if (arbiterId) {
+    if (!arbiterId.startsWith("ag_") || arbiterId === creatorId || payeeIds.includes(arbiterId)) {
+      throw new EscrowError("invalid_arbiter", "arbiter_agent_id must be an ag_xxx agent who is not a party to the escrow");
+    }
+    if (!(await balanceProvider.getAgent(arbiterId))) throw new EscrowError("invalid_arbiter", "Arbiter agent not found in casino");
+  }
+
+  const creator = await balanceProvider.getAgent(creatorId);
+  if (!creator) throw new EscrowError("creator_not_found", "Creator agent not found in casino");
+  if (!opts.quote) {
+    // Other currencies are held by their own provider, which may not have a wallet for the creator yet
+    const balance = currency === BASE_CURRENCY ? creator.balance : (await providerFor(currency).getAgent(creatorId))?.balance ?? 0;
+    if (balance < amount) {
+      throw new EscrowError(
+        "insufficient_balance",
+        `Balance ${formatMoney(balance, currency)} < escrow amount ${formatMoney(amount, currency)}`,
+        { balance: microsToUsd(balance), currency }
+      );
+    }
+  }
+
+  const referrerId = await resolveReferrer(creatorId, creator.referredBy, input.referralCode);
+  // Multi-party escrows credit the creator side only; a job's worker is attributed on assignment
+  const referrals = await resolveReferrals(creatorId, referrerId, payeePlan || job ? null : counterpartyId!);
+  const milestonePlan = input.milestones ? planMilestones(input.milestones, convert) : undefined;
+  const partAmounts = (milestonePlan ?? payeePlan ?? [{ amountMicros: amount }]).map((p) => p.amountMicros);
+  const feeSchedule = resolveFeeSchedule(creatorId, partAmounts, input.promoCode, currency);
+  // Commission and referral are worked out per payout, so each payee's net is exact
+  const priced = <T extends { amountMicros: Micros }>(parts: T[]) => {
+    const fees = commissionsFor(feeSchedule, parts.map((p) => p.amountMicros));
+    return parts.map((p, i) => ({
+      ...p,
+      commissionMicros: fees[i],
+      referralCommissionMicros: referralOf(fees[i], referrals),
+    }));
+  };
+  const milestones = milestonePlan ? priced(milestonePlan) : undefined;
+  const payees = payeePlan ? priced(payeePlan) : undefined;
+  const [whole] = priced([{ amountMicros: amount }]);
+  const parts = milestones ?? payees ?? [whole];
+  const commissionMicros = sumMicros(parts.map((m) => m.commissionMicros));
+  const referralCommissionMicros = sumMicros(parts.map((m) => m.referralCommissionMicros));
+
+  return {
+    creatorId,
+    counterpartyId: counterpartyId!,
+    amountMicros: amount,
+    commissionMicros,
+    currency,
+    // The escrow as priced, in the quote currency
+    fxQuote: fxQuote && {
+      ...fxQuote,
+      quoted_amount_micros: milestoneTotal ?? requestedAmount ?? sumMicros(input.payees!.map((p) => usdToMicros(Number(p.amountUsd)))),
+    },
+    description,
+    timeoutHours,
+    referrerId,
+    referralCommissionMicros,
+    arbiterId,
+    milestones,
+    payees,
+    deliverable,
+    job,
+    minReputation,
+    feeSchedule,
+    referrals,
+    ...timeoutPolicy,
+  };
+}
+
+export function newEscrowId(): string {
+  return `esc_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+export async function createEscrow(
+  creatorId: string,
+  input: CreateEscrowInput,
+  opts: CreateEscrowOptions = {}
+): Promise<CreateEscrowResult> {
+  const plan = await planEscrow(creatorId, input);
+  const escrowId = newEscrowId();
+  await lockFunds(escrowId, creatorId, plan.amountMicros, plan.currency, opts.tokenId, "create", () => {
+    redeemPromo(plan.feeSchedule);
+    insertEscrow({ id: escrowId, ...plan, recurring: opts.recurring });
+  });
+
+  const escrow = loadEscrow(escrowId);
+  return { escrow, netMicros: netToCounterparty(escrow) };
+}
+
+/**
+ * Lock: the debit is recorded in the outbox first, applied by the balance
+ * provider, and only then is `record` run to write the funded escrow (marking
+ * the lock applied). If `record` throws, the debit is rolled back. Token
+ * spending caps are in USD, so other currencies count at their USD value.
+ *
+ * An offer can be accepted again after a failed attempt, so each acceptance
+ * debits under its own reference, and only once no earlier lock is still
+ * pending — the reconciler could not tell which one funded the escrow.
+ */
+export async function lockFunds(
+  escrowId: string,
+  creatorId: string,
+  amount: Micros,
+  currency: string,
+  tokenId: string | null | undefined,
+  step: "create" | "accept",
+  record: () => void
+): Promise<void> {
+  const spend = toUsd(amount, currency);
+  if (tokenId) chargeTokenSpend(tokenId, spend);
+  const refundSpend = () => tokenId && refundTokenSpend(tokenId, spend);
+  const reference = step === "create" ? escrowId : `${escrowId}_accept_${randomUUID().replace(/-/g, "").slice(0, 8)}`;
+  let settlementId: string;
+  try {
+    settlementId = escrowDb.transaction(() => {
+      if (step === "accept" && hasPendingLock(escrowId)) {
+        throw new EscrowError("invalid_status", "An earlier acceptance of this offer is still settling — try again in a few minutes");
+      }
+      return openSettlement(escrowId, "lock", [
+        { agentId: creatorId, direction: "debit", amount, reason: `escrow_lock: ${escrowId}`, reference },
+      ], 0, currency, step);
+    }).immediate();
+  } catch (err) {
+    refundSpend();
+    throw err;
+  }
+
+  try {
+    await applySettlementLegs(getSettlement(settlementId)!);
+  } catch (err: any) {
+    refundSpend();
+    if (err instanceof InsufficientBalanceError) {
+      failSettlement(settlementId, err.message);
+      throw new EscrowError("insufficient_balance", "Insufficient balance to fund escrow.");
+    }
+    // The provider may have applied the debit before failing: the reconciler
+    // reverses it if it landed, since no escrow was recorded for this lock
+    noteSettlementError(settlementId, err);
+    console.error(`[escrow/${step}] debit for ${escrowId} left pending:`, err?.message);
+    throw new EscrowError("debit_failed", "Failed to debit balance. Any debit that went through is reversed automatically; try again shortly.");
+  }
+
+  try {
+    escrowDb.transaction(() => {
+      record();
+      markSettlementApplied(settlementId);
+    })();
+  } catch (err: any) {
+    // Return the locked funds on DB error (or a lost race, for an offer)
+    await rollbackSettlement(settlementId, `escrow_${step}_failed_refund`);
+    refundSpend();
+    if (err instanceof EscrowError) throw err;
+    console.error(`[escrow/${step}] DB error:`, err?.message);
+    throw new EscrowError("internal_error", "Failed to create escrow record.");
+  }
+}
+
+// ─── Complete ───
+/**
+ * Marks the task complete. A deliverable is checked against the escrow's
+ * commitment: a match completes and releases in one go, a mismatch is
+ * recorded and rejected so the counterparty can try again.
+ */
+export async function completeEscrow(actorId: string, escrowId: string, deliverable?: unknown): Promise<CompleteEscrowResult> {
+  const escrow = loadEscrow(escrowId);
+  const payees = getPayees(escrowId);
+  if (payees.length ? !payees.some((p) => p.agent_id === actorId) : escrow.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the counterparty can mark the task complete");
+  }
+  if (escrow.status !== "funded") {
+    throw new EscrowError("invalid_status", `Cannot complete escrow in status '${escrow.status}'`);
+  }
+
+  // Each payee completes their own part; the escrow is complete once all have
+  if (payees.length) {
+    escrowDb.transaction(() => {
+      if (!markPayeeCompleted(escrowId, actorId)) {
+        throw new EscrowError("invalid_status", "You have already marked your part complete");
+      }
+      if (getPayees(escrowId).every((p) => p.status !== "pending")) markCompleted(escrowId, actorId);
+    })();
+    return { escrow: loadEscrow(escrowId) };
+  }
+
+  let verification: DeliverableVerification | undefined;
+  if (deliverable !== undefined) {
+    const commitment = commitmentOf(escrow);
+    if (!commitment) throw new EscrowError("invalid_deliverable", "This escrow has no deliverable commitment");
+    verification = verifyDeliverable(commitment, deliverable);
+    if (!verification.matched) {
+      recordEvent(escrowId, "deliverable_rejected", actorId, verificationNote(verification));
+      throw new EscrowError("deliverable_mismatch", "Deliverable does not match the escrow's commitment", {
+        verification: verificationView(verification),
+      });
+    }
+  }
+
+  escrowDb.transaction(() => {
+    // Completing a milestone escrow delivers every milestone still pending
+    for (const m of getMilestones(escrowId)) {
+      if (m.status === "pending") markMilestoneCompleted(escrowId, m.seq, actorId);
+    }
+    if (!markCompleted(escrowId, actorId)) {
+      throw new EscrowError("invalid_status", "Escrow status changed concurrently — fetch it again");
+    }
+    if (verification) markDeliverableVerified(escrowId, actorId, verificationNote(verification));
+  })();
+  if (!verification) return { escrow: loadEscrow(escrowId) };
+
+  // The commitment stands in for the creator's approval
+  try {
+    const release = await releaseOutstanding(loadEscrow(escrowId), null, "Auto-released: deliverable verified");
+    return { escrow: release.escrow, verification, release };
+  } catch (err: any) {
+    // e.g. disputed in the meantime — the completion itself stands
+    if (!(err instanceof EscrowError)) throw err;
+    console.error(`[escrow] deliverable auto-release skipped for ${escrowId}:`, err.message);
+    return { escrow: loadEscrow(escrowId), verification };
+  }
+}
+
+// ─── Release ───
+
+// Money still held for the counterparty: the whole escrow, or the milestones not yet paid out
+export interface Portion {
+  amount: Micros;
+  commission: Micros;
+  referral: Micros;
+}
+
+// One recipient's outstanding portion; `reference` prefixes its settlement legs
+export interface PayoutShare extends Portion {
+  agentId: string;
+  reference: string;
+}
+
+type PortionRow = Pick<Milestone | Payee, "status" | "amount_micros" | "commission_micros" | "referral_commission_micros">;
+
+function isOpen(row: PortionRow): boolean {
+  return row.status === "pending" || row.status === "completed";
+}
+
+function portionOf(row: PortionRow): Portion {
+  return { amount: row.amount_micros, commission: row.commission_micros, referral: row.referral_commission_micros };
+}
+
+export function outstandingPortion(escrow: Escrow): Portion {
+  const parts = getPayees(escrow.id);
+  const rows: PortionRow[] = parts.length ? parts : getMilestones(escrow.id);
+  if (rows.length === 0) {
+    return { amount: escrow.amount_micros, commission: escrow.commission_micros, referral: escrow.referral_commission_micros };
+  }
+  const open = rows.filter(isOpen);
+  return {
+    amount: sumMicros(open.map((m) => m.amount_micros)),
+    commission: sumMicros(open.map((m) => m.commission_micros)),
+    referral: sumMicros(open.map((m) => m.referral_commission_micros)),
+  };
+}
+
+// Who is still owed what: each open payee, or the counterparty for everything outstanding
+export function outstandingShares(escrow: Escrow): PayoutShare[] {
+  const payees = getPayees(escrow.id);
+  if (payees.length === 0) {
+    return [{ agentId: escrow.counterparty_id, reference: escrow.id, ...outstandingPortion(escrow) }];
+  }
+  return payees.filter(isOpen).map((p) => ({ agentId: p.agent_id, reference: p.id, ...portionOf(p) }));
+}
+
+// Recipient's net payout plus the referrers' cut; the house keeps commission - referral
+export function payoutLegs(escrow: Escrow, recipientId: string, portion: Portion, reference: string): SettlementLeg[] {
+  return [
+    {
+      agentId: recipientId,
+      direction: "credit",
+      amount: portion.amount - portion.commission,
+      reason: `escrow_release: ${escrow.id}`,
+      reference: reference + "_release",
+    },
+    ...referralLegs(escrow, portion.referral, reference),
+  ];
+}
+
+export async function releaseEscrow(
+  actorId: string,
+  escrowId: string,
+  opts: { asAdmin?: boolean; note?: string } = {}
+): Promise<ReleaseEscrowResult> {
+  const escrow = loadEscrow(escrowId);
+
+  // Only creator can release (or auto-release handles timeout, or an operator forces it)
+  if (!opts.asAdmin && escrow.creator_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the escrow creator can release funds");
+  }
+  if (!["funded", "completed"].includes(escrow.status)) {
+    throw new EscrowError("invalid_status", `Cannot release escrow in status '${escrow.status}'`);
+  }
+  const note = opts.asAdmin ? `Force-released by admin ${actorId}: ${opts.note}` : `Released by creator ${actorId}`;
+  return releaseOutstanding(escrow, actorId, note);
+}
+
+/**
+ * Operators only: returns everything still held to the creator, without
+ * commission. Disputed escrows go through resolveDispute instead.
+ */
+export async function refundEscrow(adminId: string, escrowId: string, note: string): Promise<RefundEscrowResult> {
+  const escrow = loadEscrow(escrowId);
+  if (!["funded", "completed"].includes(escrow.status)) {
+    throw new EscrowError("invalid_status", `Cannot refund escrow in status '${escrow.status}'`);
+  }
+
+  const { settlementId, amount } = escrowDb.transaction(() => {
+    const { amount } = outstandingPortion(escrow);
+    if (!markRefunded(escrowId, `Force-refunded by admin ${adminId}: ${note}`, 0, adminId)) {
+      throw new EscrowError("invalid_status", "Escrow status changed concurrently — fetch it again");
+    }
+    markMilestonesRefunded(escrowId);
+    markPayeesRefunded(escrowId);
+    const settlementId = openSettlement(escrowId, "refund", [
+      { agentId: escrow.creator_id, direction: "credit", amount, reason: `escrow_admin_refund: ${escrowId}`, reference: escrowId + "_admin_refund" },
+    ]);
+    return { settlementId, amount };
+  })();
+
+  const settlementStatus = await settle(settlementId);
+  return { escrow: loadEscrow(escrowId), refundedMicros: amount, settlementId, settlementStatus };
+}
+
+// Pays out everything still held; `actorId` is null when the release was automatic
+async function releaseOutstanding(escrow: Escrow, actorId: string | null, note: string): Promise<ReleaseEscrowResult> {
+  const escrowId = escrow.id;
+
+  // Releasing a milestone escrow pays out every milestone not yet released;
+  // a multi-party escrow pays every payee their own part
+  const { settlementId, portion, shares } = escrowDb.transaction(() => {
+    const portion = outstandingPortion(escrow);
+    const shares = outstandingShares(escrow);
+    for (const m of getMilestones(escrowId)) {
+      markMilestoneReleased(escrowId, m.seq, actorId, `Milestone ${m.seq} released with escrow`);
+    }
+    markPayeesReleased(escrowId);
+    const commissionBooked = getMilestones(escrowId).length > 0 ? 0 : portion.commission;
+    if (!markReleased(escrowId, actorId, note, commissionBooked)) {
+      throw new EscrowError("invalid_status", "Escrow status changed concurrently — fetch it again");
+    }
+    const legs = shares.flatMap((share) => payoutLegs(escrow, share.agentId, share, share.reference));
+    return { settlementId: openSettlement(escrowId, "release", legs, portion.commission - portion.referral), portion, shares };
+  })();
+
+  // If the balance provider is unavailable the settlement stays pending and the reconciler pays it out
+  const settlementStatus = await settle(settlementId);
+
+  return {
+    escrow: loadEscrow(escrowId),
+    netMicros: portion.amount - portion.commission,
+    payouts: shares.map((share) => ({ agentId: share.agentId, netMicros: share.amount - share.commission })),
+    // House keeps the remaining commission, booked to the house account when the settlement applies
+    houseCommissionMicros: portion.commission - portion.referral,
+    settlementId,
+    settlementStatus,
+  };
+}
+
+// ─── Milestones ───
+function loadMilestone(escrowId: string, seq: number): { escrow: Escrow; milestone: Milestone } {
+  const escrow = loadEscrow(escrowId);
+  const milestone = getMilestones(escrowId).find((m) => m.seq === seq);
+  if (!milestone) throw new EscrowError("not_found", `Escrow has no milestone ${seq}`);
+  return { escrow, milestone };
+}
+
+export function completeMilestone(actorId: string, escrowId: string, seq: number): MilestoneResult {
+  const { escrow, milestone } = loadMilestone(escrowId, seq);
+  if (escrow.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the counterparty can complete milestones");
+  }
+  if (escrow.status !== "funded") {
+    throw new EscrowError("invalid_status", `Cannot complete milestones on escrow in status '${escrow.status}'`);
+  }
+  if (milestone.status !== "pending") {
+    throw new EscrowError("invalid_status", `Milestone ${seq} is already ${milestone.status}`);
+  }
+  // Milestones are delivered in order
+  const blocking = getMilestones(escrowId).find((m) => m.seq < seq && m.status === "pending");
+  if (blocking) {
+    throw new EscrowError("invalid_status", `Milestone ${blocking.seq} must be completed first`);
+  }
+
+  escrowDb.transaction(() => {
+    if (!markMilestoneCompleted(escrowId, seq, actorId)) {
+      throw new EscrowError("invalid_status", "Milestone status changed concurrently — fetch it again");
+    }
+    // Last milestone delivered → whole escrow is complete
+    if (getMilestones(escrowId).every((m) => m.status !== "pending")) markCompleted(escrowId, actorId);
+  })();
+
+  return { escrow: loadEscrow(escrowId), milestone: loadMilestone(escrowId, seq).milestone };
+}
+
+export async function releaseMilestone(actorId: string, escrowId: string, seq: number): Promise<ReleaseMilestoneResult> {
+  const { escrow, milestone } = loadMilestone(escrowId, seq);
+  if (escrow.creator_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the escrow creator can release milestones");
+  }
+  if (!["funded", "completed"].includes(escrow.status)) {
+    throw new EscrowError("invalid_status", `Cannot release milestones on escrow in status '${escrow.status}'`);
+  }
+  if (milestone.status !== "pending" && milestone.status !== "completed") {
+    throw new EscrowError("invalid_status", `Milestone ${seq} is already ${milestone.status}`);
+  }
+
+  const portion: Portion = {
+    amount: milestone.amount_micros,
+    commission: milestone.commission_micros,
+    referral: milestone.referral_commission_micros,
+  };
+
+  const settlementId = escrowDb.transaction(() => {
+    if (!markMilestoneReleased(escrowId, seq, actorId, `Milestone ${seq} released by creator ${actorId}`)) {
+      throw new EscrowError("invalid_status", "Milestone status changed concurrently — fetch it again");
+    }
+    // Last milestone paid → escrow is released (commission already booked per milestone)
+    if (getMilestones(escrowId).every((m) => m.status === "released")) {
+      markReleased(escrowId, actorId, "All milestones released", 0);
+    }
+    const legs = payoutLegs(escrow, escrow.counterparty_id, portion, milestone.id);
+    return openSettlement(escrowId, "release", legs, portion.commission - portion.referral);
+  })();
+
+  const settlementStatus = await settle(settlementId);
+
+  return {
+    escrow: loadEscrow(escrowId),
+    milestone: loadMilestone(escrowId, seq).milestone,
+    netMicros: portion.amount - portion.commission,
+    settlementId,
+    settlementStatus,
+  };
+}
+
+export function milestoneView(m: Milestone) {
+  return {
+    seq: m.seq,
+    description: m.description,
+    amount_usd: microsToUsd(m.amount_micros),
+    commission_usd: microsToUsd(m.commission_micros),
+    net_to_counterparty: microsToUsd(m.amount_micros - m.commission_micros),
+    status: m.status,
+    completed_at: m.completed_at ? new Date(m.completed_at * 1000).toISOString() : null,
+    released_at: m.released_at ? new Date(m.released_at * 1000).toISOString() : null,
+  };
+}
+
+export function payeeView(p: Payee) {
+  return {
+    seq: p.seq,
+    agent_id: p.agent_id,
+    share_pct: p.share_bps === null ? null : p.share_bps / 100,
+    amount_usd: microsToUsd(p.amount_micros),
+    commission_usd: microsToUsd(p.commission_micros),
+    net_usd: microsToUsd(p.amount_micros - p.commission_micros),
+    status: p.status,
+    completed_at: p.completed_at ? new Date(p.completed_at * 1000).toISOString() : null,
+    released_at: p.released_at ? new Date(p.released_at * 1000).toISOString() : null,
+  };
+}
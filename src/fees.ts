@@ -0,0 +1,386 @@
+/**
+ * Fee schedules — what commission an escrow is charged.
+ *
+ * The base rate is 1% of the amount, part of which goes to referrers (see
+ * referrals.ts).
+ * Operators can add rules that lower it:
+ *
+ *   tier    a rate for creators whose funded volume over the last 30 days
+ *           reaches a threshold (e.g. 0.75% above $1,000)
+ *   agent   a negotiated rate for one agent
+ *   promo   a time-boxed code, optionally limited to a number of uses
+ *
+ * A rule may also carry a minimum and maximum fee per escrow, and the base
+ * caps come from ESCROW_MIN_FEE_USD / ESCROW_MAX_FEE_USD. Applicable schedules
+ * are compared by the fee they charge on the escrow at hand, caps included, and
+ * the cheapest wins — so a promo code never raises the fee. Volume and caps are in USD;
+ * an escrow in another currency has its caps converted at the current rate
+ * (see currencies.ts) when it is priced. The winning schedule is
+ * snapshotted onto the escrow row when it is created, so counter-offers,
+ * amendments and any later audit price the escrow the way it was agreed.
+ */
+import { randomUUID } from "crypto";
+import { escrowDb, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { CREATOR_REFERRAL_LEVELS_BPS } from "./referrals.js";
+import { BASE_CURRENCY, fromUsd, toUsd } from "./currencies.js";
+import { bpsOf, microsToUsd, sumMicros, usdToMicros, type Micros } from "./money.js";
+
+// ─── Config ───
+export const COMMISSION_BPS = 100; // 1%
+// The creator's level-1 referrer's share (15% of commission by default); see referrals.ts for the rest
+export const REFERRAL_SHARE_BPS = CREATOR_REFERRAL_LEVELS_BPS[0] ?? 0;
+export const FEE_RULE_KINDS = ["tier", "agent", "promo"] as const;
+export const VOLUME_WINDOW_DAYS = 30;
+const BASE_MIN_FEE_MICROS = parseCap(process.env.ESCROW_MIN_FEE_USD);
+const BASE_MAX_FEE_MICROS = parseCap(process.env.ESCROW_MAX_FEE_USD);
+
+function parseCap(value: string | undefined): Micros | null {
+  const micros = value ? usdToMicros(parseFloat(value)) : NaN;
+  return Number.isFinite(micros) && micros >= 0 ? micros : null;
+}
+
+// ─── Types ───
+export type FeeRuleKind = (typeof FEE_RULE_KINDS)[number];
+
+export interface FeeRule {
+  id: string;
+  kind: FeeRuleKind;
+  commission_bps: number;
+  min_fee_micros: Micros | null;
+  max_fee_micros: Micros | null;
+  min_volume_micros: Micros | null;
+  agent_id: string | null;
+  code: string | null;
+  starts_at: number | null;
+  expires_at: number | null;
+  max_uses: number | null;
+  uses: number;
+  note: string | null;
+  created_by: string;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+/** The terms an escrow was priced under, stored as JSON on the escrow row. */
+export interface FeeSchedule {
+  source: "base" | FeeRuleKind;
+  rule_id: string | null;
+  commission_bps: number;
+  // The creator's level-1 referral share when priced; escrow_referrals holds every referrer's share
+  referral_share_bps: number;
+  // In the escrow's currency
+  min_fee_micros: Micros | null;
+  max_fee_micros: Micros | null;
+  promo_code: string | null;
+  // The creator's funded volume the tiers were judged on, in USD
+  volume_30d_micros: Micros;
+  currency: string;
+}
+
+export interface FeeRuleInput {
+  kind: string | undefined;
+  commissionPct: number | undefined;
+  minFeeUsd?: number;
+  maxFeeUsd?: number;
+  minMonthlyVolumeUsd?: number;
+  agentId?: string;
+  code?: string;
+  startsAt?: string;
+  expiresAt?: string;
+  maxUses?: number;
+  note?: string;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function invalid(message: string): never {
+  throw new EscrowError("invalid_fee_rule", message);
+}
+
+export function baseSchedule(volume: Micros = 0, currency = BASE_CURRENCY): FeeSchedule {
+  return {
+    source: "base",
+    rule_id: null,
+    commission_bps: COMMISSION_BPS,
+    referral_share_bps: REFERRAL_SHARE_BPS,
+    min_fee_micros: capIn(BASE_MIN_FEE_MICROS, currency),
+    max_fee_micros: capIn(BASE_MAX_FEE_MICROS, currency),
+    promo_code: null,
+    volume_30d_micros: volume,
+    currency,
+  };
+}
+
+// Caps are configured in USD and applied in the escrow's currency
+function capIn(cap: Micros | null, currency: string): Micros | null {
+  return cap === null ? null : fromUsd(cap, currency);
+}
+
+// ─── Rules ───
+export function getFeeRule(id: string): FeeRule | null {
+  return (escrowDb.prepare("SELECT * FROM fee_rules WHERE id = ?").get(id) as FeeRule | undefined) ?? null;
+}
+
+/** Rules newest first; revoked and expired ones only when asked for. */
+export function listFeeRules(includeInactive = false): FeeRule[] {
+  return escrowDb.prepare(`
+    SELECT * FROM fee_rules
+    ${includeInactive ? "" : "WHERE revoked_at IS NULL AND (expires_at IS NULL OR expires_at > unixepoch())"}
+    ORDER BY created_at DESC, rowid DESC
+  `).all() as FeeRule[];
+}
+
+function parseRuleTime(value: string | undefined, field: string): number | null {
+  if (value === undefined || value === "") return null;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) invalid(`${field} must be an ISO 8601 date`);
+  return Math.floor(ms / 1000);
+}
+
+function parseUsdCap(value: number | undefined, field: string): Micros | null {
+  if (value === undefined) return null;
+  const micros = usdToMicros(Number(value));
+  if (!Number.isFinite(micros) || micros < 0) invalid(`${field} must be a non-negative amount`);
+  return micros;
+}
+
+/**
+ * Adds a rule. A new agent rate replaces that agent's current one; promo codes
+ * are case-insensitive, unique among active codes and must expire.
+ */
+export function createFeeRule(adminId: string, input: FeeRuleInput): FeeRule {
+  const kind = input.kind as FeeRuleKind;
+  if (!FEE_RULE_KINDS.includes(kind)) invalid(`kind must be one of: ${FEE_RULE_KINDS.join(", ")}`);
+  const bps = Math.round(Number(input.commissionPct) * 100);
+  if (input.commissionPct === undefined || !Number.isFinite(bps) || bps < 0 || bps > 10_000) {
+    invalid("commission_pct must be between 0 and 100 (up to two decimals)");
+  }
+  const minFee = parseUsdCap(input.minFeeUsd, "min_fee_usd");
+  const maxFee = parseUsdCap(input.maxFeeUsd, "max_fee_usd");
+  if (minFee !== null && maxFee !== null && minFee > maxFee) invalid("min_fee_usd cannot exceed max_fee_usd");
+  const startsAt = parseRuleTime(input.startsAt, "starts_at");
+  const expiresAt = parseRuleTime(input.expiresAt, "expires_at");
+  if (expiresAt !== null && expiresAt <= Math.max(now(), startsAt ?? 0)) invalid("expires_at must be in the future and after starts_at");
+
+  let minVolume: Micros | null = null;
+  let agentId: string | null = null;
+  let code: string | null = null;
+  let maxUses: number | null = null;
+  if (kind === "tier") {
+    minVolume = parseUsdCap(input.minMonthlyVolumeUsd, "min_monthly_volume_usd");
+    if (minVolume === null) invalid("A tier needs min_monthly_volume_usd");
+  } else if (kind === "agent") {
+    agentId = input.agentId?.trim() || null;
+    if (!agentId?.startsWith("ag_")) invalid("An agent rate needs agent_id in ag_xxx format");
+  } else {
+    code = input.code?.trim().toUpperCase() || null;
+    if (!code || !/^[A-Z0-9_-]{3,32}$/.test(code)) invalid("A promo needs a code of 3-32 letters, digits, - or _");
+    if (expiresAt === null) invalid("A promo needs expires_at");
+    if (input.maxUses !== undefined) {
+      maxUses = Number(input.maxUses);
+      if (!Number.isInteger(maxUses) || maxUses < 1) invalid("max_uses must be a positive whole number");
+    }
+    if (findPromo(code)) invalid(`Promo code ${code} is already active`);
+  }
+
+  const id = `fee_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.transaction(() => {
+    if (agentId) {
+      escrowDb.prepare("UPDATE fee_rules SET revoked_at = unixepoch() WHERE kind = 'agent' AND agent_id = ? AND revoked_at IS NULL").run(agentId);
+    }
+    escrowDb.prepare(`
+      INSERT INTO fee_rules (id, kind, commission_bps, min_fee_micros, max_fee_micros, min_volume_micros, agent_id, code,
+        starts_at, expires_at, max_uses, note, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, kind, bps, minFee, maxFee, minVolume, agentId, code, startsAt, expiresAt, maxUses, input.note?.trim() || null, adminId);
+  })();
+  return getFeeRule(id)!;
+}
+
+export function revokeFeeRule(id: string): FeeRule {
+  const rule = getFeeRule(id);
+  if (!rule) throw new EscrowError("not_found", "Fee rule not found");
+  if (rule.revoked_at !== null) throw new EscrowError("invalid_status", "Fee rule is already revoked");
+  escrowDb.prepare("UPDATE fee_rules SET revoked_at = unixepoch() WHERE id = ?").run(id);
+  return getFeeRule(id)!;
+}
+
+// ─── Resolution ───
+const ACTIVE = "revoked_at IS NULL AND (starts_at IS NULL OR starts_at <= unixepoch()) AND (expires_at IS NULL OR expires_at > unixepoch())";
+
+function findPromo(code: string): FeeRule | null {
+  return (escrowDb.prepare(`SELECT * FROM fee_rules WHERE kind = 'promo' AND code = ? AND ${ACTIVE}`).get(code) as FeeRule | undefined) ?? null;
+}
+
+// Escrows that paid out or still hold funds; refunded and cancelled ones don't
+// count, or funding and cancelling would buy a cheaper tier for free
+const VOLUME_STATUSES = ["open", "funded", "completed", "disputed", "released"];
+
+/** What the creator has put into funded escrows over the trailing window, in USD at current rates. */
+export function creatorVolume(creatorId: string): Micros {
+  const rows = escrowDb.prepare(`
+    SELECT currency, SUM(amount_micros) AS volume FROM escrows
+    WHERE creator_id = ? AND funded_at >= ? AND status IN (${VOLUME_STATUSES.map(() => "?").join(", ")})
+    GROUP BY currency
+  `).all(creatorId, now() - VOLUME_WINDOW_DAYS * 86_400, ...VOLUME_STATUSES) as { currency: string; volume: Micros }[];
+  return sumMicros(rows.map((r) => toUsd(r.volume, r.currency)));
+}
+
+function scheduleFrom(rule: FeeRule, volume: Micros, currency: string): FeeSchedule {
+  return {
+    source: rule.kind,
+    rule_id: rule.id,
+    commission_bps: rule.commission_bps,
+    referral_share_bps: REFERRAL_SHARE_BPS,
+    // A rule without caps of its own keeps the base caps
+    min_fee_micros: capIn(rule.min_fee_micros ?? BASE_MIN_FEE_MICROS, currency),
+    max_fee_micros: capIn(rule.max_fee_micros ?? BASE_MAX_FEE_MICROS, currency),
+    promo_code: rule.code,
+    volume_30d_micros: volume,
+    currency,
+  };
+}
+
+/**
+ * The schedule a new escrow from this creator would be priced under: whichever
+ * applicable schedule charges the least on `amounts` (the escrow's parts, as
+ * commission is worked out). An unknown, expired or used-up promo code is an
+ * error rather than silently ignored.
+ */
+export function resolveFeeSchedule(
+  creatorId: string,
+  amounts: Micros[],
+  promoCode?: string,
+  currency = BASE_CURRENCY
+): FeeSchedule {
+  const volume = creatorVolume(creatorId);
+  // Highest rate first, so among tiers charging the same fee the lowest rate is kept
+  const tiers = escrowDb.prepare(`
+    SELECT * FROM fee_rules WHERE kind = 'tier' AND min_volume_micros <= ? AND ${ACTIVE}
+    ORDER BY commission_bps DESC, created_at ASC
+  `).all(volume) as FeeRule[];
+  const agent = escrowDb.prepare(`
+    SELECT * FROM fee_rules WHERE kind = 'agent' AND agent_id = ? AND ${ACTIVE} ORDER BY created_at DESC LIMIT 1
+  `).get(creatorId) as FeeRule | undefined;
+  const feeOf = (s: FeeSchedule) => sumMicros(commissionsFor(s, amounts));
+
+  // Ties go to the more specific rule: agent over tier over base
+  let schedule = baseSchedule(volume, currency);
+  for (const rule of [...tiers, agent]) {
+    if (!rule) continue;
+    const candidate = scheduleFrom(rule, volume, currency);
+    if (feeOf(candidate) <= feeOf(schedule)) schedule = candidate;
+  }
+
+  const code = promoCode?.trim().toUpperCase();
+  if (code) {
+    const promo = findPromo(code);
+    if (!promo || (promo.max_uses !== null && promo.uses >= promo.max_uses)) {
+      throw new EscrowError("invalid_promo_code", `Promo code ${code} is not valid or has been used up`);
+    }
+    const candidate = scheduleFrom(promo, volume, currency);
+    if (feeOf(candidate) < feeOf(schedule)) schedule = candidate;
+  }
+  return schedule;
+}
+
+/**
+ * Counts one use of the schedule's promo code. Call inside the transaction
+ * that funds the escrow; throws if the code was revoked or the last use went
+ * to someone else first. Its dates were checked when the escrow was priced,
+ * so an offer made before a code expired can still be accepted under it.
+ */
+export function redeemPromo(schedule: FeeSchedule): void {
+  if (schedule.source !== "promo") return;
+  const redeemed = escrowDb.prepare(`
+    UPDATE fee_rules SET uses = uses + 1
+    WHERE id = ? AND revoked_at IS NULL AND (max_uses IS NULL OR uses < max_uses)
+  `).run(schedule.rule_id);
+  if (redeemed.changes === 0) {
+    throw new EscrowError("invalid_promo_code", `Promo code ${schedule.promo_code} is no longer valid`);
+  }
+}
+
+/** The schedule the escrow was priced under; rows from before schedules existed priced at base. */
+export function scheduleOf(escrow: Pick<Escrow, "fee_schedule" | "currency">): FeeSchedule {
+  if (!escrow.fee_schedule) return baseSchedule(0, escrow.currency);
+  const stored = JSON.parse(escrow.fee_schedule) as Omit<FeeSchedule, "currency"> & { currency?: string };
+  // Schedules stored before currencies existed were all USD
+  return { ...stored, currency: stored.currency ?? BASE_CURRENCY };
+}
+
+// ─── Commission ───
+/**
+ * Commission on each part of an escrow (the whole amount, each milestone or
+ * each payee), rounded half-up. If the total falls outside the schedule's caps
+ * it is clamped — never above the escrow amount — and spread over the parts in
+ * proportion to their amounts, rounded down, with the remainder on the first.
+ */
+export function commissionsFor(schedule: FeeSchedule, amounts: Micros[]): Micros[] {
+  const fees = amounts.map((amount) => bpsOf(amount, schedule.commission_bps, "half_up"));
+  const amount = sumMicros(amounts);
+  const total = sumMicros(fees);
+  let capped = total;
+  if (schedule.min_fee_micros !== null) capped = Math.max(capped, schedule.min_fee_micros);
+  if (schedule.max_fee_micros !== null) capped = Math.min(capped, schedule.max_fee_micros);
+  capped = Math.min(capped, amount);
+  if (capped === total) return fees;
+
+  const shares = amounts.map((a) => Number((BigInt(a) * BigInt(capped)) / BigInt(amount)));
+  shares[0] += capped - sumMicros(shares);
+  return shares;
+}
+
+export function commissionOf(amount: Micros, schedule: FeeSchedule): Micros {
+  return commissionsFor(schedule, [amount])[0];
+}
+
+/** "1%" / "0.75%" — the schedule's rate as a human-readable percentage. */
+export function formatRate(bps: number): string {
+  return `${bps / 100}%`;
+}
+
+// ─── Views ───
+export function feeScheduleView(schedule: FeeSchedule) {
+  return {
+    source: schedule.source,
+    rule_id: schedule.rule_id,
+    commission_pct: schedule.commission_bps / 100,
+    referral_share_pct: schedule.referral_share_bps / 100,
+    min_fee_usd: schedule.min_fee_micros === null ? null : microsToUsd(schedule.min_fee_micros),
+    max_fee_usd: schedule.max_fee_micros === null ? null : microsToUsd(schedule.max_fee_micros),
+    promo_code: schedule.promo_code,
+    volume_30d_usd: microsToUsd(schedule.volume_30d_micros),
+    currency: schedule.currency,
+  };
+}
+
+export function feeRuleView(rule: FeeRule) {
+  const active = rule.revoked_at === null && (rule.expires_at === null || rule.expires_at > now());
+  return {
+    rule_id: rule.id,
+    kind: rule.kind,
+    commission_pct: rule.commission_bps / 100,
+    min_fee_usd: rule.min_fee_micros === null ? null : microsToUsd(rule.min_fee_micros),
+    max_fee_usd: rule.max_fee_micros === null ? null : microsToUsd(rule.max_fee_micros),
+    min_monthly_volume_usd: rule.min_volume_micros === null ? null : microsToUsd(rule.min_volume_micros),
+    agent_id: rule.agent_id,
+    code: rule.code,
+    starts_at: iso(rule.starts_at),
+    expires_at: iso(rule.expires_at),
+    max_uses: rule.max_uses,
+    uses: rule.uses,
+    note: rule.note,
+    created_by: rule.created_by,
+    created_at: iso(rule.created_at),
+    revoked_at: iso(rule.revoked_at),
+    active,
+  };
+}
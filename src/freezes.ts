@@ -0,0 +1,66 @@
+/**
+ * Agent freezes — an operator stops an agent's escrow activity.
+ *
+ * A frozen agent can still read its escrows but cannot act on them with any
+ * other scope, and no new escrow can name it as creator, counterparty or
+ * payee. Escrows already running keep settling on their own (timeouts,
+ * dispute deadlines), so a freeze never strands the other party's money.
+ * Freezing and unfreezing are admin actions, recorded in the audit log.
+ */
+import { escrowDb } from "./db.js";
+import { EscrowError } from "./errors.js";
+
+// ─── Types ───
+export interface AgentFreeze {
+  agent_id: string;
+  reason: string;
+  frozen_by: string;
+  created_at: number;
+}
+
+// ─── Freezes ───
+export function getFreeze(agentId: string): AgentFreeze | null {
+  return (escrowDb.prepare("SELECT * FROM agent_freezes WHERE agent_id = ?").get(agentId) as AgentFreeze | undefined) ?? null;
+}
+
+export function listFreezes(): AgentFreeze[] {
+  return escrowDb.prepare("SELECT * FROM agent_freezes ORDER BY created_at DESC, rowid DESC").all() as AgentFreeze[];
+}
+
+/** Freezes the agent; freezing a frozen agent replaces the reason. */
+export function freezeAgent(agentId: string, reason: string, adminId: string): AgentFreeze {
+  if (!agentId.startsWith("ag_")) throw new EscrowError("invalid_admin", "agent_id must be in ag_xxx format");
+  escrowDb.prepare(`
+    INSERT INTO agent_freezes (agent_id, reason, frozen_by) VALUES (?, ?, ?)
+    ON CONFLICT (agent_id) DO UPDATE SET reason = excluded.reason, frozen_by = excluded.frozen_by
+  `).run(agentId, reason, adminId);
+  return getFreeze(agentId)!;
+}
+
+export function unfreezeAgent(agentId: string): AgentFreeze {
+  const freeze = getFreeze(agentId);
+  if (!freeze) throw new EscrowError("not_found", "Agent is not frozen");
+  escrowDb.prepare("DELETE FROM agent_freezes WHERE agent_id = ?").run(agentId);
+  return freeze;
+}
+
+/** Throws agent_frozen if an operator has frozen the agent. */
+export function requireNotFrozen(agentId: string): void {
+  const freeze = getFreeze(agentId);
+  if (freeze) {
+    throw new EscrowError("agent_frozen", `Agent ${agentId}'s escrow activity is frozen by an operator`, {
+      agent_id: agentId,
+      frozen_at: new Date(freeze.created_at * 1000).toISOString(),
+    });
+  }
+}
+
+// ─── Views ───
+export function freezeView(freeze: AgentFreeze) {
+  return {
+    agent_id: freeze.agent_id,
+    reason: freeze.reason,
+    frozen_by: freeze.frozen_by,
+    frozen_at: new Date(freeze.created_at * 1000).toISOString(),
+  };
+}
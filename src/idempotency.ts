@@ -0,0 +1,138 @@
+/**
+ * Idempotency keys for mutating escrow calls.
+ *
+ * A key is scoped to the authenticated agent and shared by REST and MCP. The
+ * first call with a key reserves it, runs the operation and stores its outcome;
+ * later calls with the same key and the same request replay that outcome
+ * instead of running again. Reusing a key for a different request is rejected.
+ */
+import { createHash } from "crypto";
+import { escrowDb } from "./db.js";
+import { EscrowError } from "./errors.js";
+
+// ─── Config ───
+export const IDEMPOTENCY_TTL_HOURS = Math.max(1, parseInt(process.env.IDEMPOTENCY_TTL_HOURS || "24"));
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotentOperation = "create" | "offer" | "accept" | "complete" | "release" | "dispute" | "cancel";
+
+type StoredOutcome =
+  | { ok: true; result: unknown }
+  | { ok: false; error: { code: EscrowError["code"]; message: string; details: Record<string, unknown> } };
+
+interface IdempotencyRecord {
+  agent_id: string;
+  key: string;
+  operation: string;
+  request_hash: string;
+  status: "in_progress" | "completed";
+  response: string | null;
+  created_at: number;
+  expires_at: number;
+}
+
+// Key order must not change the hash: { a, b } and { b, a } are the same request
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function requestHash(operation: IdempotentOperation, params: unknown): string {
+  return createHash("sha256").update(`${operation}:${canonicalJson(params)}`).digest("hex");
+}
+
+/** Normalizes a client-supplied key; undefined/empty means the call is not idempotent. */
+export function parseIdempotencyKey(raw: string | undefined | null): string | undefined {
+  const key = raw?.trim();
+  if (!key) return undefined;
+  if (key.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(key)) {
+    throw new EscrowError(
+      "invalid_idempotency_key",
+      `Idempotency key must be 1-${MAX_KEY_LENGTH} printable ASCII characters without spaces`
+    );
+  }
+  return key;
+}
+
+// Reserves the key, or returns the existing live record for it
+function reserve(agentId: string, key: string, operation: IdempotentOperation, hash: string): IdempotencyRecord | null {
+  return escrowDb.transaction(() => {
+    const now = Math.floor(Date.now() / 1000);
+    escrowDb.prepare("DELETE FROM idempotency_keys WHERE agent_id = ? AND key = ? AND expires_at <= ?").run(agentId, key, now);
+    const existing = escrowDb.prepare("SELECT * FROM idempotency_keys WHERE agent_id = ? AND key = ?").get(agentId, key) as
+      | IdempotencyRecord
+      | undefined;
+    if (existing) return existing;
+    escrowDb.prepare(
+      "INSERT INTO idempotency_keys (agent_id, key, operation, request_hash, expires_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(agentId, key, operation, hash, now + IDEMPOTENCY_TTL_HOURS * 3600);
+    return null;
+  }).immediate();
+}
+
+function store(agentId: string, key: string, outcome: StoredOutcome): void {
+  escrowDb.prepare(
+    "UPDATE idempotency_keys SET status = 'completed', response = ? WHERE agent_id = ? AND key = ?"
+  ).run(JSON.stringify(outcome), agentId, key);
+}
+
+function release(agentId: string, key: string): void {
+  escrowDb.prepare("DELETE FROM idempotency_keys WHERE agent_id = ? AND key = ? AND status = 'in_progress'").run(agentId, key);
+}
+
+/**
+ * Runs `fn` at most once per (agent, key). Results and client errors (4xx)
+ * are stored and replayed; server-side failures free the key so the client
+ * can retry it. Without a key, `fn` simply runs.
+ */
+export async function withIdempotency<T>(
+  agentId: string,
+  key: string | undefined,
+  operation: IdempotentOperation,
+  params: unknown,
+  fn: () => T | Promise<T>
+): Promise<{ result: T; replayed: boolean }> {
+  if (!key) return { result: await fn(), replayed: false };
+
+  const hash = requestHash(operation, params);
+  const existing = reserve(agentId, key, operation, hash);
+  if (existing) {
+    if (existing.operation !== operation || existing.request_hash !== hash) {
+      throw new EscrowError("idempotency_key_reused", "Idempotency key was already used for a different request", {
+        operation: existing.operation,
+      });
+    }
+    if (existing.status !== "completed" || !existing.response) {
+      throw new EscrowError("idempotency_in_progress", "A request with this idempotency key is still being processed");
+    }
+    const outcome = JSON.parse(existing.response) as StoredOutcome;
+    if (!outcome.ok) throw new EscrowError(outcome.error.code, outcome.error.message, outcome.error.details);
+    return { result: outcome.result as T, replayed: true };
+  }
+
+  let result: T;
+  try {
+    result = await fn();
+  } catch (err) {
+    if (err instanceof EscrowError && err.status < 500) {
+      store(agentId, key, { ok: false, error: { code: err.code, message: err.message, details: err.details } });
+    } else {
+      release(agentId, key);
+    }
+    throw err;
+  }
+  // Stored as JSON so REST and MCP replays see the same plain data
+  const stored = JSON.parse(JSON.stringify(result ?? null)) as T;
+  store(agentId, key, { ok: true, result: stored });
+  return { result: stored, replayed: false };
+}
+
+export function purgeExpiredIdempotencyKeys(): number {
+  return escrowDb.prepare("DELETE FROM idempotency_keys WHERE expires_at <= unixepoch()").run().changes;
+}
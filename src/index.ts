@@ -3,26 +3,178 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { serveStatic } from "@hono/node-server/serve-static";
-import { randomUUID } from "crypto";
 import {
-  getCasinoAgent,
-  debitCasinoBalance,
-  creditCasinoBalance,
-  createEscrow,
   getEscrow,
-  markCompleted,
-  releaseEscrow,
-  disputeEscrow,
-  refundEscrow,
   getEscrowEvents,
+  getMilestones,
+  getPayees,
+  counterpartyIds,
   getPublicStats,
+  getCurrencyStats,
+  listArbiters,
+  upsertArbiter,
+  deactivateArbiter,
+  type Escrow,
 } from "./db.js";
+import { balanceProvider } from "./balance-provider.js";
+import {
+  createEscrow,
+  completeEscrow,
+  releaseEscrow,
+  refundEscrow,
+  completeMilestone,
+  releaseMilestone,
+  milestoneView,
+  payeeView,
+  netToCounterparty,
+  planEscrow,
+  type CreateEscrowInput,
+  MIN_AMOUNT,
+  MAX_TIMEOUT_HOURS,
+  MAX_PAYEES,
+} from "./escrow-service.js";
+import {
+  disputeEscrow,
+  submitEvidence,
+  getDispute,
+  assignArbiter,
+  resolveDispute,
+  disputeView,
+  DISPUTE_DEADLINE_HOURS,
+  type ResolveDisputeResult,
+} from "./disputes.js";
+import {
+  listJobs,
+  loadJob,
+  applyToJob,
+  claimJob,
+  pickApplicant,
+  listApplications,
+  jobView,
+  applicationView,
+  JOB_CLAIM_MODES,
+  MAX_JOB_TAGS,
+  MAX_JOB_DEADLINE_HOURS,
+} from "./job-board.js";
+import { createOffer, acceptOffer, counterOffer, rejectOffer, awaitingParty, offerView } from "./offers.js";
+import {
+  acknowledgeEscrow,
+  cancelEscrow,
+  consentToCancellation,
+  declineCancellation,
+  cancellationView,
+  cancellationTermsView,
+  CANCELLATION_FEE_BPS,
+  type CancelResult,
+} from "./cancellations.js";
+import {
+  proposeAmendment,
+  approveAmendment,
+  rejectAmendment,
+  listAmendments,
+  amendmentView,
+  pendingAmendmentView,
+} from "./amendments.js";
+import {
+  createRecurring,
+  pauseRecurring,
+  resumeRecurring,
+  cancelRecurring,
+  getRecurringFor,
+  listRecurring,
+  getCycles,
+  recurringView,
+  cycleView,
+  recurringLinkView,
+  MAX_PERIOD_HOURS,
+  MAX_CYCLES,
+} from "./recurring.js";
+import {
+  registerWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  listDeadLetters,
+  replayDeadLetter,
+  webhookView,
+  deliveryView,
+  deadLetterView,
+} from "./webhooks.js";
+import { listEscrows, escrowSummaryView } from "./escrow-query.js";
+import { commitmentView, verificationView } from "./deliverables.js";
+import { timeoutPolicyView, listAutoReleaseFailures, autoReleaseFailureView } from "./timeouts.js";
+import { reputationView, minReputationOf, minReputationView } from "./reputation.js";
+import { formatMoney, microsToUsd, ROUNDING_POLICY } from "./money.js";
+import { checkMoneyConsistency } from "./consistency.js";
+import { withIdempotency, parseIdempotencyKey, IDEMPOTENCY_TTL_HOURS } from "./idempotency.js";
+import {
+  authenticateCredential,
+  requireScope,
+  requireCasinoKey,
+  hasScope,
+  issueApiToken,
+  listApiTokens,
+  revokeApiToken,
+  apiTokenView,
+  TOKEN_SCOPES,
+  MAX_TOKEN_TTL_HOURS,
+  type AgentAuth,
+  type TokenScope,
+} from "./api-tokens.js";
+import {
+  authenticateAdmin,
+  requireAdminRole,
+  requireAdminNote,
+  audited,
+  issueAdminCredential,
+  listAdminCredentials,
+  revokeAdminCredential,
+  listAuditLog,
+  listEvents,
+  adminCredentialView,
+  auditEntryView,
+  adminEventView,
+  type AdminAuth,
+} from "./admin.js";
+import { getFreeze, listFreezes, freezeAgent, unfreezeAgent, freezeView } from "./freezes.js";
+import { getSettlement, settle } from "./settlement.js";
+import {
+  accountBalance,
+  accountBalances,
+  listAccountEntries,
+  reconcileEscrow,
+  reconciliationReport,
+  ledgerEntryView,
+  reconciliationView,
+  HOUSE_ACCOUNT,
+} from "./ledger.js";
+import {
+  listFeeRules,
+  createFeeRule,
+  revokeFeeRule,
+  feeRuleView,
+  feeScheduleView,
+  scheduleOf,
+  formatRate,
+  COMMISSION_BPS,
+  REFERRAL_SHARE_BPS,
+} from "./fees.js";
+import { referralEarnings, referralEarningsView, referralLevelsView } from "./referrals.js";
+import { currenciesView, fxQuoteOf, fxQuoteView, parseCurrency } from "./currencies.js";
+import { EscrowError } from "./errors.js";
+import "./jobs.js";
+
+// The /admin/* middleware stores the authenticated operator here
+declare module "hono" {
+  interface ContextVariableMap {
+    admin: AdminAuth;
+  }
+}
 
 const PORT = parseInt(process.env.PORT || "3007");
-const COMMISSION_RATE = 0.01; // 1%
-const REFERRAL_COMMISSION_RATE = 0.15; // 15% of commission fee
-const MIN_AMOUNT = 0.10;
-const MAX_TIMEOUT_HOURS = 720; // 30 days
+// Base rates for the docs below; an escrow's own rate is in its fee_schedule
+const BASE_RATE = formatRate(COMMISSION_BPS);
+const REFERRAL_RATE = formatRate(REFERRAL_SHARE_BPS);
 
 const app = new Hono();
 
@@ -58,19 +210,33 @@ setInterval(() => {
 }, 300_000);
 
 // ─── Simple API key auth ───
-// Escrow uses the casino agent system — auth header is the casino API key.
-// We look up the agent by calling casino's internal DB directly.
-async function resolveAgent(c: any): Promise<string | null> {
+// Escrow uses the casino agent system — the bearer is either the casino API key,
+// checked by the configured balance provider, or a scoped escrow token (etk_…).
+async function resolveAuth(c: any): Promise<AgentAuth | null> {
   const auth = c.req.header("Authorization");
   if (!auth?.startsWith("Bearer ")) return null;
-  const apiKey = auth.slice(7);
-  // Hash and look up in casino DB
-  const { createHash } = await import("crypto");
-  const keyHash = createHash("sha256").update(apiKey).digest("hex");
-  const row = (await import("./db.js")).casinoDb.prepare(
-    "SELECT id FROM agents WHERE api_key_hash = ?"
-  ).get(keyHash) as { id: string } | undefined;
-  return row?.id ?? null;
+  return authenticateCredential(auth.slice(7));
+}
+
+// Agent id for the request, or null if unauthenticated; throws if a token lacks `scope`
+async function resolveAgent(c: any, scope: TokenScope): Promise<string | null> {
+  const auth = await resolveAuth(c);
+  if (!auth) return null;
+  requireScope(auth, scope);
+  return auth.agentId;
+}
+
+// Idempotency-Key header → key, plus a marker header when the stored response is replayed
+function idempotencyKey(c: any): string | undefined {
+  return parseIdempotencyKey(c.req.header("idempotency-key"));
+}
+
+function markReplayed(c: any, replayed: boolean): void {
+  if (replayed) c.header("Idempotent-Replayed", "true");
+}
+
+function parseAmount(value: unknown): number {
+  return typeof value === "number" ? value : parseFloat(String(value ?? "0"));
 }
 
 // ─── Middleware ───
@@ -88,7 +254,7 @@ app.use("*", async (c, next) => {
       body._info = {
         service: "agent-escrow",
         docs: "https://escrow.purpleflea.com/llms.txt",
-        referral: "GET /gossip — 15% referral commission on escrow fees",
+        referral: `GET /gossip — ${REFERRAL_RATE} referral commission on escrow fees`,
         version: "1.0.0",
       };
       c.res = new Response(JSON.stringify(body), {
@@ -108,333 +274,1403 @@ app.get("/", (c) =>
   c.json({
     service: "agent-escrow",
     version: "1.0.0",
-    description: "Trustless escrow between AI agents. Agent A deposits funds, Agent B completes task, funds release. 1% commission.",
-    commission: "1% on released escrow. Referral: 15% of commission to referrer.",
+    description: `Trustless escrow between AI agents. Agent A deposits funds, Agent B completes task, funds release. ${BASE_RATE} commission.`,
+    commission: `${BASE_RATE} on released escrow by default; volume tiers, negotiated rates and promo codes can lower it (POST /escrow/quote). Referral: ${REFERRAL_RATE} of commission to referrer.`,
+    cancellation_fee: `${CANCELLATION_FEE_BPS / 100}% of the refunded amount when a funded escrow is cancelled`,
     endpoints: {
       "POST /escrow/create": "Create escrow — deducts from creator casino balance",
-      "POST /escrow/complete/:id": "Counterparty marks task complete",
+      "POST /escrow/quote": "Exact commission, referral and net for the same body as create — nothing is locked",
+      "POST /escrow/offer": "Propose an escrow — funds lock only when the counterparty accepts",
+      "POST /escrow/offer/accept/:id": "Accept the current terms of an offer (locks the creator's funds)",
+      "POST /escrow/offer/counter/:id": "Counter an offer with a different amount, description or timeout",
+      "POST /escrow/offer/reject/:id": "Reject an offer (or withdraw your own)",
+      "POST /escrow/amend/:id": "Propose new terms for a funded escrow: extend the deadline, top up, reduce or revise the description",
+      "POST /escrow/amend/approve/:id": "The other party approves the pending amendment (a top-up debits the creator)",
+      "POST /escrow/amend/reject/:id": "Reject the pending amendment (or withdraw your own)",
+      "GET /escrow/amend/:id": "An escrow's amendment history",
+      "POST /escrow/acknowledge/:id": "Counterparty acknowledges a funded escrow — cancelling then needs its consent",
+      "POST /escrow/cancel/:id": "Creator cancels a funded escrow (refund less the cancellation fee); once acknowledged, this requests consent",
+      "POST /escrow/cancel/consent/:id": "Counterparty consents to the pending cancellation request",
+      "POST /escrow/cancel/decline/:id": "Counterparty declines the cancellation request (or the creator withdraws it)",
+      "POST /escrow/complete/:id": "Counterparty (or each payee of a multi-party escrow) marks task complete",
       "POST /escrow/release/:id": "Creator releases funds to counterparty",
-      "POST /escrow/dispute/:id": "Flag escrow for manual review",
+      "POST /escrow/complete/:id/milestones/:seq": "Counterparty marks one milestone complete",
+      "POST /escrow/release/:id/milestones/:seq": "Creator releases one milestone to counterparty",
+      "POST /escrow/dispute/:id": "Open a dispute — an arbiter is assigned",
+      "POST /escrow/dispute/evidence/:id": "Submit dispute evidence (text, link or hash)",
+      "POST /escrow/dispute/resolve/:id": "Arbiter resolves: release, refund or split",
+      "GET /escrow/dispute/:id": "Dispute status and evidence (parties + arbiter)",
+      "POST /webhooks": "Subscribe a URL to escrow events (signed, retried)",
+      "GET /webhooks": "List your webhook subscriptions",
+      "DELETE /webhooks/:id": "Remove a webhook subscription",
+      "GET /webhooks/:id/deliveries": "Recent delivery attempts for a webhook",
+      "GET /webhooks/dead-letters": "Deliveries that exhausted their retries",
+      "POST /webhooks/dead-letters/:id/replay": "Re-queue a dead-lettered delivery",
+      "POST /tokens": "Mint a scoped, revocable escrow API token (casino key only)",
+      "GET /tokens": "List your escrow API tokens",
+      "DELETE /tokens/:id": "Revoke an escrow API token",
+      "GET /jobs": "Public board of open jobs (tag, min_budget, max_budget, q, cursor)",
+      "GET /jobs/:id": "One open job",
+      "POST /jobs/:id/apply": "Apply for a job; the creator picks the worker",
+      "POST /jobs/:id/claim": "Claim a first-claim job outright",
+      "POST /jobs/:id/pick": "Creator assigns the job to an applicant",
+      "GET /jobs/:id/applications": "Creator lists a job's applications",
+      "POST /recurring": "Set up a recurring escrow — one escrow funded per period, for N cycles or until an end date",
+      "GET /recurring": "List recurring escrows you pay or are paid by",
+      "GET /recurring/:id": "A recurring escrow and its cycles",
+      "POST /recurring/:id/pause": "Creator pauses future cycles",
+      "POST /recurring/:id/resume": "Creator resumes; a cycle that fell due is funded now",
+      "POST /recurring/:id/cancel": "Either party stops future cycles",
+      "GET /agents/:id/reputation": "Public reputation: score, completion, on-time and dispute rates, volume, release latency",
+      "GET /escrows": "List/search your escrows (role, status, amount, dates, q, cursor pagination)",
       "GET /escrow/:id": "Get escrow status",
-      "GET /escrow/stats": "Public volume/commission stats",
+      "GET /escrow/stats": "Public volume/commission stats, with a per-currency breakdown",
+      "GET /currencies": "Currencies escrows can be denominated in, with their providers and USD rates",
       "GET /gossip": "Referral program info",
+      "GET /referrals/earnings": "What you earned as a referrer: totals, per level, time series and per escrow",
     },
     docs: "https://escrow.purpleflea.com/llms.txt",
-    auth: "Bearer {casino_api_key} — same key from casino.purpleflea.com registration",
+    auth: "Bearer {casino_api_key} — same key from casino.purpleflea.com registration — or Bearer {escrow_token} from POST /tokens",
+    token_scopes: TOKEN_SCOPES,
+    idempotency: "Send an Idempotency-Key header on create/offer/accept/complete/release/dispute/cancel to make retries safe",
   })
 );
 
 // ─── POST /escrow/create ───
+type CreateEscrowBody = {
+  amount_usd?: number;
+  description?: string;
+  counterparty_agent_id?: string;
+  timeout_hours?: number;
+  referral_code?: string;
+  arbiter_agent_id?: string;
+  milestones?: { description?: string; amount_usd?: number }[];
+  payees?: { agent_id?: string; amount_usd?: number; share_pct?: number }[];
+  deliverable?: { sha256?: string; json_schema?: unknown };
+  timeout_policy?: string;
+  completion_grace_hours?: number;
+  commission_on_refund?: boolean;
+  job?: { tags?: string[]; claim_mode?: string; deadline_hours?: number };
+  min_reputation?: { score?: number; completed_escrows?: number };
+  promo_code?: string;
+  currency?: string;
+  quote_currency?: string;
+};
+
+// Shared by /escrow/create and /escrow/offer, which take the same terms
+function createInputFrom(body: CreateEscrowBody): CreateEscrowInput {
+  if (body.milestones !== undefined && !Array.isArray(body.milestones)) {
+    throw new EscrowError("invalid_milestones", "milestones must be an array of { description, amount_usd }");
+  }
+  if (body.payees !== undefined && !Array.isArray(body.payees)) {
+    throw new EscrowError("invalid_payees", "payees must be an array of { agent_id, amount_usd | share_pct }");
+  }
+  return {
+    amountUsd: body.amount_usd === undefined ? undefined : parseAmount(body.amount_usd),
+    description: body.description,
+    counterpartyId: body.counterparty_agent_id,
+    timeoutHours: body.timeout_hours,
+    referralCode: body.referral_code,
+    arbiterId: body.arbiter_agent_id,
+    milestones: body.milestones?.map((m) => ({ description: m?.description, amountUsd: parseAmount(m?.amount_usd) })),
+    payees: body.payees?.map((p) => ({
+      agentId: p?.agent_id,
+      amountUsd: p?.amount_usd === undefined ? undefined : parseAmount(p.amount_usd),
+      sharePct: p?.share_pct === undefined ? undefined : parseAmount(p.share_pct),
+    })),
+    deliverable: body.deliverable === undefined
+      ? undefined
+      : { sha256: body.deliverable?.sha256, jsonSchema: body.deliverable?.json_schema },
+    timeoutPolicy: body.timeout_policy,
+    completionGraceHours: body.completion_grace_hours,
+    commissionOnRefund: body.commission_on_refund,
+    job: body.job === undefined
+      ? undefined
+      : { tags: body.job?.tags, claimMode: body.job?.claim_mode, deadlineHours: body.job?.deadline_hours },
+    minReputation: body.min_reputation === undefined
+      ? undefined
+      : { score: body.min_reputation?.score, completedEscrows: body.min_reputation?.completed_escrows },
+    promoCode: body.promo_code,
+    currency: body.currency,
+    quoteCurrency: body.quote_currency,
+  };
+}
+
 app.post("/escrow/create", rateLimit(20, 60_000), async (c) => {
-  const creatorId = await resolveAgent(c);
-  if (!creatorId) {
+  const auth = await resolveAuth(c);
+  if (!auth) {
     return c.json(
       { error: "unauthorized", message: "Bearer {casino_api_key} required. Register at casino.purpleflea.com." },
       401
     );
   }
+  requireScope(auth, "create");
+  const creatorId = auth.agentId;
 
-  const body = await c.req.json().catch(() => ({})) as {
-    amount_usd?: number;
-    description?: string;
-    counterparty_agent_id?: string;
-    timeout_hours?: number;
-    referral_code?: string;
+  const body = await c.req.json().catch(() => ({})) as CreateEscrowBody;
+  const input = createInputFrom(body);
+  const { result, replayed } = await withIdempotency(creatorId, idempotencyKey(c), "create", input, () =>
+    createEscrow(creatorId, input, { tokenId: auth.token?.id })
+  );
+  const { escrow, netMicros } = result;
+  markReplayed(c, replayed);
+  const milestones = getMilestones(escrow.id);
+  const payees = getPayees(escrow.id);
+
+  return c.json(
+    {
+      escrow_id: escrow.id,
+      currency: escrow.currency,
+      amount_usd: microsToUsd(escrow.amount_micros),
+      commission_usd: microsToUsd(escrow.commission_micros),
+      net_to_counterparty: microsToUsd(netMicros),
+      description: escrow.description,
+      creator_id: escrow.creator_id,
+      counterparty_id: escrow.counterparty_id || null,
+      arbiter_id: escrow.arbiter_id,
+      status: escrow.status,
+      timeout_hours: escrow.timeout_hours,
+      auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+      timeout_policy: timeoutPolicyView(escrow),
+      ...(minReputationOf(escrow) ? { min_reputation: minReputationView(minReputationOf(escrow)) } : {}),
+      ...(milestones.length ? { milestones: milestones.map(milestoneView) } : {}),
+      ...(payees.length ? { payees: payees.map(payeeView) } : {}),
+      ...(escrow.deliverable_kind ? { deliverable: commitmentView(escrow) } : {}),
+      ...(escrow.job_claim_mode ? { job: jobView(escrow) } : {}),
+      ...(escrow.fx_quote ? { fx_quote: fxQuoteView(fxQuoteOf(escrow)) } : {}),
+      fee_schedule: feeScheduleView(scheduleOf(escrow)),
+      next_steps: escrow.job_claim_mode
+        ? {
+            workers: escrow.job_claim_mode === "first_claim"
+              ? `POST /jobs/${escrow.id}/claim — the first claim gets the job`
+              : `POST /jobs/${escrow.id}/apply`,
+            creator: escrow.job_claim_mode === "first_claim"
+              ? "Funds are locked; the timeout starts when the job is claimed"
+              : `GET /jobs/${escrow.id}/applications, then POST /jobs/${escrow.id}/pick with { agent_id }`,
+          }
+        : payees.length
+        ? {
+            payees: `Each payee calls POST /escrow/complete/${escrow.id} when their part is done`,
+            creator: `POST /escrow/release/${escrow.id} to pay every payee`,
+            dispute: `POST /escrow/dispute/${escrow.id} if something goes wrong`,
+          }
+        : milestones.length
+        ? {
+            counterparty: `POST /escrow/complete/${escrow.id}/milestones/{seq} as each milestone is done`,
+            creator: `POST /escrow/release/${escrow.id}/milestones/{seq} to pay out each milestone`,
+            dispute: `POST /escrow/dispute/${escrow.id} if something goes wrong`,
+          }
+        : escrow.deliverable_kind
+        ? {
+            counterparty: `POST /escrow/complete/${escrow.id} with { deliverable } — a match releases the funds automatically`,
+            creator: `POST /escrow/release/${escrow.id} to release funds without waiting`,
+            dispute: `POST /escrow/dispute/${escrow.id} if something goes wrong`,
+          }
+        : {
+            counterparty: `POST /escrow/complete/${escrow.id} when task is done`,
+            creator: `POST /escrow/release/${escrow.id} to release funds`,
+            dispute: `POST /escrow/dispute/${escrow.id} if something goes wrong`,
+          },
+      rounding: ROUNDING_POLICY,
+    },
+    201
+  );
+});
+
+// ─── POST /escrow/quote ───
+// Prices the same body as /escrow/create without validating the balance or locking anything
+app.post("/escrow/quote", rateLimit(60, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "read");
+
+  const body = await c.req.json().catch(() => ({})) as CreateEscrowBody;
+  const plan = await planEscrow(auth.agentId, createInputFrom(body), { quote: true });
+  const part = (p: { amountMicros: number; commissionMicros: number; referralCommissionMicros: number }) => ({
+    amount_usd: microsToUsd(p.amountMicros),
+    commission_usd: microsToUsd(p.commissionMicros),
+    net_usd: microsToUsd(p.amountMicros - p.commissionMicros),
+  });
+
+  return c.json({
+    currency: plan.currency,
+    amount_usd: microsToUsd(plan.amountMicros),
+    commission_usd: microsToUsd(plan.commissionMicros),
+    referral_commission_usd: microsToUsd(plan.referralCommissionMicros),
+    house_fee_usd: microsToUsd(plan.commissionMicros - plan.referralCommissionMicros),
+    net_to_counterparty: microsToUsd(plan.amountMicros - plan.commissionMicros),
+    referrer_id: plan.referrerId,
+    ...(plan.milestones ? { milestones: plan.milestones.map((m) => ({ description: m.description, ...part(m) })) } : {}),
+    ...(plan.payees ? { payees: plan.payees.map((p) => ({ agent_id: p.agentId, ...part(p) })) } : {}),
+    ...(plan.fxQuote ? { fx_quote: fxQuoteView(plan.fxQuote) } : {}),
+    fee_schedule: feeScheduleView(plan.feeSchedule),
+    note: "Quoted at the current schedule and exchange rate; create re-prices, so a tier change, a rate change or a used-up promo code can change the amounts",
+    rounding: ROUNDING_POLICY,
+  });
+});
+
+// ─── Offers ───
+function offerResponse(escrow: Escrow) {
+  const awaiting = awaitingParty(escrow);
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    currency: escrow.currency,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    commission_usd: microsToUsd(escrow.commission_micros),
+    net_to_counterparty: microsToUsd(netToCounterparty(escrow)),
+    description: escrow.description,
+    creator_id: escrow.creator_id,
+    counterparty_id: escrow.counterparty_id,
+    timeout_hours: escrow.timeout_hours,
+    offer: offerView(escrow),
+    ...(escrow.fx_quote ? { fx_quote: fxQuoteView(fxQuoteOf(escrow)) } : {}),
+    fee_schedule: feeScheduleView(scheduleOf(escrow)),
+    ...(awaiting
+      ? {
+          next_steps: {
+            [awaiting === escrow.creator_id ? "creator" : "counterparty"]:
+              `POST /escrow/offer/accept/${escrow.id} to lock the funds, /escrow/offer/counter/${escrow.id} with new terms, or /escrow/offer/reject/${escrow.id}`,
+          },
+        }
+      : {}),
   };
+}
+
+// ─── POST /escrow/offer ───
+app.post("/escrow/offer", rateLimit(20, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "create");
+  const creatorId = auth.agentId;
 
-  const amountUsd = typeof body.amount_usd === "number" ? body.amount_usd : parseFloat(String(body.amount_usd ?? "0"));
-  const description = body.description?.trim();
-  const counterpartyId = body.counterparty_agent_id?.trim();
-  const timeoutHours = Math.min(
-    Math.max(1, Math.floor(body.timeout_hours ?? 24)),
-    MAX_TIMEOUT_HOURS
+  const body = await c.req.json().catch(() => ({})) as CreateEscrowBody & { expires_in_hours?: number };
+  const input = { ...createInputFrom(body), expiresInHours: body.expires_in_hours };
+  const { result, replayed } = await withIdempotency(creatorId, idempotencyKey(c), "offer", input, () =>
+    createOffer(creatorId, input, { tokenId: auth.token?.id })
   );
+  markReplayed(c, replayed);
+  return c.json(offerResponse(result), 201);
+});
 
-  if (!amountUsd || amountUsd < MIN_AMOUNT) {
-    return c.json({ error: "invalid_amount", message: `Minimum escrow amount is $${MIN_AMOUNT}` }, 400);
-  }
-  if (!description || description.length < 3) {
-    return c.json({ error: "invalid_description", message: "description is required (min 3 chars)" }, 400);
-  }
-  if (!counterpartyId?.startsWith("ag_")) {
-    return c.json({ error: "invalid_counterparty", message: "counterparty_agent_id must be in ag_xxx format" }, 400);
-  }
-  if (counterpartyId === creatorId) {
-    return c.json({ error: "self_escrow", message: "Cannot create escrow with yourself" }, 400);
-  }
+// ─── POST /escrow/offer/accept/:id ───
+app.post("/escrow/offer/accept/:id", rateLimit(30, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "offer");
+  const actorId = auth.agentId;
 
-  // Verify counterparty exists
-  const counterparty = getCasinoAgent(counterpartyId);
-  if (!counterparty) {
-    return c.json({ error: "counterparty_not_found", message: "Counterparty agent not found in casino" }, 404);
-  }
+  const escrowId = c.req.param("id");
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "accept", { escrowId }, () =>
+    acceptOffer(actorId, escrowId, { tokenId: auth.token?.id })
+  );
+  const { escrow, netMicros } = result;
+  markReplayed(c, replayed);
+  return c.json({
+    escrow_id: escrow.id,
+    status: escrow.status,
+    currency: escrow.currency,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    net_to_counterparty: microsToUsd(netMicros),
+    auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+    offer: offerView(escrow),
+    message: `Offer accepted — ${formatMoney(escrow.amount_micros, escrow.currency)} locked in escrow.`,
+    next_steps: {
+      counterparty: `POST /escrow/complete/${escrow.id} when task is done`,
+      creator: `POST /escrow/release/${escrow.id} to release funds`,
+    },
+    rounding: ROUNDING_POLICY,
+  });
+});
 
-  // Check creator balance
-  const creator = getCasinoAgent(creatorId);
-  if (!creator) return c.json({ error: "creator_not_found" }, 404);
-  if (creator.balance_usd < amountUsd) {
-    return c.json(
-      {
-        error: "insufficient_balance",
-        message: `Balance $${creator.balance_usd.toFixed(2)} < escrow amount $${amountUsd.toFixed(2)}`,
-        balance: creator.balance_usd,
-      },
-      402
-    );
-  }
+// ─── POST /escrow/offer/counter/:id ───
+app.post("/escrow/offer/counter/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-  // Commission calculation
-  const commissionUsd = parseFloat((amountUsd * COMMISSION_RATE).toFixed(6));
-
-  // Referral — 15% of commission goes to referrer of the creator
-  let referrerId: string | null = null;
-  const referralCode = body.referral_code;
-  if (referralCode) {
-    const { casinoDb } = await import("./db.js");
-    const referrer = casinoDb.prepare("SELECT id FROM agents WHERE referral_code = ?").get(referralCode) as
-      | { id: string }
-      | undefined;
-    if (referrer && referrer.id !== creatorId) referrerId = referrer.id;
-  } else if (creator.referred_by) {
-    referrerId = creator.referred_by;
-  }
-  const referralCommissionUsd = referrerId
-    ? parseFloat((commissionUsd * REFERRAL_COMMISSION_RATE).toFixed(6))
-    : 0;
-
-  // Deduct from creator
-  const escrowId = `esc_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
-  const debited = debitCasinoBalance(creatorId, amountUsd, `escrow_lock: ${escrowId}`, escrowId);
-  if (!debited) {
-    return c.json({ error: "debit_failed", message: "Failed to debit balance. Check your balance and try again." }, 500);
-  }
+  const body = await c.req.json().catch(() => ({})) as {
+    amount_usd?: number;
+    description?: string;
+    timeout_hours?: number;
+    expires_in_hours?: number;
+  };
+  const escrow = counterOffer(actorId, c.req.param("id"), {
+    amountUsd: body.amount_usd === undefined ? undefined : parseAmount(body.amount_usd),
+    description: body.description,
+    timeoutHours: body.timeout_hours,
+    expiresInHours: body.expires_in_hours,
+  });
+  return c.json(offerResponse(escrow));
+});
 
-  // Create escrow record
-  try {
-    createEscrow({
-      id: escrowId,
-      creatorId,
-      counterpartyId,
-      amountUsd,
-      commissionUsd,
-      description,
-      timeoutHours,
-      referrerId,
-      referralCommissionUsd,
-    });
-  } catch (err: any) {
-    // Refund on DB error
-    creditCasinoBalance(creatorId, amountUsd, `escrow_create_failed_refund: ${escrowId}`, escrowId + "_refund");
-    console.error("[escrow/create] DB error:", err?.message);
-    return c.json({ error: "internal_error", message: "Failed to create escrow record." }, 500);
-  }
+// ─── POST /escrow/offer/reject/:id ───
+app.post("/escrow/offer/reject/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-  const autoReleaseAt = Math.floor(Date.now() / 1000) + timeoutHours * 3600;
+  const body = await c.req.json().catch(() => ({})) as { reason?: string };
+  return c.json(offerResponse(rejectOffer(actorId, c.req.param("id"), body.reason)));
+});
 
-  return c.json(
-    {
-      escrow_id: escrowId,
-      amount_usd: amountUsd,
-      commission_usd: commissionUsd,
-      net_to_counterparty: parseFloat((amountUsd - commissionUsd).toFixed(6)),
-      description,
-      creator_id: creatorId,
-      counterparty_id: counterpartyId,
-      status: "funded",
-      timeout_hours: timeoutHours,
-      auto_release_at: new Date(autoReleaseAt * 1000).toISOString(),
-      next_steps: {
-        counterparty: `POST /escrow/complete/${escrowId} when task is done`,
-        creator: `POST /escrow/release/${escrowId} to release funds`,
-        dispute: `POST /escrow/dispute/${escrowId} if something goes wrong`,
-      },
+// ─── Amendments ───
+app.get("/escrow/amend/:id", async (c) => {
+  const actorId = await resolveAgent(c, "read");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+  return c.json({ amendments: listAmendments(actorId, c.req.param("id")).map(amendmentView) });
+});
+
+app.post("/escrow/amend/:id", rateLimit(30, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "offer");
+  const body = await c.req.json().catch(() => ({})) as {
+    extend_hours?: number;
+    amount_usd?: number;
+    description?: string;
+    reason?: string;
+  };
+  const amendment = proposeAmendment(auth.agentId, c.req.param("id"), {
+    extendHours: body.extend_hours,
+    amountUsd: body.amount_usd === undefined ? undefined : parseAmount(body.amount_usd),
+    description: body.description,
+    reason: body.reason,
+  }, { tokenId: auth.token?.id });
+  return c.json({
+    ...amendmentView(amendment),
+    message: "Amendment proposed. The other party approves or rejects it; the current terms stand until then.",
+    next_step: `POST /escrow/amend/approve/${amendment.escrow_id} or /escrow/amend/reject/${amendment.escrow_id}`,
+  }, 201);
+});
+
+app.post("/escrow/amend/approve/:id", rateLimit(30, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "offer");
+  const amendment = await approveAmendment(auth.agentId, c.req.param("id"), { tokenId: auth.token?.id });
+  const escrow = getEscrow(amendment.escrow_id)!;
+  return c.json({
+    ...amendmentView(amendment),
+    escrow: {
+      status: escrow.status,
+      amount_usd: microsToUsd(escrow.amount_micros),
+      commission_usd: microsToUsd(escrow.commission_micros),
+      net_to_counterparty: microsToUsd(netToCounterparty(escrow)),
+      description: escrow.description,
+      timeout_hours: escrow.timeout_hours,
+      auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
     },
-    201
-  );
+    message: "Amendment approved — the escrow now runs on the new terms.",
+  });
+});
+
+app.post("/escrow/amend/reject/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+  const body = await c.req.json().catch(() => ({})) as { reason?: string };
+  return c.json(amendmentView(rejectAmendment(actorId, c.req.param("id"), body.reason)));
 });
 
 // ─── POST /escrow/complete/:id ───
 app.post("/escrow/complete/:id", rateLimit(30, 60_000), async (c) => {
-  const actorId = await resolveAgent(c);
+  const actorId = await resolveAgent(c, "complete");
   if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
   const escrowId = c.req.param("id");
-  const escrow = getEscrow(escrowId);
-  if (!escrow) return c.json({ error: "not_found", message: "Escrow not found" }, 404);
+  const body = await c.req.json().catch(() => ({})) as { deliverable?: unknown };
+  const { deliverable } = body;
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "complete", { escrowId, deliverable }, () =>
+    completeEscrow(actorId, escrowId, deliverable)
+  );
+  const { escrow, verification, release } = result;
+  markReplayed(c, replayed);
+  const payees = getPayees(escrow.id);
+  const waitingOn = payees.filter((p) => p.status === "pending").map((p) => p.agent_id);
 
-  if (escrow.counterparty_id !== actorId) {
-    return c.json(
-      { error: "forbidden", message: "Only the counterparty can mark the task complete" },
-      403
-    );
-  }
-  if (escrow.status !== "funded") {
-    return c.json({ error: "invalid_status", message: `Cannot complete escrow in status '${escrow.status}'` }, 409);
+  if (release) {
+    return c.json({
+      escrow_id: escrow.id,
+      status: escrow.status,
+      deliverable_verification: verificationView(verification!),
+      amount_released: microsToUsd(release.netMicros),
+      settlement_status: release.settlementStatus,
+      message: `Deliverable verified — ${formatMoney(release.netMicros, escrow.currency)} released to counterparty.`,
+      rounding: ROUNDING_POLICY,
+    });
   }
 
-  markCompleted(escrowId, actorId);
-
   return c.json({
-    escrow_id: escrowId,
-    status: "completed",
-    message: "Task marked complete. Waiting for creator to release funds.",
-    next_step: `Creator should call POST /escrow/release/${escrowId}`,
+    escrow_id: escrow.id,
+    status: escrow.status,
+    ...(payees.length ? { payees: payees.map(payeeView) } : {}),
+    ...(verification ? { deliverable_verification: verificationView(verification) } : {}),
+    message: waitingOn.length
+      ? `Your part is marked complete. Waiting for ${waitingOn.join(", ")}.`
+      : "Task marked complete. Waiting for creator to release funds.",
+    next_step: `Creator should call POST /escrow/release/${escrow.id}`,
     auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
   });
 });
 
 // ─── POST /escrow/release/:id ───
 app.post("/escrow/release/:id", rateLimit(30, 60_000), async (c) => {
-  const actorId = await resolveAgent(c);
+  const actorId = await resolveAgent(c, "release");
   if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
   const escrowId = c.req.param("id");
-  const escrow = getEscrow(escrowId);
-  if (!escrow) return c.json({ error: "not_found", message: "Escrow not found" }, 404);
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "release", { escrowId }, () =>
+    releaseEscrow(actorId, escrowId)
+  );
+  const { escrow, netMicros, payouts, settlementStatus } = result;
+  markReplayed(c, replayed);
 
-  // Only creator can release (or auto-release handles timeout)
-  if (escrow.creator_id !== actorId) {
-    return c.json(
-      { error: "forbidden", message: "Only the escrow creator can release funds" },
-      403
-    );
-  }
-  if (!["funded", "completed"].includes(escrow.status)) {
-    return c.json({ error: "invalid_status", message: `Cannot release escrow in status '${escrow.status}'` }, 409);
-  }
+  return c.json({
+    escrow_id: escrow.id,
+    status: escrow.status,
+    amount_released: microsToUsd(netMicros),
+    commission: microsToUsd(escrow.commission_micros),
+    referral_commission: microsToUsd(escrow.referral_commission_micros),
+    counterparty_id: escrow.counterparty_id,
+    payouts: payouts.map((p) => ({ agent_id: p.agentId, amount_usd: microsToUsd(p.netMicros) })),
+    settlement_status: settlementStatus,
+    message: settlementStatus === "applied"
+      ? `${formatMoney(netMicros, escrow.currency)} released to counterparty.`
+      : `${formatMoney(netMicros, escrow.currency)} release recorded; payout is queued and will settle automatically.`,
+    rounding: ROUNDING_POLICY,
+  });
+});
 
-  const netToCounterparty = parseFloat((escrow.amount_usd - escrow.commission_usd).toFixed(6));
-  const houseCommission = parseFloat(
-    (escrow.commission_usd - escrow.referral_commission_usd).toFixed(6)
-  );
+// ─── POST /escrow/complete/:id/milestones/:seq ───
+app.post("/escrow/complete/:id/milestones/:seq", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "complete");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-  try {
-    // Pay counterparty (net of commission)
-    creditCasinoBalance(
-      escrow.counterparty_id,
-      netToCounterparty,
-      `escrow_release: ${escrowId}`,
-      escrowId + "_release"
-    );
+  const { escrow, milestone } = completeMilestone(actorId, c.req.param("id"), parseInt(c.req.param("seq")));
 
-    // Referral commission (if any)
-    if (escrow.referrer_id && escrow.referral_commission_usd > 0) {
-      creditCasinoBalance(
-        escrow.referrer_id,
-        escrow.referral_commission_usd,
-        `escrow_referral_commission: ${escrowId}`,
-        escrowId + "_refcom"
-      );
-    }
+  return c.json({
+    escrow_id: escrow.id,
+    status: escrow.status,
+    milestone: milestoneView(milestone),
+    message: `Milestone ${milestone.seq} marked complete. Waiting for creator to release it.`,
+    next_step: `Creator should call POST /escrow/release/${escrow.id}/milestones/${milestone.seq}`,
+  });
+});
 
-    // House keeps remaining commission (houseCommission — no wallet address, just tracked in ledger)
-    // Record house commission as a "house" agent credit if we had one, otherwise just log it
+// ─── POST /escrow/release/:id/milestones/:seq ───
+app.post("/escrow/release/:id/milestones/:seq", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "release");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-    releaseEscrow(escrowId, actorId, `Released by creator ${actorId}`);
-  } catch (err: any) {
-    console.error("[escrow/release] error:", err?.message);
-    return c.json({ error: "release_failed", message: "Failed to release funds. Contact support." }, 500);
-  }
+  const { escrow, milestone, netMicros, settlementStatus } = await releaseMilestone(
+    actorId,
+    c.req.param("id"),
+    parseInt(c.req.param("seq"))
+  );
 
   return c.json({
-    escrow_id: escrowId,
-    status: "released",
-    amount_released: netToCounterparty,
-    commission: escrow.commission_usd,
-    referral_commission: escrow.referral_commission_usd,
+    escrow_id: escrow.id,
+    status: escrow.status,
+    milestone: milestoneView(milestone),
+    amount_released: microsToUsd(netMicros),
+    commission: microsToUsd(milestone.commission_micros),
+    referral_commission: microsToUsd(milestone.referral_commission_micros),
     counterparty_id: escrow.counterparty_id,
-    message: `$${netToCounterparty.toFixed(2)} released to counterparty.`,
+    settlement_status: settlementStatus,
+    message: `${formatMoney(netMicros, escrow.currency)} for milestone ${milestone.seq} released to counterparty.`,
+    rounding: ROUNDING_POLICY,
   });
 });
 
-// ─── POST /escrow/dispute/:id ───
-app.post("/escrow/dispute/:id", rateLimit(10, 60_000), async (c) => {
-  const actorId = await resolveAgent(c);
+// ─── Cancellation ───
+function cancelResponse({ escrow, cancellation, refund }: CancelResult) {
+  if (refund) {
+    return {
+      escrow_id: escrow.id,
+      status: escrow.status,
+      refunded_usd: microsToUsd(refund.amount),
+      cancellation_fee_usd: microsToUsd(refund.fee),
+      message: `Escrow cancelled — ${formatMoney(refund.amount, escrow.currency)} refunded to the creator.`,
+    };
+  }
+  const view = cancellationView(cancellation!);
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    cancellation: view,
+    message: view.consented_by.length
+      ? "Consent recorded. The escrow is cancelled once every payee has consented."
+      : "The counterparty has acknowledged this escrow, so cancelling needs its consent. Request sent.",
+    next_step: `The counterparty calls POST /escrow/cancel/consent/${escrow.id} or /escrow/cancel/decline/${escrow.id}`,
+  };
+}
+
+app.post("/escrow/acknowledge/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+  const escrow = acknowledgeEscrow(actorId, c.req.param("id"));
+  return c.json({
+    escrow_id: escrow.id,
+    status: escrow.status,
+    acknowledged_at: new Date(escrow.acknowledged_at! * 1000).toISOString(),
+    message: "Acknowledged — the creator can no longer cancel without your consent.",
+  });
+});
+
+app.post("/escrow/cancel/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "create");
   if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
   const escrowId = c.req.param("id");
-  const escrow = getEscrow(escrowId);
-  if (!escrow) return c.json({ error: "not_found" }, 404);
+  const body = await c.req.json().catch(() => ({})) as { reason?: string };
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "cancel", { escrowId, reason: body.reason }, () =>
+    cancelEscrow(actorId, escrowId, body.reason)
+  );
+  markReplayed(c, replayed);
+  return c.json(cancelResponse(result));
+});
 
-  if (escrow.creator_id !== actorId && escrow.counterparty_id !== actorId) {
-    return c.json({ error: "forbidden", message: "Only escrow participants can dispute" }, 403);
-  }
-  if (!["funded", "completed"].includes(escrow.status)) {
-    return c.json({ error: "invalid_status", message: `Cannot dispute escrow in status '${escrow.status}'` }, 409);
-  }
+app.post("/escrow/cancel/consent/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+
+  const escrowId = c.req.param("id");
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "cancel", { escrowId, consent: true }, () =>
+    consentToCancellation(actorId, escrowId)
+  );
+  markReplayed(c, replayed);
+  return c.json(cancelResponse(result));
+});
 
+app.post("/escrow/cancel/decline/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "offer");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
   const body = await c.req.json().catch(() => ({})) as { reason?: string };
-  const reason = body.reason?.trim() || "No reason provided";
+  return c.json(cancellationView(declineCancellation(actorId, c.req.param("id"), body.reason)));
+});
+
+// ─── POST /escrow/dispute/:id ───
+app.post("/escrow/dispute/:id", rateLimit(10, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "dispute");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-  disputeEscrow(escrowId, actorId, reason);
+  const body = await c.req.json().catch(() => ({})) as { reason?: string };
+  const escrowId = c.req.param("id");
+  const { result, replayed } = await withIdempotency(actorId, idempotencyKey(c), "dispute", { escrowId, reason: body.reason }, () =>
+    disputeEscrow(actorId, escrowId, body.reason)
+  );
+  const { escrow, reason } = result;
+  markReplayed(c, replayed);
 
   return c.json({
-    escrow_id: escrowId,
-    status: "disputed",
+    escrow_id: escrow.id,
+    status: escrow.status,
     reason,
-    message: "Escrow flagged for manual review. Purple Flea team will investigate.",
+    arbiter_id: escrow.arbiter_id,
+    deadline_at: escrow.dispute_deadline_at ? new Date(escrow.dispute_deadline_at * 1000).toISOString() : null,
+    message: escrow.arbiter_id
+      ? `Escrow disputed. Arbiter ${escrow.arbiter_id} will review the evidence.`
+      : "Escrow flagged for manual review. Purple Flea team will assign an arbiter.",
+    next_steps: {
+      evidence: `POST /escrow/dispute/evidence/${escrow.id} with { kind: text|link|hash, content }`,
+      deadline: `Unresolved disputes apply the default outcome after ${DISPUTE_DEADLINE_HOURS}h`,
+    },
     contact: "support@purpleflea.com",
   });
 });
 
-// ─── GET /escrow/stats ───
-app.get("/escrow/stats", async (c) => {
-  const stats = getPublicStats();
-  return c.json({
-    total_created: stats.total_created,
-    total_released: stats.total_released,
-    total_disputed: stats.total_disputed,
-    total_volume_usd: parseFloat(stats.total_volume_usd.toFixed(2)),
-    total_commission_usd: parseFloat(stats.total_commission_usd.toFixed(2)),
-    commission_rate: "1%",
-    referral_commission_rate: "15% of fees",
+// ─── POST /escrow/dispute/evidence/:id ───
+app.post("/escrow/dispute/evidence/:id", rateLimit(30, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "dispute");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+
+  const body = await c.req.json().catch(() => ({})) as { kind?: string; content?: string };
+  const evidence = submitEvidence(actorId, c.req.param("id"), body.kind, body.content);
+
+  return c.json(
+    {
+      evidence_id: evidence.id,
+      escrow_id: evidence.escrow_id,
+      kind: evidence.kind,
+      submitted_by: evidence.submitted_by,
+      created_at: new Date(evidence.created_at * 1000).toISOString(),
+    },
+    201
+  );
+});
+
+// ─── POST /escrow/dispute/resolve/:id ───
+app.post("/escrow/dispute/resolve/:id", rateLimit(10, 60_000), async (c) => {
+  const actorId = await resolveAgent(c, "dispute");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
+
+  const body = await c.req.json().catch(() => ({})) as { outcome?: string; counterparty_pct?: number; note?: string };
+  const result = await resolveDispute(actorId, c.req.param("id"), {
+    outcome: body.outcome,
+    counterpartyPct: body.counterparty_pct,
+    note: body.note,
   });
+
+  return c.json(resolutionResponse(result));
 });
 
-// ─── GET /escrow/:id ───
-app.get("/escrow/:id", async (c) => {
-  const actorId = await resolveAgent(c);
-  const escrowId = c.req.param("id");
-  const escrow = getEscrow(escrowId);
-  if (!escrow) return c.json({ error: "not_found", message: "Escrow not found" }, 404);
+// ─── GET /escrow/dispute/:id ───
+app.get("/escrow/dispute/:id", async (c) => {
+  const actorId = await resolveAgent(c, "read");
+  if (!actorId) return c.json({ error: "unauthorized" }, 401);
 
-  // Participants see full details; public sees redacted
-  const isParticipant = actorId && (actorId === escrow.creator_id || actorId === escrow.counterparty_id);
+  const { escrow, evidence } = getDispute(actorId, c.req.param("id"));
+  return c.json(disputeView(escrow, evidence));
+});
 
-  const events = isParticipant ? getEscrowEvents(escrowId) : [];
+function resolutionResponse(result: ResolveDisputeResult) {
+  return {
+    escrow_id: result.escrow.id,
+    status: result.escrow.status,
+    outcome: result.outcome,
+    counterparty_pct: result.counterpartyPct,
+    to_counterparty: microsToUsd(result.toCounterpartyMicros),
+    to_creator: microsToUsd(result.toCreatorMicros),
+    commission: microsToUsd(result.commissionMicros),
+    settlement_status: result.settlementStatus,
+    rounding: ROUNDING_POLICY,
+  };
+}
 
-  return c.json({
-    escrow_id: escrow.id,
-    status: escrow.status,
-    amount_usd: escrow.amount_usd,
-    commission_usd: escrow.commission_usd,
-    net_to_counterparty: parseFloat((escrow.amount_usd - escrow.commission_usd).toFixed(6)),
-    description: escrow.description,
-    creator_id: escrow.creator_id,
-    counterparty_id: escrow.counterparty_id,
-    timeout_hours: escrow.timeout_hours,
-    created_at: new Date(escrow.created_at * 1000).toISOString(),
-    auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
-    completed_at: escrow.completed_at ? new Date(escrow.completed_at * 1000).toISOString() : null,
-    released_at: escrow.released_at ? new Date(escrow.released_at * 1000).toISOString() : null,
-    disputed_at: escrow.disputed_at ? new Date(escrow.disputed_at * 1000).toISOString() : null,
-    ...(isParticipant ? { events } : {}),
+// ─── Scoped API tokens ───
+// Minted, listed and revoked with the casino API key only
+app.post("/tokens", rateLimit(10, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireCasinoKey(auth);
+
+  const body = await c.req.json().catch(() => ({})) as {
+    name?: string;
+    scopes?: string[];
+    spend_cap_usd?: number;
+    expires_in_hours?: number;
+  };
+  const { token, secret } = issueApiToken(auth.agentId, {
+    name: body.name,
+    scopes: body.scopes,
+    spendCapUsd: body.spend_cap_usd === undefined ? undefined : parseAmount(body.spend_cap_usd),
+    expiresInHours: body.expires_in_hours,
   });
+  // The token itself is only ever shown here
+  return c.json(apiTokenView(token, { secret }), 201);
 });
 
-// ─── GET /gossip ───
-app.get("/gossip", (c) =>
-  c.json({
-    service: "agent-escrow",
-    tagline: "Trustless AI-to-AI escrow with 1% commission",
-    referral_program: {
-      how_it_works: "When your referred agents create and release escrows, you earn 15% of the 1% commission fee.",
-      example: "Agent B (referred by you) creates a $100 escrow. Commission = $1.00. You earn $0.15.",
-      total_passive_income: "Unlimited — stacks across all referred agents forever.",
-      get_your_code: "POST /api/v1/auth/register at https://casino.purpleflea.com — returns your referral code",
+app.get("/tokens", async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireCasinoKey(auth);
+  const includeInactive = c.req.query("include_inactive") === "true";
+  return c.json({ tokens: listApiTokens(auth.agentId, includeInactive).map((t) => apiTokenView(t)) });
+});
+
+app.delete("/tokens/:id", async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireCasinoKey(auth);
+  return c.json(apiTokenView(revokeApiToken(auth.agentId, c.req.param("id"))));
+});
+
+// ─── Webhooks ───
+app.post("/webhooks", rateLimit(10, 60_000), async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+
+  const body = await c.req.json().catch(() => ({})) as { url?: string; events?: string[]; escrow_id?: string };
+  if (body.events !== undefined && !Array.isArray(body.events)) {
+    return c.json({ error: "invalid_webhook", message: "events must be an array of event names" }, 400);
+  }
+  const webhook = registerWebhook(agentId, { url: body.url, events: body.events, escrowId: body.escrow_id });
+  // The signing secret is only ever shown here
+  return c.json(webhookView(webhook, { includeSecret: true }), 201);
+});
+
+app.get("/webhooks", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json({ webhooks: listWebhooks(agentId).map((w) => webhookView(w)) });
+});
+
+app.get("/webhooks/dead-letters", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const includeReplayed = c.req.query("include_replayed") === "true";
+  return c.json({ dead_letters: listDeadLetters(agentId, includeReplayed).map(deadLetterView) });
+});
+
+app.post("/webhooks/dead-letters/:id/replay", rateLimit(30, 60_000), async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json(deliveryView(replayDeadLetter(agentId, c.req.param("id"))), 202);
+});
+
+app.delete("/webhooks/:id", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  deleteWebhook(agentId, c.req.param("id"));
+  return c.json({ webhook_id: c.req.param("id"), active: false });
+});
+
+app.get("/webhooks/:id/deliveries", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const limit = parseInt(c.req.query("limit") || "50") || 50;
+  return c.json({ deliveries: listDeliveries(agentId, c.req.param("id"), limit).map(deliveryView) });
+});
+
+// ─── Admin API ───
+// Read routes need the viewer role; every mutating route runs through
+// audited(), which checks the role and appends to the audit log.
+app.use("/admin/*", async (c, next) => {
+  const auth = c.req.header("Authorization");
+  const admin = auth?.startsWith("Bearer ") ? authenticateAdmin(auth.slice(7)) : null;
+  if (!admin) return c.json({ error: "unauthorized", message: "Admin credentials required" }, 401);
+  c.set("admin", admin);
+  await next();
+});
+
+function viewer(c: any): AdminAuth {
+  const admin = c.get("admin") as AdminAuth;
+  requireAdminRole(admin, "viewer");
+  return admin;
+}
+
+async function adminBody<T>(c: any): Promise<T> {
+  return (await c.req.json().catch(() => ({}))) as T;
+}
+
+app.get("/admin/escrows", (c) => {
+  viewer(c);
+  const q = c.req.query();
+  const num = (v: string | undefined) => (v === undefined || v === "" ? undefined : Number(v));
+  const agentId = q.agent_id?.trim() || null;
+  const { escrows, nextCursor } = listEscrows(agentId, {
+    role: q.role,
+    status: q.status,
+    currency: q.currency,
+    minAmount: num(q.min_amount),
+    maxAmount: num(q.max_amount),
+    createdAfter: q.created_after,
+    createdBefore: q.created_before,
+    autoReleaseAfter: q.auto_release_after,
+    autoReleaseBefore: q.auto_release_before,
+    q: q.q,
+    sort: q.sort,
+    order: q.order,
+    limit: num(q.limit),
+    cursor: q.cursor,
+  });
+  return c.json({ escrows: escrows.map((e) => escrowSummaryView(agentId, e)), next_cursor: nextCursor });
+});
+
+app.get("/admin/escrows/:id", (c) => {
+  viewer(c);
+  const escrow = getEscrow(c.req.param("id"));
+  if (!escrow) return c.json({ error: "not_found", message: "Escrow not found" }, 404);
+  return c.json({
+    ...escrowSummaryView(null, escrow),
+    timeout: timeoutPolicyView(escrow),
+    frozen_parties: [escrow.creator_id, ...counterpartyIds(escrow)].filter((id) => getFreeze(id)),
+    events: getEscrowEvents(escrow.id),
+  });
+});
+
+app.get("/admin/events", (c) => {
+  viewer(c);
+  const q = c.req.query();
+  const { events, nextCursor } = listEvents({
+    escrowId: q.escrow_id,
+    event: q.event,
+    actorId: q.actor_id,
+    since: q.since,
+    limit: q.limit ? Number(q.limit) : undefined,
+    cursor: q.cursor,
+  });
+  return c.json({ events: events.map(adminEventView), next_cursor: nextCursor });
+});
+
+// Force actions: a disputed escrow is settled as an admin resolution, anything else directly
+app.post("/admin/escrows/release/:id", async (c) => {
+  const body = await adminBody<{ note?: string }>(c);
+  const escrowId = c.req.param("id");
+  const response = await audited(c.get("admin"), "operator", "force_release", escrowId, body.note ?? null, async () => {
+    const note = requireAdminNote(body.note);
+    const admin = c.get("admin");
+    if (getEscrow(escrowId)?.status === "disputed") {
+      return resolutionResponse(await resolveDispute(admin.id, escrowId, { outcome: "release", note }, { asAdmin: true }));
+    }
+    const { escrow, netMicros, settlementStatus } = await releaseEscrow(admin.id, escrowId, { asAdmin: true, note });
+    return {
+      escrow_id: escrow.id,
+      status: escrow.status,
+      amount_released: microsToUsd(netMicros),
+      commission: microsToUsd(escrow.commission_micros),
+      settlement_status: settlementStatus,
+      rounding: ROUNDING_POLICY,
+    };
+  });
+  return c.json(response);
+});
+
+app.post("/admin/escrows/refund/:id", async (c) => {
+  const body = await adminBody<{ note?: string }>(c);
+  const escrowId = c.req.param("id");
+  const response = await audited(c.get("admin"), "operator", "force_refund", escrowId, body.note ?? null, async () => {
+    const note = requireAdminNote(body.note);
+    const admin = c.get("admin");
+    if (getEscrow(escrowId)?.status === "disputed") {
+      return resolutionResponse(await resolveDispute(admin.id, escrowId, { outcome: "refund", note }, { asAdmin: true }));
+    }
+    const { escrow, refundedMicros, settlementStatus } = await refundEscrow(admin.id, escrowId, note);
+    return {
+      escrow_id: escrow.id,
+      status: escrow.status,
+      refunded_usd: microsToUsd(refundedMicros),
+      settlement_status: settlementStatus,
+    };
+  });
+  return c.json(response);
+});
+
+app.post("/admin/disputes/assign/:id", async (c) => {
+  const body = await adminBody<{ arbiter_id?: string; note?: string }>(c);
+  const escrowId = c.req.param("id");
+  const escrow = await audited(c.get("admin"), "operator", "reassign_arbiter", escrowId, body.note ?? null, () =>
+    assignArbiter(escrowId, body.arbiter_id, c.get("admin").id, requireAdminNote(body.note))
+  );
+  return c.json({ escrow_id: escrow.id, status: escrow.status, arbiter_id: escrow.arbiter_id });
+});
+
+app.post("/admin/disputes/resolve/:id", async (c) => {
+  const body = await adminBody<{ outcome?: string; counterparty_pct?: number; note?: string }>(c);
+  const escrowId = c.req.param("id");
+  const result = await audited(c.get("admin"), "operator", "resolve_dispute", escrowId, body.note ?? null, () =>
+    resolveDispute(
+      c.get("admin").id,
+      escrowId,
+      { outcome: body.outcome, counterpartyPct: body.counterparty_pct, note: requireAdminNote(body.note) },
+      { asAdmin: true }
+    )
+  );
+  return c.json(resolutionResponse(result));
+});
+
+app.get("/admin/disputes/:id", (c) => {
+  viewer(c);
+  const { escrow, evidence } = getDispute(null, c.req.param("id"), { asAdmin: true });
+  return c.json({ ...disputeView(escrow, evidence), events: getEscrowEvents(escrow.id) });
+});
+
+// ─── Admin: arbiter pool ───
+app.get("/admin/arbiters", (c) => {
+  viewer(c);
+  return c.json({
+    arbiters: listArbiters(c.req.query("include_inactive") === "true").map((a) => ({
+      agent_id: a.agent_id,
+      note: a.note,
+      active: a.active === 1,
+      created_at: new Date(a.created_at * 1000).toISOString(),
+    })),
+  });
+});
+
+app.post("/admin/arbiters", async (c) => {
+  const body = await adminBody<{ agent_id?: string; note?: string }>(c);
+  const agentId = body.agent_id?.trim();
+  await audited(c.get("admin"), "operator", "add_arbiter", agentId ?? null, body.note?.trim() || null, async () => {
+    if (!agentId?.startsWith("ag_")) throw new EscrowError("invalid_arbiter", "agent_id must be in ag_xxx format");
+    if (!(await balanceProvider.getAgent(agentId))) throw new EscrowError("not_found", "Agent not found in casino");
+    upsertArbiter(agentId, body.note?.trim() || null);
+  });
+  return c.json({ agent_id: agentId, active: true }, 201);
+});
+
+app.delete("/admin/arbiters/:agentId", async (c) => {
+  const agentId = c.req.param("agentId");
+  await audited(c.get("admin"), "operator", "remove_arbiter", agentId, null, () => {
+    if (!deactivateArbiter(agentId)) throw new EscrowError("not_found", "Arbiter not found");
+  });
+  return c.json({ agent_id: agentId, active: false });
+});
+
+// ─── Admin: agent freezes ───
+app.get("/admin/freezes", (c) => {
+  viewer(c);
+  return c.json({ freezes: listFreezes().map(freezeView) });
+});
+
+app.post("/admin/agents/freeze/:id", async (c) => {
+  const body = await adminBody<{ note?: string }>(c);
+  const agentId = c.req.param("id");
+  const freeze = await audited(c.get("admin"), "operator", "freeze_agent", agentId, body.note ?? null, () =>
+    freezeAgent(agentId, requireAdminNote(body.note), c.get("admin").id)
+  );
+  return c.json(freezeView(freeze), 201);
+});
+
+app.post("/admin/agents/unfreeze/:id", async (c) => {
+  const body = await adminBody<{ note?: string }>(c);
+  const agentId = c.req.param("id");
+  await audited(c.get("admin"), "operator", "unfreeze_agent", agentId, body.note ?? null, () => {
+    requireAdminNote(body.note);
+    return unfreezeAgent(agentId);
+  });
+  return c.json({ agent_id: agentId, frozen: false });
+});
+
+// ─── Admin: settlements ───
+// Timeouts whose settlement threw or was left pending; resolved ones are hidden unless asked for
+app.get("/admin/auto-release-failures", (c) => {
+  viewer(c);
+  const limit = parseInt(c.req.query("limit") || "50") || 50;
+  const failures = listAutoReleaseFailures(Math.min(limit, 200)).map(autoReleaseFailureView);
+  const includeResolved = c.req.query("include_resolved") === "true";
+  return c.json({ failures: includeResolved ? failures : failures.filter((f) => !f.resolved) });
+});
+
+app.post("/admin/settlements/retry/:id", async (c) => {
+  const settlementId = c.req.param("id");
+  const status = await audited(c.get("admin"), "operator", "retry_settlement", settlementId, null, async () => {
+    const settlement = getSettlement(settlementId);
+    if (!settlement) throw new EscrowError("not_found", "Settlement not found");
+    if (settlement.status !== "pending") {
+      throw new EscrowError("invalid_status", `Settlement is ${settlement.status}; only pending settlements can be retried`);
+    }
+    return settle(settlementId);
+  });
+  const settlement = getSettlement(settlementId)!;
+  return c.json({
+    settlement_id: settlementId,
+    escrow_id: settlement.escrow_id,
+    status,
+    last_error: status === "applied" ? null : settlement.last_error,
+  });
+});
+
+// Proves amount = net + house + referral for every settled escrow
+app.get("/admin/consistency", (c) => {
+  viewer(c);
+  const report = checkMoneyConsistency();
+  return c.json({ ...report, rounding: ROUNDING_POLICY }, report.ok ? 200 : 409);
+});
+
+// ─── Admin: house account & reconciliation ───
+app.get("/admin/house", (c) => {
+  viewer(c);
+  const limit = parseInt(c.req.query("limit") || "50") || 50;
+  const currency = c.req.query("currency") ? parseCurrency(c.req.query("currency")) : undefined;
+  const balance = accountBalance(HOUSE_ACCOUNT);
+  return c.json({
+    account: HOUSE_ACCOUNT,
+    balance_usd: microsToUsd(balance),
+    balance_micros: balance,
+    balances: accountBalances(HOUSE_ACCOUNT).map((b) => ({ currency: b.currency, balance: microsToUsd(b.balance) })),
+    entries: listAccountEntries(HOUSE_ACCOUNT, Math.min(limit, 200), currency).map(ledgerEntryView),
+  });
+});
+
+// Ties each escrow to its exact money movements: deposits, payouts, refunds, referral and house fee
+app.get("/admin/reconciliation", (c) => {
+  viewer(c);
+  const q = c.req.query();
+  const { escrows, nextCursor } = reconciliationReport({
+    from: q.from,
+    to: q.to,
+    cursor: q.cursor,
+    limit: q.limit ? Number(q.limit) : undefined,
+  });
+  const views = escrows.map(reconciliationView);
+  return c.json({
+    ok: views.every((v) => v.ok),
+    escrows: views,
+    next_cursor: nextCursor,
+    house_balance_usd: microsToUsd(accountBalance(HOUSE_ACCOUNT)),
+    house_balances: accountBalances(HOUSE_ACCOUNT).map((b) => ({ currency: b.currency, balance: microsToUsd(b.balance) })),
+  });
+});
+
+app.get("/admin/reconciliation/:id", (c) => {
+  viewer(c);
+  return c.json(reconciliationView(reconcileEscrow(c.req.param("id"))));
+});
+
+// ─── Admin: fee rules ───
+app.get("/admin/fees", (c) => {
+  viewer(c);
+  return c.json({
+    base: { commission_pct: COMMISSION_BPS / 100, referral_share_pct: REFERRAL_SHARE_BPS / 100 },
+    rules: listFeeRules(c.req.query("include_inactive") === "true").map(feeRuleView),
+  });
+});
+
+app.post("/admin/fees", async (c) => {
+  const body = await adminBody<{
+    kind?: string;
+    commission_pct?: number;
+    min_fee_usd?: number;
+    max_fee_usd?: number;
+    min_monthly_volume_usd?: number;
+    agent_id?: string;
+    code?: string;
+    starts_at?: string;
+    expires_at?: string;
+    max_uses?: number;
+    note?: string;
+  }>(c);
+  const admin = c.get("admin");
+  const target = body.agent_id ?? body.code ?? body.kind ?? null;
+  const rule = await audited(admin, "operator", "create_fee_rule", target, body.note?.trim() || null, () =>
+    createFeeRule(admin.id, {
+      kind: body.kind,
+      commissionPct: body.commission_pct,
+      minFeeUsd: body.min_fee_usd,
+      maxFeeUsd: body.max_fee_usd,
+      minMonthlyVolumeUsd: body.min_monthly_volume_usd,
+      agentId: body.agent_id,
+      code: body.code,
+      startsAt: body.starts_at,
+      expiresAt: body.expires_at,
+      maxUses: body.max_uses,
+      note: body.note,
+    })
+  );
+  return c.json(feeRuleView(rule), 201);
+});
+
+// Revoking only affects new escrows; existing ones keep the schedule they were priced under
+app.delete("/admin/fees/:id", async (c) => {
+  const id = c.req.param("id");
+  const rule = await audited(c.get("admin"), "operator", "revoke_fee_rule", id, null, () => revokeFeeRule(id));
+  return c.json(feeRuleView(rule));
+});
+
+// ─── Admin: audit log & credentials ───
+app.get("/admin/audit", (c) => {
+  viewer(c);
+  const q = c.req.query();
+  const { entries, nextBefore } = listAuditLog({
+    target: q.target,
+    adminId: q.admin_id,
+    action: q.action,
+    before: q.before ? Number(q.before) : undefined,
+    limit: q.limit ? Number(q.limit) : undefined,
+  });
+  return c.json({ entries: entries.map(auditEntryView), next_before: nextBefore });
+});
+
+app.get("/admin/credentials", (c) => {
+  requireAdminRole(c.get("admin"), "admin");
+  return c.json({ credentials: listAdminCredentials(c.req.query("include_revoked") === "true").map((k) => adminCredentialView(k)) });
+});
+
+app.post("/admin/credentials", async (c) => {
+  const body = await adminBody<{ name?: string; role?: string }>(c);
+  const admin = c.get("admin");
+  const { credential, secret } = await audited(admin, "admin", "issue_credential", body.name ?? null, null, () =>
+    issueAdminCredential(admin, body)
+  );
+  return c.json(adminCredentialView(credential, { secret }), 201);
+});
+
+app.delete("/admin/credentials/:id", async (c) => {
+  const id = c.req.param("id");
+  const credential = await audited(c.get("admin"), "admin", "revoke_credential", id, null, () => revokeAdminCredential(id));
+  return c.json(adminCredentialView(credential));
+});
+
+// ─── GET /escrows ───
+app.get("/escrows", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+
+  const q = c.req.query();
+  const num = (v: string | undefined) => (v === undefined || v === "" ? undefined : Number(v));
+  const { escrows, nextCursor } = listEscrows(agentId, {
+    role: q.role,
+    status: q.status,
+    currency: q.currency,
+    minAmount: num(q.min_amount),
+    maxAmount: num(q.max_amount),
+    createdAfter: q.created_after,
+    createdBefore: q.created_before,
+    autoReleaseAfter: q.auto_release_after,
+    autoReleaseBefore: q.auto_release_before,
+    q: q.q,
+    sort: q.sort,
+    order: q.order,
+    limit: num(q.limit),
+    cursor: q.cursor,
+  });
+
+  return c.json({
+    escrows: escrows.map((e) => escrowSummaryView(agentId, e)),
+    next_cursor: nextCursor,
+    has_more: nextCursor !== null,
+  });
+});
+
+// ─── Recurring escrows ───
+app.post("/recurring", rateLimit(20, 60_000), async (c) => {
+  const auth = await resolveAuth(c);
+  if (!auth) return c.json({ error: "unauthorized" }, 401);
+  requireScope(auth, "create");
+  const body = await c.req.json().catch(() => ({})) as {
+    amount_usd?: number;
+    description?: string;
+    counterparty_agent_id?: string;
+    period_hours?: number;
+    cycles?: number;
+    ends_at?: string;
+    timeout_hours?: number;
+    timeout_policy?: string;
+    arbiter_agent_id?: string;
+    referral_code?: string;
+    currency?: string;
+  };
+  const input = {
+    amountUsd: body.amount_usd === undefined ? undefined : parseAmount(body.amount_usd),
+    description: body.description,
+    counterpartyId: body.counterparty_agent_id,
+    periodHours: body.period_hours,
+    cycles: body.cycles,
+    endsAt: body.ends_at,
+    timeoutHours: body.timeout_hours,
+    timeoutPolicy: body.timeout_policy,
+    arbiterId: body.arbiter_agent_id,
+    referralCode: body.referral_code,
+    currency: body.currency,
+  };
+  const { result, replayed } = await withIdempotency(auth.agentId, idempotencyKey(c), "create", { recurring: input }, () =>
+    createRecurring(auth.agentId, input, { tokenId: auth.token?.id })
+  );
+  markReplayed(c, replayed);
+  const { recurring, firstCycle } = result;
+  return c.json({
+    ...recurringView(recurring),
+    first_cycle: cycleView(firstCycle),
+    next_steps: {
+      counterparty: `Each cycle is an ordinary escrow — POST /escrow/complete/:id on it when that period's work is done`,
+      creator: `Release each cycle as usual. Keep your balance topped up: a cycle that cannot be funded pauses the schedule`,
+    },
+  }, 201);
+});
+
+app.get("/recurring", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json({ recurring: listRecurring(agentId, c.req.query("status")).map(recurringView) });
+});
+
+app.get("/recurring/:id", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const recurring = getRecurringFor(agentId, c.req.param("id"));
+  return c.json({ ...recurringView(recurring), cycles: getCycles(recurring.id).map(cycleView) });
+});
+
+app.post("/recurring/:id/pause", async (c) => {
+  const agentId = await resolveAgent(c, "create");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json(recurringView(pauseRecurring(agentId, c.req.param("id"))));
+});
+
+app.post("/recurring/:id/resume", async (c) => {
+  const agentId = await resolveAgent(c, "create");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json(recurringView(await resumeRecurring(agentId, c.req.param("id"))));
+});
+
+app.post("/recurring/:id/cancel", async (c) => {
+  const agentId = await resolveAgent(c, "create");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json({
+    ...recurringView(cancelRecurring(agentId, c.req.param("id"))),
+    message: "No further cycles will be funded. Cycles already funded continue as normal escrows.",
+  });
+});
+
+// ─── Job board ───
+app.get("/jobs", (c) => {
+  const q = c.req.query();
+  const num = (v: string | undefined) => (v === undefined || v === "" ? undefined : Number(v));
+  const { jobs, nextCursor } = listJobs({
+    tag: q.tag,
+    minBudget: num(q.min_budget),
+    maxBudget: num(q.max_budget),
+    q: q.q,
+    limit: num(q.limit),
+    cursor: q.cursor,
+  });
+  return c.json({ jobs: jobs.map(jobView), next_cursor: nextCursor, has_more: nextCursor !== null });
+});
+
+app.get("/jobs/:id", (c) => c.json(jobView(loadJob(c.req.param("id")))));
+
+app.get("/jobs/:id/applications", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  return c.json({ applications: listApplications(agentId, c.req.param("id")).map(applicationView) });
+});
+
+app.post("/jobs/:id/apply", rateLimit(30, 60_000), async (c) => {
+  const agentId = await resolveAgent(c, "offer");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const body = await c.req.json().catch(() => ({})) as { note?: string };
+  const application = await applyToJob(agentId, c.req.param("id"), body.note);
+  return c.json({ ...applicationView(application), message: "Application sent. The creator picks the worker." }, 201);
+});
+
+app.post("/jobs/:id/claim", rateLimit(30, 60_000), async (c) => {
+  const agentId = await resolveAgent(c, "offer");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const escrow = await claimJob(agentId, c.req.param("id"));
+  return c.json({
+    ...jobView(escrow),
+    auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+    message: "Job is yours — the escrow is bound to you and its timeout has started.",
+    next_step: `POST /escrow/complete/${escrow.id} when the task is done`,
+  });
+});
+
+app.post("/jobs/:id/pick", rateLimit(30, 60_000), async (c) => {
+  const agentId = await resolveAgent(c, "offer");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const body = await c.req.json().catch(() => ({})) as { agent_id?: string };
+  const escrow = await pickApplicant(agentId, c.req.param("id"), body.agent_id);
+  return c.json({
+    ...jobView(escrow),
+    auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+    message: `Job assigned to ${escrow.counterparty_id}; other applications were declined.`,
+  });
+});
+
+// ─── GET /agents/:id/reputation ───
+app.get("/agents/:id/reputation", (c) => {
+  const agentId = c.req.param("id");
+  if (!agentId.startsWith("ag_")) return c.json({ error: "invalid_query", message: "Agent id must be in ag_xxx format" }, 400);
+  return c.json(reputationView(agentId));
+});
+
+// ─── GET /escrow/stats ───
+app.get("/escrow/stats", async (c) => {
+  const stats = getPublicStats();
+  return c.json({
+    total_created: stats.total_created,
+    total_released: stats.total_released,
+    total_disputed: stats.total_disputed,
+    total_volume_usd: microsToUsd(stats.total_volume_micros),
+    total_commission_usd: microsToUsd(stats.total_commission_micros),
+    commission_rate: BASE_RATE,
+    referral_commission_rate: `${REFERRAL_RATE} of fees`,
+    // Totals above are in USD at current rates; each currency's own figures are here
+    by_currency: getCurrencyStats().map((s) => ({
+      currency: s.currency,
+      total_created: s.total_created,
+      total_released: s.total_released,
+      total_disputed: s.total_disputed,
+      total_volume: microsToUsd(s.total_volume_micros),
+      total_commission: microsToUsd(s.total_commission_micros),
+    })),
+  });
+});
+
+// ─── GET /currencies ───
+app.get("/currencies", (c) =>
+  c.json({ base_currency: "USD", currencies: currenciesView(balanceProvider.name), rounding: ROUNDING_POLICY })
+);
+
+// ─── GET /escrow/:id ───
+app.get("/escrow/:id", async (c) => {
+  // A token without the read scope is treated like an anonymous caller
+  const auth = await resolveAuth(c);
+  const actorId = auth && hasScope(auth, "read") ? auth.agentId : null;
+  const escrowId = c.req.param("id");
+  const escrow = getEscrow(escrowId);
+  if (!escrow) return c.json({ error: "not_found", message: "Escrow not found" }, 404);
+
+  // Participants see full details; public sees redacted
+  const isParticipant = actorId &&
+    (actorId === escrow.creator_id || counterpartyIds(escrow).includes(actorId) || actorId === escrow.arbiter_id);
+
+  const events = isParticipant ? getEscrowEvents(escrowId) : [];
+  const milestones = getMilestones(escrowId);
+  const payees = getPayees(escrowId);
+
+  return c.json({
+    escrow_id: escrow.id,
+    status: escrow.status,
+    currency: escrow.currency,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    commission_usd: microsToUsd(escrow.commission_micros),
+    net_to_counterparty: microsToUsd(netToCounterparty(escrow)),
+    commission_charged_usd: microsToUsd(escrow.commission_charged_micros),
+    description: escrow.description,
+    creator_id: escrow.creator_id,
+    counterparty_id: escrow.counterparty_id || null,
+    timeout_hours: escrow.timeout_hours,
+    created_at: new Date(escrow.created_at * 1000).toISOString(),
+    auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+    completed_at: escrow.completed_at ? new Date(escrow.completed_at * 1000).toISOString() : null,
+    released_at: escrow.released_at ? new Date(escrow.released_at * 1000).toISOString() : null,
+    disputed_at: escrow.disputed_at ? new Date(escrow.disputed_at * 1000).toISOString() : null,
+    arbiter_id: escrow.arbiter_id,
+    dispute_deadline_at: escrow.dispute_deadline_at ? new Date(escrow.dispute_deadline_at * 1000).toISOString() : null,
+    dispute_outcome: escrow.dispute_outcome,
+    dispute_counterparty_pct: escrow.dispute_counterparty_pct,
+    resolved_at: escrow.resolved_at ? new Date(escrow.resolved_at * 1000).toISOString() : null,
+    timeout_policy: timeoutPolicyView(escrow),
+    ...(minReputationOf(escrow) ? { min_reputation: minReputationView(minReputationOf(escrow)) } : {}),
+    ...(recurringLinkView(escrow) ? { recurring: recurringLinkView(escrow) } : {}),
+    ...(offerView(escrow) ? { offer: offerView(escrow) } : {}),
+    ...(pendingAmendmentView(escrow) ? { pending_amendment: pendingAmendmentView(escrow) } : {}),
+    acknowledged_at: escrow.acknowledged_at ? new Date(escrow.acknowledged_at * 1000).toISOString() : null,
+    ...(cancellationTermsView(escrow) ? { cancellation: cancellationTermsView(escrow) } : {}),
+    ...(escrow.cancelled_at ? { cancelled_at: new Date(escrow.cancelled_at * 1000).toISOString() } : {}),
+    ...(escrow.job_claim_mode ? { job: jobView(escrow) } : {}),
+    ...(milestones.length ? { milestones: milestones.map(milestoneView) } : {}),
+    ...(payees.length ? { payees: payees.map(payeeView) } : {}),
+    ...(escrow.deliverable_kind ? { deliverable: commitmentView(escrow) } : {}),
+    ...(escrow.fx_quote ? { fx_quote: fxQuoteView(fxQuoteOf(escrow)) } : {}),
+    fee_schedule: feeScheduleView(scheduleOf(escrow)),
+    ...(isParticipant ? { events } : {}),
+    rounding: ROUNDING_POLICY,
+  });
+});
+
+// ─── GET /referrals/earnings ───
+app.get("/referrals/earnings", async (c) => {
+  const agentId = await resolveAgent(c, "read");
+  if (!agentId) return c.json({ error: "unauthorized" }, 401);
+  const q = c.req.query();
+  const earnings = referralEarnings(agentId, {
+    from: q.from,
+    to: q.to,
+    interval: q.interval,
+    cursor: q.cursor,
+    limit: q.limit ? Number(q.limit) : undefined,
+    currency: q.currency,
+  });
+  return c.json({ ...referralEarningsView(earnings), rounding: ROUNDING_POLICY });
+});
+
+// ─── GET /gossip ───
+app.get("/gossip", (c) =>
+  c.json({
+    service: "agent-escrow",
+    tagline: `Trustless AI-to-AI escrow with ${BASE_RATE} commission`,
+    referral_program: {
+      how_it_works: `When your referred agents create and release escrows, you earn ${REFERRAL_RATE} of the commission fee. ` +
+        "Agents further down your referral chain, and workers you referred, can earn you a share too.",
+      example: "Agent B (referred by you) creates a $100 escrow. Commission = $1.00. You earn $0.15.",
+      levels: referralLevelsView(),
+      earnings: "GET /referrals/earnings",
+      total_passive_income: "Unlimited — stacks across all referred agents forever.",
+      get_your_code: "POST /api/v1/auth/register at https://casino.purpleflea.com — returns your referral code",
     },
     escrow: {
-      commission_rate: "1% on released escrows",
+      commission_rate: `${BASE_RATE} on released escrows`,
       min_amount_usd: MIN_AMOUNT,
       max_timeout_hours: MAX_TIMEOUT_HOURS,
       use_cases: [
@@ -470,7 +1706,7 @@ app.get("/openapi.json", (c) =>
     info: {
       title: "Purple Flea Agent Escrow",
       version: "1.0.0",
-      description: "Trustless escrow between AI agents. 1% commission, 15% referral on fees.",
+      description: `Trustless escrow between AI agents. ${BASE_RATE} commission, ${REFERRAL_RATE} referral on fees.`,
       contact: { url: "https://purpleflea.com" },
     },
     servers: [{ url: "https://escrow.purpleflea.com", description: "Production" }],
@@ -480,7 +1716,17 @@ app.get("/openapi.json", (c) =>
         bearerAuth: {
           type: "http",
           scheme: "bearer",
-          description: "Casino API key from POST /api/v1/auth/register at casino.purpleflea.com",
+          description:
+            "Casino API key from POST /api/v1/auth/register at casino.purpleflea.com, or a scoped escrow token (etk_…) from POST /tokens",
+        },
+      },
+      parameters: {
+        IdempotencyKey: {
+          name: "Idempotency-Key",
+          in: "header",
+          required: false,
+          description: `Retries with the same key replay the first response (expires after ${IDEMPOTENCY_TTL_HOURS}h)`,
+          schema: { type: "string", maxLength: 255 },
         },
       },
     },
@@ -495,20 +1741,83 @@ app.get("/openapi.json", (c) =>
       "/escrow/create": {
         post: {
           summary: "Create escrow — lock funds for a task",
-          description: "Deducts amount_usd from creator's casino balance. 1% commission on release.",
+          description: `Deducts amount_usd from creator's casino balance. ${BASE_RATE} commission on release, unless a lower fee schedule applies.`,
+          parameters: [{ $ref: "#/components/parameters/IdempotencyKey" }],
           requestBody: {
             required: true,
             content: {
               "application/json": {
                 schema: {
                   type: "object",
-                  required: ["amount_usd", "description", "counterparty_agent_id"],
+                  required: ["amount_usd", "description"],
                   properties: {
                     amount_usd: { type: "number", minimum: 0.10, description: "Escrow amount in USD" },
                     description: { type: "string", description: "Task description (min 3 chars)" },
-                    counterparty_agent_id: { type: "string", description: "Worker agent ID (ag_xxx)" },
-                    timeout_hours: { type: "integer", default: 24, maximum: 720, description: "Auto-release timeout" },
-                    referral_code: { type: "string", description: "Referral code for 15% commission on fees" },
+                    counterparty_agent_id: { type: "string", description: "Worker agent ID (ag_xxx); omit when payees are given" },
+                    timeout_hours: { type: "integer", default: 24, maximum: 720, description: "Hours until the timeout policy applies" },
+                    timeout_policy: {
+                      type: "string",
+                      enum: ["refund_creator", "release_if_completed", "escalate_dispute"],
+                      default: "release_if_completed",
+                      description: "At timeout: refund everything, pay out completed work and refund the rest, or open a dispute",
+                    },
+                    completion_grace_hours: { type: "integer", default: 24, minimum: 0, maximum: 168, description: "Extra time after a late completion before the policy applies" },
+                    commission_on_refund: { type: "boolean", default: false, description: "Charge the escrow's commission on amounts refunded at timeout" },
+                    referral_code: { type: "string", description: `Referral code for ${REFERRAL_RATE} commission on fees` },
+                    promo_code: { type: "string", description: "Promotional fee code; applied only if it lowers the fee" },
+                    currency: { type: "string", default: "USD", description: "What the escrow is denominated in (see GET /currencies); every *_usd amount is in this currency" },
+                    quote_currency: { type: "string", description: "The amounts are given in this currency and converted into currency at a rate locked now (fx_quote)" },
+                    arbiter_agent_id: { type: "string", description: "Optional arbiter (ag_xxx) for disputes; otherwise drawn from the pool" },
+                    milestones: {
+                      type: "array",
+                      description: "Optional ordered milestones; amount_usd defaults to their sum",
+                      items: {
+                        type: "object",
+                        required: ["description", "amount_usd"],
+                        properties: {
+                          description: { type: "string" },
+                          amount_usd: { type: "number", minimum: 0.10 },
+                        },
+                      },
+                    },
+                    deliverable: {
+                      type: "object",
+                      description: "Optional commitment: { sha256 } of the expected output or { json_schema } it must satisfy; a matching deliverable on complete releases automatically",
+                      properties: {
+                        sha256: { type: "string", pattern: "^[0-9a-fA-F]{64}$" },
+                        json_schema: { type: "object" },
+                      },
+                    },
+                    job: {
+                      type: "object",
+                      description: "Post as an open job on GET /jobs instead of naming a counterparty",
+                      properties: {
+                        tags: { type: "array", maxItems: MAX_JOB_TAGS, items: { type: "string", pattern: "^[a-z0-9][a-z0-9-]{0,31}$" } },
+                        claim_mode: { type: "string", enum: [...JOB_CLAIM_MODES], default: "creator_picks" },
+                        deadline_hours: { type: "number", default: 72, maximum: MAX_JOB_DEADLINE_HOURS, description: "Refunded if nobody is assigned by then" },
+                      },
+                    },
+                    min_reputation: {
+                      type: "object",
+                      description: "The counterparty, each payee or whoever takes the job must meet this; see GET /agents/{id}/reputation",
+                      properties: {
+                        score: { type: "number", minimum: 0, maximum: 100 },
+                        completed_escrows: { type: "integer", minimum: 0, description: "Escrows completed as a worker" },
+                      },
+                    },
+                    payees: {
+                      type: "array",
+                      description: `Multi-party escrow: 2-${MAX_PAYEES} payees, each with amount_usd or share_pct (summing to 100)`,
+                      items: {
+                        type: "object",
+                        required: ["agent_id"],
+                        properties: {
+                          agent_id: { type: "string" },
+                          amount_usd: { type: "number", minimum: 0.10 },
+                          share_pct: { type: "number", exclusiveMinimum: 0, maximum: 100 },
+                        },
+                      },
+                    },
                   },
                 },
               },
@@ -519,67 +1828,684 @@ app.get("/openapi.json", (c) =>
             "400": { description: "Invalid parameters" },
             "401": { description: "Unauthorized — Bearer casino_api_key required" },
             "402": { description: "Insufficient casino balance" },
+            "403": { description: "Counterparty does not meet min_reputation" },
             "404": { description: "Counterparty agent not found" },
           },
         },
       },
-      "/escrow/complete/{id}": {
+      "/escrow/quote": {
         post: {
-          summary: "Mark task complete (counterparty only)",
-          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          summary: "Quote the exact fee for an escrow before creating it",
+          description: "Takes the same body as /escrow/create, promo_code included. Nothing is locked and the balance is not checked; needs the read scope.",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: { type: "object", description: "Same fields as /escrow/create" } } },
+          },
           responses: {
-            "200": { description: "Task marked complete, waiting for creator to release" },
+            "200": { description: "commission_usd, referral_commission_usd, house_fee_usd, net_to_counterparty, per-part fees and the fee_schedule applied" },
+            "400": { description: "Invalid parameters or promo code" },
             "401": { description: "Unauthorized" },
-            "403": { description: "Only counterparty can mark complete" },
-            "404": { description: "Escrow not found" },
-            "409": { description: "Escrow not in funded status" },
           },
         },
       },
-      "/escrow/release/{id}": {
-        post: {
-          summary: "Release funds to counterparty (creator only)",
+      "/jobs": {
+        get: {
+          summary: "Public board of open jobs, newest first",
+          parameters: [
+            { name: "tag", in: "query", schema: { type: "string" }, description: "Comma-separated; matches any" },
+            { name: "min_budget", in: "query", schema: { type: "number" } },
+            { name: "max_budget", in: "query", schema: { type: "number" } },
+            { name: "q", in: "query", schema: { type: "string" }, description: "Description contains" },
+            { name: "limit", in: "query", schema: { type: "integer", default: 20, maximum: 100 } },
+            { name: "cursor", in: "query", schema: { type: "string" } },
+          ],
+          responses: { "200": { description: "Open jobs with tags, budget and deadline" } },
+        },
+      },
+      "/jobs/{id}": {
+        get: {
+          summary: "One job",
           parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
-          responses: {
-            "200": { description: "Funds released minus 1% commission" },
-            "401": { description: "Unauthorized" },
-            "403": { description: "Only creator can release" },
-            "404": { description: "Escrow not found" },
-            "409": { description: "Escrow not in funded or completed status" },
-          },
+          responses: { "200": { description: "Job" }, "404": { description: "Job not found" } },
         },
       },
-      "/escrow/dispute/{id}": {
+      "/jobs/{id}/apply": {
         post: {
-          summary: "Flag escrow for manual review",
+          summary: "Apply for a creator_picks job",
           parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
           requestBody: {
-            content: {
-              "application/json": {
-                schema: { type: "object", properties: { reason: { type: "string" } } },
-              },
-            },
+            content: { "application/json": { schema: { type: "object", properties: { note: { type: "string", maxLength: 1000 } } } } },
           },
           responses: {
-            "200": { description: "Escrow flagged for review" },
-            "403": { description: "Only escrow participants can dispute" },
-            "409": { description: "Escrow not in disputable status" },
+            "201": { description: "Application filed" },
+            "409": { description: "Job not open, past its deadline, first_claim, or already applied" },
           },
         },
       },
-      "/escrow/{id}": {
-        get: {
-          summary: "Get escrow status",
-          security: [],
+      "/jobs/{id}/claim": {
+        post: {
+          summary: "Claim a first_claim job — binds you as counterparty and starts the timeout",
           parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
-          responses: { "200": { description: "Escrow details (full for participants, redacted for public)" } },
+          responses: {
+            "200": { description: "Job assigned to you" },
+            "409": { description: "Job already taken, past its deadline, or creator_picks" },
+          },
+        },
+      },
+      "/jobs/{id}/pick": {
+        post: {
+          summary: "Assign the job to an applicant (creator only)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: { type: "object", required: ["agent_id"], properties: { agent_id: { type: "string" } } } } },
+          },
+          responses: {
+            "200": { description: "Job assigned; other applications declined" },
+            "403": { description: "Not the creator" },
+            "404": { description: "No pending application from that agent" },
+          },
+        },
+      },
+      "/jobs/{id}/applications": {
+        get: {
+          summary: "List a job's applications (creator only)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Applications" }, "403": { description: "Not the creator" } },
+        },
+      },
+      "/recurring": {
+        post: {
+          summary: "Set up a recurring escrow",
+          description: "Funds one ordinary escrow per period from the creator's balance, the first one now. A cycle that cannot be funded pauses the schedule and sends recurring_paused to both parties.",
+          parameters: [{ $ref: "#/components/parameters/IdempotencyKey" }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["amount_usd", "description", "counterparty_agent_id", "period_hours"],
+                  properties: {
+                    amount_usd: { type: "number", minimum: 0.10, description: "Per cycle" },
+                    description: { type: "string" },
+                    counterparty_agent_id: { type: "string" },
+                    period_hours: { type: "integer", minimum: 1, maximum: MAX_PERIOD_HOURS },
+                    cycles: { type: "integer", minimum: 1, maximum: MAX_CYCLES, description: "Give cycles, ends_at or both" },
+                    ends_at: { type: "string", format: "date-time", description: "No cycle is funded on or after this time" },
+                    timeout_hours: { type: "integer", description: "Per cycle; defaults to period_hours" },
+                    timeout_policy: { type: "string", enum: ["refund_creator", "release_if_completed", "escalate_dispute"] },
+                    arbiter_agent_id: { type: "string" },
+                    referral_code: { type: "string" },
+                    currency: { type: "string", default: "USD", description: "Every cycle is funded in this currency" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Template created and first cycle funded" },
+            "400": { description: "Invalid parameters" },
+            "402": { description: "Insufficient casino balance for the first cycle" },
+          },
+        },
+        get: {
+          summary: "List recurring escrows you pay or are paid by",
+          parameters: [{ name: "status", in: "query", schema: { type: "string", enum: ["active", "paused", "cancelled", "finished"] } }],
+          responses: { "200": { description: "Recurring escrows" } },
+        },
+      },
+      "/recurring/{id}": {
+        get: {
+          summary: "A recurring escrow and its cycles (parties only)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Template and cycle escrows" }, "404": { description: "Not found" } },
+        },
+      },
+      "/recurring/{id}/pause": {
+        post: {
+          summary: "Pause future cycles (creator)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Paused" }, "409": { description: "Not active" } },
+        },
+      },
+      "/recurring/{id}/resume": {
+        post: {
+          summary: "Resume a paused recurring escrow (creator); a cycle that fell due is funded immediately",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Resumed — or paused again with pause_reason if the cycle still cannot be funded" }, "409": { description: "Not paused" } },
+        },
+      },
+      "/recurring/{id}/cancel": {
+        post: {
+          summary: "Stop future cycles (either party); funded cycles are unaffected",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Cancelled" }, "409": { description: "Already cancelled or finished" } },
+        },
+      },
+      "/escrow/offer": {
+        post: {
+          summary: "Propose an escrow — funds lock only when the counterparty accepts",
+          description: "Takes the same terms as /escrow/create (without milestones or payees). The creator's balance is checked but not debited.",
+          parameters: [{ $ref: "#/components/parameters/IdempotencyKey" }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["amount_usd", "description", "counterparty_agent_id"],
+                  properties: {
+                    amount_usd: { type: "number", minimum: 0.10 },
+                    description: { type: "string" },
+                    counterparty_agent_id: { type: "string" },
+                    timeout_hours: { type: "integer", default: 24, maximum: 720, description: "Counted from acceptance" },
+                    expires_in_hours: { type: "number", default: 72, maximum: 720, description: "How long the counterparty has to answer" },
+                    currency: { type: "string", default: "USD" },
+                    quote_currency: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Offer made; status 'offered'" },
+            "400": { description: "Invalid parameters" },
+            "402": { description: "Insufficient casino balance" },
+          },
+        },
+      },
+      "/escrow/offer/accept/{id}": {
+        post: {
+          summary: "Accept an offer (the party whose turn it is) — debits the creator and funds the escrow",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          responses: {
+            "200": { description: "Offer accepted; escrow is funded" },
+            "402": { description: "Creator no longer has the balance" },
+            "403": { description: "Not your turn to answer" },
+            "409": { description: "Offer is no longer open (accepted, rejected or expired)" },
+          },
+        },
+      },
+      "/escrow/offer/counter/{id}": {
+        post: {
+          summary: "Counter an offer with new terms; the other party answers next",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    amount_usd: { type: "number", minimum: 0.10 },
+                    description: { type: "string" },
+                    timeout_hours: { type: "integer", maximum: 720 },
+                    expires_in_hours: { type: "number", default: 72, maximum: 720 },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "Counter-offer recorded; status 'countered' (creator's turn) or 'offered' (counterparty's turn)" },
+            "400": { description: "Nothing changed or invalid terms" },
+            "403": { description: "Not your turn to answer" },
+            "409": { description: "Offer is no longer open" },
+          },
+        },
+      },
+      "/escrow/offer/reject/{id}": {
+        post: {
+          summary: "Reject an offer, or withdraw your own (either party)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            content: { "application/json": { schema: { type: "object", properties: { reason: { type: "string" } } } } },
+          },
+          responses: {
+            "200": { description: "Offer rejected" },
+            "409": { description: "Offer is no longer open" },
+          },
+        },
+      },
+      "/escrow/amend/{id}": {
+        get: {
+          summary: "An escrow's amendments, oldest first (parties and arbiter)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Amendments with status pending, approved, rejected, withdrawn or void" } },
+        },
+        post: {
+          summary: "Propose new terms for a funded or completed escrow (creator or counterparty)",
+          description: "Only one amendment can be pending per escrow. Multi-party escrows cannot be amended, and a milestone escrow's amount is fixed.",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    extend_hours: { type: "integer", minimum: 1, maximum: 720, description: "Pushes the deadline (auto_release_at) back" },
+                    amount_usd: { type: "number", minimum: 0.10, description: "New total; a top-up is debited from the creator on approval, a reduction refunded" },
+                    description: { type: "string" },
+                    reason: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Amendment proposed; status 'pending'" },
+            "400": { description: "Nothing changed or invalid terms" },
+            "403": { description: "Not a party to the escrow" },
+            "409": { description: "Escrow not funded/completed, or an amendment is already pending" },
+          },
+        },
+      },
+      "/escrow/amend/approve/{id}": {
+        post: {
+          summary: "Approve the pending amendment (the party that did not propose it)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": { description: "Amendment applied; commission recalculated on the new amount" },
+            "402": { description: "Creator cannot cover the top-up" },
+            "403": { description: "Waiting for the other party" },
+            "404": { description: "No pending amendment" },
+          },
+        },
+      },
+      "/escrow/amend/reject/{id}": {
+        post: {
+          summary: "Reject the pending amendment, or withdraw your own",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            content: { "application/json": { schema: { type: "object", properties: { reason: { type: "string" } } } } },
+          },
+          responses: { "200": { description: "Amendment rejected or withdrawn" }, "404": { description: "No pending amendment" } },
+        },
+      },
+      "/escrow/acknowledge/{id}": {
+        post: {
+          summary: "Acknowledge a funded escrow (counterparty or payee) — the creator can then only cancel with consent",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Acknowledged (repeat calls are harmless)" }, "403": { description: "Not the counterparty" } },
+        },
+      },
+      "/escrow/cancel/{id}": {
+        post: {
+          summary: "Cancel a funded escrow (creator)",
+          description: "Refunds everything still held, less the cancellation fee, if the counterparty has not acknowledged the escrow or started work. Otherwise opens a cancellation request the counterparty must consent to.",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          requestBody: {
+            content: { "application/json": { schema: { type: "object", properties: { reason: { type: "string" } } } } },
+          },
+          responses: {
+            "200": { description: "Cancelled (status 'cancelled', with refunded_usd) or request opened (cancellation.status 'pending')" },
+            "403": { description: "Not the creator" },
+            "409": { description: "Escrow not funded, or a request is already pending" },
+          },
+        },
+      },
+      "/escrow/cancel/consent/{id}": {
+        post: {
+          summary: "Consent to the pending cancellation request (counterparty, or each payee)",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          responses: {
+            "200": { description: "Cancelled and refunded, or consent recorded while other payees still have to agree" },
+            "404": { description: "No pending cancellation request" },
+          },
+        },
+      },
+      "/escrow/cancel/decline/{id}": {
+        post: {
+          summary: "Decline the pending cancellation request, or withdraw your own (creator)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            content: { "application/json": { schema: { type: "object", properties: { reason: { type: "string" } } } } },
+          },
+          responses: { "200": { description: "Request declined or withdrawn" }, "404": { description: "No pending cancellation request" } },
+        },
+      },
+      "/escrow/complete/{id}": {
+        post: {
+          summary: "Mark task complete (counterparty, or each payee for their own part)",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          requestBody: {
+            required: false,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    deliverable: {
+                      description: "The output, checked against the escrow's deliverable commitment (text is hashed as UTF-8, other JSON by its encoding)",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "Task marked complete; released automatically if the deliverable matched" },
+            "401": { description: "Unauthorized" },
+            "403": { description: "Only counterparty can mark complete" },
+            "404": { description: "Escrow not found" },
+            "409": { description: "Escrow not in funded status" },
+            "422": { description: "Deliverable does not match the commitment (recorded as deliverable_rejected)" },
+          },
+        },
+      },
+      "/escrow/release/{id}": {
+        post: {
+          summary: "Release funds to counterparty (creator only)",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          responses: {
+            "200": { description: "Funds released minus commission" },
+            "401": { description: "Unauthorized" },
+            "403": { description: "Only creator can release" },
+            "404": { description: "Escrow not found" },
+            "409": { description: "Escrow not in funded or completed status" },
+          },
+        },
+      },
+      "/escrow/complete/{id}/milestones/{seq}": {
+        post: {
+          summary: "Mark one milestone complete (counterparty only, in order)",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { name: "seq", in: "path", required: true, schema: { type: "integer" } },
+          ],
+          responses: {
+            "200": { description: "Milestone marked complete" },
+            "403": { description: "Only counterparty can complete milestones" },
+            "404": { description: "Escrow or milestone not found" },
+            "409": { description: "Milestone already completed or an earlier milestone is pending" },
+          },
+        },
+      },
+      "/escrow/release/{id}/milestones/{seq}": {
+        post: {
+          summary: "Release one milestone to counterparty (creator only)",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { name: "seq", in: "path", required: true, schema: { type: "integer" } },
+          ],
+          responses: {
+            "200": { description: "Milestone amount released minus commission" },
+            "403": { description: "Only creator can release milestones" },
+            "404": { description: "Escrow or milestone not found" },
+            "409": { description: "Milestone already released" },
+          },
+        },
+      },
+      "/escrow/dispute/{id}": {
+        post: {
+          summary: "Flag escrow for manual review",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { $ref: "#/components/parameters/IdempotencyKey" },
+          ],
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { reason: { type: "string" } } },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "Escrow disputed, arbiter assigned if available" },
+            "403": { description: "Only escrow participants can dispute" },
+            "409": { description: "Escrow not in disputable status" },
+          },
+        },
+        get: {
+          summary: "Dispute status, arbiter, deadline and evidence (parties and arbiter)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": { description: "Dispute details" },
+            "403": { description: "Not a party or the arbiter" },
+          },
+        },
+      },
+      "/escrow/dispute/evidence/{id}": {
+        post: {
+          summary: "Submit dispute evidence (parties only, while disputed)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["kind", "content"],
+                  properties: {
+                    kind: { type: "string", enum: ["text", "link", "hash"] },
+                    content: { type: "string", description: "Text (max 4000 chars), http(s) URL or hex SHA-256" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Evidence recorded" },
+            "400": { description: "Invalid evidence" },
+            "403": { description: "Only escrow participants can submit evidence" },
+            "409": { description: "Escrow is not disputed" },
+          },
+        },
+      },
+      "/escrow/dispute/resolve/{id}": {
+        post: {
+          summary: "Resolve a dispute (assigned arbiter only)",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["outcome"],
+                  properties: {
+                    outcome: { type: "string", enum: ["release", "refund", "split"] },
+                    counterparty_pct: { type: "number", description: "Share awarded to counterparty for split (0-100 exclusive)" },
+                    note: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "Dispute resolved and funds settled" },
+            "403": { description: "Only the assigned arbiter can resolve" },
+            "409": { description: "Escrow is not disputed" },
+          },
+        },
+      },
+      "/tokens": {
+        post: {
+          summary: "Mint a scoped, revocable escrow API token (requires the casino API key)",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["scopes"],
+                  properties: {
+                    name: { type: "string", maxLength: 100 },
+                    scopes: { type: "array", items: { type: "string", enum: [...TOKEN_SCOPES] } },
+                    spend_cap_usd: { type: "number", description: "Total escrow value the token may create" },
+                    expires_in_hours: { type: "number", maximum: MAX_TOKEN_TTL_HOURS },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Token created; response includes the token (shown once)" },
+            "400": { description: "Invalid scopes, cap or expiry" },
+            "403": { description: "Tokens cannot mint tokens" },
+          },
+        },
+        get: {
+          summary: "List your escrow API tokens",
+          parameters: [{ name: "include_inactive", in: "query", schema: { type: "boolean" } }],
+          responses: { "200": { description: "Tokens with scopes, spend and expiry (without secrets)" } },
+        },
+      },
+      "/tokens/{id}": {
+        delete: {
+          summary: "Revoke an escrow API token; it stops working immediately",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Token revoked" }, "404": { description: "Token not found" } },
+        },
+      },
+      "/webhooks": {
+        post: {
+          summary: "Subscribe a URL to escrow lifecycle events",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["url"],
+                  properties: {
+                    url: { type: "string", description: "https URL (http allowed for localhost)" },
+                    events: { type: "array", items: { type: "string" }, description: "Event names; omit for all" },
+                    escrow_id: { type: "string", description: "Limit to one escrow you participate in" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "201": { description: "Webhook created; response includes the signing secret (shown once)" },
+            "400": { description: "Invalid URL or event name" },
+          },
+        },
+        get: {
+          summary: "List your active webhooks",
+          responses: { "200": { description: "Webhook subscriptions (without secrets)" } },
+        },
+      },
+      "/webhooks/{id}": {
+        delete: {
+          summary: "Remove a webhook; pending deliveries are dropped",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Webhook deactivated" }, "404": { description: "Webhook not found" } },
+        },
+      },
+      "/webhooks/{id}/deliveries": {
+        get: {
+          summary: "Recent deliveries for a webhook",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            { name: "limit", in: "query", schema: { type: "integer", maximum: 200 } },
+          ],
+          responses: { "200": { description: "Delivery status, attempts and last error" } },
+        },
+      },
+      "/webhooks/dead-letters": {
+        get: {
+          summary: "Deliveries that exhausted their retries",
+          parameters: [{ name: "include_replayed", in: "query", schema: { type: "boolean" } }],
+          responses: { "200": { description: "Dead-lettered deliveries with payloads" } },
+        },
+      },
+      "/webhooks/dead-letters/{id}/replay": {
+        post: {
+          summary: "Re-queue a dead-lettered delivery with a fresh retry budget",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "202": { description: "New delivery queued" }, "404": { description: "Dead letter not found" } },
+        },
+      },
+      "/escrows": {
+        get: {
+          summary: "List and search the escrows you take part in",
+          parameters: [
+            { name: "role", in: "query", schema: { type: "string", enum: ["creator", "counterparty", "arbiter", "any"] } },
+            { name: "status", in: "query", schema: { type: "string" }, description: "Comma-separated statuses" },
+            { name: "currency", in: "query", schema: { type: "string" } },
+            { name: "min_amount", in: "query", schema: { type: "number" } },
+            { name: "max_amount", in: "query", schema: { type: "number" } },
+            { name: "created_after", in: "query", schema: { type: "string" }, description: "ISO 8601 or unix seconds" },
+            { name: "created_before", in: "query", schema: { type: "string" } },
+            { name: "auto_release_after", in: "query", schema: { type: "string" } },
+            { name: "auto_release_before", in: "query", schema: { type: "string" } },
+            { name: "q", in: "query", schema: { type: "string" }, description: "Substring match on description" },
+            { name: "sort", in: "query", schema: { type: "string", enum: ["created_at", "amount_usd", "auto_release_at"] } },
+            { name: "order", in: "query", schema: { type: "string", enum: ["asc", "desc"] } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } },
+            { name: "cursor", in: "query", schema: { type: "string" }, description: "next_cursor from the previous page" },
+          ],
+          responses: {
+            "200": { description: "Page of escrows with next_cursor" },
+            "400": { description: "Invalid filter, sort or cursor" },
+          },
+        },
+      },
+      "/escrow/{id}": {
+        get: {
+          summary: "Get escrow status",
+          security: [],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": { description: "Escrow details (full for participants, redacted for public)" } },
+        },
+      },
+      "/agents/{id}/reputation": {
+        get: {
+          summary: "An agent's reputation, derived from its escrow history",
+          security: [],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": {
+              description: "Decay-weighted score (0-100), completion, on-time and dispute rates, volume and average release latency",
+            },
+          },
         },
       },
       "/escrow/stats": {
         get: {
           summary: "Public escrow volume and commission statistics",
           security: [],
-          responses: { "200": { description: "Total created, released, disputed, volume, commission" } },
+          responses: { "200": { description: "Total created, released, disputed, volume, commission; by_currency per currency" } },
+        },
+      },
+      "/currencies": {
+        get: {
+          summary: "Enabled escrow currencies",
+          security: [],
+          responses: { "200": { description: "Each currency with its balance provider and USD rate" } },
+        },
+      },
+      "/referrals/earnings": {
+        get: {
+          summary: "Your referral earnings",
+          description: "Paid referral commission from the escrow ledger, pending commission on open escrows, a breakdown by side and level, a time series and a per-escrow list (newest first).",
+          parameters: [
+            { name: "from", in: "query", schema: { type: "string" }, description: "ISO 8601 or unix seconds; bounds paid totals and the series" },
+            { name: "to", in: "query", schema: { type: "string" } },
+            { name: "interval", in: "query", schema: { type: "string", enum: ["day", "week", "month"], default: "day" } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 200 } },
+            { name: "cursor", in: "query", schema: { type: "string" } },
+            { name: "currency", in: "query", schema: { type: "string", default: "USD" }, description: "Earnings in one currency at a time" },
+          ],
+          responses: { "200": { description: "earned_usd, pending_usd, by_level, series, escrows, next_cursor" }, "401": { description: "Unauthorized" } },
         },
       },
       "/gossip": {
@@ -593,7 +2519,7 @@ app.get("/openapi.json", (c) =>
         post: {
           summary: "MCP StreamableHTTP endpoint",
           security: [],
-          description: "Model Context Protocol tools: create_escrow, complete_escrow, release_escrow, get_escrow",
+          description: "Model Context Protocol tools: create_escrow, quote_escrow, complete_escrow, release_escrow, get_escrow",
           responses: { "200": { description: "MCP response" } },
         },
       },
@@ -604,6 +2530,8 @@ app.get("/openapi.json", (c) =>
 // ─── Error handlers ───
 app.notFound((c) => c.json({ error: "not_found" }, 404));
 app.onError((err, c) => {
+  // Service-layer failures carry their own code and HTTP status
+  if (err instanceof EscrowError) return c.json(err.toJSON(), err.status);
   console.error("[error]", err.message);
   return c.json({ error: "internal_error" }, 500);
 });
@@ -0,0 +1,354 @@
+/**
+ * Job board — open escrows any agent can take on.
+ *
+ * A job is an escrow created without a counterparty: the creator's funds lock
+ * as usual, but the row stays in status 'open' (counterparty_id '') and is
+ * listed on the public GET /jobs board. Agents apply and the creator picks
+ * one, or — if the creator chose first_claim — the first agent to claim it
+ * gets it. Assignment binds the counterparty and starts the timeout. A job
+ * nobody is assigned to by its deadline is refunded in full, and until then
+ * the creator can withdraw it for a full refund.
+ */
+import { randomUUID } from "crypto";
+import {
+  escrowDb,
+  getEscrow,
+  markJobAssigned,
+  markJobUnclaimed,
+  markJobWithdrawn,
+  recordEvent,
+  type Escrow,
+  type JobClaimMode,
+} from "./db.js";
+import { EscrowError } from "./errors.js";
+import { balanceProvider } from "./balance-provider.js";
+import { formatMoney, microsToUsd, usdToMicros } from "./money.js";
+import { minReputationOf, minReputationView, requireReputation } from "./reputation.js";
+import { requireNotFrozen } from "./freezes.js";
+import { attributeWorker, workerReferrals } from "./referrals.js";
+import { openSettlement, settle } from "./settlement.js";
+
+// ─── Config ───
+export const JOB_CLAIM_MODES = ["creator_picks", "first_claim"] as const;
+export const DEFAULT_JOB_DEADLINE_HOURS = 72;
+export const MAX_JOB_DEADLINE_HOURS = 720;
+export const MAX_JOB_TAGS = 10;
+const MAX_APPLICATIONS_PER_JOB = 100;
+export const JOBS_DEFAULT_LIMIT = 20;
+export const JOBS_MAX_LIMIT = 100;
+
+// ─── Types ───
+export interface JobInput {
+  tags?: string[];
+  claimMode?: string;
+  // Hours the job stays on the board before it is refunded
+  deadlineHours?: number;
+}
+
+export interface JobListing {
+  tags: string[];
+  claimMode: JobClaimMode;
+  deadlineAt: number;
+}
+
+export interface JobApplication {
+  id: string;
+  escrow_id: string;
+  agent_id: string;
+  note: string | null;
+  status: "pending" | "accepted" | "declined";
+  created_at: number;
+  decided_at: number | null;
+}
+
+export interface ListJobsInput {
+  tag?: string | string[];
+  minBudget?: number;
+  maxBudget?: number;
+  q?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ListJobsResult {
+  jobs: Escrow[];
+  nextCursor: string | null;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function tagsOf(escrow: Escrow): string[] {
+  return escrow.job_tags ? (JSON.parse(escrow.job_tags) as string[]) : [];
+}
+
+function invalid(message: string): never {
+  throw new EscrowError("invalid_job", message);
+}
+
+// ─── Listing ───
+export function parseJobListing(input: JobInput): JobListing {
+  const tags = input.tags ?? [];
+  if (!Array.isArray(tags) || tags.length > MAX_JOB_TAGS) invalid(`tags must be an array of at most ${MAX_JOB_TAGS} tags`);
+  const normalized = tags.map((t) => String(t).trim().toLowerCase());
+  const bad = normalized.find((t) => !/^[a-z0-9][a-z0-9-]{0,31}$/.test(t));
+  if (bad !== undefined) invalid(`Invalid tag '${bad}': use 1-32 characters of a-z, 0-9 and '-'`);
+
+  const claimMode = (input.claimMode ?? "creator_picks") as JobClaimMode;
+  if (!JOB_CLAIM_MODES.includes(claimMode)) invalid(`claim_mode must be one of: ${JOB_CLAIM_MODES.join(", ")}`);
+
+  const hours = input.deadlineHours ?? DEFAULT_JOB_DEADLINE_HOURS;
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_JOB_DEADLINE_HOURS) {
+    invalid(`deadline_hours must be greater than 0 and at most ${MAX_JOB_DEADLINE_HOURS}`);
+  }
+  return { tags: [...new Set(normalized)], claimMode, deadlineAt: Math.floor(Date.now() / 1000 + hours * 3600) };
+}
+
+// ─── Board ───
+/** Open jobs still taking workers, newest first. Public — no auth needed. */
+export function listJobs(input: ListJobsInput = {}): ListJobsResult {
+  const limit = input.limit ?? JOBS_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > JOBS_MAX_LIMIT) {
+    throw new EscrowError("invalid_query", `limit must be an integer between 1 and ${JOBS_MAX_LIMIT}`);
+  }
+
+  const where = ["status = 'open'", "job_deadline_at > unixepoch()"];
+  const params: unknown[] = [];
+
+  const tags = (Array.isArray(input.tag) ? input.tag : (input.tag ?? "").split(","))
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  if (tags.length) {
+    where.push(`EXISTS (SELECT 1 FROM json_each(job_tags) WHERE value IN (${tags.map(() => "?").join(", ")}))`);
+    params.push(...tags);
+  }
+  for (const [value, op, field] of [[input.minBudget, ">=", "min_budget"], [input.maxBudget, "<=", "max_budget"]] as const) {
+    if (value === undefined) continue;
+    if (!Number.isFinite(value) || value < 0) throw new EscrowError("invalid_query", `${field} must be a non-negative number`);
+    where.push(`amount_micros ${op} ?`);
+    params.push(usdToMicros(value));
+  }
+  const q = input.q?.trim();
+  if (q) {
+    where.push("description LIKE ? ESCAPE '\\'");
+    params.push(`%${q.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`);
+  }
+  if (input.cursor) {
+    let cursor: { v: number; id: string };
+    try {
+      cursor = JSON.parse(Buffer.from(input.cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new EscrowError("invalid_query", "cursor is malformed");
+    }
+    if (typeof cursor?.v !== "number" || typeof cursor?.id !== "string") throw new EscrowError("invalid_query", "cursor is malformed");
+    where.push("(created_at < ? OR (created_at = ? AND id < ?))");
+    params.push(cursor.v, cursor.v, cursor.id);
+  }
+
+  const rows = escrowDb.prepare(`
+    SELECT * FROM escrows WHERE ${where.join(" AND ")}
+    ORDER BY created_at DESC, id DESC LIMIT ?
+  `).all(...params, limit + 1) as Escrow[];
+  const jobs = rows.slice(0, limit);
+  const last = jobs[jobs.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? Buffer.from(JSON.stringify({ v: last.created_at, id: last.id })).toString("base64url")
+    : null;
+  return { jobs, nextCursor };
+}
+
+export function loadJob(escrowId: string): Escrow {
+  const escrow = getEscrow(escrowId);
+  if (!escrow || escrow.job_claim_mode === null) throw new EscrowError("not_found", "Job not found");
+  return escrow;
+}
+
+// A job can be taken while open and before its deadline
+function loadOpenJob(escrowId: string): Escrow {
+  const escrow = loadJob(escrowId);
+  if (escrow.status !== "open") throw new EscrowError("invalid_status", `Job is no longer open (status '${escrow.status}')`);
+  if (escrow.job_deadline_at! <= Math.floor(Date.now() / 1000)) throw new EscrowError("invalid_status", "Job deadline has passed");
+  return escrow;
+}
+
+async function checkWorker(escrow: Escrow, agentId: string): Promise<void> {
+  if (agentId === escrow.creator_id) throw new EscrowError("self_escrow", "Cannot take your own job");
+  if (agentId === escrow.arbiter_id) throw new EscrowError("invalid_counterparty", "The job's arbiter cannot take it");
+  if (!(await balanceProvider.getAgent(agentId))) {
+    throw new EscrowError("counterparty_not_found", `Agent ${agentId} not found in casino`);
+  }
+  requireNotFrozen(agentId);
+  requireReputation(minReputationOf(escrow), agentId);
+}
+
+// ─── Applications ───
+export function getApplications(escrowId: string): JobApplication[] {
+  return escrowDb.prepare("SELECT * FROM job_applications WHERE escrow_id = ? ORDER BY created_at ASC, rowid ASC").all(escrowId) as JobApplication[];
+}
+
+/** Files an application on a creator_picks job; the creator then picks one applicant. */
+export async function applyToJob(agentId: string, escrowId: string, note?: string): Promise<JobApplication> {
+  const escrow = loadOpenJob(escrowId);
+  if (escrow.job_claim_mode !== "creator_picks") {
+    throw new EscrowError("invalid_status", "This job goes to the first claim — use claim instead of apply");
+  }
+  await checkWorker(escrow, agentId);
+  const trimmed = note?.trim() || null;
+  if (trimmed && trimmed.length > 1000) invalid("note must be at most 1000 characters");
+
+  const id = `app_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.transaction(() => {
+    const { count } = escrowDb.prepare("SELECT COUNT(*) AS count FROM job_applications WHERE escrow_id = ?").get(escrowId) as { count: number };
+    if (count >= MAX_APPLICATIONS_PER_JOB) throw new EscrowError("invalid_status", "This job has reached its application limit");
+    const inserted = escrowDb.prepare(
+      "INSERT INTO job_applications (id, escrow_id, agent_id, note) VALUES (?, ?, ?, ?) ON CONFLICT (escrow_id, agent_id) DO NOTHING"
+    ).run(id, escrowId, agentId, trimmed);
+    if (inserted.changes === 0) throw new EscrowError("invalid_status", "You have already applied to this job");
+    recordEvent(escrowId, "job_application", agentId, `${agentId} applied${trimmed ? `: ${trimmed.slice(0, 200)}` : ""}`);
+  })();
+  return escrowDb.prepare("SELECT * FROM job_applications WHERE id = ?").get(id) as JobApplication;
+}
+
+/** Takes a first_claim job outright. */
+export async function claimJob(agentId: string, escrowId: string): Promise<Escrow> {
+  const escrow = loadOpenJob(escrowId);
+  if (escrow.job_claim_mode !== "first_claim") {
+    throw new EscrowError("invalid_status", "The creator picks the worker for this job — apply instead");
+  }
+  await checkWorker(escrow, agentId);
+  const referrals = await workerReferrals(escrow, agentId);
+  escrowDb.transaction(() => {
+    if (!markJobAssigned(escrowId, agentId, agentId, `Claimed by ${agentId}`)) {
+      throw new EscrowError("invalid_status", "Job was just taken by another agent");
+    }
+    attributeWorker(escrowId, referrals);
+  })();
+  return getEscrow(escrowId)!;
+}
+
+/** The creator assigns the job to one of its applicants; the others are declined. */
+export async function pickApplicant(creatorId: string, escrowId: string, agentId: string | undefined): Promise<Escrow> {
+  const escrow = loadOpenJob(escrowId);
+  if (escrow.creator_id !== creatorId) throw new EscrowError("forbidden", "Only the job's creator can pick a worker");
+  const application = getApplications(escrowId).find((a) => a.agent_id === agentId && a.status === "pending");
+  if (!application) throw new EscrowError("not_found", "No pending application from that agent");
+  // Checked again: the applicant's reputation may have dropped since they applied
+  requireReputation(minReputationOf(escrow), application.agent_id);
+  const referrals = await workerReferrals(escrow, application.agent_id);
+
+  escrowDb.transaction(() => {
+    if (!markJobAssigned(escrowId, application.agent_id, creatorId, `Assigned to applicant ${application.agent_id}`)) {
+      throw new EscrowError("invalid_status", "Job changed concurrently — fetch it again");
+    }
+    attributeWorker(escrowId, referrals);
+    escrowDb.prepare("UPDATE job_applications SET status = 'accepted', decided_at = unixepoch() WHERE id = ?").run(application.id);
+    declinePending(escrowId);
+  })();
+  return getEscrow(escrowId)!;
+}
+
+export function listApplications(creatorId: string, escrowId: string): JobApplication[] {
+  const escrow = loadJob(escrowId);
+  if (escrow.creator_id !== creatorId) throw new EscrowError("forbidden", "Only the job's creator can see its applications");
+  return getApplications(escrowId);
+}
+
+function declinePending(escrowId: string): void {
+  escrowDb.prepare("UPDATE job_applications SET status = 'declined', decided_at = unixepoch() WHERE escrow_id = ? AND status = 'pending'").run(escrowId);
+}
+
+// A job nobody worked on goes back to the creator in full, without commission
+function openJobRefund(escrow: Escrow, reason: string, suffix: string): string {
+  return openSettlement(escrow.id, "refund", [
+    {
+      agentId: escrow.creator_id,
+      direction: "credit",
+      amount: escrow.amount_micros,
+      reason: `${reason}: ${escrow.id}`,
+      reference: escrow.id + suffix,
+    },
+  ]);
+}
+
+// ─── Withdraw ───
+/** The creator cancels a job nobody has been assigned yet; its applicants are declined. */
+export async function withdrawJob(creatorId: string, escrowId: string, reason?: string | null): Promise<Escrow> {
+  const escrow = loadJob(escrowId);
+  if (escrow.creator_id !== creatorId) throw new EscrowError("forbidden", "Only the job's creator can withdraw it");
+  if (escrow.status !== "open") throw new EscrowError("invalid_status", `Job is no longer open (status '${escrow.status}')`);
+
+  const note = `Withdrawn by the creator before anyone was assigned${reason ? `: ${reason}` : ""} — ${formatMoney(escrow.amount_micros, escrow.currency)} refunded`;
+  const settlementId = escrowDb.transaction(() => {
+    if (!markJobWithdrawn(escrow.id, creatorId, note)) {
+      throw new EscrowError("invalid_status", "Job changed concurrently — fetch it again");
+    }
+    declinePending(escrow.id);
+    return openJobRefund(escrow, "escrow_job_withdrawn_refund", "_withdrawn");
+  })();
+
+  await settle(settlementId);
+  console.log(`[escrow] job ${escrow.id} withdrawn → creator ${escrow.creator_id} refunded ${formatMoney(escrow.amount_micros, escrow.currency)}`);
+  return getEscrow(escrowId)!;
+}
+
+// ─── Deadline ───
+/** Refunds jobs nobody was assigned to by their deadline. Commission is not charged. */
+export async function closeUnclaimedJobs(): Promise<void> {
+  const stale = escrowDb.prepare(
+    "SELECT * FROM escrows WHERE status = 'open' AND job_deadline_at <= unixepoch()"
+  ).all() as Escrow[];
+
+  for (const escrow of stale) {
+    try {
+      const settlementId = escrowDb.transaction(() => {
+        if (!markJobUnclaimed(escrow.id)) return null;
+        declinePending(escrow.id);
+        return openJobRefund(escrow, "escrow_job_unclaimed_refund", "_unclaimed");
+      })();
+      if (!settlementId) continue; // assigned in the meantime
+
+      await settle(settlementId);
+      console.log(`[escrow] job ${escrow.id} closed unclaimed → creator ${escrow.creator_id} refunded ${formatMoney(escrow.amount_micros, escrow.currency)}`);
+    } catch (err: any) {
+      console.error(`[escrow] closing job ${escrow.id} failed:`, err?.message);
+    }
+  }
+}
+
+// ─── Views ───
+export function jobView(escrow: Escrow) {
+  const applications = escrow.job_claim_mode === "creator_picks"
+    ? (escrowDb.prepare("SELECT COUNT(*) AS count FROM job_applications WHERE escrow_id = ?").get(escrow.id) as { count: number }).count
+    : undefined;
+  return {
+    job_id: escrow.id,
+    status: escrow.status,
+    description: escrow.description,
+    budget_usd: microsToUsd(escrow.amount_micros),
+    net_to_worker_usd: microsToUsd(escrow.amount_micros - escrow.commission_micros),
+    tags: tagsOf(escrow),
+    claim_mode: escrow.job_claim_mode,
+    deadline_at: iso(escrow.job_deadline_at),
+    timeout_hours: escrow.timeout_hours,
+    creator_id: escrow.creator_id,
+    assigned_to: escrow.counterparty_id || null,
+    assigned_at: iso(escrow.claimed_at),
+    ...(applications !== undefined ? { applications } : {}),
+    min_reputation: minReputationView(minReputationOf(escrow)),
+    ...(escrow.deliverable_kind ? { deliverable_kind: escrow.deliverable_kind } : {}),
+    created_at: iso(escrow.created_at),
+  };
+}
+
+export function applicationView(a: JobApplication) {
+  return {
+    application_id: a.id,
+    job_id: a.escrow_id,
+    agent_id: a.agent_id,
+    note: a.note,
+    status: a.status,
+    created_at: iso(a.created_at),
+    decided_at: iso(a.decided_at),
+  };
+}
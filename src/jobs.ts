@@ -0,0 +1,44 @@
+/**
+ * Background jobs — settlement reconciliation, timeout policies, offer expiry,
+ * unclaimed job refunds, recurring escrow cycles, dispute deadlines and
+ * webhook delivery. Imported for its side effects by both the REST and MCP servers.
+ */
+import { reconcileSettlements } from "./settlement.js";
+import { processAutoReleases } from "./timeouts.js";
+import { expireOffers } from "./offers.js";
+import { closeUnclaimedJobs } from "./job-board.js";
+import { processRecurring } from "./recurring.js";
+import { processDisputeDeadlines } from "./disputes.js";
+import { processWebhookDeliveries } from "./webhooks.js";
+import { purgeExpiredIdempotencyKeys } from "./idempotency.js";
+
+let jobsRunning = false;
+
+async function runBackgroundJobs(): Promise<void> {
+  if (jobsRunning) return;
+  jobsRunning = true;
+  try {
+    await reconcileSettlements();
+    await processAutoReleases();
+    expireOffers();
+    await closeUnclaimedJobs();
+    await processRecurring();
+    await processDisputeDeadlines();
+    purgeExpiredIdempotencyKeys();
+  } catch (err: any) {
+    console.error("[jobs] background run failed:", err?.message);
+  } finally {
+    jobsRunning = false;
+  }
+}
+
+// Run every 5 minutes
+setInterval(() => void runBackgroundJobs(), 5 * 60 * 1000);
+// Also run on startup — finishes or rolls back settlements a crash left half-applied.
+// Only settlements past the minimum age: the other server shares escrow.db and may
+// still be applying a young one.
+void runBackgroundJobs();
+
+// Webhook deliveries are latency-sensitive, so they run on their own short interval
+setInterval(() => void processWebhookDeliveries(), 15 * 1000);
+void processWebhookDeliveries();
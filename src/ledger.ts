@@ -0,0 +1,256 @@
+/**
+ * Escrow ledger — the service's own double-entry books.
+ *
+ * The casino ledger only sees agent balances move; it cannot say what an
+ * escrow held or what the house kept. Here every applied settlement posts
+ * balanced debit/credit rows between three kinds of account:
+ *
+ *   agent:<ag_id>    the agent's casino wallet (deposits out, payouts in)
+ *   escrow:<esc_id>  funds the escrow holds
+ *   house            commission the house keeps after referral
+ *
+ * A deposit moves money agent → escrow; payouts, refunds, referral
+ * commission and the house fee move it escrow → agent or house. A settled
+ * escrow's account therefore balances to zero, and every row points at the
+ * casino ledger entry it mirrors. Rows carry the escrow's currency; balances
+ * are only ever summed within one currency. Rows are written in the same transaction
+ * that marks the settlement applied, and never change afterwards.
+ */
+import { escrowDb, getEscrow, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { ledgerEntryId } from "./balance.js";
+import { BASE_CURRENCY } from "./currencies.js";
+import { microsToUsd, sumMicros, type Micros } from "./money.js";
+import type { Settlement } from "./settlement.js";
+
+// ─── Config ───
+export const HOUSE_ACCOUNT = "house";
+export const RECONCILE_DEFAULT_LIMIT = 50;
+export const RECONCILE_MAX_LIMIT = 200;
+
+// ─── Types ───
+export type LedgerEntryType = "deposit" | "payout" | "refund" | "referral" | "house_fee";
+
+export interface LedgerEntry {
+  id: string;
+  settlement_id: string;
+  escrow_id: string;
+  account: string;
+  direction: "debit" | "credit";
+  amount_micros: Micros;
+  entry_type: LedgerEntryType;
+  casino_entry_id: string | null;
+  currency: string;
+  created_at: number;
+}
+
+export interface EscrowReconciliation {
+  escrow: Escrow;
+  entries: LedgerEntry[];
+  depositedMicros: Micros;
+  paidOutMicros: Micros;
+  refundedMicros: Micros;
+  referralMicros: Micros;
+  houseMicros: Micros;
+  heldMicros: Micros;
+  pendingSettlements: string[];
+  // Funded before the settlement outbox existed — there is nothing to post
+  unverifiable: boolean;
+  problems: string[];
+}
+
+const SETTLED_STATUSES: Escrow["status"][] = ["released", "refunded", "resolved", "cancelled", "expired", "rejected"];
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+// Accepts unix seconds or anything Date can parse (ISO 8601)
+function parseTime(value: string | number | undefined, field: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number" || /^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new EscrowError("invalid_query", `${field} must be an ISO 8601 date or unix seconds`);
+  return Math.floor(ms / 1000);
+}
+
+function escrowAccount(escrowId: string): string {
+  return `escrow:${escrowId}`;
+}
+
+// ─── Posting ───
+
+/**
+ * Posts an applied settlement's legs and house fee. Call inside the
+ * transaction that marks the settlement applied; posting twice is a no-op.
+ */
+export function postSettlement(settlement: Settlement): void {
+  const escrow = getEscrow(settlement.escrow_id);
+  const held = escrowAccount(settlement.escrow_id);
+  const insert = escrowDb.prepare(`
+    INSERT OR IGNORE INTO escrow_ledger (id, settlement_id, escrow_id, account, direction, amount_micros, entry_type, casino_entry_id, currency)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const post = (n: number, from: string, to: string, amount: Micros, type: LedgerEntryType, casinoEntry: string | null) => {
+    insert.run(`${settlement.id}_${n}_dr`, settlement.id, settlement.escrow_id, to, "debit", amount, type, casinoEntry, settlement.currency);
+    insert.run(`${settlement.id}_${n}_cr`, settlement.id, settlement.escrow_id, from, "credit", amount, type, casinoEntry, settlement.currency);
+  };
+
+  settlement.legs.forEach((leg, n) => {
+    const agent = `agent:${leg.agentId}`;
+    if (leg.direction === "debit") return post(n, agent, held, leg.amount, "deposit", ledgerEntryId(leg));
+    const type = leg.reference.endsWith("_refcom") ? "referral" : leg.agentId === escrow?.creator_id ? "refund" : "payout";
+    post(n, held, agent, leg.amount, type, ledgerEntryId(leg));
+  });
+  if (settlement.house_micros > 0) {
+    post(settlement.legs.length, held, HOUSE_ACCOUNT, settlement.house_micros, "house_fee", null);
+  }
+}
+
+// ─── Balances ───
+
+/** Debits less credits: what an escrow holds, or what the house or an agent has received net, in one currency. */
+export function accountBalance(account: string, currency = BASE_CURRENCY): Micros {
+  const row = escrowDb.prepare(`
+    SELECT COALESCE(SUM(CASE direction WHEN 'debit' THEN amount_micros ELSE -amount_micros END), 0) AS balance
+    FROM escrow_ledger WHERE account = ? AND currency = ?
+  `).get(account, currency) as { balance: Micros };
+  return row.balance;
+}
+
+/** An account's balance in every currency it has entries in, USD first. */
+export function accountBalances(account: string): { currency: string; balance: Micros }[] {
+  return escrowDb.prepare(`
+    SELECT currency, SUM(CASE direction WHEN 'debit' THEN amount_micros ELSE -amount_micros END) AS balance
+    FROM escrow_ledger WHERE account = ? GROUP BY currency ORDER BY currency = 'USD' DESC, currency ASC
+  `).all(account) as { currency: string; balance: Micros }[];
+}
+
+/** An account's most recent entries, newest first. */
+export function listAccountEntries(account: string, limit = RECONCILE_DEFAULT_LIMIT, currency?: string): LedgerEntry[] {
+  return escrowDb.prepare(
+    `SELECT * FROM escrow_ledger WHERE account = ? ${currency ? "AND currency = ?" : ""} ORDER BY created_at DESC, rowid DESC LIMIT ?`
+  ).all(account, ...(currency ? [currency] : []), limit) as LedgerEntry[];
+}
+
+// ─── Reconciliation ───
+export function reconcileEscrow(escrowOrId: Escrow | string): EscrowReconciliation {
+  const escrow = typeof escrowOrId === "string" ? getEscrow(escrowOrId) : escrowOrId;
+  if (!escrow) throw new EscrowError("not_found", "Escrow not found");
+
+  const entries = escrowDb.prepare("SELECT * FROM escrow_ledger WHERE escrow_id = ? ORDER BY created_at ASC, rowid ASC").all(escrow.id) as LedgerEntry[];
+  const settlements = escrowDb.prepare("SELECT id, status FROM settlements WHERE escrow_id = ? ORDER BY created_at ASC").all(escrow.id) as {
+    id: string;
+    status: string;
+  }[];
+  const pending = settlements.filter((s) => s.status === "pending");
+
+  // Each transfer posts one debit and one credit; totals are read off the debit side
+  const debits = entries.filter((e) => e.direction === "debit");
+  const total = (type: LedgerEntryType) => sumMicros(debits.filter((e) => e.entry_type === type).map((e) => e.amount_micros));
+  const held = escrowAccount(escrow.id);
+  const heldMicros = sumMicros(entries.filter((e) => e.account === held).map((e) => (e.direction === "debit" ? e.amount_micros : -e.amount_micros)));
+  const result = {
+    escrow,
+    entries,
+    depositedMicros: total("deposit"),
+    paidOutMicros: total("payout"),
+    refundedMicros: total("refund"),
+    referralMicros: total("referral"),
+    houseMicros: total("house_fee"),
+    heldMicros,
+    pendingSettlements: pending.map((p) => p.id),
+    unverifiable: settlements.length === 0 && escrow.funded_at !== null,
+  };
+
+  const problems: string[] = [];
+  if (result.unverifiable) return { ...result, problems };
+  const credits = sumMicros(entries.filter((e) => e.direction === "credit").map((e) => e.amount_micros));
+  if (credits !== sumMicros(debits.map((e) => e.amount_micros))) problems.push("debits ≠ credits");
+  if (pending.length) problems.push(`${pending.length} settlement(s) not applied: ${result.pendingSettlements.join(", ")}`);
+  if (!pending.length && result.houseMicros + result.referralMicros !== escrow.commission_charged_micros) {
+    problems.push("house fee + referral ≠ commission charged");
+  }
+  if (!pending.length && entries.length && SETTLED_STATUSES.includes(escrow.status) && heldMicros !== 0) {
+    problems.push(`settled escrow still holds ${heldMicros} micros`);
+  }
+  return { ...result, problems };
+}
+
+/**
+ * Every escrow created in the window, oldest first, with its money movements.
+ * Keyset-paginated on (created_at, id); `cursor` is the last escrow id returned.
+ */
+export function reconciliationReport(input: { from?: string | number; to?: string | number; cursor?: string; limit?: number } = {}): {
+  escrows: EscrowReconciliation[];
+  nextCursor: string | null;
+} {
+  const limit = input.limit ?? RECONCILE_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > RECONCILE_MAX_LIMIT) {
+    throw new EscrowError("invalid_query", `limit must be an integer between 1 and ${RECONCILE_MAX_LIMIT}`);
+  }
+
+  const where: string[] = [];
+  const params: unknown[] = [];
+  const from = parseTime(input.from, "from");
+  const to = parseTime(input.to, "to");
+  if (from !== undefined) {
+    where.push("created_at >= ?");
+    params.push(from);
+  }
+  if (to !== undefined) {
+    where.push("created_at < ?");
+    params.push(to);
+  }
+  if (input.cursor) {
+    const last = getEscrow(input.cursor);
+    if (!last) throw new EscrowError("invalid_query", "cursor is malformed");
+    where.push("(created_at > ? OR (created_at = ? AND id > ?))");
+    params.push(last.created_at, last.created_at, last.id);
+  }
+
+  const rows = escrowDb.prepare(`
+    SELECT * FROM escrows ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY created_at ASC, id ASC LIMIT ?
+  `).all(...params, limit + 1) as Escrow[];
+  const escrows = rows.slice(0, limit).map(reconcileEscrow);
+  return { escrows, nextCursor: rows.length > limit ? escrows[escrows.length - 1].escrow.id : null };
+}
+
+// ─── Views ───
+export function ledgerEntryView(entry: LedgerEntry) {
+  return {
+    entry_id: entry.id,
+    settlement_id: entry.settlement_id,
+    escrow_id: entry.escrow_id,
+    account: entry.account,
+    direction: entry.direction,
+    currency: entry.currency,
+    amount_usd: microsToUsd(entry.amount_micros),
+    amount_micros: entry.amount_micros,
+    type: entry.entry_type,
+    casino_entry_id: entry.casino_entry_id,
+    created_at: iso(entry.created_at),
+  };
+}
+
+export function reconciliationView(r: EscrowReconciliation) {
+  return {
+    escrow_id: r.escrow.id,
+    status: r.escrow.status,
+    currency: r.escrow.currency,
+    amount_usd: microsToUsd(r.escrow.amount_micros),
+    commission_charged_usd: microsToUsd(r.escrow.commission_charged_micros),
+    deposited_usd: microsToUsd(r.depositedMicros),
+    paid_out_usd: microsToUsd(r.paidOutMicros),
+    refunded_usd: microsToUsd(r.refundedMicros),
+    referral_usd: microsToUsd(r.referralMicros),
+    house_fee_usd: microsToUsd(r.houseMicros),
+    held_usd: microsToUsd(r.heldMicros),
+    pending_settlements: r.pendingSettlements,
+    unverifiable: r.unverifiable,
+    ok: r.problems.length === 0,
+    problems: r.problems,
+    entries: r.entries.map(ledgerEntryView),
+  };
+}
@@ -6,33 +6,175 @@ import express from "express";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
-import { randomUUID } from "crypto";
+import { getEscrow, getMilestones, getPayees, getPublicStats, getCurrencyStats, type Escrow } from "./db.js";
+import { balanceProvider } from "./balance-provider.js";
+import { authenticateCredential, requireScope, type AgentAuth, type TokenScope } from "./api-tokens.js";
 import {
-  getCasinoAgent,
-  debitCasinoBalance,
-  creditCasinoBalance,
   createEscrow,
-  getEscrow,
-  markCompleted,
+  completeEscrow,
   releaseEscrow,
-  disputeEscrow,
-  refundEscrow,
-  getPublicStats,
-} from "./db.js";
-import { createHash } from "crypto";
+  completeMilestone,
+  releaseMilestone,
+  milestoneView,
+  payeeView,
+  MIN_AMOUNT,
+  MAX_TIMEOUT_HOURS,
+  MAX_MILESTONES,
+  MAX_PAYEES,
+  TIMEOUT_POLICIES,
+  DEFAULT_COMPLETION_GRACE_HOURS,
+  MAX_COMPLETION_GRACE_HOURS,
+  planEscrow,
+} from "./escrow-service.js";
+import { feeScheduleView, scheduleOf, formatRate, COMMISSION_BPS, REFERRAL_SHARE_BPS } from "./fees.js";
+import { disputeEscrow, submitEvidence, getDispute, resolveDispute, disputeView } from "./disputes.js";
+import { listEscrows, escrowSummaryView, ESCROW_ROLES, ESCROW_STATUSES, ESCROW_SORTS, LIST_MAX_LIMIT } from "./escrow-query.js";
+import { microsToUsd, ROUNDING_POLICY } from "./money.js";
+import { withIdempotency, parseIdempotencyKey } from "./idempotency.js";
+import { commitmentView, verificationView } from "./deliverables.js";
+import { timeoutPolicyView } from "./timeouts.js";
+import { reputationView, minReputationOf, minReputationView } from "./reputation.js";
+import {
+  createRecurring,
+  pauseRecurring,
+  resumeRecurring,
+  cancelRecurring,
+  getRecurringFor,
+  listRecurring,
+  getCycles,
+  recurringView,
+  cycleView,
+  recurringLinkView,
+  MAX_PERIOD_HOURS,
+  MAX_CYCLES,
+} from "./recurring.js";
+import {
+  listJobs,
+  applyToJob,
+  claimJob,
+  pickApplicant,
+  listApplications,
+  jobView,
+  applicationView,
+  JOB_CLAIM_MODES,
+  MAX_JOB_TAGS,
+  DEFAULT_JOB_DEADLINE_HOURS,
+  MAX_JOB_DEADLINE_HOURS,
+  JOBS_MAX_LIMIT,
+} from "./job-board.js";
+import {
+  createOffer,
+  acceptOffer,
+  counterOffer,
+  rejectOffer,
+  offerView,
+  DEFAULT_OFFER_EXPIRY_HOURS,
+  MAX_OFFER_EXPIRY_HOURS,
+} from "./offers.js";
+import {
+  acknowledgeEscrow,
+  cancelEscrow,
+  consentToCancellation,
+  declineCancellation,
+  cancellationView,
+  cancellationTermsView,
+  CANCELLATION_FEE_BPS,
+  type CancelResult,
+} from "./cancellations.js";
+import {
+  proposeAmendment,
+  approveAmendment,
+  rejectAmendment,
+  listAmendments,
+  amendmentView,
+  pendingAmendmentView,
+} from "./amendments.js";
+import { referralEarnings, referralEarningsView, EARNINGS_INTERVALS, EARNINGS_MAX_LIMIT } from "./referrals.js";
+import { currenciesView, fxQuoteOf, fxQuoteView } from "./currencies.js";
+import { EscrowError } from "./errors.js";
+import "./jobs.js";
 
 const PORT = parseInt(process.env.MCP_PORT || "4007");
-const COMMISSION_RATE = 0.01;
-const REFERRAL_COMMISSION_RATE = 0.15;
-const MIN_AMOUNT = 0.10;
-const MAX_TIMEOUT_HOURS = 720;
-
-// Resolve casino agent ID from Bearer token
-function resolveAgentId(apiKey: string): string | null {
-  const { casinoDb } = require("./db.js");
-  const keyHash = createHash("sha256").update(apiKey).digest("hex");
-  const row = casinoDb.prepare("SELECT id FROM agents WHERE api_key_hash = ?").get(keyHash) as { id: string } | undefined;
-  return row?.id ?? null;
+const BASE_RATE = formatRate(COMMISSION_BPS);
+const REFERRAL_RATE = formatRate(REFERRAL_SHARE_BPS);
+
+// ─── Tool result helpers ───
+function ok(data: unknown) {
+  return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+}
+
+function err(code: string, msg: string) {
+  return { content: [{ type: "text" as const, text: JSON.stringify({ error: code, message: msg }) }], isError: true };
+}
+
+// Runs a service call and renders EscrowError as an MCP error result
+async function run(fn: () => unknown) {
+  try {
+    return ok(await fn());
+  } catch (e: any) {
+    if (e instanceof EscrowError) {
+      return { content: [{ type: "text" as const, text: JSON.stringify(e.toJSON()) }], isError: true };
+    }
+    console.error("[escrow-mcp] error:", e?.message);
+    return err("internal_error", e?.message ?? "Unexpected error");
+  }
+}
+
+// Accepts a casino API key or a scoped escrow token; tokens must carry `scope`
+async function requireAuth(apiKey: string, scope: TokenScope): Promise<AgentAuth> {
+  const auth = await authenticateCredential(apiKey);
+  if (!auth) throw new EscrowError("unauthorized", "Invalid casino API key. Register at casino.purpleflea.com.");
+  requireScope(auth, scope);
+  return auth;
+}
+
+async function requireAgent(apiKey: string, scope: TokenScope): Promise<string> {
+  return (await requireAuth(apiKey, scope)).agentId;
+}
+
+const idempotencyKeyParam = z
+  .string()
+  .optional()
+  .describe("Optional idempotency key. Retrying with the same key replays the first result instead of repeating the action.");
+
+// Marks tool results that were replayed from an earlier call with the same idempotency key
+function withReplayFlag<T extends object>(data: T, replayed: boolean): T {
+  return replayed ? { ...data, idempotent_replayed: true } : data;
+}
+
+function offerSummary(escrow: Escrow) {
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    currency: escrow.currency,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    commission_usd: microsToUsd(escrow.commission_micros),
+    description: escrow.description,
+    creator_id: escrow.creator_id,
+    counterparty_id: escrow.counterparty_id,
+    timeout_hours: escrow.timeout_hours,
+    offer: offerView(escrow),
+    ...(escrow.fx_quote ? { fx_quote: fxQuoteView(fxQuoteOf(escrow)) } : {}),
+    fee_schedule: feeScheduleView(scheduleOf(escrow)),
+  };
+}
+
+function cancelSummary({ escrow, cancellation, refund }: CancelResult) {
+  if (refund) {
+    return {
+      escrow_id: escrow.id,
+      status: escrow.status,
+      refunded_usd: microsToUsd(refund.amount),
+      cancellation_fee_usd: microsToUsd(refund.fee),
+      message: "Escrow cancelled — the creator has been refunded.",
+    };
+  }
+  return {
+    escrow_id: escrow.id,
+    status: escrow.status,
+    cancellation: cancellationView(cancellation!),
+    next_step: "The counterparty calls consent_to_cancellation or decline_cancellation.",
+  };
 }
 
 function makeServer() {
@@ -44,86 +186,221 @@ function makeServer() {
     [
       "Create a trustless escrow between two AI agents on Purple Flea.",
       "Funds are locked from the creator's casino balance until released or refunded.",
-      "1% commission on release. 15% of commission goes to referrer.",
+      `${BASE_RATE} commission on release unless a lower fee schedule applies (see quote_escrow). ${REFERRAL_RATE} of commission goes to referrer.`,
       "Steps: 1) Both agents need casino accounts at casino.purpleflea.com.",
       "2) Creator calls this tool — funds are locked immediately.",
       "3) Counterparty calls mark_complete when task is done.",
       "4) Creator calls release_escrow to send funds to counterparty.",
     ].join(" "),
     {
-      casino_api_key: z.string().describe("Your casino API key (from casino.purpleflea.com registration)."),
-      amount_usd: z.number().min(0.10).describe("Amount to escrow in USD (minimum $0.10)."),
-      counterparty_agent_id: z.string().describe("The agent ID of the counterparty (ag_xxx format)."),
+      casino_api_key: z.string().describe("Your casino API key (from casino.purpleflea.com registration) or a scoped escrow token (etk_…)."),
+      amount_usd: z.number().min(MIN_AMOUNT).optional().describe("Amount to escrow in USD (minimum $0.10). Optional when milestones are given."),
+      counterparty_agent_id: z.string().optional().describe("The agent ID of the counterparty (ag_xxx format). Omit when payees are given."),
       description: z.string().min(3).describe("Description of the task or agreement."),
-      timeout_hours: z.number().optional().describe("Hours until auto-refund if not completed (default 24, max 720)."),
+      timeout_hours: z.number().optional().describe(`Hours until the timeout policy applies (default 24, max ${MAX_TIMEOUT_HOURS}).`),
+      timeout_policy: z
+        .enum(TIMEOUT_POLICIES)
+        .optional()
+        .describe("What happens at timeout: refund_creator, release_if_completed (default — pays out completed work, refunds the rest) or escalate_dispute."),
+      completion_grace_hours: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_COMPLETION_GRACE_HOURS)
+        .optional()
+        .describe(`Extra hours after a late completion before the policy applies (default ${DEFAULT_COMPLETION_GRACE_HOURS}).`),
+      commission_on_refund: z.boolean().optional().describe("Charge the escrow's commission on amounts refunded at timeout (default false)."),
+      job: z
+        .object({
+          tags: z.array(z.string()).max(MAX_JOB_TAGS).optional().describe("Tags for the board, e.g. ['scraping', 'python']."),
+          claim_mode: z.enum(JOB_CLAIM_MODES).optional().describe("creator_picks (default): you choose among applicants. first_claim: the first agent to claim gets it."),
+          deadline_hours: z.number().optional().describe(`Hours the job stays listed; refunded if nobody is assigned (default ${DEFAULT_JOB_DEADLINE_HOURS}, max ${MAX_JOB_DEADLINE_HOURS}).`),
+        })
+        .optional()
+        .describe("Post an open job on the public board instead of naming counterparty_agent_id. Funds lock now; the timeout starts when a worker is assigned."),
+      min_reputation: z
+        .object({
+          score: z.number().min(0).max(100).optional().describe("Minimum reputation score, 0-100."),
+          completed_escrows: z.number().int().min(0).optional().describe("Minimum number of escrows completed as a worker."),
+        })
+        .optional()
+        .describe("The counterparty, each payee or whoever takes the job must meet this. See get_agent_reputation."),
       referral_code: z.string().optional().describe("Optional referral code (ref_xxx) to credit a referrer."),
+      promo_code: z.string().optional().describe("Optional promotional fee code; applied only if it lowers the fee."),
+      currency: z.string().optional().describe("What the escrow is denominated in (default USD); every *_usd amount is then in this currency. See escrow_stats for enabled currencies."),
+      quote_currency: z.string().optional().describe("Give the amounts in this currency instead; they are converted into currency at a rate locked now (fx_quote)."),
+      arbiter_agent_id: z.string().optional().describe("Optional arbiter (ag_xxx) who resolves disputes. Otherwise one is drawn from the arbiter pool."),
+      milestones: z
+        .array(z.object({ description: z.string().min(3), amount_usd: z.number().min(MIN_AMOUNT) }))
+        .max(MAX_MILESTONES)
+        .optional()
+        .describe("Optional ordered milestones, each paid out separately. amount_usd must equal their sum."),
+      payees: z
+        .array(
+          z.object({
+            agent_id: z.string(),
+            amount_usd: z.number().min(MIN_AMOUNT).optional(),
+            share_pct: z.number().gt(0).max(100).optional(),
+          })
+        )
+        .min(2)
+        .max(MAX_PAYEES)
+        .optional()
+        .describe("Optional multi-party payees instead of counterparty_agent_id. Give each either amount_usd or share_pct (summing to 100, requires amount_usd)."),
+      deliverable: z
+        .object({
+          sha256: z.string().optional().describe("Hex SHA-256 of the exact expected output."),
+          json_schema: z.record(z.unknown()).optional().describe("JSON Schema the output must satisfy."),
+        })
+        .optional()
+        .describe("Optional deliverable commitment (exactly one of sha256 or json_schema). When the counterparty completes with a matching deliverable, funds release automatically."),
+      idempotency_key: idempotencyKeyParam,
     },
-    async ({ casino_api_key, amount_usd, counterparty_agent_id, description, timeout_hours, referral_code }) => {
-      function err(code: string, msg: string) {
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: code, message: msg }) }], isError: true };
-      }
-
-      const creatorId = resolveAgentId(casino_api_key);
-      if (!creatorId) return err("unauthorized", "Invalid casino API key. Register at casino.purpleflea.com.");
-
-      if (!counterparty_agent_id?.startsWith("ag_")) return err("invalid_counterparty", "counterparty_agent_id must be ag_xxx format.");
-      if (counterparty_agent_id === creatorId) return err("self_escrow", "Cannot escrow with yourself.");
-
-      const counterparty = getCasinoAgent(counterparty_agent_id);
-      if (!counterparty) return err("counterparty_not_found", "Counterparty agent not found in casino.");
-
-      const creator = getCasinoAgent(creatorId);
-      if (!creator) return err("creator_not_found", "Creator not found.");
-      if (creator.balance_usd < amount_usd) {
-        return err("insufficient_balance", `Balance $${creator.balance_usd.toFixed(2)} < escrow amount $${amount_usd.toFixed(2)}. Deposit at casino.purpleflea.com.`);
-      }
-
-      const timeoutHoursVal = Math.min(Math.max(1, Math.floor(timeout_hours ?? 24)), MAX_TIMEOUT_HOURS);
-      const commissionUsd = parseFloat((amount_usd * COMMISSION_RATE).toFixed(6));
-
-      let referrerId: string | null = creator.referred_by;
-      if (referral_code) {
-        const { casinoDb } = await import("./db.js");
-        const referrer = casinoDb.prepare("SELECT id FROM agents WHERE referral_code = ?").get(referral_code) as { id: string } | undefined;
-        if (referrer && referrer.id !== creatorId) referrerId = referrer.id;
-      }
-      const referralCommissionUsd = referrerId ? parseFloat((commissionUsd * REFERRAL_COMMISSION_RATE).toFixed(6)) : 0;
-
-      const escrowId = `esc_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
-      const debited = debitCasinoBalance(creatorId, amount_usd, `escrow_lock: ${escrowId}`, escrowId);
-      if (!debited) return err("debit_failed", "Failed to debit balance.");
-
-      try {
-        createEscrow({ id: escrowId, creatorId, counterpartyId: counterparty_agent_id, amountUsd: amount_usd, commissionUsd, description, timeoutHours: timeoutHoursVal, referrerId, referralCommissionUsd });
-      } catch (e: any) {
-        creditCasinoBalance(creatorId, amount_usd, `escrow_create_failed_refund: ${escrowId}`, escrowId + "_refund");
-        return err("internal_error", "Failed to create escrow: " + e?.message);
-      }
-
-      const autoReleaseAt = new Date(Date.now() + timeoutHoursVal * 3600000).toISOString();
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({
-            escrow_id: escrowId,
-            amount_usd,
-            commission_usd: commissionUsd,
-            net_to_counterparty: parseFloat((amount_usd - commissionUsd).toFixed(6)),
-            description,
-            creator_id: creatorId,
-            counterparty_id: counterparty_agent_id,
-            status: "funded",
-            timeout_hours: timeoutHoursVal,
-            auto_release_at: autoReleaseAt,
-            next_steps: {
-              counterparty: `Call mark_complete with escrow_id=${escrowId} when task is done.`,
-              creator: `Call release_escrow with escrow_id=${escrowId} to release funds.`,
-              dispute: `Call dispute_escrow with escrow_id=${escrowId} if something goes wrong.`,
-            },
-          }, null, 2),
-        }],
-      };
-    }
+    async ({ casino_api_key, amount_usd, counterparty_agent_id, description, timeout_hours, timeout_policy, completion_grace_hours, commission_on_refund, job, min_reputation, referral_code, promo_code, currency, quote_currency, arbiter_agent_id, milestones, payees, deliverable, idempotency_key }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "create");
+        const creatorId = auth.agentId;
+        const input = {
+          amountUsd: amount_usd,
+          description,
+          counterpartyId: counterparty_agent_id,
+          timeoutHours: timeout_hours,
+          referralCode: referral_code,
+          arbiterId: arbiter_agent_id,
+          milestones: milestones?.map((m) => ({ description: m.description, amountUsd: m.amount_usd })),
+          payees: payees?.map((p) => ({ agentId: p.agent_id, amountUsd: p.amount_usd, sharePct: p.share_pct })),
+          deliverable: deliverable && { sha256: deliverable.sha256, jsonSchema: deliverable.json_schema },
+          timeoutPolicy: timeout_policy,
+          completionGraceHours: completion_grace_hours,
+          commissionOnRefund: commission_on_refund,
+          job: job && { tags: job.tags, claimMode: job.claim_mode, deadlineHours: job.deadline_hours },
+          minReputation: min_reputation && { score: min_reputation.score, completedEscrows: min_reputation.completed_escrows },
+          promoCode: promo_code,
+          currency,
+          quoteCurrency: quote_currency,
+        };
+        const { result, replayed } = await withIdempotency(creatorId, parseIdempotencyKey(idempotency_key), "create", input, () =>
+          createEscrow(creatorId, input, { tokenId: auth.token?.id })
+        );
+        const { escrow, netMicros } = result;
+        const created = getMilestones(escrow.id);
+        const createdPayees = getPayees(escrow.id);
+        return withReplayFlag({
+          escrow_id: escrow.id,
+          currency: escrow.currency,
+          amount_usd: microsToUsd(escrow.amount_micros),
+          commission_usd: microsToUsd(escrow.commission_micros),
+          net_to_counterparty: microsToUsd(netMicros),
+          description: escrow.description,
+          creator_id: escrow.creator_id,
+          counterparty_id: escrow.counterparty_id || null,
+          arbiter_id: escrow.arbiter_id,
+          status: escrow.status,
+          timeout_hours: escrow.timeout_hours,
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+          timeout_policy: timeoutPolicyView(escrow),
+          ...(minReputationOf(escrow) ? { min_reputation: minReputationView(minReputationOf(escrow)) } : {}),
+          ...(created.length ? { milestones: created.map(milestoneView) } : {}),
+          ...(createdPayees.length ? { payees: createdPayees.map(payeeView) } : {}),
+          ...(escrow.deliverable_kind ? { deliverable: commitmentView(escrow) } : {}),
+          ...(escrow.job_claim_mode ? { job: jobView(escrow) } : {}),
+          ...(escrow.fx_quote ? { fx_quote: fxQuoteView(fxQuoteOf(escrow)) } : {}),
+          fee_schedule: feeScheduleView(scheduleOf(escrow)),
+          next_steps: escrow.job_claim_mode ? {
+            workers: escrow.job_claim_mode === "first_claim"
+              ? `Call claim_job with job_id=${escrow.id} — the first claim gets the job.`
+              : `Call apply_for_job with job_id=${escrow.id}.`,
+            creator: escrow.job_claim_mode === "first_claim"
+              ? "Funds are locked; the timeout starts when the job is claimed."
+              : `Call list_job_applications, then pick_job_applicant with job_id=${escrow.id}.`,
+          } : createdPayees.length ? {
+            payees: `Each payee calls mark_complete with escrow_id=${escrow.id} when their part is done.`,
+            creator: `Call release_escrow with escrow_id=${escrow.id} to pay every payee.`,
+            dispute: `Call dispute_escrow with escrow_id=${escrow.id} if something goes wrong.`,
+          } : escrow.deliverable_kind ? {
+            counterparty: `Call mark_complete with escrow_id=${escrow.id} and the deliverable — a match releases the funds automatically.`,
+            creator: `Call release_escrow with escrow_id=${escrow.id} to release funds without waiting.`,
+            dispute: `Call dispute_escrow with escrow_id=${escrow.id} if something goes wrong.`,
+          } : created.length ? {
+            counterparty: `Call complete_milestone with escrow_id=${escrow.id} as each milestone is done.`,
+            creator: `Call release_milestone with escrow_id=${escrow.id} to pay out each milestone.`,
+            dispute: `Call dispute_escrow with escrow_id=${escrow.id} if something goes wrong.`,
+          } : {
+            counterparty: `Call mark_complete with escrow_id=${escrow.id} when task is done.`,
+            creator: `Call release_escrow with escrow_id=${escrow.id} to release funds.`,
+            dispute: `Call dispute_escrow with escrow_id=${escrow.id} if something goes wrong.`,
+          },
+          rounding: ROUNDING_POLICY,
+        }, replayed);
+      })
+  );
+
+  // ─── quote_escrow ───
+  server.tool(
+    "quote_escrow",
+    "Quote the exact commission, referral share and net payout for an escrow before creating it. Nothing is locked and your balance is not checked. Takes the same terms as create_escrow.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      amount_usd: z.number().min(MIN_AMOUNT).optional().describe("Amount to escrow in USD. Optional when milestones are given."),
+      counterparty_agent_id: z.string().optional().describe("The agent ID of the counterparty (ag_xxx format). Omit when payees are given."),
+      description: z.string().min(3).describe("Description of the task or agreement."),
+      referral_code: z.string().optional().describe("Optional referral code (ref_xxx)."),
+      promo_code: z.string().optional().describe("Optional promotional fee code."),
+      currency: z.string().optional().describe("What the escrow is denominated in (default USD); every *_usd amount is then in this currency. See escrow_stats for enabled currencies."),
+      quote_currency: z.string().optional().describe("Give the amounts in this currency instead; they are converted into currency at a rate locked now (fx_quote)."),
+      milestones: z
+        .array(z.object({ description: z.string().min(3), amount_usd: z.number().min(MIN_AMOUNT) }))
+        .max(MAX_MILESTONES)
+        .optional()
+        .describe("Optional milestones; commission is worked out per milestone."),
+      payees: z
+        .array(
+          z.object({
+            agent_id: z.string(),
+            amount_usd: z.number().min(MIN_AMOUNT).optional(),
+            share_pct: z.number().gt(0).max(100).optional(),
+          })
+        )
+        .min(2)
+        .max(MAX_PAYEES)
+        .optional()
+        .describe("Optional multi-party payees; commission is worked out per payee."),
+    },
+    async ({ casino_api_key, amount_usd, counterparty_agent_id, description, referral_code, promo_code, currency, quote_currency, milestones, payees }) =>
+      run(async () => {
+        const creatorId = await requireAgent(casino_api_key, "read");
+        const plan = await planEscrow(creatorId, {
+          amountUsd: amount_usd,
+          description,
+          counterpartyId: counterparty_agent_id,
+          referralCode: referral_code,
+          promoCode: promo_code,
+          currency,
+          quoteCurrency: quote_currency,
+          milestones: milestones?.map((m) => ({ description: m.description, amountUsd: m.amount_usd })),
+          payees: payees?.map((p) => ({ agentId: p.agent_id, amountUsd: p.amount_usd, sharePct: p.share_pct })),
+        }, { quote: true });
+        const part = (p: { amountMicros: number; commissionMicros: number }) => ({
+          amount_usd: microsToUsd(p.amountMicros),
+          commission_usd: microsToUsd(p.commissionMicros),
+          net_usd: microsToUsd(p.amountMicros - p.commissionMicros),
+        });
+        return {
+          currency: plan.currency,
+          amount_usd: microsToUsd(plan.amountMicros),
+          commission_usd: microsToUsd(plan.commissionMicros),
+          referral_commission_usd: microsToUsd(plan.referralCommissionMicros),
+          house_fee_usd: microsToUsd(plan.commissionMicros - plan.referralCommissionMicros),
+          net_to_counterparty: microsToUsd(plan.amountMicros - plan.commissionMicros),
+          referrer_id: plan.referrerId,
+          ...(plan.milestones ? { milestones: plan.milestones.map((m) => ({ description: m.description, ...part(m) })) } : {}),
+          ...(plan.payees ? { payees: plan.payees.map((p) => ({ agent_id: p.agentId, ...part(p) })) } : {}),
+          ...(plan.fxQuote ? { fx_quote: fxQuoteView(plan.fxQuote) } : {}),
+          fee_schedule: feeScheduleView(plan.feeSchedule),
+          note: "Quoted at the current schedule and exchange rate; create_escrow re-prices, so a tier change, a rate change or a used-up promo code can change the amounts.",
+          rounding: ROUNDING_POLICY,
+        };
+      })
   );
 
   // ─── get_escrow ───
@@ -135,144 +412,846 @@ function makeServer() {
     },
     async ({ escrow_id }) => {
       const escrow = getEscrow(escrow_id);
-      if (!escrow) {
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: "not_found", message: "Escrow not found." }) }], isError: true };
-      }
-      return { content: [{ type: "text" as const, text: JSON.stringify(escrow, null, 2) }] };
+      if (!escrow) return err("not_found", "Escrow not found.");
+      const milestones = getMilestones(escrow_id);
+      const payees = getPayees(escrow_id);
+      return ok({
+        ...escrow,
+        amount_usd: microsToUsd(escrow.amount_micros),
+        commission_usd: microsToUsd(escrow.commission_micros),
+        referral_commission_usd: microsToUsd(escrow.referral_commission_micros),
+        commission_charged_usd: microsToUsd(escrow.commission_charged_micros),
+        fx_quote: fxQuoteView(fxQuoteOf(escrow)),
+        fee_schedule: feeScheduleView(scheduleOf(escrow)),
+        timeout_policy: timeoutPolicyView(escrow),
+        ...(minReputationOf(escrow) ? { min_reputation: minReputationView(minReputationOf(escrow)) } : {}),
+        ...(recurringLinkView(escrow) ? { recurring: recurringLinkView(escrow) } : {}),
+        ...(offerView(escrow) ? { offer: offerView(escrow) } : {}),
+        ...(pendingAmendmentView(escrow) ? { pending_amendment: pendingAmendmentView(escrow) } : {}),
+        ...(cancellationTermsView(escrow) ? { cancellation: cancellationTermsView(escrow) } : {}),
+        ...(escrow.job_claim_mode ? { job: jobView(escrow) } : {}),
+        ...(milestones.length ? { milestones: milestones.map(milestoneView) } : {}),
+        ...(payees.length ? { payees: payees.map(payeeView) } : {}),
+        ...(escrow.deliverable_kind ? { deliverable: commitmentView(escrow) } : {}),
+        rounding: ROUNDING_POLICY,
+      });
     }
   );
 
+  // ─── get_agent_reputation ───
+  server.tool(
+    "get_agent_reputation",
+    [
+      "Look up an agent's reputation, derived from its escrow history: a 0-100 score that weights recent escrows more,",
+      "completion and on-time rates as a worker, dispute rate, volume and how quickly it releases completed work as a creator.",
+      "Check this before naming a counterparty or picking a job applicant.",
+    ].join(" "),
+    {
+      agent_id: z.string().describe("The agent ID (ag_xxx format)."),
+    },
+    async ({ agent_id }) => ok(reputationView(agent_id))
+  );
+
+  // ─── get_referral_earnings ───
+  server.tool(
+    "get_referral_earnings",
+    [
+      "What you have earned as a referrer: referral commission already paid out, what open escrows still owe you,",
+      "a breakdown by side (creator or counterparty) and level, a time series, and each escrow you were credited on.",
+    ].join(" "),
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      from: z.string().optional().describe("ISO 8601 date; bounds the paid totals and the time series."),
+      to: z.string().optional().describe("ISO 8601 date (exclusive)."),
+      interval: z.enum(EARNINGS_INTERVALS).optional().describe("Time series bucket: day (default), week or month."),
+      limit: z.number().int().min(1).max(EARNINGS_MAX_LIMIT).optional().describe("Escrows per page (default 50)."),
+      cursor: z.string().optional().describe("next_cursor from the previous page."),
+      currency: z.string().optional().describe("Earnings in this currency (default USD); currencies are reported one at a time."),
+    },
+    async ({ casino_api_key, from, to, interval, limit, cursor, currency }) =>
+      run(async () => {
+        const agentId = await requireAgent(casino_api_key, "read");
+        return { ...referralEarningsView(referralEarnings(agentId, { from, to, interval, limit, cursor, currency })), rounding: ROUNDING_POLICY };
+      })
+  );
+
+  // ─── list_jobs ───
+  server.tool(
+    "list_jobs",
+    "Browse the public job board: open escrows with locked funds that any agent can apply for or claim. Newest first.",
+    {
+      tags: z.array(z.string()).optional().describe("Only jobs with any of these tags."),
+      min_budget_usd: z.number().optional().describe("Minimum budget in USD."),
+      max_budget_usd: z.number().optional().describe("Maximum budget in USD."),
+      q: z.string().optional().describe("Search the job description."),
+      limit: z.number().int().min(1).max(JOBS_MAX_LIMIT).optional().describe("Page size (default 20)."),
+      cursor: z.string().optional().describe("next_cursor from the previous page."),
+    },
+    async ({ tags, min_budget_usd, max_budget_usd, q, limit, cursor }) =>
+      run(async () => {
+        const { jobs, nextCursor } = listJobs({ tag: tags, minBudget: min_budget_usd, maxBudget: max_budget_usd, q, limit, cursor });
+        return { jobs: jobs.map(jobView), next_cursor: nextCursor, has_more: nextCursor !== null };
+      })
+  );
+
+  // ─── apply_for_job ───
+  server.tool(
+    "apply_for_job",
+    "Apply for an open job whose creator picks the worker (claim_mode creator_picks). The creator is notified and may assign it to you.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      job_id: z.string().describe("The job's escrow ID (esc_xxx format)."),
+      note: z.string().max(1000).optional().describe("Why you are a good fit."),
+    },
+    async ({ casino_api_key, job_id, note }) =>
+      run(async () => {
+        const application = await applyToJob(await requireAgent(casino_api_key, "offer"), job_id, note);
+        return { ...applicationView(application), message: "Application sent. The creator picks the worker." };
+      })
+  );
+
+  // ─── claim_job ───
+  server.tool(
+    "claim_job",
+    "Claim an open first_claim job. If you are first, the escrow is bound to you and its timeout starts; then call mark_complete when done.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      job_id: z.string().describe("The job's escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, job_id }) =>
+      run(async () => {
+        const escrow = await claimJob(await requireAgent(casino_api_key, "offer"), job_id);
+        return {
+          ...jobView(escrow),
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+          message: `Job is yours. Call mark_complete with escrow_id=${escrow.id} when the task is done.`,
+        };
+      })
+  );
+
+  // ─── list_job_applications ───
+  server.tool(
+    "list_job_applications",
+    "List the applications on a job you posted.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      job_id: z.string().describe("The job's escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, job_id }) =>
+      run(async () => ({
+        applications: listApplications(await requireAgent(casino_api_key, "read"), job_id).map(applicationView),
+      }))
+  );
+
+  // ─── pick_job_applicant ───
+  server.tool(
+    "pick_job_applicant",
+    "Assign a job you posted to one of its applicants. The escrow binds them as counterparty and its timeout starts; other applications are declined.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      job_id: z.string().describe("The job's escrow ID (esc_xxx format)."),
+      agent_id: z.string().describe("The applicant's agent ID (ag_xxx)."),
+    },
+    async ({ casino_api_key, job_id, agent_id }) =>
+      run(async () => {
+        const escrow = await pickApplicant(await requireAgent(casino_api_key, "offer"), job_id, agent_id);
+        return {
+          ...jobView(escrow),
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+          message: `Job assigned to ${escrow.counterparty_id}.`,
+        };
+      })
+  );
+
+  // ─── create_recurring_escrow ───
+  server.tool(
+    "create_recurring_escrow",
+    [
+      "Pay a counterparty for an ongoing service, e.g. a daily data feed.",
+      "Funds one ordinary escrow per period from your balance — the first one now — for a number of cycles or until an end date.",
+      "The counterparty completes and you release each cycle as usual.",
+      "If a cycle cannot be funded (e.g. low balance) the schedule pauses and both parties are notified; call resume_recurring_escrow after topping up.",
+    ].join(" "),
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the create scope. A token's spending cap covers every cycle."),
+      amount_usd: z.number().min(MIN_AMOUNT).describe("Amount per cycle in USD."),
+      counterparty_agent_id: z.string().describe("The agent ID of the counterparty (ag_xxx format)."),
+      description: z.string().min(3).describe("What each cycle pays for."),
+      period_hours: z.number().int().min(1).max(MAX_PERIOD_HOURS).describe("Hours between cycles, e.g. 24 for daily."),
+      cycles: z.number().int().min(1).max(MAX_CYCLES).optional().describe("Number of cycles. Give cycles, ends_at or both."),
+      ends_at: z.string().optional().describe("ISO 8601 time; no cycle is funded on or after it."),
+      timeout_hours: z.number().optional().describe("Timeout of each cycle escrow (default period_hours)."),
+      timeout_policy: z.enum(TIMEOUT_POLICIES).optional().describe("Timeout policy of each cycle escrow."),
+      arbiter_agent_id: z.string().optional().describe("Optional arbiter (ag_xxx) for disputes on any cycle."),
+      referral_code: z.string().optional().describe("Optional referral code (ref_xxx) to credit a referrer."),
+      currency: z.string().optional().describe("Every cycle is funded in this currency (default USD)."),
+      idempotency_key: idempotencyKeyParam,
+    },
+    async ({ casino_api_key, amount_usd, counterparty_agent_id, description, period_hours, cycles, ends_at, timeout_hours, timeout_policy, arbiter_agent_id, referral_code, currency, idempotency_key }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "create");
+        const input = {
+          amountUsd: amount_usd,
+          description,
+          counterpartyId: counterparty_agent_id,
+          periodHours: period_hours,
+          cycles,
+          endsAt: ends_at,
+          timeoutHours: timeout_hours,
+          timeoutPolicy: timeout_policy,
+          arbiterId: arbiter_agent_id,
+          referralCode: referral_code,
+          currency,
+        };
+        const { result, replayed } = await withIdempotency(auth.agentId, parseIdempotencyKey(idempotency_key), "create", { recurring: input }, () =>
+          createRecurring(auth.agentId, input, { tokenId: auth.token?.id })
+        );
+        return withReplayFlag({
+          ...recurringView(result.recurring),
+          first_cycle: cycleView(result.firstCycle),
+          next_step: `The counterparty calls mark_complete with escrow_id=${result.firstCycle.id}; you release it with release_escrow.`,
+        }, replayed);
+      })
+  );
+
+  // ─── list_recurring_escrows ───
+  server.tool(
+    "list_recurring_escrows",
+    "List recurring escrows you pay or are paid by, newest first.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      status: z.enum(["active", "paused", "cancelled", "finished"]).optional().describe("Only templates in this status."),
+    },
+    async ({ casino_api_key, status }) =>
+      run(async () => ({ recurring: listRecurring(await requireAgent(casino_api_key, "read"), status).map(recurringView) }))
+  );
+
+  // ─── get_recurring_escrow ───
+  server.tool(
+    "get_recurring_escrow",
+    "Get a recurring escrow you are a party to, with every cycle escrow funded so far.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      recurring_id: z.string().describe("The recurring escrow ID (rec_xxx format)."),
+    },
+    async ({ casino_api_key, recurring_id }) =>
+      run(async () => {
+        const recurring = getRecurringFor(await requireAgent(casino_api_key, "read"), recurring_id);
+        return { ...recurringView(recurring), cycles: getCycles(recurring.id).map(cycleView) };
+      })
+  );
+
+  // ─── pause_recurring_escrow / resume_recurring_escrow / cancel_recurring_escrow ───
+  server.tool(
+    "pause_recurring_escrow",
+    "Pause a recurring escrow you created. No cycles are funded until you resume it.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the create scope."),
+      recurring_id: z.string().describe("The recurring escrow ID (rec_xxx format)."),
+    },
+    async ({ casino_api_key, recurring_id }) =>
+      run(async () => recurringView(pauseRecurring(await requireAgent(casino_api_key, "create"), recurring_id)))
+  );
+
+  server.tool(
+    "resume_recurring_escrow",
+    "Resume a paused recurring escrow you created. A cycle that fell due while paused is funded immediately; if it still cannot be funded the escrow stays paused with pause_reason.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the create scope."),
+      recurring_id: z.string().describe("The recurring escrow ID (rec_xxx format)."),
+    },
+    async ({ casino_api_key, recurring_id }) =>
+      run(async () => recurringView(await resumeRecurring(await requireAgent(casino_api_key, "create"), recurring_id)))
+  );
+
+  server.tool(
+    "cancel_recurring_escrow",
+    "Cancel a recurring escrow you pay or are paid by. No further cycles are funded; cycles already funded continue as normal escrows.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the create scope."),
+      recurring_id: z.string().describe("The recurring escrow ID (rec_xxx format)."),
+    },
+    async ({ casino_api_key, recurring_id }) =>
+      run(async () => recurringView(cancelRecurring(await requireAgent(casino_api_key, "create"), recurring_id)))
+  );
+
+  // ─── make_offer ───
+  server.tool(
+    "make_offer",
+    [
+      "Propose an escrow to a counterparty without locking funds yet.",
+      "The counterparty can accept_offer (your balance is debited then), reject_offer or counter_offer with different terms.",
+      "Unanswered offers expire.",
+    ].join(" "),
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the create scope."),
+      amount_usd: z.number().min(MIN_AMOUNT).describe("Amount to escrow in USD (minimum $0.10)."),
+      counterparty_agent_id: z.string().describe("The agent ID of the counterparty (ag_xxx format)."),
+      description: z.string().min(3).describe("Description of the task or agreement."),
+      timeout_hours: z.number().optional().describe(`Hours from acceptance until the timeout policy applies (default 24, max ${MAX_TIMEOUT_HOURS}).`),
+      expires_in_hours: z.number().optional().describe(`How long the counterparty has to answer (default ${DEFAULT_OFFER_EXPIRY_HOURS}, max ${MAX_OFFER_EXPIRY_HOURS}).`),
+      referral_code: z.string().optional().describe("Optional referral code (ref_xxx) to credit a referrer."),
+      promo_code: z.string().optional().describe("Optional promotional fee code, redeemed when the offer is made."),
+      currency: z.string().optional().describe("What the escrow is denominated in (default USD); every *_usd amount is then in this currency. See escrow_stats for enabled currencies."),
+      quote_currency: z.string().optional().describe("Give the amounts in this currency instead; they are converted into currency at a rate locked now (fx_quote)."),
+      arbiter_agent_id: z.string().optional().describe("Optional arbiter (ag_xxx) who resolves disputes."),
+      min_reputation: z
+        .object({
+          score: z.number().min(0).max(100).optional().describe("Minimum reputation score, 0-100."),
+          completed_escrows: z.number().int().min(0).optional().describe("Minimum number of escrows completed as a worker."),
+        })
+        .optional()
+        .describe("The counterparty must meet this, now and when the offer is accepted."),
+      idempotency_key: idempotencyKeyParam,
+    },
+    async ({ casino_api_key, amount_usd, counterparty_agent_id, description, timeout_hours, expires_in_hours, referral_code, promo_code, currency, quote_currency, arbiter_agent_id, min_reputation, idempotency_key }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "create");
+        const input = {
+          amountUsd: amount_usd,
+          description,
+          counterpartyId: counterparty_agent_id,
+          timeoutHours: timeout_hours,
+          expiresInHours: expires_in_hours,
+          referralCode: referral_code,
+          arbiterId: arbiter_agent_id,
+          minReputation: min_reputation && { score: min_reputation.score, completedEscrows: min_reputation.completed_escrows },
+          promoCode: promo_code,
+          currency,
+          quoteCurrency: quote_currency,
+        };
+        const { result, replayed } = await withIdempotency(auth.agentId, parseIdempotencyKey(idempotency_key), "offer", input, () =>
+          createOffer(auth.agentId, input, { tokenId: auth.token?.id })
+        );
+        return withReplayFlag({
+          ...offerSummary(result),
+          next_step: `The counterparty calls accept_offer, counter_offer or reject_offer with escrow_id=${result.id}.`,
+        }, replayed);
+      })
+  );
+
+  // ─── accept_offer ───
+  server.tool(
+    "accept_offer",
+    "Accept the current terms of an offer. Only the party whose turn it is can accept (the counterparty, or the creator after a counter-offer). The creator's funds are locked and the escrow becomes funded.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      idempotency_key: idempotencyKeyParam,
+    },
+    async ({ casino_api_key, escrow_id, idempotency_key }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "offer");
+        const { result, replayed } = await withIdempotency(auth.agentId, parseIdempotencyKey(idempotency_key), "accept", { escrowId: escrow_id }, () =>
+          acceptOffer(auth.agentId, escrow_id, { tokenId: auth.token?.id })
+        );
+        const { escrow, netMicros } = result;
+        return withReplayFlag({
+          escrow_id: escrow.id,
+          status: escrow.status,
+          currency: escrow.currency,
+          amount_usd: microsToUsd(escrow.amount_micros),
+          net_to_counterparty: microsToUsd(netMicros),
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+          message: "Offer accepted — funds are locked. The counterparty calls mark_complete when done.",
+          rounding: ROUNDING_POLICY,
+        }, replayed);
+      })
+  );
+
+  // ─── counter_offer ───
+  server.tool(
+    "counter_offer",
+    "Answer an offer with different terms. Only the party whose turn it is can counter; the other party then accepts, rejects or counters again.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      amount_usd: z.number().min(MIN_AMOUNT).optional().describe("Proposed amount in USD."),
+      description: z.string().min(3).optional().describe("Proposed task description."),
+      timeout_hours: z.number().optional().describe(`Proposed timeout in hours (max ${MAX_TIMEOUT_HOURS}).`),
+      expires_in_hours: z.number().optional().describe(`How long the other party has to answer (default ${DEFAULT_OFFER_EXPIRY_HOURS}).`),
+    },
+    async ({ casino_api_key, escrow_id, amount_usd, description, timeout_hours, expires_in_hours }) =>
+      run(async () => {
+        const escrow = counterOffer(await requireAgent(casino_api_key, "offer"), escrow_id, {
+          amountUsd: amount_usd,
+          description,
+          timeoutHours: timeout_hours,
+          expiresInHours: expires_in_hours,
+        });
+        return { ...offerSummary(escrow), message: "Counter-offer sent." };
+      })
+  );
+
+  // ─── reject_offer ───
+  server.tool(
+    "reject_offer",
+    "Reject an open offer. Either party may reject at any time before acceptance; the creator rejecting withdraws the offer. No funds move.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      reason: z.string().optional().describe("Optional reason, recorded in the escrow's events."),
+    },
+    async ({ casino_api_key, escrow_id, reason }) =>
+      run(async () => offerSummary(rejectOffer(await requireAgent(casino_api_key, "offer"), escrow_id, reason)))
+  );
+
+  // ─── propose_amendment ───
+  server.tool(
+    "propose_amendment",
+    "Propose new terms for a funded (or completed) escrow: extend the deadline, top up or reduce the amount, or revise the description. Either the creator or the counterparty can propose; the other party then calls approve_amendment or reject_amendment. One amendment can be pending at a time. Multi-party escrows cannot be amended, and a milestone escrow's amount is fixed.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      extend_hours: z.number().int().optional().describe(`Hours to push the deadline back (1-${MAX_TIMEOUT_HOURS}).`),
+      amount_usd: z.number().min(MIN_AMOUNT).optional().describe("New total amount. A top-up is debited from the creator on approval; a reduction is refunded."),
+      description: z.string().min(3).optional().describe("Revised task description."),
+      reason: z.string().optional().describe("Why the terms should change, shown to the other party."),
+    },
+    async ({ casino_api_key, escrow_id, extend_hours, amount_usd, description, reason }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "offer");
+        const amendment = proposeAmendment(auth.agentId, escrow_id, {
+          extendHours: extend_hours,
+          amountUsd: amount_usd,
+          description,
+          reason,
+        }, { tokenId: auth.token?.id });
+        return { ...amendmentView(amendment), next_step: "The other party calls approve_amendment or reject_amendment." };
+      })
+  );
+
+  // ─── approve_amendment ───
+  server.tool(
+    "approve_amendment",
+    "Approve the pending amendment on an escrow. Only the party that did not propose it can approve. The new terms apply immediately: a top-up is debited from the creator, a reduction refunded, and commission is recalculated.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, escrow_id }) =>
+      run(async () => {
+        const auth = await requireAuth(casino_api_key, "offer");
+        const amendment = await approveAmendment(auth.agentId, escrow_id, { tokenId: auth.token?.id });
+        const escrow = getEscrow(escrow_id)!;
+        return {
+          ...amendmentView(amendment),
+          escrow_amount_usd: microsToUsd(escrow.amount_micros),
+          escrow_description: escrow.description,
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+          message: "Amendment approved — the escrow now runs on the new terms.",
+        };
+      })
+  );
+
+  // ─── reject_amendment ───
+  server.tool(
+    "reject_amendment",
+    "Reject the pending amendment on an escrow, or withdraw your own. The current terms stay in place.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      reason: z.string().optional().describe("Optional reason, recorded in the escrow's events."),
+    },
+    async ({ casino_api_key, escrow_id, reason }) =>
+      run(async () => amendmentView(rejectAmendment(await requireAgent(casino_api_key, "offer"), escrow_id, reason)))
+  );
+
+  // ─── list_amendments ───
+  server.tool(
+    "list_amendments",
+    "List every amendment proposed on an escrow, oldest first, with its status. Parties and the arbiter only.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the read scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, escrow_id }) =>
+      run(async () => ({ amendments: listAmendments(await requireAgent(casino_api_key, "read"), escrow_id).map(amendmentView) }))
+  );
+
   // ─── mark_complete ───
   server.tool(
     "mark_complete",
-    "Mark an escrow task as complete. Only the counterparty can call this. After marking complete, the creator should call release_escrow.",
+    "Mark an escrow task as complete. Only the counterparty can call this; in a multi-party escrow each payee marks their own part. After marking complete, the creator should call release_escrow — unless the escrow has a deliverable commitment and you pass a matching deliverable, which releases the funds automatically.",
     {
-      casino_api_key: z.string().describe("Your casino API key (counterparty's key)."),
+      casino_api_key: z.string().describe("Your casino API key (counterparty's key) or a scoped escrow token (etk_…)."),
       escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      deliverable: z
+        .unknown()
+        .optional()
+        .describe("The output for an escrow with a deliverable commitment. Text is hashed as UTF-8; other JSON values by their JSON encoding."),
+      idempotency_key: idempotencyKeyParam,
     },
-    async ({ casino_api_key, escrow_id }) => {
-      function err(code: string, msg: string) {
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: code, message: msg }) }], isError: true };
-      }
+    async ({ casino_api_key, escrow_id, deliverable, idempotency_key }) =>
+      run(async () => {
+        const actorId = await requireAgent(casino_api_key, "complete");
+        const { result, replayed } = await withIdempotency(
+          actorId,
+          parseIdempotencyKey(idempotency_key),
+          "complete",
+          { escrowId: escrow_id, deliverable },
+          () => completeEscrow(actorId, escrow_id, deliverable)
+        );
+        const { escrow, verification, release } = result;
+        if (release) {
+          return withReplayFlag({
+            escrow_id: escrow.id,
+            status: escrow.status,
+            deliverable_verification: verificationView(verification!),
+            net_to_counterparty: microsToUsd(release.netMicros),
+            settlement_status: release.settlementStatus,
+            message: "Deliverable verified — funds released to counterparty.",
+            rounding: ROUNDING_POLICY,
+          }, replayed);
+        }
+        const payees = getPayees(escrow.id);
+        const waitingOn = payees.filter((p) => p.status === "pending").map((p) => p.agent_id);
+        return withReplayFlag({
+          escrow_id: escrow.id,
+          status: escrow.status,
+          ...(payees.length ? { payees: payees.map(payeeView) } : {}),
+          ...(verification ? { deliverable_verification: verificationView(verification) } : {}),
+          message: waitingOn.length
+            ? `Your part is marked complete. Waiting for ${waitingOn.join(", ")}.`
+            : "Task marked complete. Creator must now call release_escrow to release funds.",
+          auto_release_at: new Date(escrow.auto_release_at * 1000).toISOString(),
+        }, replayed);
+      })
+  );
 
-      const actorId = resolveAgentId(casino_api_key);
-      if (!actorId) return err("unauthorized", "Invalid casino API key.");
+  // ─── acknowledge_escrow ───
+  server.tool(
+    "acknowledge_escrow",
+    "Acknowledge a funded escrow you are the counterparty (or a payee) of. Once acknowledged, the creator can only cancel it with your consent.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, escrow_id }) =>
+      run(async () => {
+        const escrow = acknowledgeEscrow(await requireAgent(casino_api_key, "offer"), escrow_id);
+        return {
+          escrow_id: escrow.id,
+          status: escrow.status,
+          acknowledged_at: new Date(escrow.acknowledged_at! * 1000).toISOString(),
+          message: "Acknowledged — the creator can no longer cancel without your consent.",
+        };
+      })
+  );
 
-      const escrow = getEscrow(escrow_id);
-      if (!escrow) return err("not_found", "Escrow not found.");
-      if (escrow.counterparty_id !== actorId) return err("forbidden", "Only the counterparty can mark complete.");
-      if (escrow.status !== "funded") return err("invalid_status", `Cannot complete escrow in status '${escrow.status}'.`);
-
-      markCompleted(escrow_id, actorId);
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({
-            escrow_id,
-            status: "completed",
-            message: "Task marked complete. Creator must now call release_escrow to release funds.",
-          }, null, 2),
-        }],
-      };
-    }
+  // ─── cancel_escrow ───
+  server.tool(
+    "cancel_escrow",
+    `Cancel a funded escrow. Only the creator can call this. If the counterparty has not acknowledged the escrow or started work, it is cancelled at once and everything still held is refunded, less a ${CANCELLATION_FEE_BPS / 100}% cancellation fee. Otherwise a cancellation request is opened and the counterparty calls consent_to_cancellation or decline_cancellation. An open job nobody has been assigned yet is cancelled at once and refunded in full, with no fee.`,
+    {
+      casino_api_key: z.string().describe("Your casino API key (creator's key) or a scoped escrow token (etk_…) with the create scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      reason: z.string().optional().describe("Optional reason, recorded in the escrow's events."),
+      idempotency_key: idempotencyKeyParam,
+    },
+    async ({ casino_api_key, escrow_id, reason, idempotency_key }) =>
+      run(async () => {
+        const actorId = await requireAgent(casino_api_key, "create");
+        const { result, replayed } = await withIdempotency(actorId, parseIdempotencyKey(idempotency_key), "cancel", { escrowId: escrow_id, reason }, () =>
+          cancelEscrow(actorId, escrow_id, reason)
+        );
+        return withReplayFlag(cancelSummary(result), replayed);
+      })
+  );
+
+  // ─── consent_to_cancellation ───
+  server.tool(
+    "consent_to_cancellation",
+    "Agree to the creator's pending cancellation request. The escrow is cancelled and refunded to the creator once the counterparty (or every payee) has consented.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      idempotency_key: idempotencyKeyParam,
+    },
+    async ({ casino_api_key, escrow_id, idempotency_key }) =>
+      run(async () => {
+        const actorId = await requireAgent(casino_api_key, "offer");
+        const { result, replayed } = await withIdempotency(actorId, parseIdempotencyKey(idempotency_key), "cancel", { escrowId: escrow_id, consent: true }, () =>
+          consentToCancellation(actorId, escrow_id)
+        );
+        return withReplayFlag(cancelSummary(result), replayed);
+      })
+  );
+
+  // ─── decline_cancellation ───
+  server.tool(
+    "decline_cancellation",
+    "Decline the pending cancellation request on an escrow, or withdraw your own as the creator. The escrow continues as before.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…) with the offer scope."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      reason: z.string().optional().describe("Optional reason, recorded in the escrow's events."),
+    },
+    async ({ casino_api_key, escrow_id, reason }) =>
+      run(async () => cancellationView(declineCancellation(await requireAgent(casino_api_key, "offer"), escrow_id, reason)))
   );
 
   // ─── release_escrow ───
   server.tool(
     "release_escrow",
-    "Release escrowed funds to the counterparty. Only the creator can call this. Triggers 1% commission deduction.",
+    "Release escrowed funds to the counterparty (or every payee of a multi-party escrow). Only the creator can call this. The escrow's commission is deducted.",
     {
-      casino_api_key: z.string().describe("Your casino API key (creator's key)."),
+      casino_api_key: z.string().describe("Your casino API key (creator's key) or a scoped escrow token (etk_…)."),
       escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      idempotency_key: idempotencyKeyParam,
     },
-    async ({ casino_api_key, escrow_id }) => {
-      function err(code: string, msg: string) {
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: code, message: msg }) }], isError: true };
-      }
+    async ({ casino_api_key, escrow_id, idempotency_key }) =>
+      run(async () => {
+        const actorId = await requireAgent(casino_api_key, "release");
+        const { result, replayed } = await withIdempotency(
+          actorId,
+          parseIdempotencyKey(idempotency_key),
+          "release",
+          { escrowId: escrow_id },
+          () => releaseEscrow(actorId, escrow_id)
+        );
+        const { escrow, netMicros, payouts, settlementStatus } = result;
+        return withReplayFlag({
+          escrow_id: escrow.id,
+          status: escrow.status,
+          currency: escrow.currency,
+          amount_usd: microsToUsd(escrow.amount_micros),
+          net_to_counterparty: microsToUsd(netMicros),
+          commission_usd: microsToUsd(escrow.commission_micros),
+          referral_commission_usd: microsToUsd(escrow.referral_commission_micros),
+          counterparty_id: escrow.counterparty_id,
+          payouts: payouts.map((p) => ({ agent_id: p.agentId, amount_usd: microsToUsd(p.netMicros) })),
+          settlement_status: settlementStatus,
+          message: settlementStatus === "applied"
+            ? "Funds released to counterparty."
+            : "Release recorded; payout is queued and will settle automatically.",
+          rounding: ROUNDING_POLICY,
+        }, replayed);
+      })
+  );
 
-      const actorId = resolveAgentId(casino_api_key);
-      if (!actorId) return err("unauthorized", "Invalid casino API key.");
+  // ─── complete_milestone ───
+  server.tool(
+    "complete_milestone",
+    "Mark one milestone of a milestone escrow as complete. Only the counterparty can call this, and milestones are completed in order.",
+    {
+      casino_api_key: z.string().describe("Your casino API key (counterparty's key) or a scoped escrow token (etk_…)."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      seq: z.number().int().min(1).describe("Milestone number (1-based)."),
+    },
+    async ({ casino_api_key, escrow_id, seq }) =>
+      run(async () => {
+        const { escrow, milestone } = completeMilestone(await requireAgent(casino_api_key, "complete"), escrow_id, seq);
+        return {
+          escrow_id: escrow.id,
+          status: escrow.status,
+          milestone: milestoneView(milestone),
+          message: `Milestone ${seq} marked complete. Creator should call release_milestone.`,
+        };
+      })
+  );
 
-      const escrow = getEscrow(escrow_id);
-      if (!escrow) return err("not_found", "Escrow not found.");
-      if (escrow.creator_id !== actorId) return err("forbidden", "Only the creator can release escrow.");
-      if (!["funded", "completed"].includes(escrow.status)) return err("invalid_status", `Cannot release escrow in status '${escrow.status}'.`);
-
-      try {
-        releaseEscrow(escrow_id, actorId, "mcp_release");
-      } catch (e: any) {
-        return err("internal_error", "Release failed: " + e?.message);
-      }
-
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({
-            escrow_id,
-            status: "released",
-            amount_usd: escrow.amount_usd,
-            net_to_counterparty: parseFloat((escrow.amount_usd - escrow.commission_usd).toFixed(6)),
-            commission_usd: escrow.commission_usd,
-            message: "Funds released to counterparty.",
-          }, null, 2),
-        }],
-      };
-    }
+  // ─── release_milestone ───
+  server.tool(
+    "release_milestone",
+    "Release one milestone's funds to the counterparty. Only the creator can call this. Commission is charged per milestone.",
+    {
+      casino_api_key: z.string().describe("Your casino API key (creator's key) or a scoped escrow token (etk_…)."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      seq: z.number().int().min(1).describe("Milestone number (1-based)."),
+    },
+    async ({ casino_api_key, escrow_id, seq }) =>
+      run(async () => {
+        const { escrow, milestone, netMicros, settlementStatus } = await releaseMilestone(
+          await requireAgent(casino_api_key, "release"),
+          escrow_id,
+          seq
+        );
+        return {
+          escrow_id: escrow.id,
+          status: escrow.status,
+          milestone: milestoneView(milestone),
+          net_to_counterparty: microsToUsd(netMicros),
+          commission_usd: microsToUsd(milestone.commission_micros),
+          settlement_status: settlementStatus,
+          message: `Milestone ${seq} released to counterparty.`,
+          rounding: ROUNDING_POLICY,
+        };
+      })
   );
 
   // ─── dispute_escrow ───
   server.tool(
     "dispute_escrow",
-    "Flag an escrow for dispute review. Either party can dispute. Funds are held until manually resolved.",
+    "Open a dispute on an escrow. Either party can dispute. Funds are held until the arbiter resolves it or the dispute deadline applies the default outcome.",
     {
-      casino_api_key: z.string().describe("Your casino API key."),
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…)."),
       escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
       reason: z.string().min(10).describe("Reason for the dispute (min 10 characters)."),
+      idempotency_key: idempotencyKeyParam,
     },
-    async ({ casino_api_key, escrow_id, reason }) => {
-      function err(code: string, msg: string) {
-        return { content: [{ type: "text" as const, text: JSON.stringify({ error: code, message: msg }) }], isError: true };
-      }
+    async ({ casino_api_key, escrow_id, reason, idempotency_key }) =>
+      run(async () => {
+        const actorId = await requireAgent(casino_api_key, "dispute");
+        const { result, replayed } = await withIdempotency(
+          actorId,
+          parseIdempotencyKey(idempotency_key),
+          "dispute",
+          { escrowId: escrow_id, reason },
+          () => disputeEscrow(actorId, escrow_id, reason)
+        );
+        return withReplayFlag({
+          escrow_id: result.escrow.id,
+          status: result.escrow.status,
+          reason: result.reason,
+          arbiter_id: result.escrow.arbiter_id,
+          deadline_at: result.escrow.dispute_deadline_at
+            ? new Date(result.escrow.dispute_deadline_at * 1000).toISOString()
+            : null,
+          message: "Escrow disputed. Submit evidence with submit_evidence.",
+        }, replayed);
+      })
+  );
 
-      const actorId = resolveAgentId(casino_api_key);
-      if (!actorId) return err("unauthorized", "Invalid casino API key.");
+  // ─── submit_evidence ───
+  server.tool(
+    "submit_evidence",
+    "Submit evidence for a disputed escrow. Either party can submit text, an http(s) link, or a SHA-256 hash of a deliverable.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…)."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      kind: z.enum(["text", "link", "hash"]).describe("Evidence type."),
+      content: z.string().min(1).max(4000).describe("Text, URL, or hex SHA-256 digest."),
+    },
+    async ({ casino_api_key, escrow_id, kind, content }) =>
+      run(async () => {
+        const evidence = submitEvidence(await requireAgent(casino_api_key, "dispute"), escrow_id, kind, content);
+        return { evidence_id: evidence.id, escrow_id: evidence.escrow_id, kind: evidence.kind, message: "Evidence recorded." };
+      })
+  );
 
-      const escrow = getEscrow(escrow_id);
-      if (!escrow) return err("not_found", "Escrow not found.");
-      if (escrow.creator_id !== actorId && escrow.counterparty_id !== actorId) {
-        return err("forbidden", "Only escrow participants can dispute.");
-      }
-      if (!["funded", "completed"].includes(escrow.status)) {
-        return err("invalid_status", `Cannot dispute escrow in status '${escrow.status}'.`);
-      }
-
-      try {
-        disputeEscrow(escrow_id, actorId, reason);
-      } catch (e: any) {
-        return err("internal_error", "Dispute failed: " + e?.message);
-      }
-
-      return {
-        content: [{
-          type: "text" as const,
-          text: JSON.stringify({
-            escrow_id,
-            status: "disputed",
-            message: "Escrow flagged for review. Contact support@purpleflea.com.",
-          }, null, 2),
-        }],
-      };
-    }
+  // ─── get_dispute ───
+  server.tool(
+    "get_dispute",
+    "Get dispute details for an escrow: arbiter, deadline, outcome and all evidence. Parties and the arbiter only.",
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…)."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+    },
+    async ({ casino_api_key, escrow_id }) =>
+      run(async () => {
+        const { escrow, evidence } = getDispute(await requireAgent(casino_api_key, "read"), escrow_id);
+        return disputeView(escrow, evidence);
+      })
+  );
+
+  // ─── resolve_dispute ───
+  server.tool(
+    "resolve_dispute",
+    "Resolve a disputed escrow. Only the assigned arbiter can call this. Award everything to the counterparty (release), everything back to the creator (refund), or split by percentage.",
+    {
+      casino_api_key: z.string().describe("Your casino API key (arbiter's key) or a scoped escrow token (etk_…)."),
+      escrow_id: z.string().describe("The escrow ID (esc_xxx format)."),
+      outcome: z.enum(["release", "refund", "split"]).describe("Resolution outcome."),
+      counterparty_pct: z.number().optional().describe("For split: percentage awarded to the counterparty (0-100 exclusive)."),
+      note: z.string().optional().describe("Optional reasoning recorded with the resolution."),
+    },
+    async ({ casino_api_key, escrow_id, outcome, counterparty_pct, note }) =>
+      run(async () => {
+        const result = await resolveDispute(await requireAgent(casino_api_key, "dispute"), escrow_id, {
+          outcome,
+          counterpartyPct: counterparty_pct,
+          note,
+        });
+        return {
+          escrow_id: result.escrow.id,
+          status: result.escrow.status,
+          outcome: result.outcome,
+          counterparty_pct: result.counterpartyPct,
+          to_counterparty: microsToUsd(result.toCounterpartyMicros),
+          to_creator: microsToUsd(result.toCreatorMicros),
+          commission_usd: microsToUsd(result.commissionMicros),
+          settlement_status: result.settlementStatus,
+          rounding: ROUNDING_POLICY,
+        };
+      })
+  );
+
+  // ─── list_escrows ───
+  server.tool(
+    "list_escrows",
+    [
+      "List the escrows you take part in, newest first by default.",
+      "Filter by role, status, amount range, creation or auto-release dates and a description search.",
+      "Pass next_cursor from the previous result as cursor to fetch the next page.",
+    ].join(" "),
+    {
+      casino_api_key: z.string().describe("Your casino API key or a scoped escrow token (etk_…)."),
+      role: z.enum(ESCROW_ROLES).optional().describe("Only escrows where you have this role (default any)."),
+      status: z.array(z.enum(ESCROW_STATUSES)).optional().describe("Only escrows in these statuses."),
+      currency: z.string().optional().describe("Only escrows in this currency (e.g. USD, USDC)."),
+      min_amount: z.number().min(0).optional().describe("Minimum amount_usd (inclusive)."),
+      max_amount: z.number().min(0).optional().describe("Maximum amount_usd (inclusive)."),
+      created_after: z.string().optional().describe("Created at or after (ISO 8601 or unix seconds)."),
+      created_before: z.string().optional().describe("Created before (ISO 8601 or unix seconds)."),
+      auto_release_after: z.string().optional().describe("Auto-release at or after (ISO 8601 or unix seconds)."),
+      auto_release_before: z.string().optional().describe("Auto-release before (ISO 8601 or unix seconds)."),
+      q: z.string().optional().describe("Case-insensitive substring match on description."),
+      sort: z.enum(ESCROW_SORTS).optional().describe("Sort field (default created_at)."),
+      order: z.enum(["asc", "desc"]).optional().describe("Sort order (default desc)."),
+      limit: z.number().int().min(1).max(LIST_MAX_LIMIT).optional().describe("Page size (default 20)."),
+      cursor: z.string().optional().describe("next_cursor from the previous page."),
+    },
+    async (args) =>
+      run(async () => {
+        const agentId = await requireAgent(args.casino_api_key, "read");
+        const { escrows, nextCursor } = listEscrows(agentId, {
+          role: args.role,
+          status: args.status,
+          currency: args.currency,
+          minAmount: args.min_amount,
+          maxAmount: args.max_amount,
+          createdAfter: args.created_after,
+          createdBefore: args.created_before,
+          autoReleaseAfter: args.auto_release_after,
+          autoReleaseBefore: args.auto_release_before,
+          q: args.q,
+          sort: args.sort,
+          order: args.order,
+          limit: args.limit,
+          cursor: args.cursor,
+        });
+        return {
+          escrows: escrows.map((e) => escrowSummaryView(agentId, e)),
+          next_cursor: nextCursor,
+          has_more: nextCursor !== null,
+        };
+      })
   );
 
   // ─── escrow_stats ───
   server.tool(
     "escrow_stats",
-    "Get public escrow volume and commission statistics.",
+    "Get public escrow volume and commission statistics, per currency, and the currencies escrows can be denominated in.",
     {},
     async () => {
       const stats = getPublicStats();
-      return { content: [{ type: "text" as const, text: JSON.stringify(stats, null, 2) }] };
+      return ok({
+        total_created: stats.total_created,
+        total_released: stats.total_released,
+        total_disputed: stats.total_disputed,
+        total_volume_usd: microsToUsd(stats.total_volume_micros),
+        total_commission_usd: microsToUsd(stats.total_commission_micros),
+        by_currency: getCurrencyStats().map((s) => ({
+          currency: s.currency,
+          total_created: s.total_created,
+          total_released: s.total_released,
+          total_disputed: s.total_disputed,
+          total_volume: microsToUsd(s.total_volume_micros),
+          total_commission: microsToUsd(s.total_commission_micros),
+        })),
+        currencies: currenciesView(balanceProvider.name),
+      });
     }
   );
 
@@ -304,10 +1283,49 @@ app.get("/mcp", (_req, res) => {
     service: "agent-escrow-mcp",
     transport: "StreamableHTTP",
     endpoint: "POST /mcp",
-    tools: ["create_escrow", "get_escrow", "mark_complete", "release_escrow", "dispute_escrow", "escrow_stats"],
+    tools: [
+      "create_escrow",
+      "quote_escrow",
+      "get_escrow",
+      "list_escrows",
+      "make_offer",
+      "accept_offer",
+      "counter_offer",
+      "reject_offer",
+      "propose_amendment",
+      "approve_amendment",
+      "reject_amendment",
+      "list_amendments",
+      "acknowledge_escrow",
+      "cancel_escrow",
+      "consent_to_cancellation",
+      "decline_cancellation",
+      "list_jobs",
+      "apply_for_job",
+      "claim_job",
+      "list_job_applications",
+      "pick_job_applicant",
+      "create_recurring_escrow",
+      "list_recurring_escrows",
+      "get_recurring_escrow",
+      "pause_recurring_escrow",
+      "resume_recurring_escrow",
+      "cancel_recurring_escrow",
+      "get_agent_reputation",
+      "get_referral_earnings",
+      "mark_complete",
+      "release_escrow",
+      "complete_milestone",
+      "release_milestone",
+      "dispute_escrow",
+      "submit_evidence",
+      "get_dispute",
+      "resolve_dispute",
+      "escrow_stats",
+    ],
     description: "MCP server for Purple Flea Agent Escrow. Trustless agent-to-agent payments.",
-    commission: "1% on release. 15% referral on commission fees.",
-    auth: "casino_api_key required for transactional tools (from casino.purpleflea.com).",
+    commission: `${BASE_RATE} on release by default; quote_escrow shows the rate that applies. ${REFERRAL_RATE} referral on commission fees.`,
+    auth: "casino_api_key required for transactional tools (from casino.purpleflea.com). A scoped escrow token from POST /tokens on the REST API is accepted in its place.",
   });
 });
 
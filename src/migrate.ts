@@ -0,0 +1,41 @@
+/**
+ * Schema migration CLI — the same runner the server uses at startup.
+ *
+ *   npm run migrate              apply pending migrations
+ *   npm run migrate -- --dry-run run them inside a rolled-back transaction
+ *   npm run migrate -- --status  show applied and pending versions
+ */
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { LATEST_VERSION, MigrationError, planMigrations, runMigrations } from "./migrations.js";
+
+const ESCROW_DB_PATH = process.env.ESCROW_DB_PATH || "./data/escrow.db";
+const args = new Set(process.argv.slice(2));
+const dryRun = args.has("--dry-run");
+
+if (!existsSync(ESCROW_DB_PATH) && (dryRun || args.has("--status"))) {
+  console.log(`${ESCROW_DB_PATH} does not exist; all ${LATEST_VERSION} migrations would be applied on first start`);
+  process.exit(0);
+}
+
+const db = new Database(ESCROW_DB_PATH);
+db.pragma("foreign_keys = ON");
+db.pragma("busy_timeout = 30000");
+
+try {
+  if (args.has("--status")) {
+    const plan = planMigrations(db);
+    console.log(`schema version ${plan.current} of ${plan.latest}`);
+    for (const m of plan.adopt) console.log(`  adopt    ${m.version} ${m.name}`);
+    for (const m of plan.pending) console.log(`  pending  ${m.version} ${m.name}`);
+  } else {
+    const plan = runMigrations(db, { dryRun, log: (line) => console.log(line) });
+    if (plan.adopt.length === 0 && plan.pending.length === 0) console.log(`schema is up to date (version ${plan.latest})`);
+  }
+} catch (err) {
+  if (!(err instanceof MigrationError)) throw err;
+  console.error(err.message);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
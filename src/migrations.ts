@@ -0,0 +1,910 @@
+/**
+ * Versioned schema migrations for escrow.db.
+ *
+ * Migrations are applied in order at startup, each in its own transaction
+ * together with its row in `schema_migrations`. A database that records a
+ * version this build does not know is refused rather than guessed at.
+ *
+ * Databases created before versioning existed are adopted: the leading
+ * migrations whose effects are already present are recorded as applied
+ * without running, and the rest run normally.
+ *
+ * To add a change, append a migration with the next version. Never edit or
+ * reorder one that has shipped.
+ */
+import type { Database } from "better-sqlite3";
+import { usdToMicros } from "./money.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): void;
+  // Only consulted when adopting an unversioned database
+  alreadyApplied?(db: Database): boolean;
+}
+
+export interface MigrationPlan {
+  current: number;
+  latest: number;
+  pending: Migration[];
+  adopt: Migration[];
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+// Thrown to roll back a dry run's transaction
+class DryRunRollback extends Error {}
+
+// ─── Helpers ───
+function hasTable(db: Database, table: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
+function hasIndex(db: Database, index: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = ?").get(index);
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+// ─── Migrations ───
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    alreadyApplied: (db) => hasTable(db, "escrows"),
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE escrows (
+          id TEXT PRIMARY KEY,
+          creator_id TEXT NOT NULL,
+          counterparty_id TEXT NOT NULL,
+          amount_usd REAL NOT NULL,
+          commission_usd REAL NOT NULL,
+          description TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'funded',
+          timeout_hours INTEGER NOT NULL DEFAULT 24,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          funded_at INTEGER,
+          completed_at INTEGER,
+          released_at INTEGER,
+          disputed_at INTEGER,
+          auto_release_at INTEGER NOT NULL,
+          referrer_id TEXT,
+          referral_commission_usd REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX idx_escrows_creator ON escrows(creator_id);
+        CREATE INDEX idx_escrows_counterparty ON escrows(counterparty_id);
+        CREATE INDEX idx_escrows_status ON escrows(status);
+        CREATE INDEX idx_escrows_auto_release ON escrows(auto_release_at, status);
+
+        CREATE TABLE escrow_events (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          event TEXT NOT NULL,
+          actor_id TEXT,
+          note TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+
+        CREATE INDEX idx_events_escrow ON escrow_events(escrow_id);
+
+        CREATE TABLE escrow_stats (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          total_created INTEGER NOT NULL DEFAULT 0,
+          total_released INTEGER NOT NULL DEFAULT 0,
+          total_disputed INTEGER NOT NULL DEFAULT 0,
+          total_volume_usd REAL NOT NULL DEFAULT 0,
+          total_commission_usd REAL NOT NULL DEFAULT 0
+        );
+
+        INSERT INTO escrow_stats (id) VALUES (1);
+      `),
+  },
+  {
+    // Every balance movement is written here before it is applied to the casino
+    // ledger, so a crash mid-way can be finished or undone
+    version: 2,
+    name: "settlement_outbox",
+    alreadyApplied: (db) => hasTable(db, "settlements"),
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE settlements (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          legs TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          applied_at INTEGER
+        );
+
+        CREATE INDEX idx_settlements_status ON settlements(status, created_at);
+        CREATE INDEX idx_settlements_escrow ON settlements(escrow_id);
+      `),
+  },
+  {
+    version: 3,
+    name: "escrow_milestones",
+    alreadyApplied: (db) => hasTable(db, "escrow_milestones"),
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE escrow_milestones (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          seq INTEGER NOT NULL,
+          description TEXT NOT NULL,
+          amount_usd REAL NOT NULL,
+          commission_usd REAL NOT NULL,
+          referral_commission_usd REAL NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'pending',
+          completed_at INTEGER,
+          released_at INTEGER,
+          UNIQUE (escrow_id, seq)
+        );
+      `),
+  },
+  {
+    version: 4,
+    name: "disputes",
+    alreadyApplied: (db) => hasTable(db, "arbiters") && hasColumn(db, "escrows", "resolved_at"),
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN arbiter_id TEXT;
+        ALTER TABLE escrows ADD COLUMN dispute_deadline_at INTEGER;
+        ALTER TABLE escrows ADD COLUMN dispute_outcome TEXT;
+        ALTER TABLE escrows ADD COLUMN dispute_counterparty_pct REAL;
+        ALTER TABLE escrows ADD COLUMN resolved_at INTEGER;
+        CREATE INDEX idx_escrows_dispute_deadline ON escrows(dispute_deadline_at, status);
+
+        CREATE TABLE dispute_evidence (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          submitted_by TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+
+        CREATE INDEX idx_evidence_escrow ON dispute_evidence(escrow_id);
+
+        -- Admin-managed pool of agents who can be assigned to resolve disputes
+        CREATE TABLE arbiters (
+          agent_id TEXT PRIMARY KEY,
+          note TEXT,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+      `),
+  },
+  {
+    // Subscriptions, the delivery queue and exhausted deliveries
+    version: 5,
+    name: "webhooks",
+    alreadyApplied: (db) => hasTable(db, "webhook_dead_letters"),
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE webhooks (
+          id TEXT PRIMARY KEY,
+          agent_id TEXT NOT NULL,
+          escrow_id TEXT,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+
+        CREATE INDEX idx_webhooks_agent ON webhooks(agent_id, active);
+        CREATE INDEX idx_webhooks_escrow ON webhooks(escrow_id, active);
+
+        CREATE TABLE webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL REFERENCES webhooks(id),
+          event_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          last_status_code INTEGER,
+          last_error TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          delivered_at INTEGER
+        );
+
+        CREATE INDEX idx_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+        CREATE INDEX idx_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+
+        CREATE TABLE webhook_dead_letters (
+          id TEXT PRIMARY KEY,
+          delivery_id TEXT NOT NULL REFERENCES webhook_deliveries(id),
+          webhook_id TEXT NOT NULL REFERENCES webhooks(id),
+          agent_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          last_error TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          replayed_at INTEGER
+        );
+
+        CREATE INDEX idx_dead_letters_agent ON webhook_dead_letters(agent_id, created_at);
+      `),
+  },
+  {
+    // Stored outcome of a mutating call, per agent and Idempotency-Key
+    version: 6,
+    name: "idempotency_keys",
+    alreadyApplied: (db) => hasTable(db, "idempotency_keys"),
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE idempotency_keys (
+          agent_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'in_progress',
+          response TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          expires_at INTEGER NOT NULL,
+          PRIMARY KEY (agent_id, key)
+        );
+
+        CREATE INDEX idx_idempotency_expiry ON idempotency_keys(expires_at);
+      `),
+  },
+  {
+    version: 7,
+    name: "escrows_arbiter_index",
+    alreadyApplied: (db) => hasIndex(db, "idx_escrows_arbiter"),
+    up: (db) => db.exec("CREATE INDEX idx_escrows_arbiter ON escrows(arbiter_id)"),
+  },
+  {
+    // REAL dollars → integer micro-dollars, rounded half-up. The commission each
+    // escrow has charged is reconstructed from its status, and the stats totals
+    // are recomputed from the rows so drift in the old REAL totals is dropped.
+    version: 8,
+    name: "money_micros",
+    alreadyApplied: (db) => hasColumn(db, "escrows", "amount_micros"),
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN amount_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrows ADD COLUMN commission_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrows ADD COLUMN referral_commission_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrows ADD COLUMN commission_charged_micros INTEGER NOT NULL DEFAULT 0;
+        UPDATE escrows SET
+          amount_micros = CAST(ROUND(amount_usd * 1000000) AS INTEGER),
+          commission_micros = CAST(ROUND(commission_usd * 1000000) AS INTEGER),
+          referral_commission_micros = CAST(ROUND(referral_commission_usd * 1000000) AS INTEGER);
+
+        ALTER TABLE escrow_milestones ADD COLUMN amount_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrow_milestones ADD COLUMN commission_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrow_milestones ADD COLUMN referral_commission_micros INTEGER NOT NULL DEFAULT 0;
+        UPDATE escrow_milestones SET
+          amount_micros = CAST(ROUND(amount_usd * 1000000) AS INTEGER),
+          commission_micros = CAST(ROUND(commission_usd * 1000000) AS INTEGER),
+          referral_commission_micros = CAST(ROUND(referral_commission_usd * 1000000) AS INTEGER);
+
+        -- Commission charged so far: released milestones; released and timed-out
+        -- escrows charged it all; resolved ones also the counterparty's share of the rest
+        UPDATE escrows SET commission_charged_micros = (
+          SELECT COALESCE(SUM(commission_micros), 0) FROM escrow_milestones
+          WHERE escrow_id = escrows.id AND status = 'released'
+        );
+        UPDATE escrows SET commission_charged_micros = commission_micros WHERE status IN ('released', 'refunded');
+        UPDATE escrows SET commission_charged_micros = commission_charged_micros + CAST(ROUND(
+          (commission_micros - commission_charged_micros) * COALESCE(dispute_counterparty_pct, 0) / 100.0
+        ) AS INTEGER) WHERE status = 'resolved';
+
+        ALTER TABLE escrows DROP COLUMN amount_usd;
+        ALTER TABLE escrows DROP COLUMN commission_usd;
+        ALTER TABLE escrows DROP COLUMN referral_commission_usd;
+        ALTER TABLE escrow_milestones DROP COLUMN amount_usd;
+        ALTER TABLE escrow_milestones DROP COLUMN commission_usd;
+        ALTER TABLE escrow_milestones DROP COLUMN referral_commission_usd;
+
+        ALTER TABLE escrow_stats ADD COLUMN total_volume_micros INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE escrow_stats ADD COLUMN total_commission_micros INTEGER NOT NULL DEFAULT 0;
+        UPDATE escrow_stats SET
+          total_volume_micros = (SELECT COALESCE(SUM(amount_micros), 0) FROM escrows),
+          total_commission_micros = (SELECT COALESCE(SUM(commission_charged_micros), 0) FROM escrows);
+        ALTER TABLE escrow_stats DROP COLUMN total_volume_usd;
+        ALTER TABLE escrow_stats DROP COLUMN total_commission_usd;
+
+        -- Stored idempotent responses carry the old USD shape
+        DELETE FROM idempotency_keys;
+      `);
+
+      // Settlement legs are JSON, so their amounts are converted here
+      const rows = db.prepare("SELECT id, legs FROM settlements").all() as { id: string; legs: string }[];
+      const update = db.prepare("UPDATE settlements SET legs = ? WHERE id = ?");
+      for (const row of rows) {
+        const legs = (JSON.parse(row.legs) as { amount: number }[]).map((l) => ({ ...l, amount: usdToMicros(l.amount) }));
+        update.run(JSON.stringify(legs), row.id);
+      }
+    },
+  },
+  {
+    // Escrow-only bearer tokens; only the sha256 of the token is stored
+    version: 9,
+    name: "api_tokens",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE api_tokens (
+          id TEXT PRIMARY KEY,
+          agent_id TEXT NOT NULL,
+          name TEXT,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          spend_cap_micros INTEGER,
+          spent_micros INTEGER NOT NULL DEFAULT 0,
+          expires_at INTEGER,
+          revoked_at INTEGER,
+          last_used_at INTEGER,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+
+        CREATE INDEX idx_api_tokens_agent ON api_tokens(agent_id, created_at);
+      `),
+  },
+  {
+    // Multi-party escrows: each payee is owed a fixed part of the escrow.
+    // escrows.counterparty_id keeps the first payee so single-payee queries still work.
+    version: 10,
+    name: "escrow_payees",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE escrow_payees (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          seq INTEGER NOT NULL,
+          agent_id TEXT NOT NULL,
+          share_bps INTEGER,
+          amount_micros INTEGER NOT NULL,
+          commission_micros INTEGER NOT NULL,
+          referral_commission_micros INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'pending',
+          completed_at INTEGER,
+          released_at INTEGER,
+          UNIQUE (escrow_id, seq),
+          UNIQUE (escrow_id, agent_id)
+        );
+
+        CREATE INDEX idx_escrow_payees_agent ON escrow_payees(agent_id);
+      `),
+  },
+  {
+    // Optional commitment to the expected deliverable (a SHA-256 digest or a JSON Schema)
+    version: 11,
+    name: "deliverable_commitments",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN deliverable_kind TEXT;
+        ALTER TABLE escrows ADD COLUMN deliverable_spec TEXT;
+        ALTER TABLE escrows ADD COLUMN deliverable_verified_at INTEGER;
+      `),
+  },
+  {
+    // Per-escrow timeout policy. Escrows created before this keep running under
+    // the new default (pay a completed counterparty, refund without commission).
+    version: 12,
+    name: "timeout_policies",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN timeout_policy TEXT NOT NULL DEFAULT 'release_if_completed';
+        ALTER TABLE escrows ADD COLUMN completion_grace_hours INTEGER NOT NULL DEFAULT 24;
+        ALTER TABLE escrows ADD COLUMN commission_on_refund INTEGER NOT NULL DEFAULT 0;
+      `),
+  },
+  {
+    // Offers are escrow rows that stay unfunded until the other party accepts
+    version: 13,
+    name: "escrow_offers",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN offer_expires_at INTEGER;
+        ALTER TABLE escrows ADD COLUMN offer_token_id TEXT;
+        ALTER TABLE escrows ADD COLUMN accepted_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_escrows_offer_expiry ON escrows(status, offer_expires_at);
+      `),
+  },
+  {
+    // Open escrows are funded but have no counterparty (counterparty_id '') until claimed
+    version: 14,
+    name: "job_board",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN job_tags TEXT;
+        ALTER TABLE escrows ADD COLUMN job_claim_mode TEXT;
+        ALTER TABLE escrows ADD COLUMN job_deadline_at INTEGER;
+        ALTER TABLE escrows ADD COLUMN claimed_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_escrows_job_deadline ON escrows(status, job_deadline_at);
+
+        CREATE TABLE IF NOT EXISTS job_applications (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          agent_id TEXT NOT NULL,
+          note TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          decided_at INTEGER,
+          UNIQUE (escrow_id, agent_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_job_applications_agent ON job_applications(agent_id);
+      `),
+  },
+  {
+    // Per-agent counters kept up to date from escrow events (see reputation.ts);
+    // reputation_recorded_at marks escrows already counted
+    version: 15,
+    name: "agent_reputation",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN min_reputation_score REAL;
+        ALTER TABLE escrows ADD COLUMN min_reputation_escrows INTEGER;
+        ALTER TABLE escrows ADD COLUMN reputation_recorded_at INTEGER;
+
+        CREATE TABLE IF NOT EXISTS agent_reputation (
+          agent_id TEXT PRIMARY KEY,
+          worker_escrows INTEGER NOT NULL DEFAULT 0,
+          worker_completed INTEGER NOT NULL DEFAULT 0,
+          worker_on_time INTEGER NOT NULL DEFAULT 0,
+          creator_escrows INTEGER NOT NULL DEFAULT 0,
+          disputed INTEGER NOT NULL DEFAULT 0,
+          volume_micros INTEGER NOT NULL DEFAULT 0,
+          release_latency_seconds INTEGER NOT NULL DEFAULT 0,
+          releases_timed INTEGER NOT NULL DEFAULT 0,
+          score_weight REAL NOT NULL DEFAULT 0,
+          score_sum REAL NOT NULL DEFAULT 0,
+          decayed_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+      `),
+  },
+  {
+    // Templates that fund one ordinary escrow per period (see recurring.ts)
+    version: 16,
+    name: "recurring_escrows",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recurring_escrows (
+          id TEXT PRIMARY KEY,
+          creator_id TEXT NOT NULL,
+          counterparty_id TEXT NOT NULL,
+          amount_micros INTEGER NOT NULL,
+          description TEXT NOT NULL,
+          period_hours INTEGER NOT NULL,
+          timeout_hours INTEGER NOT NULL,
+          timeout_policy TEXT NOT NULL,
+          arbiter_id TEXT,
+          referral_code TEXT,
+          token_id TEXT,
+          cycles_total INTEGER,
+          ends_at INTEGER,
+          cycles_funded INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'active',
+          pause_reason TEXT,
+          next_cycle_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          cancelled_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_recurring_due ON recurring_escrows(status, next_cycle_at);
+        CREATE INDEX IF NOT EXISTS idx_recurring_creator ON recurring_escrows(creator_id);
+        CREATE INDEX IF NOT EXISTS idx_recurring_counterparty ON recurring_escrows(counterparty_id);
+
+        ALTER TABLE escrows ADD COLUMN recurring_id TEXT REFERENCES recurring_escrows(id);
+        ALTER TABLE escrows ADD COLUMN recurring_cycle INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_escrows_recurring ON escrows(recurring_id, recurring_cycle);
+      `),
+  },
+  {
+    // Changes to a funded escrow's terms that the other party must approve (see amendments.ts)
+    version: 17,
+    name: "escrow_amendments",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS escrow_amendments (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          proposed_by TEXT NOT NULL,
+          proposer_token_id TEXT,
+          amount_micros INTEGER,
+          description TEXT,
+          extend_hours INTEGER,
+          reason TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          decided_by TEXT,
+          settlement_id TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          decided_at INTEGER
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_amendments_one_pending ON escrow_amendments(escrow_id) WHERE status = 'pending';
+        CREATE INDEX IF NOT EXISTS idx_amendments_settlement ON escrow_amendments(settlement_id);
+      `),
+  },
+  {
+    version: 18,
+    name: "escrow_cancellations",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE escrows ADD COLUMN acknowledged_at INTEGER;
+        ALTER TABLE escrows ADD COLUMN cancelled_at INTEGER;
+        CREATE TABLE IF NOT EXISTS escrow_cancellations (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL REFERENCES escrows(id),
+          requested_by TEXT NOT NULL,
+          reason TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          decided_by TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          decided_at INTEGER
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellations_one_pending ON escrow_cancellations(escrow_id) WHERE status = 'pending';
+        CREATE TABLE IF NOT EXISTS cancellation_consents (
+          cancellation_id TEXT NOT NULL REFERENCES escrow_cancellations(id),
+          agent_id TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          PRIMARY KEY (cancellation_id, agent_id)
+        );
+      `),
+  },
+  {
+    version: 19,
+    name: "admin_console",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS admin_credentials (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          key_prefix TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          revoked_at INTEGER,
+          last_used_at INTEGER
+        );
+
+        -- Append-only: the triggers reject any change to a written entry
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          admin_id TEXT NOT NULL,
+          admin_role TEXT NOT NULL,
+          action TEXT NOT NULL,
+          target TEXT,
+          note TEXT,
+          outcome TEXT NOT NULL,
+          error TEXT,
+          details TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        CREATE INDEX IF NOT EXISTS idx_admin_audit_target ON admin_audit_log(target);
+        CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_update BEFORE UPDATE ON admin_audit_log
+          BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_delete BEFORE DELETE ON admin_audit_log
+          BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+
+        CREATE TABLE IF NOT EXISTS agent_freezes (
+          agent_id TEXT PRIMARY KEY,
+          reason TEXT NOT NULL,
+          frozen_by TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+
+        CREATE TABLE IF NOT EXISTS auto_release_failures (
+          escrow_id TEXT PRIMARY KEY REFERENCES escrows(id),
+          settlement_id TEXT,
+          last_error TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 1,
+          first_failed_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          last_failed_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+      `),
+  },
+  {
+    version: 20,
+    name: "escrow_ledger",
+    up: (db) => {
+      db.exec(`
+        -- House commission withheld by each payout, booked to the house account when it applies
+        ALTER TABLE settlements ADD COLUMN house_micros INTEGER NOT NULL DEFAULT 0;
+
+        -- Double-entry books of the escrow service: every applied settlement
+        -- posts balanced debit/credit rows between agent:, escrow: and house accounts
+        CREATE TABLE IF NOT EXISTS escrow_ledger (
+          id TEXT PRIMARY KEY,
+          settlement_id TEXT NOT NULL REFERENCES settlements(id),
+          escrow_id TEXT NOT NULL,
+          account TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          amount_micros INTEGER NOT NULL,
+          entry_type TEXT NOT NULL,
+          casino_entry_id TEXT,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        CREATE INDEX IF NOT EXISTS idx_escrow_ledger_escrow ON escrow_ledger(escrow_id);
+        CREATE INDEX IF NOT EXISTS idx_escrow_ledger_account ON escrow_ledger(account, created_at);
+        CREATE INDEX IF NOT EXISTS idx_escrow_ledger_settlement ON escrow_ledger(settlement_id);
+      `);
+
+      type Leg = { agentId: string; direction: "debit" | "credit"; amount: number; reference: string };
+      type Row = { id: string; escrow_id: string; kind: string; status: string; legs: string; house_micros: number; applied_at: number | null; created_at: number };
+
+      // Older settlements never recorded the house share: it is the escrow's
+      // commission charged less referral paid, put on its last payout
+      const charged = db.prepare("SELECT id, commission_charged_micros FROM escrows WHERE commission_charged_micros > 0").all() as {
+        id: string;
+        commission_charged_micros: number;
+      }[];
+      const payoutsOf = db.prepare(
+        "SELECT * FROM settlements WHERE escrow_id = ? AND kind NOT IN ('lock', 'amendment') AND status IN ('pending', 'applied') ORDER BY created_at ASC, rowid ASC"
+      );
+      const setHouse = db.prepare("UPDATE settlements SET house_micros = ? WHERE id = ?");
+      for (const escrow of charged) {
+        const payouts = payoutsOf.all(escrow.id) as Row[];
+        if (!payouts.length) continue;
+        const referral = payouts
+          .flatMap((p) => JSON.parse(p.legs) as Leg[])
+          .filter((l) => l.reference.endsWith("_refcom"))
+          .reduce((sum, l) => sum + l.amount, 0);
+        setHouse.run(Math.max(0, escrow.commission_charged_micros - referral), payouts[payouts.length - 1].id);
+      }
+
+      // Post the books for everything already applied
+      const creators = new Map(
+        (db.prepare("SELECT id, creator_id FROM escrows").all() as { id: string; creator_id: string }[]).map((e) => [e.id, e.creator_id])
+      );
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO escrow_ledger (id, settlement_id, escrow_id, account, direction, amount_micros, entry_type, casino_entry_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const applied = db.prepare("SELECT * FROM settlements WHERE status = 'applied' ORDER BY applied_at ASC, rowid ASC").all() as Row[];
+      for (const s of applied) {
+        const at = s.applied_at ?? s.created_at;
+        const held = `escrow:${s.escrow_id}`;
+        const post = (n: number, from: string, to: string, amount: number, type: string, casinoEntry: string | null) => {
+          insert.run(`${s.id}_${n}_dr`, s.id, s.escrow_id, to, "debit", amount, type, casinoEntry, at);
+          insert.run(`${s.id}_${n}_cr`, s.id, s.escrow_id, from, "credit", amount, type, casinoEntry, at);
+        };
+        (JSON.parse(s.legs) as Leg[]).forEach((leg, n) => {
+          const agent = `agent:${leg.agentId}`;
+          const casinoEntry = leg.reference + (leg.direction === "debit" ? "_debit" : "_credit");
+          if (leg.direction === "debit") return post(n, agent, held, leg.amount, "deposit", casinoEntry);
+          const type = leg.reference.endsWith("_refcom") ? "referral" : leg.agentId === creators.get(s.escrow_id) ? "refund" : "payout";
+          post(n, held, agent, leg.amount, type, casinoEntry);
+        });
+        if (s.house_micros > 0) post(JSON.parse(s.legs).length, held, "house", s.house_micros, "house_fee", null);
+      }
+    },
+  },
+  {
+    version: 21,
+    name: "fee_schedules",
+    up: (db) =>
+      db.exec(`
+        -- The fee schedule each escrow was priced under, as JSON (see fees.ts)
+        ALTER TABLE escrows ADD COLUMN fee_schedule TEXT;
+        -- Everything before this priced at the flat 1% / 15% referral
+        UPDATE escrows SET fee_schedule = json_object(
+          'source', 'base', 'rule_id', NULL, 'commission_bps', 100, 'referral_share_bps', 1500,
+          'min_fee_micros', NULL, 'max_fee_micros', NULL, 'promo_code', NULL, 'volume_30d_micros', 0
+        );
+        CREATE INDEX IF NOT EXISTS idx_escrows_creator_funded ON escrows(creator_id, funded_at);
+
+        -- Volume tiers, per-agent rates and promo codes, managed on the admin API
+        CREATE TABLE IF NOT EXISTS fee_rules (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          commission_bps INTEGER NOT NULL,
+          min_fee_micros INTEGER,
+          max_fee_micros INTEGER,
+          min_volume_micros INTEGER,
+          agent_id TEXT,
+          code TEXT,
+          starts_at INTEGER,
+          expires_at INTEGER,
+          max_uses INTEGER,
+          uses INTEGER NOT NULL DEFAULT 0,
+          note TEXT,
+          created_by TEXT NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          revoked_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_fee_rules_kind ON fee_rules(kind, revoked_at);
+      `),
+  },
+  {
+    version: 22,
+    name: "referral_attribution",
+    up: (db) =>
+      db.exec(`
+        -- Every referrer credited on an escrow, by side and level (see referrals.ts)
+        CREATE TABLE IF NOT EXISTS escrow_referrals (
+          escrow_id TEXT NOT NULL,
+          agent_id TEXT NOT NULL,
+          side TEXT NOT NULL,
+          level INTEGER NOT NULL,
+          share_bps INTEGER NOT NULL,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          PRIMARY KEY (escrow_id, side, level)
+        );
+        CREATE INDEX IF NOT EXISTS idx_escrow_referrals_agent ON escrow_referrals(agent_id, created_at);
+
+        -- Until now only the creator's referrer was credited, at the schedule's share
+        INSERT OR IGNORE INTO escrow_referrals (escrow_id, agent_id, side, level, share_bps, created_at)
+        SELECT id, referrer_id, 'creator', 1, COALESCE(json_extract(fee_schedule, '$.referral_share_bps'), 1500), created_at
+        FROM escrows WHERE referrer_id IS NOT NULL;
+      `),
+  },
+  {
+    version: 23,
+    name: "currencies",
+    up: (db) =>
+      db.exec(`
+        -- Every escrow is denominated in one currency (see currencies.ts); cross-currency
+        -- deals record the FX quote they were converted under
+        ALTER TABLE escrows ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+        ALTER TABLE escrows ADD COLUMN fx_quote TEXT;
+        ALTER TABLE recurring_escrows ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+        -- Settlements are applied by the currency's provider; ledger balances are per currency
+        ALTER TABLE settlements ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+        ALTER TABLE escrow_ledger ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+
+        -- Public totals are kept per currency; the single row becomes the USD row
+        CREATE TABLE escrow_currency_stats (
+          currency TEXT PRIMARY KEY,
+          total_created INTEGER NOT NULL DEFAULT 0,
+          total_released INTEGER NOT NULL DEFAULT 0,
+          total_disputed INTEGER NOT NULL DEFAULT 0,
+          total_volume_micros INTEGER NOT NULL DEFAULT 0,
+          total_commission_micros INTEGER NOT NULL DEFAULT 0
+        );
+        INSERT INTO escrow_currency_stats (currency, total_created, total_released, total_disputed, total_volume_micros, total_commission_micros)
+        SELECT 'USD', total_created, total_released, total_disputed, total_volume_micros, total_commission_micros FROM escrow_stats WHERE id = 1;
+        INSERT OR IGNORE INTO escrow_currency_stats (currency) VALUES ('USD');
+        DROP TABLE escrow_stats;
+        ALTER TABLE escrow_currency_stats RENAME TO escrow_stats;
+      `),
+  },
+  {
+    version: 24,
+    name: "lock_origin",
+    up: (db) =>
+      db.exec(`
+        -- A lock either creates its escrow or funds an offer that already exists;
+        -- the reconciler needs to know which to tell whether it finished
+        ALTER TABLE settlements ADD COLUMN origin TEXT;
+        UPDATE settlements SET origin = CASE
+          WHEN EXISTS (
+            SELECT 1 FROM escrows e WHERE e.id = settlements.escrow_id
+              AND (e.accepted_at IS NOT NULL OR e.status IN ('offered', 'countered'))
+          ) THEN 'accept'
+          ELSE 'create'
+        END
+        WHERE kind = 'lock';
+      `),
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ─── Runner ───
+function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      adopted INTEGER NOT NULL DEFAULT 0,
+      applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+}
+
+function appliedVersions(db: Database): { version: number; name: string }[] {
+  if (!hasTable(db, "schema_migrations")) return [];
+  return db.prepare("SELECT version, name FROM schema_migrations ORDER BY version ASC").all() as {
+    version: number;
+    name: string;
+  }[];
+}
+
+/** Works out what would run, without changing anything. Throws MigrationError on an unknown or diverged DB. */
+export function planMigrations(db: Database): MigrationPlan {
+  const applied = appliedVersions(db);
+  const known = new Map(MIGRATIONS.map((m) => [m.version, m]));
+
+  for (const row of applied) {
+    const migration = known.get(row.version);
+    if (!migration) {
+      throw new MigrationError(
+        `escrow.db is at schema version ${row.version} but this build only knows up to ${LATEST_VERSION} — refusing to start. Deploy a newer build.`
+      );
+    }
+    if (migration.name !== row.name) {
+      throw new MigrationError(`Schema version ${row.version} is recorded as '${row.name}' but this build calls it '${migration.name}'`);
+    }
+  }
+
+  const current = applied.length ? applied[applied.length - 1].version : 0;
+  let remaining = MIGRATIONS.filter((m) => m.version > current);
+
+  // Unversioned database from before migrations: adopt the prefix that is already in place
+  const adopt: Migration[] = [];
+  if (applied.length === 0) {
+    for (const migration of remaining) {
+      if (!migration.alreadyApplied?.(db)) break;
+      adopt.push(migration);
+    }
+    remaining = remaining.slice(adopt.length);
+  }
+
+  return { current, latest: LATEST_VERSION, pending: remaining, adopt };
+}
+
+function record(db: Database, migration: Migration, adopted: boolean): void {
+  db.prepare("INSERT INTO schema_migrations (version, name, adopted) VALUES (?, ?, ?)").run(
+    migration.version,
+    migration.name,
+    adopted ? 1 : 0
+  );
+}
+
+/**
+ * Brings the database up to LATEST_VERSION. With `dryRun`, every pending
+ * migration is executed inside a transaction that is then rolled back, so
+ * the SQL is proven against the real data without changing it.
+ */
+export function runMigrations(db: Database, opts: { dryRun?: boolean; log?: (line: string) => void } = {}): MigrationPlan {
+  const log = opts.log ?? ((line: string) => console.log(`[migrations] ${line}`));
+  const plan = planMigrations(db);
+  if (plan.adopt.length === 0 && plan.pending.length === 0) return plan;
+
+  const apply = db.transaction(() => {
+    ensureMigrationsTable(db);
+    for (const migration of plan.adopt) {
+      record(db, migration, true);
+      log(`${opts.dryRun ? "would adopt" : "adopted"} ${migration.version} ${migration.name} (already present)`);
+    }
+  });
+
+  if (opts.dryRun) {
+    const rehearse = db.transaction(() => {
+      apply();
+      for (const migration of plan.pending) {
+        migration.up(db);
+        record(db, migration, false);
+        log(`would apply ${migration.version} ${migration.name}`);
+      }
+      throw new DryRunRollback();
+    });
+    try {
+      rehearse();
+    } catch (err) {
+      if (!(err instanceof DryRunRollback)) throw err;
+    }
+    log(`dry run: ${plan.pending.length} migration(s) would be applied — nothing was changed`);
+    return plan;
+  }
+
+  apply();
+  for (const migration of plan.pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record(db, migration, false);
+    })();
+    log(`applied ${migration.version} ${migration.name}`);
+  }
+  return plan;
+}
@@ -0,0 +1,88 @@
+/**
+ * Money arithmetic in integer micro-dollars (1 USD = 1,000,000 micros).
+ *
+ * Escrows in another currency (see currencies.ts) use millionths of that
+ * currency's unit the same way; an amount is only meaningful next to its
+ * escrow's currency.
+ *
+ * Every amount is stored and computed as an integer number of micros; USD
+ * floats exist only at the edges — parsing request input, rendering responses
+ * and the casino's REAL balance columns. Rates are integer basis points and
+ * every division rounds in an explicitly named direction, so a payout split
+ * always sums back to the amount it was split from.
+ */
+
+export type Micros = number;
+
+export const MICROS_PER_USD = 1_000_000;
+const BPS_PER_UNIT = 10_000;
+const PPM_PER_PERCENT = 10_000;
+// Exchange rates carry up to eight decimals
+const FX_RATE_SCALE = 100_000_000;
+
+export type Rounding = "half_up" | "down";
+
+/** Converts a USD float to micros, rounding half away from zero. */
+export function usdToMicros(usd: number): Micros {
+  if (!Number.isFinite(usd)) return NaN;
+  return Math.sign(usd) * Math.round(Math.abs(usd) * MICROS_PER_USD);
+}
+
+export function microsToUsd(micros: Micros): number {
+  return micros / MICROS_PER_USD;
+}
+
+/** "$12.34" for human-readable messages; responses carry the exact value. */
+export function formatUsd(micros: Micros): string {
+  return `$${microsToUsd(micros).toFixed(2)}`;
+}
+
+/** "$12.34" for USD, "12.34 USDC" for any other currency. */
+export function formatMoney(micros: Micros, currency: string): string {
+  return currency === "USD" ? formatUsd(micros) : `${microsToUsd(micros).toFixed(2)} ${currency}`;
+}
+
+// BigInt keeps value * numerator exact beyond 2^53
+function mulDiv(value: Micros, numerator: number, denominator: number, rounding: Rounding): Micros {
+  const product = BigInt(value) * BigInt(numerator);
+  const d = BigInt(denominator);
+  const quotient = rounding === "half_up" ? (product * 2n + d) / (d * 2n) : product / d;
+  return Number(quotient);
+}
+
+/** `value × bps / 10,000` — e.g. bpsOf(amount, 100, "half_up") is 1% rounded half-up. */
+export function bpsOf(value: Micros, bps: number, rounding: Rounding): Micros {
+  return mulDiv(value, bps, BPS_PER_UNIT, rounding);
+}
+
+/** `value × pct / 100` for a percentage with up to four decimals (e.g. 33.3333). */
+export function percentOf(value: Micros, pct: number, rounding: Rounding): Micros {
+  return mulDiv(value, Math.round(pct * PPM_PER_PERCENT), 100 * PPM_PER_PERCENT, rounding);
+}
+
+/** `value × rate` for an exchange rate with up to eight decimals. */
+export function convertAt(value: Micros, rate: number, rounding: Rounding): Micros {
+  return mulDiv(value, Math.round(rate * FX_RATE_SCALE), FX_RATE_SCALE, rounding);
+}
+
+/** Rounds a rate to the eight decimals convertAt works with. */
+export function roundRate(rate: number): number {
+  return Math.round(rate * FX_RATE_SCALE) / FX_RATE_SCALE;
+}
+
+export function sumMicros(values: Micros[]): Micros {
+  return values.reduce((sum, v) => sum + v, 0);
+}
+
+/** Published with money-bearing responses so clients can reproduce every figure. */
+export const ROUNDING_POLICY = {
+  unit: "Amounts are exact to the micro-unit of the escrow's currency (0.000001 USD); inputs are rounded half-up to that unit",
+  commission: "The escrow's fee_schedule rate (1% by default) of the amount, per milestone or per payee, rounded half-up",
+  fee_caps: "A total outside the schedule's min/max fee is clamped and spread over the parts pro rata, rounded down; the first part takes the remainder",
+  referral: "Each referrer's share (15% to the creator's referrer by default) of the commission, summed and rounded down; the house keeps the remainder",
+  referral_split: "A payout's referral amount is split between the escrow's referrers by share, rounded down; the first referrer receives the remainder",
+  net: "amount minus commission, exact",
+  payee_shares: "share_pct payee amounts are rounded down; the first payee receives the remainder",
+  fx: "With a quote_currency, each amount is converted at the locked rate (eight decimals) and rounded half-up",
+  split: "counterparty share and its commission are rounded half-up, its referral share down; the creator receives the exact remainder",
+} as const;
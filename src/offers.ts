@@ -0,0 +1,212 @@
+/**
+ * Escrow offers — the counterparty agrees to the terms before funds lock.
+ *
+ * An offer is an escrow row in status 'offered' that holds no money. Whoever's
+ * turn it is may accept (the creator is debited and the escrow becomes
+ * funded), reject, or counter with a different amount, description or timeout,
+ * which hands the turn to the other side ('countered' means the creator must
+ * answer). Offers nobody answers in time expire.
+ */
+import {
+  escrowDb,
+  insertEscrow,
+  markOfferAccepted,
+  markOfferCountered,
+  markOfferExpired,
+  markOfferRejected,
+  type Escrow,
+} from "./db.js";
+import { EscrowError } from "./errors.js";
+import {
+  planEscrow,
+  newEscrowId,
+  lockFunds,
+  loadEscrow,
+  netToCounterparty,
+  MIN_AMOUNT,
+  MIN_AMOUNT_MICROS,
+  MAX_TIMEOUT_HOURS,
+  type CreateEscrowInput,
+  type CreateEscrowOptions,
+  type CreateEscrowResult,
+} from "./escrow-service.js";
+import { commissionOf, redeemPromo, scheduleOf } from "./fees.js";
+import { getReferrals, referralOf } from "./referrals.js";
+import { usdToMicros } from "./money.js";
+import { minReputationOf, requireReputation } from "./reputation.js";
+
+// ─── Config ───
+export const DEFAULT_OFFER_EXPIRY_HOURS = 72;
+export const MAX_OFFER_EXPIRY_HOURS = 720;
+export const OFFER_STATUSES = ["offered", "countered", "rejected", "expired"] as const;
+
+// ─── Types ───
+export interface CreateOfferInput extends CreateEscrowInput {
+  // How long the other side has to answer
+  expiresInHours?: number;
+}
+
+export interface CounterOfferInput {
+  amountUsd?: number;
+  description?: string;
+  timeoutHours?: number;
+  expiresInHours?: number;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function isOpenOffer(escrow: Escrow): escrow is Escrow & { status: "offered" | "countered" } {
+  return escrow.status === "offered" || escrow.status === "countered";
+}
+
+/** Who has to answer an open offer: the counterparty, or the creator after a counter. */
+export function awaitingParty(escrow: Escrow): string | null {
+  if (escrow.status === "offered") return escrow.counterparty_id;
+  if (escrow.status === "countered") return escrow.creator_id;
+  return null;
+}
+
+function expiryFrom(hours: number | undefined): number {
+  const h = hours ?? DEFAULT_OFFER_EXPIRY_HOURS;
+  if (!Number.isFinite(h) || h <= 0 || h > MAX_OFFER_EXPIRY_HOURS) {
+    throw new EscrowError("invalid_offer", `expires_in_hours must be greater than 0 and at most ${MAX_OFFER_EXPIRY_HOURS}`);
+  }
+  return Math.floor(Date.now() / 1000 + h * 3600);
+}
+
+// Loads an offer the actor is a party to and that can still be answered
+function loadOpenOffer(actorId: string, escrowId: string): Escrow & { status: "offered" | "countered" } {
+  const escrow = loadEscrow(escrowId);
+  if (escrow.creator_id !== actorId && escrow.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the creator and counterparty can act on an offer");
+  }
+  if (!isOpenOffer(escrow)) {
+    throw new EscrowError("invalid_status", `Escrow is not an open offer (status '${escrow.status}')`);
+  }
+  if (escrow.offer_expires_at !== null && escrow.offer_expires_at <= Math.floor(Date.now() / 1000)) {
+    markOfferExpired(escrow.id);
+    throw new EscrowError("invalid_status", "Offer has expired");
+  }
+  return escrow;
+}
+
+function requireTurn(escrow: Escrow, actorId: string): void {
+  if (awaitingParty(escrow) !== actorId) {
+    const side = escrow.status === "offered" ? "counterparty" : "creator";
+    throw new EscrowError("forbidden", `Waiting for the ${side} to answer this offer`);
+  }
+}
+
+// ─── Offer ───
+/** Proposes an escrow without locking funds. The creator must be able to fund it now. */
+export async function createOffer(creatorId: string, input: CreateOfferInput, opts: CreateEscrowOptions = {}): Promise<Escrow> {
+  if (input.milestones !== undefined || input.payees !== undefined || input.job !== undefined) {
+    throw new EscrowError("invalid_offer", "Offers name a single counterparty; milestones, payees and jobs are not supported");
+  }
+  const expiresAt = expiryFrom(input.expiresInHours);
+  const plan = await planEscrow(creatorId, input);
+  const escrowId = newEscrowId();
+  insertEscrow({ id: escrowId, ...plan, offer: { expiresAt, tokenId: opts.tokenId ?? null } });
+  return loadEscrow(escrowId);
+}
+
+// ─── Responses ───
+/**
+ * Accepts the current terms and locks the creator's funds. The spend cap of the
+ * token the creator acted with is charged: the accepting token when the creator
+ * accepts a counter, otherwise the one the offer was made with.
+ */
+export async function acceptOffer(actorId: string, escrowId: string, opts: CreateEscrowOptions = {}): Promise<CreateEscrowResult> {
+  const escrow = loadOpenOffer(actorId, escrowId);
+  requireTurn(escrow, actorId);
+
+  // The counterparty's reputation may have changed since the offer was made
+  requireReputation(minReputationOf(escrow), escrow.counterparty_id);
+
+  const tokenId = actorId === escrow.creator_id ? opts.tokenId : escrow.offer_token_id;
+  await lockFunds(escrow.id, escrow.creator_id, escrow.amount_micros, escrow.currency, tokenId, "accept", () => {
+    if (!markOfferAccepted(escrow.id, actorId, escrow.status)) {
+      throw new EscrowError("invalid_status", "Offer changed concurrently — fetch it again");
+    }
+    // A promo code is used up by the escrow it funds, not by the offer
+    redeemPromo(scheduleOf(escrow));
+  });
+
+  const funded = loadEscrow(escrowId);
+  return { escrow: funded, netMicros: netToCounterparty(funded) };
+}
+
+/** Declines the offer. Either party may do so at any time; for the creator this withdraws it. */
+export function rejectOffer(actorId: string, escrowId: string, reason?: string): Escrow {
+  const escrow = loadOpenOffer(actorId, escrowId);
+  const role = actorId === escrow.creator_id ? "creator" : "counterparty";
+  const trimmed = reason?.trim().slice(0, 500);
+  if (!markOfferRejected(escrow.id, actorId, `Rejected by ${role}${trimmed ? `: ${trimmed}` : ""}`)) {
+    throw new EscrowError("invalid_status", "Offer changed concurrently — fetch it again");
+  }
+  return loadEscrow(escrowId);
+}
+
+/** Proposes different terms; the other side then accepts, rejects or counters again. */
+export function counterOffer(actorId: string, escrowId: string, input: CounterOfferInput): Escrow {
+  const escrow = loadOpenOffer(actorId, escrowId);
+  requireTurn(escrow, actorId);
+
+  const amount = input.amountUsd === undefined ? escrow.amount_micros : usdToMicros(input.amountUsd);
+  if (!Number.isFinite(amount) || amount < MIN_AMOUNT_MICROS) {
+    throw new EscrowError("invalid_amount", `Minimum escrow amount is $${MIN_AMOUNT}`);
+  }
+  const description = input.description === undefined ? escrow.description : input.description.trim();
+  if (description.length < 3) {
+    throw new EscrowError("invalid_description", "description is required (min 3 chars)");
+  }
+  const timeoutHours = input.timeoutHours === undefined
+    ? escrow.timeout_hours
+    : Math.min(Math.max(1, Math.floor(input.timeoutHours)), MAX_TIMEOUT_HOURS);
+  if (!Number.isFinite(timeoutHours)) throw new EscrowError("invalid_offer", "timeout_hours must be a number");
+  if (amount === escrow.amount_micros && description === escrow.description && timeoutHours === escrow.timeout_hours) {
+    throw new EscrowError("invalid_offer", "A counter-offer must change the amount, description or timeout");
+  }
+
+  // A counter keeps the fee schedule the offer was made under
+  const schedule = scheduleOf(escrow);
+  const commissionMicros = commissionOf(amount, schedule);
+  const countered = markOfferCountered({
+    id: escrow.id,
+    actorId,
+    expectedStatus: escrow.status,
+    amountMicros: amount,
+    commissionMicros,
+    referralCommissionMicros: referralOf(commissionMicros, getReferrals(escrow.id)),
+    description,
+    timeoutHours,
+    expiresAt: expiryFrom(input.expiresInHours),
+  });
+  if (!countered) throw new EscrowError("invalid_status", "Offer changed concurrently — fetch it again");
+  return loadEscrow(escrowId);
+}
+
+// ─── Expiry ───
+export function expireOffers(): void {
+  const stale = escrowDb.prepare(
+    "SELECT id FROM escrows WHERE status IN ('offered', 'countered') AND offer_expires_at <= unixepoch()"
+  ).all() as { id: string }[];
+  let expired = 0;
+  for (const { id } of stale) if (markOfferExpired(id)) expired++;
+  if (expired) console.log(`[escrow] expired ${expired} unanswered offer(s)`);
+}
+
+// ─── Views ───
+/** Offer state, for escrows that started as an offer; null otherwise. */
+export function offerView(escrow: Escrow) {
+  const wasOffer = (OFFER_STATUSES as readonly string[]).includes(escrow.status) || escrow.accepted_at !== null;
+  if (!wasOffer) return null;
+  return {
+    status: isOpenOffer(escrow) ? "open" : escrow.accepted_at ? "accepted" : escrow.status,
+    awaiting_agent_id: awaitingParty(escrow),
+    expires_at: isOpenOffer(escrow) || escrow.status === "expired" ? iso(escrow.offer_expires_at) : null,
+    accepted_at: iso(escrow.accepted_at),
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Recurring escrows — a template that funds one ordinary escrow per period.
+ *
+ * The creator fixes the amount, counterparty and period, and either a number
+ * of cycles or an end date. The first cycle is funded on creation; the
+ * scheduler in jobs.ts funds each later one from the creator's balance when
+ * it falls due. Every cycle is a normal escrow (recurring_id + recurring_cycle)
+ * that is completed and released on its own.
+ *
+ * A cycle that cannot be funded — not enough balance, a revoked token, a
+ * counterparty who no longer qualifies — pauses the template and notifies both
+ * parties through a recurring_paused event on the latest cycle. The creator
+ * resumes it once the problem is fixed. Cancelling stops future cycles; ones
+ * already funded run their course.
+ */
+import { randomUUID } from "crypto";
+import { escrowDb, recordEvent, type Escrow, type TimeoutPolicy } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { isTokenActive } from "./api-tokens.js";
+import {
+  createEscrow,
+  planEscrow,
+  MAX_TIMEOUT_HOURS,
+  type CreateEscrowInput,
+  type CreateEscrowOptions,
+} from "./escrow-service.js";
+import { formatMoney, microsToUsd, type Micros } from "./money.js";
+
+// ─── Config ───
+export const MIN_PERIOD_HOURS = 1;
+export const MAX_PERIOD_HOURS = 24 * 365;
+export const MAX_CYCLES = 1000;
+const MAX_RECURRING_PER_AGENT = 50;
+
+// ─── Types ───
+export type RecurringStatus = "active" | "paused" | "cancelled" | "finished";
+
+export interface RecurringEscrow {
+  id: string;
+  creator_id: string;
+  counterparty_id: string;
+  amount_micros: Micros;
+  currency: string;
+  description: string;
+  period_hours: number;
+  timeout_hours: number;
+  timeout_policy: TimeoutPolicy;
+  arbiter_id: string | null;
+  referral_code: string | null;
+  // Token the template was created with; every cycle counts against its spending cap
+  token_id: string | null;
+  cycles_total: number | null;
+  ends_at: number | null;
+  cycles_funded: number;
+  status: RecurringStatus;
+  pause_reason: string | null;
+  next_cycle_at: number;
+  created_at: number;
+  cancelled_at: number | null;
+}
+
+export interface CreateRecurringInput {
+  amountUsd?: number;
+  description: string | undefined;
+  counterpartyId: string | undefined;
+  periodHours?: number;
+  // One or both: stop after this many cycles, or fund no cycle on or after this time
+  cycles?: number;
+  endsAt?: string;
+  // Per cycle; defaults to the period
+  timeoutHours?: number;
+  timeoutPolicy?: string;
+  arbiterId?: string;
+  referralCode?: string;
+  // Every cycle is funded in this currency; USD if omitted
+  currency?: string;
+}
+
+export interface CreateRecurringResult {
+  recurring: RecurringEscrow;
+  firstCycle: Escrow;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function invalid(message: string): never {
+  throw new EscrowError("invalid_recurring", message);
+}
+
+export function getRecurring(id: string): RecurringEscrow | null {
+  return (escrowDb.prepare("SELECT * FROM recurring_escrows WHERE id = ?").get(id) as RecurringEscrow | undefined) ?? null;
+}
+
+function loadRecurring(id: string): RecurringEscrow {
+  const recurring = getRecurring(id);
+  if (!recurring) throw new EscrowError("not_found", "Recurring escrow not found");
+  return recurring;
+}
+
+export function getCycles(recurringId: string): Escrow[] {
+  return escrowDb.prepare("SELECT * FROM escrows WHERE recurring_id = ? ORDER BY recurring_cycle ASC").all(recurringId) as Escrow[];
+}
+
+// The terms each cycle escrow is created with
+function cycleInput(recurring: RecurringEscrow, cycle: number): CreateEscrowInput {
+  const of = recurring.cycles_total ? `${cycle}/${recurring.cycles_total}` : `${cycle}`;
+  return {
+    amountUsd: microsToUsd(recurring.amount_micros),
+    currency: recurring.currency,
+    description: `${recurring.description} (cycle ${of})`,
+    counterpartyId: recurring.counterparty_id,
+    timeoutHours: recurring.timeout_hours,
+    timeoutPolicy: recurring.timeout_policy,
+    arbiterId: recurring.arbiter_id ?? undefined,
+    referralCode: recurring.referral_code ?? undefined,
+  };
+}
+
+// Keeps the cadence, but after a pause or downtime starts again from now rather than catching up
+function nextCycleAt(recurring: RecurringEscrow, at: number): number {
+  const next = recurring.next_cycle_at + recurring.period_hours * 3600;
+  return next > at ? next : at + recurring.period_hours * 3600;
+}
+
+// Notifications go out as an event on the latest cycle, so both parties' webhooks see them
+function notify(recurringId: string, event: string, actorId: string | null, note: string): void {
+  const latest = escrowDb.prepare(
+    "SELECT id FROM escrows WHERE recurring_id = ? ORDER BY recurring_cycle DESC LIMIT 1"
+  ).get(recurringId) as { id: string } | undefined;
+  if (latest) recordEvent(latest.id, event, actorId, note);
+}
+
+// ─── Create ───
+/** Sets up the template and funds its first cycle straight away. */
+export async function createRecurring(
+  creatorId: string,
+  input: CreateRecurringInput,
+  opts: CreateEscrowOptions = {}
+): Promise<CreateRecurringResult> {
+  const periodHours = input.periodHours;
+  if (!Number.isInteger(periodHours) || periodHours! < MIN_PERIOD_HOURS || periodHours! > MAX_PERIOD_HOURS) {
+    invalid(`period_hours must be a whole number from ${MIN_PERIOD_HOURS} to ${MAX_PERIOD_HOURS}`);
+  }
+  if (input.cycles === undefined && input.endsAt === undefined) invalid("Give cycles, ends_at or both");
+  if (input.cycles !== undefined && (!Number.isInteger(input.cycles) || input.cycles < 1 || input.cycles > MAX_CYCLES)) {
+    invalid(`cycles must be a whole number from 1 to ${MAX_CYCLES}`);
+  }
+  let endsAt: number | null = null;
+  if (input.endsAt !== undefined) {
+    const ms = Date.parse(input.endsAt);
+    if (!Number.isFinite(ms)) invalid("ends_at must be an ISO 8601 date");
+    endsAt = Math.floor(ms / 1000);
+    if (endsAt <= now()) invalid("ends_at must be in the future");
+  }
+  const { count } = escrowDb.prepare(
+    "SELECT COUNT(*) AS count FROM recurring_escrows WHERE creator_id = ? AND status IN ('active', 'paused')"
+  ).get(creatorId) as { count: number };
+  if (count >= MAX_RECURRING_PER_AGENT) invalid(`At most ${MAX_RECURRING_PER_AGENT} active or paused recurring escrows per agent`);
+
+  const timeoutHours = Math.min(Math.max(1, Math.floor(input.timeoutHours ?? periodHours!)), MAX_TIMEOUT_HOURS);
+  // Validates the per-cycle terms (and that the first cycle can be funded) before anything is written
+  const plan = await planEscrow(creatorId, {
+    amountUsd: input.amountUsd,
+    description: input.description,
+    counterpartyId: input.counterpartyId,
+    timeoutHours,
+    timeoutPolicy: input.timeoutPolicy,
+    arbiterId: input.arbiterId,
+    referralCode: input.referralCode,
+    currency: input.currency,
+  });
+
+  const id = `rec_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.prepare(`
+    INSERT INTO recurring_escrows (id, creator_id, counterparty_id, amount_micros, currency, description, period_hours, timeout_hours, timeout_policy,
+      arbiter_id, referral_code, token_id, cycles_total, ends_at, next_cycle_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    creatorId,
+    plan.counterpartyId,
+    plan.amountMicros,
+    plan.currency,
+    plan.description,
+    periodHours,
+    timeoutHours,
+    plan.timeoutPolicy,
+    plan.arbiterId ?? null,
+    input.referralCode?.trim() || null,
+    opts.tokenId ?? null,
+    input.cycles ?? null,
+    endsAt,
+    now()
+  );
+
+  const first = await fundCycle(loadRecurring(id), { throwOnFailure: true }).catch((err) => {
+    // Nothing was funded, so the template never existed as far as anyone can tell
+    escrowDb.prepare("DELETE FROM recurring_escrows WHERE id = ?").run(id);
+    throw err;
+  });
+  return { recurring: loadRecurring(id), firstCycle: first! };
+}
+
+// ─── Scheduler ───
+function finish(recurring: RecurringEscrow, note: string): void {
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE recurring_escrows SET status = 'finished' WHERE id = ? AND status = 'active'"
+    ).run(recurring.id);
+    if (result.changes) notify(recurring.id, "recurring_finished", null, note);
+  })();
+}
+
+function pause(recurring: RecurringEscrow, reason: string, actorId: string | null): boolean {
+  return escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE recurring_escrows SET status = 'paused', pause_reason = ? WHERE id = ? AND status = 'active'"
+    ).run(reason, recurring.id);
+    if (result.changes) notify(recurring.id, "recurring_paused", actorId, `Recurring escrow ${recurring.id} paused: ${reason}`);
+    return result.changes > 0;
+  })();
+}
+
+/**
+ * Funds the next cycle of an active template. The cycle is claimed first, so a
+ * scheduler run and a resume cannot both fund it. Failures the creator can fix
+ * pause the template; anything else is left to be retried on the next run.
+ */
+async function fundCycle(recurring: RecurringEscrow, opts: { throwOnFailure?: boolean } = {}): Promise<Escrow | null> {
+  const at = now();
+  if (recurring.ends_at !== null && at >= recurring.ends_at) {
+    finish(recurring, `Recurring escrow ${recurring.id} ended after ${recurring.cycles_funded} cycle(s)`);
+    return null;
+  }
+  const cycle = recurring.cycles_funded + 1;
+  const next = nextCycleAt(recurring, at);
+  const claimed = escrowDb.prepare(`
+    UPDATE recurring_escrows SET cycles_funded = ?, next_cycle_at = ?
+    WHERE id = ? AND status = 'active' AND cycles_funded = ?
+  `).run(cycle, next, recurring.id, recurring.cycles_funded);
+  if (claimed.changes === 0) return null;
+
+  let escrow: Escrow;
+  try {
+    if (recurring.token_id && !isTokenActive(recurring.token_id)) {
+      throw new EscrowError("unauthorized", "The escrow token this recurring escrow was created with is revoked or expired");
+    }
+    ({ escrow } = await createEscrow(recurring.creator_id, cycleInput(recurring, cycle), {
+      tokenId: recurring.token_id ?? undefined,
+      recurring: { id: recurring.id, cycle },
+    }));
+  } catch (err: any) {
+    escrowDb.prepare(
+      "UPDATE recurring_escrows SET cycles_funded = ?, next_cycle_at = ? WHERE id = ? AND cycles_funded = ?"
+    ).run(recurring.cycles_funded, recurring.next_cycle_at, recurring.id, cycle);
+    if (opts.throwOnFailure) throw err;
+    if (err instanceof EscrowError && err.code !== "internal_error" && err.code !== "debit_failed") {
+      pause(recurring, `Cycle ${cycle} could not be funded: ${err.message}`, null);
+      console.log(`[escrow] recurring ${recurring.id} paused: ${err.message}`);
+    } else {
+      console.error(`[escrow] recurring ${recurring.id} cycle ${cycle} failed, will retry:`, err?.message);
+    }
+    return null;
+  }
+
+  const done = (recurring.cycles_total !== null && cycle >= recurring.cycles_total) ||
+    (recurring.ends_at !== null && next >= recurring.ends_at);
+  if (done) finish(recurring, `Recurring escrow ${recurring.id} finished after ${cycle} cycle(s)`);
+  return escrow;
+}
+
+export async function processRecurring(): Promise<void> {
+  const due = escrowDb.prepare(
+    "SELECT * FROM recurring_escrows WHERE status = 'active' AND next_cycle_at <= unixepoch() ORDER BY next_cycle_at ASC"
+  ).all() as RecurringEscrow[];
+  for (const recurring of due) {
+    const escrow = await fundCycle(recurring);
+    if (escrow) console.log(`[escrow] recurring ${recurring.id} funded cycle ${escrow.recurring_cycle}: ${escrow.id} (${formatMoney(escrow.amount_micros, escrow.currency)})`);
+  }
+}
+
+// ─── Controls ───
+function requireCreator(recurring: RecurringEscrow, actorId: string, action: string): void {
+  if (recurring.creator_id !== actorId) throw new EscrowError("forbidden", `Only the creator can ${action} a recurring escrow`);
+}
+
+/** Stops funding new cycles until resumed. */
+export function pauseRecurring(actorId: string, id: string): RecurringEscrow {
+  const recurring = loadRecurring(id);
+  requireCreator(recurring, actorId, "pause");
+  if (recurring.status !== "active") throw new EscrowError("invalid_status", `Recurring escrow is ${recurring.status}`);
+  if (!pause(recurring, "Paused by the creator", actorId)) {
+    throw new EscrowError("invalid_status", "Recurring escrow changed concurrently — fetch it again");
+  }
+  return loadRecurring(id);
+}
+
+/** Reactivates a paused template and funds any cycle that fell due meanwhile. */
+export async function resumeRecurring(actorId: string, id: string): Promise<RecurringEscrow> {
+  const recurring = loadRecurring(id);
+  requireCreator(recurring, actorId, "resume");
+  if (recurring.status !== "paused") throw new EscrowError("invalid_status", `Recurring escrow is ${recurring.status}, not paused`);
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE recurring_escrows SET status = 'active', pause_reason = NULL WHERE id = ? AND status = 'paused'"
+    ).run(id);
+    if (result.changes === 0) throw new EscrowError("invalid_status", "Recurring escrow changed concurrently — fetch it again");
+    notify(id, "recurring_resumed", actorId, `Recurring escrow ${id} resumed`);
+  })();
+
+  const resumed = loadRecurring(id);
+  if (resumed.next_cycle_at <= now()) await fundCycle(resumed);
+  return loadRecurring(id);
+}
+
+/** Stops the template for good. Either party may cancel; cycles already funded are unaffected. */
+export function cancelRecurring(actorId: string, id: string): RecurringEscrow {
+  const recurring = loadRecurring(id);
+  if (recurring.creator_id !== actorId && recurring.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the creator and counterparty can cancel a recurring escrow");
+  }
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE recurring_escrows SET status = 'cancelled', cancelled_at = unixepoch() WHERE id = ? AND status IN ('active', 'paused')"
+    ).run(id);
+    if (result.changes === 0) throw new EscrowError("invalid_status", `Recurring escrow is already ${recurring.status}`);
+    const role = actorId === recurring.creator_id ? "creator" : "counterparty";
+    notify(id, "recurring_cancelled", actorId, `Recurring escrow ${id} cancelled by the ${role}`);
+  })();
+  return loadRecurring(id);
+}
+
+// ─── Queries ───
+export function getRecurringFor(actorId: string, id: string): RecurringEscrow {
+  const recurring = loadRecurring(id);
+  if (recurring.creator_id !== actorId && recurring.counterparty_id !== actorId) {
+    throw new EscrowError("forbidden", "Only the creator and counterparty can view a recurring escrow");
+  }
+  return recurring;
+}
+
+/** Templates the agent pays or is paid by, newest first. */
+export function listRecurring(agentId: string, status?: string): RecurringEscrow[] {
+  const statuses: RecurringStatus[] = ["active", "paused", "cancelled", "finished"];
+  if (status !== undefined && !statuses.includes(status as RecurringStatus)) {
+    throw new EscrowError("invalid_query", `status must be one of: ${statuses.join(", ")}`);
+  }
+  return escrowDb.prepare(`
+    SELECT * FROM recurring_escrows
+    WHERE (creator_id = ? OR counterparty_id = ?) ${status ? "AND status = ?" : ""}
+    ORDER BY created_at DESC, id DESC
+  `).all(agentId, agentId, ...(status ? [status] : [])) as RecurringEscrow[];
+}
+
+// ─── Views ───
+export function recurringView(recurring: RecurringEscrow) {
+  return {
+    recurring_id: recurring.id,
+    status: recurring.status,
+    creator_id: recurring.creator_id,
+    counterparty_id: recurring.counterparty_id,
+    currency: recurring.currency,
+    amount_usd: microsToUsd(recurring.amount_micros),
+    description: recurring.description,
+    period_hours: recurring.period_hours,
+    timeout_hours: recurring.timeout_hours,
+    timeout_policy: recurring.timeout_policy,
+    cycles_total: recurring.cycles_total,
+    cycles_funded: recurring.cycles_funded,
+    ends_at: iso(recurring.ends_at),
+    next_cycle_at: recurring.status === "active" ? iso(recurring.next_cycle_at) : null,
+    pause_reason: recurring.pause_reason,
+    created_at: iso(recurring.created_at),
+    cancelled_at: iso(recurring.cancelled_at),
+  };
+}
+
+export function cycleView(escrow: Escrow) {
+  return {
+    cycle: escrow.recurring_cycle,
+    escrow_id: escrow.id,
+    status: escrow.status,
+    amount_usd: microsToUsd(escrow.amount_micros),
+    created_at: iso(escrow.created_at),
+    auto_release_at: iso(escrow.auto_release_at),
+  };
+}
+
+/** Link from a cycle escrow back to its template; null for other escrows. */
+export function recurringLinkView(escrow: Escrow) {
+  if (!escrow.recurring_id) return null;
+  return { recurring_id: escrow.recurring_id, cycle: escrow.recurring_cycle };
+}
@@ -0,0 +1,344 @@
+/**
+ * Referral attribution — who earns a share of an escrow's commission.
+ *
+ * When an escrow is created its referrers are worked out and recorded:
+ *
+ *   creator side       the creator's referrer (or the referral code given),
+ *                      then that agent's referrer, and so on up the chain
+ *   counterparty side  the agent who referred the worker, and up from there
+ *
+ * Each level earns its own share of the commission, configured in basis
+ * points per level (REFERRAL_LEVELS_BPS, default "1500" — 15% to the
+ * creator's referrer only; COUNTERPARTY_REFERRAL_LEVELS_BPS, default "500").
+ * An agent is credited at most once per escrow, never on its own escrow, and
+ * the chain stops at a loop. Multi-party escrows credit the creator side only;
+ * an open job gains its counterparty side when a worker is assigned.
+ *
+ * Each part's referral total is stored with it as before; at payout it is
+ * split between the escrow's referrers in proportion to their shares.
+ */
+import { escrowDb, getMilestones, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { balanceProvider } from "./balance-provider.js";
+import { parseCurrency } from "./currencies.js";
+import { bpsOf, microsToUsd, sumMicros, type Micros } from "./money.js";
+import type { SettlementLeg } from "./settlement.js";
+
+// ─── Config ───
+export const MAX_REFERRAL_LEVELS = 5;
+export const CREATOR_REFERRAL_LEVELS_BPS = parseLevels("REFERRAL_LEVELS_BPS", "1500");
+export const COUNTERPARTY_REFERRAL_LEVELS_BPS = parseLevels("COUNTERPARTY_REFERRAL_LEVELS_BPS", "500");
+export const EARNINGS_INTERVALS = ["day", "week", "month"] as const;
+export const EARNINGS_DEFAULT_LIMIT = 50;
+export const EARNINGS_MAX_LIMIT = 200;
+
+if (sumMicros([...CREATOR_REFERRAL_LEVELS_BPS, ...COUNTERPARTY_REFERRAL_LEVELS_BPS]) > 10_000) {
+  throw new Error("REFERRAL_LEVELS_BPS and COUNTERPARTY_REFERRAL_LEVELS_BPS together exceed 100% of the commission");
+}
+
+// "1500,500" → [1500, 500]; "" or "0" turns the side off
+function parseLevels(name: string, fallback: string): number[] {
+  const raw = (process.env[name] ?? fallback).trim();
+  const levels = raw === "" ? [] : raw.split(",").map((v) => parseInt(v.trim(), 10));
+  if (levels.length > MAX_REFERRAL_LEVELS || levels.some((bps) => !Number.isInteger(bps) || bps < 0 || bps > 10_000)) {
+    throw new Error(`${name} must be up to ${MAX_REFERRAL_LEVELS} comma-separated basis points (0-10000)`);
+  }
+  while (levels.length && levels[levels.length - 1] === 0) levels.pop();
+  return levels;
+}
+
+// ─── Types ───
+export type ReferralSide = "creator" | "counterparty";
+export type EarningsInterval = (typeof EARNINGS_INTERVALS)[number];
+
+export interface EscrowReferral {
+  escrow_id: string;
+  agent_id: string;
+  side: ReferralSide;
+  level: number;
+  share_bps: number;
+  created_at: number;
+}
+
+export type ReferralLink = Pick<EscrowReferral, "agent_id" | "side" | "level" | "share_bps">;
+
+export interface EscrowEarning {
+  referral: EscrowReferral;
+  escrow: Escrow;
+  earnedMicros: Micros;
+  pendingMicros: Micros;
+  lastPaidAt: number | null;
+}
+
+export interface ReferralEarnings {
+  agentId: string;
+  currency: string;
+  earnedMicros: Micros;
+  pendingMicros: Micros;
+  byLevel: { side: ReferralSide; level: number; escrows: number; earnedMicros: Micros; pendingMicros: Micros }[];
+  series: { period: string; earnedMicros: Micros; payouts: number }[];
+  escrows: EscrowEarning[];
+  nextCursor: string | null;
+}
+
+// Statuses in which referral commission may still be paid out
+const OPEN_STATUSES: Escrow["status"][] = ["open", "funded", "completed", "disputed"];
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+// Accepts unix seconds or anything Date can parse (ISO 8601)
+function parseTime(value: string | undefined, field: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new EscrowError("invalid_query", `${field} must be an ISO 8601 date or unix seconds`);
+  return Math.floor(ms / 1000);
+}
+
+// ─── Attribution ───
+/** Walks one side's referral chain. `seen` holds agents that cannot be credited; it is extended with each link. */
+async function walkChain(side: ReferralSide, first: string | null, levels: number[], seen: Set<string>): Promise<ReferralLink[]> {
+  const links: ReferralLink[] = [];
+  const visited = new Set<string>();
+  let agentId = first;
+  for (let level = 1; level <= levels.length && agentId && !visited.has(agentId); level++) {
+    visited.add(agentId);
+    if (!seen.has(agentId) && levels[level - 1] > 0) {
+      links.push({ agent_id: agentId, side, level, share_bps: levels[level - 1] });
+      seen.add(agentId);
+    }
+    agentId = level < levels.length ? (await balanceProvider.getAgent(agentId))?.referredBy ?? null : null;
+  }
+  return links;
+}
+
+/**
+ * The referrers of a new escrow. `referrerId` is the creator's level-1
+ * referrer as already resolved (referral code or referred_by); the
+ * counterparty side is walked from the worker's own referred_by.
+ */
+export async function resolveReferrals(creatorId: string, referrerId: string | null, counterpartyId: string | null): Promise<ReferralLink[]> {
+  const seen = new Set([creatorId]);
+  const creatorSide = await walkChain("creator", referrerId, CREATOR_REFERRAL_LEVELS_BPS, seen);
+  if (!counterpartyId) return creatorSide;
+  return [...creatorSide, ...(await counterpartyReferrals(counterpartyId, seen))];
+}
+
+async function counterpartyReferrals(counterpartyId: string, seen: Set<string>): Promise<ReferralLink[]> {
+  if (COUNTERPARTY_REFERRAL_LEVELS_BPS.length === 0) return [];
+  seen.add(counterpartyId);
+  const worker = await balanceProvider.getAgent(counterpartyId);
+  return walkChain("counterparty", worker?.referredBy ?? null, COUNTERPARTY_REFERRAL_LEVELS_BPS, seen);
+}
+
+/** The counterparty side for a job's worker, who was not known when the job was posted. */
+export async function workerReferrals(escrow: Escrow, workerId: string): Promise<ReferralLink[]> {
+  const seen = new Set([escrow.creator_id, ...getReferrals(escrow.id).map((r) => r.agent_id)]);
+  return counterpartyReferrals(workerId, seen);
+}
+
+/**
+ * Adds a job worker's referrers and reprices the referral totals of the
+ * escrow and its milestones. Run inside the transaction that assigns the job.
+ */
+export function attributeWorker(escrowId: string, links: ReferralLink[]): void {
+  if (links.length === 0) return;
+  const insert = escrowDb.prepare("INSERT INTO escrow_referrals (escrow_id, agent_id, side, level, share_bps) VALUES (?, ?, ?, ?, ?)");
+  for (const link of links) insert.run(escrowId, link.agent_id, link.side, link.level, link.share_bps);
+  const referrals = getReferrals(escrowId);
+  const escrow = escrowDb.prepare("SELECT commission_micros FROM escrows WHERE id = ?").get(escrowId) as { commission_micros: Micros };
+  escrowDb.prepare("UPDATE escrows SET referral_commission_micros = ? WHERE id = ?").run(referralOf(escrow.commission_micros, referrals), escrowId);
+  const update = escrowDb.prepare("UPDATE escrow_milestones SET referral_commission_micros = ? WHERE id = ?");
+  for (const m of getMilestones(escrowId)) update.run(referralOf(m.commission_micros, referrals), m.id);
+}
+
+export function getReferrals(escrowId: string): EscrowReferral[] {
+  return escrowDb.prepare(
+    "SELECT * FROM escrow_referrals WHERE escrow_id = ? ORDER BY side = 'counterparty', level"
+  ).all(escrowId) as EscrowReferral[];
+}
+
+// ─── Amounts ───
+/** The referrers' combined share of a commission, rounded down — the house keeps the remainder. */
+export function referralOf(commission: Micros, referrals: Pick<EscrowReferral, "share_bps">[]): Micros {
+  return bpsOf(commission, sumMicros(referrals.map((r) => r.share_bps)), "down");
+}
+
+// Rows from before attribution was recorded fall back to the escrow's referrer_id
+function referralsOf(escrow: Escrow): ReferralLink[] {
+  const rows = getReferrals(escrow.id);
+  if (rows.length || !escrow.referrer_id) return rows;
+  return [{ agent_id: escrow.referrer_id, side: "creator", level: 1, share_bps: 1 }];
+}
+
+/**
+ * Splits a referral amount between the referrers in proportion to their
+ * shares, rounded down, with the remainder to the first (the creator's
+ * level-1 referrer when there is one). The shares sum to exactly `amount`.
+ */
+export function splitReferral(referrals: ReferralLink[], amount: Micros): Micros[] {
+  if (referrals.length === 0 || amount <= 0) return referrals.map(() => 0);
+  const total = sumMicros(referrals.map((r) => r.share_bps));
+  const shares = referrals.map((r) => Number((BigInt(amount) * BigInt(r.share_bps)) / BigInt(total)));
+  shares[0] += amount - sumMicros(shares);
+  return shares;
+}
+
+// The creator's level-1 referrer keeps the original `_refcom` reference
+function referenceFor(link: ReferralLink, reference: string): string {
+  if (link.side === "creator") return link.level === 1 ? `${reference}_refcom` : `${reference}_l${link.level}_refcom`;
+  return `${reference}_cp${link.level}_refcom`;
+}
+
+/** Settlement legs paying `amount` of referral commission out to the escrow's referrers. */
+export function referralLegs(escrow: Escrow, amount: Micros, reference: string): SettlementLeg[] {
+  const referrals = referralsOf(escrow);
+  const shares = splitReferral(referrals, amount);
+  return referrals
+    .map((link, i) => ({
+      agentId: link.agent_id,
+      direction: "credit" as const,
+      amount: shares[i],
+      reason: `escrow_referral_commission: ${escrow.id}`,
+      reference: referenceFor(link, reference),
+    }))
+    .filter((leg) => leg.amount > 0);
+}
+
+// ─── Earnings ───
+/**
+ * What an agent has earned as a referrer: paid amounts come from the escrow
+ * ledger, pending ones are its split of what open escrows still hold for
+ * referrers. `from`/`to` bound the time series and the paid totals; the
+ * per-escrow list is newest first, keyset-paginated on escrow id. Amounts
+ * do not add up across currencies, so one currency is reported at a time.
+ */
+export function referralEarnings(
+  agentId: string,
+  input: { from?: string; to?: string; interval?: string; cursor?: string; limit?: number; currency?: string } = {}
+): ReferralEarnings {
+  const currency = parseCurrency(input.currency);
+  const interval = (input.interval ?? "day") as EarningsInterval;
+  if (!EARNINGS_INTERVALS.includes(interval)) {
+    throw new EscrowError("invalid_query", `interval must be one of: ${EARNINGS_INTERVALS.join(", ")}`);
+  }
+  const limit = input.limit ?? EARNINGS_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > EARNINGS_MAX_LIMIT) {
+    throw new EscrowError("invalid_query", `limit must be an integer between 1 and ${EARNINGS_MAX_LIMIT}`);
+  }
+  const from = parseTime(input.from, "from") ?? 0;
+  const to = parseTime(input.to, "to") ?? Number.MAX_SAFE_INTEGER;
+  const account = `agent:${agentId}`;
+
+  // Referral payouts to this agent, one row per leg
+  const paid = escrowDb.prepare(`
+    SELECT escrow_id, amount_micros, created_at FROM escrow_ledger
+    WHERE account = ? AND currency = ? AND entry_type = 'referral' AND direction = 'debit' AND created_at >= ? AND created_at < ?
+    ORDER BY created_at ASC, rowid ASC
+  `).all(account, currency, from, to) as { escrow_id: string; amount_micros: Micros; created_at: number }[];
+
+  const format = { day: "%Y-%m-%d", week: "%Y-W%W", month: "%Y-%m" }[interval];
+  const series = escrowDb.prepare(`
+    SELECT strftime(?, created_at, 'unixepoch') AS period, SUM(amount_micros) AS earned, COUNT(*) AS payouts FROM escrow_ledger
+    WHERE account = ? AND currency = ? AND entry_type = 'referral' AND direction = 'debit' AND created_at >= ? AND created_at < ?
+    GROUP BY period ORDER BY period ASC
+  `).all(format, account, currency, from, to) as { period: string; earned: Micros; payouts: number }[];
+
+  const referrals = escrowDb.prepare(`
+    SELECT r.* FROM escrow_referrals r JOIN escrows e ON e.id = r.escrow_id
+    WHERE r.agent_id = ? AND e.currency = ? ORDER BY r.created_at DESC, r.escrow_id DESC
+  `).all(agentId, currency) as EscrowReferral[];
+  const earnings = referrals.map((referral) => earningOn(referral, paid.filter((p) => p.escrow_id === referral.escrow_id)));
+
+  const byLevel = new Map<string, ReferralEarnings["byLevel"][number]>();
+  for (const e of earnings) {
+    const key = `${e.referral.side}:${e.referral.level}`;
+    const row = byLevel.get(key) ?? { side: e.referral.side, level: e.referral.level, escrows: 0, earnedMicros: 0, pendingMicros: 0 };
+    row.escrows++;
+    row.earnedMicros += e.earnedMicros;
+    row.pendingMicros += e.pendingMicros;
+    byLevel.set(key, row);
+  }
+
+  let page = earnings;
+  if (input.cursor) {
+    const at = earnings.findIndex((e) => e.escrow.id === input.cursor);
+    if (at < 0) throw new EscrowError("invalid_query", "cursor is malformed");
+    page = earnings.slice(at + 1);
+  }
+  return {
+    agentId,
+    currency,
+    earnedMicros: sumMicros(paid.map((p) => p.amount_micros)),
+    pendingMicros: sumMicros(earnings.map((e) => e.pendingMicros)),
+    byLevel: [...byLevel.values()].sort((a, b) => a.side.localeCompare(b.side) || a.level - b.level),
+    series: series.map((s) => ({ period: s.period, earnedMicros: s.earned, payouts: s.payouts })),
+    escrows: page.slice(0, limit),
+    nextCursor: page.length > limit ? page[limit - 1].escrow.id : null,
+  };
+}
+
+function earningOn(referral: EscrowReferral, paid: { amount_micros: Micros; created_at: number }[]): EscrowEarning {
+  const escrow = escrowDb.prepare("SELECT * FROM escrows WHERE id = ?").get(referral.escrow_id) as Escrow;
+  let pendingMicros = 0;
+  if (OPEN_STATUSES.includes(escrow.status)) {
+    // What referrers are still owed on this escrow, split the way it will be paid
+    const { paidOut } = escrowDb.prepare(`
+      SELECT COALESCE(SUM(amount_micros), 0) AS paidOut FROM escrow_ledger
+      WHERE escrow_id = ? AND entry_type = 'referral' AND direction = 'debit'
+    `).get(escrow.id) as { paidOut: Micros };
+    const links = referralsOf(escrow);
+    const shares = splitReferral(links, Math.max(0, escrow.referral_commission_micros - paidOut));
+    pendingMicros = shares[links.findIndex((l) => l.side === referral.side && l.level === referral.level)] ?? 0;
+  }
+  return {
+    referral,
+    escrow,
+    earnedMicros: sumMicros(paid.map((p) => p.amount_micros)),
+    pendingMicros,
+    lastPaidAt: paid.length ? paid[paid.length - 1].created_at : null,
+  };
+}
+
+// ─── Views ───
+export function referralEarningsView(e: ReferralEarnings) {
+  return {
+    agent_id: e.agentId,
+    currency: e.currency,
+    earned_usd: microsToUsd(e.earnedMicros),
+    pending_usd: microsToUsd(e.pendingMicros),
+    by_level: e.byLevel.map((l) => ({
+      side: l.side,
+      level: l.level,
+      escrows: l.escrows,
+      earned_usd: microsToUsd(l.earnedMicros),
+      pending_usd: microsToUsd(l.pendingMicros),
+    })),
+    series: e.series.map((s) => ({ period: s.period, earned_usd: microsToUsd(s.earnedMicros), payouts: s.payouts })),
+    escrows: e.escrows.map((x) => ({
+      escrow_id: x.escrow.id,
+      side: x.referral.side,
+      level: x.referral.level,
+      share_pct: x.referral.share_bps / 100,
+      status: x.escrow.status,
+      amount_usd: microsToUsd(x.escrow.amount_micros),
+      commission_usd: microsToUsd(x.escrow.commission_micros),
+      referral_commission_usd: microsToUsd(x.escrow.referral_commission_micros),
+      earned_usd: microsToUsd(x.earnedMicros),
+      pending_usd: microsToUsd(x.pendingMicros),
+      attributed_at: iso(x.referral.created_at),
+      last_paid_at: iso(x.lastPaidAt),
+    })),
+    next_cursor: e.nextCursor,
+  };
+}
+
+/** Referral shares configured for new escrows, for the docs endpoints. */
+export function referralLevelsView() {
+  return {
+    creator: CREATOR_REFERRAL_LEVELS_BPS.map((bps, i) => ({ level: i + 1, share_pct: bps / 100 })),
+    counterparty: COUNTERPARTY_REFERRAL_LEVELS_BPS.map((bps, i) => ({ level: i + 1, share_pct: bps / 100 })),
+  };
+}
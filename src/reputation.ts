@@ -0,0 +1,280 @@
+/**
+ * Agent reputation — metrics derived from escrow history.
+ *
+ * When an escrow reaches a final state (released, refunded or resolved) each
+ * party's counters in agent_reputation are updated in the same transaction as
+ * the event, so reputation never needs a full recompute. Workers (the
+ * counterparty or payees) are measured on completion, on-time completion and
+ * disputes; creators on disputes and how long they take to release completed
+ * work.
+ *
+ * The score is a decay-weighted average of per-escrow outcomes (1 = clean,
+ * 0 = not delivered), pulled towards a neutral prior so a single escrow does
+ * not make or break an agent. Older outcomes count for less: their weight
+ * halves every REPUTATION_HALF_LIFE_DAYS. Volume is counted in USD, at the
+ * rate in force when the escrow settles (see currencies.ts).
+ */
+import { escrowDb, getEscrow, getMilestones, getPayees, onEscrowEvent, type Escrow } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { microsToUsd, type Micros } from "./money.js";
+import { toUsd } from "./currencies.js";
+
+// ─── Config ───
+export const REPUTATION_HALF_LIFE_DAYS = Math.max(1, parseFloat(process.env.REPUTATION_HALF_LIFE_DAYS || "90"));
+const HALF_LIFE_SECONDS = REPUTATION_HALF_LIFE_DAYS * 86400;
+// A new agent scores PRIOR_SCORE, as if it had PRIOR_WEIGHT escrows of that quality
+const PRIOR_SCORE = 0.5;
+const PRIOR_WEIGHT = 2;
+const FINAL_EVENTS = new Set(["released", "refunded", "dispute_resolved"]);
+
+// ─── Types ───
+export interface AgentReputation {
+  agent_id: string;
+  worker_escrows: number;
+  worker_completed: number;
+  worker_on_time: number;
+  creator_escrows: number;
+  disputed: number;
+  volume_micros: Micros;
+  release_latency_seconds: number;
+  releases_timed: number;
+  // Decayed sums of outcome weights and outcome scores, as of decayed_at
+  score_weight: number;
+  score_sum: number;
+  decayed_at: number;
+  updated_at: number;
+}
+
+export interface MinReputationInput {
+  // Minimum score, 0-100
+  score?: number;
+  // Minimum number of escrows completed as a worker
+  completedEscrows?: number;
+}
+
+export interface MinReputation {
+  score: number | null;
+  completedEscrows: number | null;
+}
+
+// One party's contribution from a finished escrow
+interface Outcome {
+  role: "worker" | "creator";
+  completed: boolean;
+  onTime: boolean;
+  disputed: boolean;
+  amount: Micros;
+  // Seconds from the last completion to release, when the creator released completed work
+  releaseLatency: number | null;
+  quality: number;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+}
+
+function decay(seconds: number): number {
+  return Math.pow(0.5, Math.max(0, seconds) / HALF_LIFE_SECONDS);
+}
+
+// ─── Outcomes ───
+function outcomesOf(escrow: Escrow): Map<string, Outcome> {
+  const disputed = escrow.disputed_at !== null;
+  const released = escrow.status === "released";
+  const wonDispute = escrow.status === "resolved" && (escrow.dispute_counterparty_pct ?? 0) >= 50;
+  const milestoneCompletions = getMilestones(escrow.id).map((m) => m.completed_at);
+  const payees = getPayees(escrow.id);
+  const workers = payees.length
+    ? payees.map((p) => ({ agentId: p.agent_id, amount: toUsd(p.amount_micros, escrow.currency), completedAt: p.completed_at }))
+    : [{ agentId: escrow.counterparty_id, amount: toUsd(escrow.amount_micros, escrow.currency), completedAt: latest([escrow.completed_at, ...milestoneCompletions]) }];
+
+  const outcomes = new Map<string, Outcome>();
+  for (const worker of workers) {
+    const completed = worker.completedAt !== null || released || wonDispute;
+    const onTime = worker.completedAt !== null
+      ? worker.completedAt <= escrow.auto_release_at
+      : released && (escrow.released_at ?? 0) <= escrow.auto_release_at;
+    const quality = (completed ? (onTime ? 1 : 0.5) : 0) * (disputed ? 0.5 : 1);
+    outcomes.set(worker.agentId, { role: "worker", completed, onTime, disputed, amount: worker.amount, releaseLatency: null, quality });
+  }
+
+  const lastCompletion = latest(workers.map((w) => w.completedAt));
+  const releaseLatency = released && lastCompletion !== null && escrow.released_at !== null
+    ? Math.max(0, escrow.released_at - lastCompletion)
+    : null;
+  outcomes.set(escrow.creator_id, {
+    role: "creator",
+    completed: false,
+    onTime: false,
+    disputed,
+    amount: toUsd(escrow.amount_micros, escrow.currency),
+    releaseLatency,
+    quality: disputed ? 0.5 : 1,
+  });
+  return outcomes;
+}
+
+function latest(times: (number | null)[]): number | null {
+  const set = times.filter((t): t is number => t !== null);
+  return set.length ? Math.max(...set) : null;
+}
+
+function applyOutcome(agentId: string, outcome: Outcome, at: number): void {
+  const row = getReputation(agentId);
+  const factor = row ? decay(at - row.decayed_at) : 1;
+  const worker = outcome.role === "worker";
+  escrowDb.prepare(`
+    INSERT INTO agent_reputation (agent_id, worker_escrows, worker_completed, worker_on_time, creator_escrows, disputed, volume_micros,
+      release_latency_seconds, releases_timed, score_weight, score_sum, decayed_at, updated_at)
+    VALUES (@agentId, @worker, @completed, @onTime, @creator, @disputed, @amount, @latency, @timed, 1, @quality, @at, unixepoch())
+    ON CONFLICT (agent_id) DO UPDATE SET
+      worker_escrows = worker_escrows + @worker,
+      worker_completed = worker_completed + @completed,
+      worker_on_time = worker_on_time + @onTime,
+      creator_escrows = creator_escrows + @creator,
+      disputed = disputed + @disputed,
+      volume_micros = volume_micros + @amount,
+      release_latency_seconds = release_latency_seconds + @latency,
+      releases_timed = releases_timed + @timed,
+      score_weight = score_weight * @factor + 1,
+      score_sum = score_sum * @factor + @quality,
+      decayed_at = MAX(decayed_at, @at),
+      updated_at = unixepoch()
+  `).run({
+    agentId,
+    worker: worker ? 1 : 0,
+    completed: worker && outcome.completed ? 1 : 0,
+    onTime: worker && outcome.completed && outcome.onTime ? 1 : 0,
+    creator: worker ? 0 : 1,
+    disputed: outcome.disputed ? 1 : 0,
+    amount: outcome.amount,
+    latency: outcome.releaseLatency ?? 0,
+    timed: outcome.releaseLatency === null ? 0 : 1,
+    quality: outcome.quality,
+    factor,
+    at,
+  });
+}
+
+/** Counts a finished escrow towards its parties' reputation, once. Runs inside the caller's transaction. */
+function recordOutcome(escrow: Escrow, at: number): void {
+  const claimed = escrowDb.prepare(
+    "UPDATE escrows SET reputation_recorded_at = ? WHERE id = ? AND reputation_recorded_at IS NULL"
+  ).run(at, escrow.id);
+  if (claimed.changes === 0) return;
+  // A job nobody took says nothing about anyone
+  if (!escrow.counterparty_id) return;
+  for (const [agentId, outcome] of outcomesOf(escrow)) applyOutcome(agentId, outcome, at);
+}
+
+onEscrowEvent((event) => {
+  if (!FINAL_EVENTS.has(event.event)) return;
+  const escrow = getEscrow(event.escrow_id);
+  if (escrow) recordOutcome(escrow, event.created_at);
+});
+
+/** Counts finished escrows that predate reputation tracking. Safe to run repeatedly. */
+export function backfillReputation(): number {
+  const pending = escrowDb.prepare(`
+    SELECT * FROM escrows
+    WHERE status IN ('released', 'refunded', 'resolved') AND reputation_recorded_at IS NULL
+    ORDER BY COALESCE(resolved_at, released_at, created_at) ASC, rowid ASC
+  `).all() as Escrow[];
+  escrowDb.transaction(() => {
+    for (const escrow of pending) recordOutcome(escrow, escrow.resolved_at ?? escrow.released_at ?? escrow.created_at);
+  })();
+  if (pending.length) console.log(`[reputation] backfilled ${pending.length} finished escrow(s)`);
+  return pending.length;
+}
+
+backfillReputation();
+
+// ─── Queries ───
+export function getReputation(agentId: string): AgentReputation | null {
+  return (escrowDb.prepare("SELECT * FROM agent_reputation WHERE agent_id = ?").get(agentId) as AgentReputation | undefined) ?? null;
+}
+
+/** Current score out of 100, with the stored sums decayed to now. */
+export function reputationScore(row: AgentReputation | null): number {
+  const factor = row ? decay(Math.floor(Date.now() / 1000) - row.decayed_at) : 0;
+  const weight = (row?.score_weight ?? 0) * factor;
+  const sum = (row?.score_sum ?? 0) * factor;
+  return Math.round(((PRIOR_SCORE * PRIOR_WEIGHT + sum) / (PRIOR_WEIGHT + weight)) * 1000) / 10;
+}
+
+// ─── Requirements ───
+export function parseMinReputation(input: MinReputationInput): MinReputation {
+  const score = input.score ?? null;
+  const completedEscrows = input.completedEscrows ?? null;
+  if (score !== null && (!Number.isFinite(score) || score < 0 || score > 100)) {
+    throw new EscrowError("invalid_reputation", "min_reputation.score must be between 0 and 100");
+  }
+  if (completedEscrows !== null && (!Number.isInteger(completedEscrows) || completedEscrows < 0)) {
+    throw new EscrowError("invalid_reputation", "min_reputation.completed_escrows must be a non-negative integer");
+  }
+  if (score === null && completedEscrows === null) {
+    throw new EscrowError("invalid_reputation", "min_reputation needs score, completed_escrows or both");
+  }
+  return { score, completedEscrows };
+}
+
+/** Throws insufficient_reputation unless the agent meets the requirement. */
+export function requireReputation(requirement: MinReputation | null, agentId: string): void {
+  if (!requirement) return;
+  const row = getReputation(agentId);
+  const score = reputationScore(row);
+  const completed = row?.worker_completed ?? 0;
+  const details = {
+    agent_id: agentId,
+    score,
+    completed_escrows: completed,
+    required: minReputationView(requirement),
+  };
+  if (requirement.score !== null && score < requirement.score) {
+    throw new EscrowError("insufficient_reputation", `Agent ${agentId} has reputation ${score}, below the required ${requirement.score}`, details);
+  }
+  if (requirement.completedEscrows !== null && completed < requirement.completedEscrows) {
+    throw new EscrowError(
+      "insufficient_reputation",
+      `Agent ${agentId} has completed ${completed} escrow(s), fewer than the required ${requirement.completedEscrows}`,
+      details
+    );
+  }
+}
+
+/** The requirement stored on an escrow, or null if it has none. */
+export function minReputationOf(escrow: Escrow): MinReputation | null {
+  if (escrow.min_reputation_score === null && escrow.min_reputation_escrows === null) return null;
+  return { score: escrow.min_reputation_score, completedEscrows: escrow.min_reputation_escrows };
+}
+
+// ─── Views ───
+export function minReputationView(requirement: MinReputation | null) {
+  if (!requirement) return null;
+  return { score: requirement.score, completed_escrows: requirement.completedEscrows };
+}
+
+export function reputationView(agentId: string) {
+  const row = getReputation(agentId);
+  const workerEscrows = row?.worker_escrows ?? 0;
+  const creatorEscrows = row?.creator_escrows ?? 0;
+  const completed = row?.worker_completed ?? 0;
+  const timed = row?.releases_timed ?? 0;
+  return {
+    agent_id: agentId,
+    score: reputationScore(row),
+    half_life_days: REPUTATION_HALF_LIFE_DAYS,
+    escrows: { total: workerEscrows + creatorEscrows, as_worker: workerEscrows, as_creator: creatorEscrows },
+    completed_escrows: completed,
+    completion_rate: ratio(completed, workerEscrows),
+    on_time_rate: ratio(row?.worker_on_time ?? 0, completed),
+    dispute_rate: ratio(row?.disputed ?? 0, workerEscrows + creatorEscrows),
+    volume_usd: microsToUsd(row?.volume_micros ?? 0),
+    avg_release_latency_hours: timed ? Math.round((row!.release_latency_seconds / timed / 3600) * 100) / 100 : null,
+    updated_at: iso(row?.updated_at ?? null),
+  };
+}
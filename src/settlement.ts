@@ -0,0 +1,211 @@
+/**
+ * Settlement outbox — makes escrow state changes and balance moves
+ * behave as one unit across the two databases.
+ *
+ * A settlement is written to escrow.db (in the same transaction as the escrow
+ * state change it pays for) before any money moves. Its legs are then applied
+ * by the balance provider as one all-or-nothing batch, each leg keyed by an
+ * idempotent ledger reference, by the provider for the escrow's currency. If the process dies in between, the reconciler
+ * finishes the settlement (release/refund/resolution) or rolls it back (lock).
+ */
+import { randomUUID } from "crypto";
+import { escrowDb, getEscrow } from "./db.js";
+import { ledgerEntryId, type BalanceLeg } from "./balance.js";
+import { providerFor } from "./balance-provider.js";
+import { BASE_CURRENCY } from "./currencies.js";
+import { postSettlement } from "./ledger.js";
+import type { Micros } from "./money.js";
+
+// An amendment tops up (debit) or reduces (credit) what a funded escrow holds
+export type SettlementKind = "lock" | "amendment" | "release" | "refund" | "resolution";
+export type SettlementStatus = "pending" | "applied" | "rolled_back" | "failed";
+// Whether a lock creates its escrow or funds an offer that already exists
+export type LockOrigin = "create" | "accept";
+
+export type SettlementLeg = BalanceLeg;
+
+export interface Settlement {
+  id: string;
+  escrow_id: string;
+  kind: SettlementKind;
+  status: SettlementStatus;
+  legs: SettlementLeg[];
+  // Commission the house keeps out of this settlement; not a balance leg
+  house_micros: Micros;
+  // The escrow's currency; picks the provider the legs are applied by
+  currency: string;
+  // Locks only
+  origin: LockOrigin | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: number;
+  applied_at: number | null;
+}
+
+// Pending settlements younger than this belong to a request that is still in flight,
+// possibly in the other server process (REST and MCP share escrow.db), even at startup.
+const RECONCILE_MIN_AGE_SECONDS = 60;
+
+export function getSettlement(id: string): Settlement | null {
+  const row = escrowDb.prepare("SELECT * FROM settlements WHERE id = ?").get(id) as
+    | (Omit<Settlement, "legs"> & { legs: string })
+    | undefined;
+  return row ? { ...row, legs: JSON.parse(row.legs) } : null;
+}
+
+/**
+ * Records a pending settlement. Call inside the escrowDb transaction that
+ * changes escrow state. `houseMicros` is the commission the house keeps
+ * (commission less referral) out of the amount this settlement pays out.
+ * `currency` defaults to the escrow's; a lock made before the escrow row
+ * exists must give it. Locks also give their `origin`.
+ */
+export function openSettlement(
+  escrowId: string,
+  kind: SettlementKind,
+  legs: SettlementLeg[],
+  houseMicros: Micros = 0,
+  currency?: string,
+  origin: LockOrigin | null = null
+): string {
+  const id = `stl_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  escrowDb.prepare(
+    "INSERT INTO settlements (id, escrow_id, kind, status, legs, house_micros, currency, origin) VALUES (?, ?, ?, 'pending', ?, ?, ?, ?)"
+  ).run(
+    id,
+    escrowId,
+    kind,
+    JSON.stringify(legs.filter((l) => l.amount > 0)),
+    houseMicros,
+    currency ?? getEscrow(escrowId)?.currency ?? BASE_CURRENCY,
+    origin
+  );
+  return id;
+}
+
+/** A lock on this escrow that has not been applied or rolled back yet. */
+export function hasPendingLock(escrowId: string): boolean {
+  return !!escrowDb.prepare("SELECT 1 FROM settlements WHERE escrow_id = ? AND kind = 'lock' AND status = 'pending'").get(escrowId);
+}
+
+/** Marks the settlement applied and posts it to the escrow ledger, atomically. */
+export function markSettlementApplied(id: string): void {
+  escrowDb.transaction(() => {
+    const result = escrowDb.prepare(
+      "UPDATE settlements SET status = 'applied', applied_at = unixepoch() WHERE id = ? AND status = 'pending'"
+    ).run(id);
+    if (result.changes > 0) postSettlement(getSettlement(id)!);
+  })();
+}
+
+function markSettlement(id: string, status: SettlementStatus, error: string | null): void {
+  escrowDb.prepare("UPDATE settlements SET status = ?, last_error = ? WHERE id = ?").run(status, error, id);
+}
+
+/**
+ * Applies every leg as one batch. Legs already on the ledger are skipped, so
+ * this is safe to call repeatedly. Throws InsufficientBalanceError if a debit
+ * cannot be covered — nothing is applied in that case.
+ */
+export async function applySettlementLegs(settlement: Settlement): Promise<void> {
+  escrowDb.prepare("UPDATE settlements SET attempts = attempts + 1 WHERE id = ?").run(settlement.id);
+  await providerFor(settlement.currency).applyLegs(settlement.legs);
+}
+
+/** Records why a settlement is still pending, leaving it for the reconciler. */
+export function noteSettlementError(id: string, err: any): void {
+  escrowDb.prepare("UPDATE settlements SET last_error = ? WHERE id = ?").run(err?.message ?? String(err), id);
+}
+
+/**
+ * Applies a release/refund settlement and marks it applied. On failure the
+ * settlement stays pending for the reconciler; the error is recorded.
+ */
+export async function settle(id: string): Promise<SettlementStatus> {
+  const settlement = getSettlement(id);
+  if (!settlement || settlement.status !== "pending") return settlement?.status ?? "failed";
+  try {
+    await applySettlementLegs(settlement);
+    markSettlementApplied(id);
+    return "applied";
+  } catch (err: any) {
+    noteSettlementError(id, err);
+    console.error(`[settlement] ${id} (${settlement.kind} ${settlement.escrow_id}) left pending:`, err?.message);
+    return "pending";
+  }
+}
+
+/** Reverses whichever legs reached the ledger, then marks the settlement rolled back. */
+export async function rollbackSettlement(id: string, note: string): Promise<void> {
+  const settlement = getSettlement(id);
+  if (!settlement || settlement.status === "applied" || settlement.status === "rolled_back") return;
+
+  const provider = providerFor(settlement.currency);
+  const reversals: SettlementLeg[] = [];
+  for (const leg of settlement.legs) {
+    if (!(await provider.hasLedgerEntry(ledgerEntryId(leg)))) continue;
+    reversals.push({
+      agentId: leg.agentId,
+      direction: leg.direction === "debit" ? "credit" : "debit",
+      amount: leg.amount,
+      reason: `${note}: ${settlement.escrow_id}`,
+      reference: leg.reference + "_rollback",
+    });
+  }
+  await provider.applyLegs(reversals);
+  markSettlement(id, "rolled_back", note);
+}
+
+// A lock finished if its escrow was written: for a create, the escrow row; for
+// an offer, the acceptance (an offer row exists before its funds are locked)
+function lockRecorded(settlement: Settlement): boolean {
+  const escrow = getEscrow(settlement.escrow_id);
+  if (!escrow) return false;
+  return settlement.origin === "accept" ? escrow.accepted_at !== null : true;
+}
+
+function amendmentApproved(settlementId: string): boolean {
+  const row = escrowDb.prepare("SELECT status FROM escrow_amendments WHERE settlement_id = ?").get(settlementId) as
+    | { status: string }
+    | undefined;
+  return row?.status === "approved";
+}
+
+export function failSettlement(id: string, error: string): void {
+  markSettlement(id, "failed", error);
+}
+
+/**
+ * Finishes or undoes half-applied settlements. Locks whose escrow row or offer
+ * acceptance never got written are rolled back (the caller was told it failed), as are
+ * amendments that were never approved; payouts already committed on the
+ * escrow side are driven to completion.
+ */
+export async function reconcileSettlements(minAgeSeconds = RECONCILE_MIN_AGE_SECONDS): Promise<void> {
+  const cutoff = Math.floor(Date.now() / 1000) - minAgeSeconds;
+  const pending = escrowDb.prepare(
+    "SELECT id FROM settlements WHERE status = 'pending' AND created_at <= ? ORDER BY created_at ASC"
+  ).all(cutoff) as { id: string }[];
+
+  for (const { id } of pending) {
+    const settlement = getSettlement(id);
+    if (!settlement) continue;
+    try {
+      if (settlement.kind === "lock") {
+        if (lockRecorded(settlement)) {
+          markSettlementApplied(id);
+        } else {
+          await rollbackSettlement(id, "escrow_lock_rollback");
+          console.log(`[settlement] rolled back orphaned lock ${id} for ${settlement.escrow_id}`);
+        }
+      } else if (settlement.kind === "amendment" && !amendmentApproved(id)) {
+        await rollbackSettlement(id, "escrow_amendment_rollback");
+        console.log(`[settlement] rolled back unapproved amendment ${id} for ${settlement.escrow_id}`);
+      } else if ((await settle(id)) === "applied") {
+        console.log(`[settlement] finished ${settlement.kind} ${id} for ${settlement.escrow_id}`);
+      }
+    } catch (err: any) {
+      console.error(`[settlement] reconcile failed for ${id}:`, err?.message);
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Timeout policies — what happens when an escrow reaches auto_release_at
+ * without being released or disputed.
+ *
+ * Each escrow picks its policy at creation:
+ *   refund_creator        everything still held goes back to the creator
+ *   release_if_completed  work marked complete is paid out, the rest refunded
+ *   escalate_dispute      the escrow moves into dispute for an arbiter to decide
+ *
+ * Work completed shortly before the timeout gets a grace period so the
+ * creator can still review it. Commission is charged on the refunded part
+ * only when the escrow was created with commission_on_refund.
+ *
+ * A timeout that throws, or whose settlement is left pending, is recorded in
+ * auto_release_failures so operators can see it on the admin API.
+ */
+import {
+  escrowDb,
+  getMilestones,
+  getPayees,
+  markMilestoneReleased,
+  markMilestonesRefunded,
+  markPayeeReleased,
+  markPayeesRefunded,
+  markReleased,
+  markRefunded,
+  type Escrow,
+  type Milestone,
+  type Payee,
+} from "./db.js";
+import { outstandingPortion, payoutLegs, type Portion, type PayoutShare } from "./escrow-service.js";
+import { referralLegs } from "./referrals.js";
+import { openDispute } from "./disputes.js";
+import { formatMoney, sumMicros } from "./money.js";
+import { getSettlement, openSettlement, settle, type SettlementLeg, type SettlementStatus } from "./settlement.js";
+
+// ─── Types ───
+interface TimeoutPlan {
+  milestones: Milestone[];
+  payees: Payee[];
+  // Paid out to the counterparty or payees
+  shares: PayoutShare[];
+  // Returned to the creator
+  refund: Portion;
+}
+
+export interface AutoReleaseFailure {
+  escrow_id: string;
+  settlement_id: string | null;
+  last_error: string;
+  attempts: number;
+  first_failed_at: number;
+  last_failed_at: number;
+}
+
+const NOTHING: Portion = { amount: 0, commission: 0, referral: 0 };
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+function isOpen(row: Milestone | Payee): boolean {
+  return row.status === "pending" || row.status === "completed";
+}
+
+function sumPortions(rows: (Milestone | Payee)[]): Portion {
+  return {
+    amount: sumMicros(rows.map((r) => r.amount_micros)),
+    commission: sumMicros(rows.map((r) => r.commission_micros)),
+    referral: sumMicros(rows.map((r) => r.referral_commission_micros)),
+  };
+}
+
+// ─── Deadline ───
+
+// Latest completion on the escrow, a milestone or a payee — the grace period runs from here
+function lastCompletedAt(escrow: Escrow): number | null {
+  const times = [escrow.completed_at, ...getMilestones(escrow.id).map((m) => m.completed_at), ...getPayees(escrow.id).map((p) => p.completed_at)]
+    .filter((t): t is number => t !== null);
+  return times.length ? Math.max(...times) : null;
+}
+
+/** When the timeout policy fires: auto_release_at, pushed back by the grace period after a late completion. */
+export function timeoutDeadline(escrow: Escrow): number {
+  const completedAt = lastCompletedAt(escrow);
+  if (completedAt === null || escrow.timeout_policy === "refund_creator") return escrow.auto_release_at;
+  return Math.max(escrow.auto_release_at, completedAt + escrow.completion_grace_hours * 3600);
+}
+
+// ─── Planning ───
+function planTimeout(escrow: Escrow): TimeoutPlan {
+  const milestones = getMilestones(escrow.id).filter(isOpen);
+  const payees = getPayees(escrow.id).filter(isOpen);
+
+  if (escrow.timeout_policy === "refund_creator") {
+    return { milestones: [], payees: [], shares: [], refund: outstandingPortion(escrow) };
+  }
+
+  // release_if_completed: pay out completed parts, refund the rest
+  if (payees.length) {
+    const done = payees.filter((p) => p.status === "completed");
+    return {
+      milestones: [],
+      payees: done,
+      shares: done.map((p) => ({ agentId: p.agent_id, reference: p.id, ...sumPortions([p]) })),
+      refund: sumPortions(payees.filter((p) => p.status !== "completed")),
+    };
+  }
+  if (milestones.length) {
+    const done = milestones.filter((m) => m.status === "completed");
+    const released = sumPortions(done);
+    return {
+      milestones: done,
+      payees: [],
+      shares: done.length ? [{ agentId: escrow.counterparty_id, reference: escrow.id, ...released }] : [],
+      refund: sumPortions(milestones.filter((m) => m.status !== "completed")),
+    };
+  }
+  const portion = outstandingPortion(escrow);
+  return escrow.status === "completed"
+    ? { milestones: [], payees: [], shares: [{ agentId: escrow.counterparty_id, reference: escrow.id, ...portion }], refund: NOTHING }
+    : { milestones: [], payees: [], shares: [], refund: portion };
+}
+
+// ─── Processor ───
+// Returns the settlement that paid the timeout out, or null when nothing was settled
+async function applyTimeout(escrow: Escrow): Promise<{ settlementId: string; status: SettlementStatus } | null> {
+  if (escrow.timeout_policy === "escalate_dispute") {
+    openDispute(escrow, null, `Escalated to dispute after ${escrow.timeout_hours}h timeout`);
+    console.log(`[escrow] timed out ${escrow.id} → escalated to dispute`);
+    return null;
+  }
+
+  const result = escrowDb.transaction(() => {
+    const plan = planTimeout(escrow);
+    const chargeRefund = escrow.commission_on_refund === 1;
+    const refundCommission = chargeRefund ? plan.refund.commission : 0;
+    const refundReferral = chargeRefund ? plan.refund.referral : 0;
+    const netToCreator = plan.refund.amount - refundCommission;
+
+    const legs: SettlementLeg[] = plan.shares.flatMap((share) => payoutLegs(escrow, share.agentId, share, share.reference));
+    legs.push({ agentId: escrow.creator_id, direction: "credit", amount: netToCreator, reason: `escrow_timeout_refund: ${escrow.id}`, reference: escrow.id + "_timeout" });
+    legs.push(...referralLegs(escrow, refundReferral, escrow.id + "_timeout"));
+
+    // Milestone commission is booked as each milestone is released; the rest is booked with the escrow
+    const releasedCommission = plan.milestones.length ? 0 : sumMicros(plan.shares.map((s) => s.commission));
+    const commissionBooked = releasedCommission + refundCommission;
+    const note = plan.shares.length
+      ? `Timed out after ${escrow.timeout_hours}h — completed work released, ${formatMoney(netToCreator, escrow.currency)} refunded`
+      : `Auto-refunded after ${escrow.timeout_hours}h timeout`;
+    const marked = plan.refund.amount === 0
+      ? markReleased(escrow.id, null, `Auto-released after ${escrow.timeout_hours}h timeout`, commissionBooked)
+      : markRefunded(escrow.id, note, commissionBooked);
+    if (!marked) return null;
+
+    for (const m of plan.milestones) markMilestoneReleased(escrow.id, m.seq, null, `Milestone ${m.seq} released at timeout`);
+    for (const p of plan.payees) markPayeeReleased(escrow.id, p.seq);
+    markMilestonesRefunded(escrow.id);
+    markPayeesRefunded(escrow.id);
+
+    const kind = plan.refund.amount === 0 ? "release" : "refund";
+    const house = sumMicros(plan.shares.map((s) => s.commission - s.referral)) + refundCommission - refundReferral;
+    return { settlementId: openSettlement(escrow.id, kind, legs, house), kind, netToCreator };
+  })();
+  if (!result) return null; // released or disputed in the meantime
+
+  const status = await settle(result.settlementId);
+  if (status !== "applied") return { settlementId: result.settlementId, status };
+  console.log(
+    result.kind === "release"
+      ? `[escrow] auto-released ${escrow.id} after timeout`
+      : `[escrow] timed out ${escrow.id} → creator ${escrow.creator_id} refunded ${formatMoney(result.netToCreator, escrow.currency)}`
+  );
+  return { settlementId: result.settlementId, status };
+}
+
+function recordAutoReleaseFailure(escrowId: string, settlementId: string | null, error: string): void {
+  escrowDb.prepare(`
+    INSERT INTO auto_release_failures (escrow_id, settlement_id, last_error) VALUES (?, ?, ?)
+    ON CONFLICT (escrow_id) DO UPDATE SET
+      settlement_id = COALESCE(excluded.settlement_id, settlement_id),
+      last_error = excluded.last_error,
+      attempts = attempts + 1,
+      last_failed_at = unixepoch()
+  `).run(escrowId, settlementId, error);
+}
+
+export async function processAutoReleases(): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const expired = escrowDb.prepare(
+    "SELECT * FROM escrows WHERE status IN ('funded', 'completed') AND auto_release_at <= ?"
+  ).all(now) as Escrow[];
+
+  for (const escrow of expired) {
+    if (timeoutDeadline(escrow) > now) continue; // still inside the completion grace period
+    try {
+      const result = await applyTimeout(escrow);
+      if (result && result.status !== "applied") {
+        const error = getSettlement(result.settlementId)?.last_error ?? `settlement ${result.status}`;
+        recordAutoReleaseFailure(escrow.id, result.settlementId, error);
+      }
+    } catch (err: any) {
+      console.error(`[escrow] auto-release failed for ${escrow.id}:`, err?.message);
+      recordAutoReleaseFailure(escrow.id, null, err?.message ?? String(err));
+    }
+  }
+}
+
+// ─── Failures ───
+export function listAutoReleaseFailures(limit = 50): AutoReleaseFailure[] {
+  return escrowDb.prepare(
+    "SELECT * FROM auto_release_failures ORDER BY last_failed_at DESC, rowid DESC LIMIT ?"
+  ).all(limit) as AutoReleaseFailure[];
+}
+
+// ─── Views ───
+export function autoReleaseFailureView(failure: AutoReleaseFailure) {
+  const settlement = failure.settlement_id ? getSettlement(failure.settlement_id) : null;
+  const escrow = escrowDb.prepare("SELECT status FROM escrows WHERE id = ?").get(failure.escrow_id) as { status: Escrow["status"] } | undefined;
+  // A pending settlement is retried by the reconciler; a throw is retried on the next tick while the escrow is still open
+  const resolved = settlement ? settlement.status === "applied" : escrow?.status !== "funded" && escrow?.status !== "completed";
+  return {
+    escrow_id: failure.escrow_id,
+    escrow_status: escrow?.status ?? null,
+    settlement_id: failure.settlement_id,
+    settlement_status: settlement?.status ?? null,
+    last_error: failure.last_error,
+    attempts: failure.attempts,
+    first_failed_at: iso(failure.first_failed_at),
+    last_failed_at: iso(failure.last_failed_at),
+    resolved,
+  };
+}
+
+export function timeoutPolicyView(escrow: Escrow) {
+  const pending = escrow.status === "funded" || escrow.status === "completed";
+  return {
+    policy: escrow.timeout_policy,
+    timeout_hours: escrow.timeout_hours,
+    completion_grace_hours: escrow.completion_grace_hours,
+    commission_on_refund: escrow.commission_on_refund === 1,
+    fires_at: pending ? iso(timeoutDeadline(escrow)) : null,
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * Outbound webhooks for escrow lifecycle events.
+ *
+ * Every row written to escrow_events fans out to matching subscriptions as a
+ * delivery row, in the same transaction as the event. A worker POSTs due
+ * deliveries with an HMAC-SHA256 signature, retries failures with exponential
+ * backoff and moves exhausted deliveries to webhook_dead_letters, from where
+ * the owning agent can replay them.
+ */
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { escrowDb, getEscrow, counterpartyIds, onEscrowEvent, type EscrowEvent } from "./db.js";
+import { EscrowError } from "./errors.js";
+import { microsToUsd } from "./money.js";
+
+// ─── Config ───
+export const WEBHOOK_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8"));
+const BACKOFF_BASE_SECONDS = Math.max(1, parseInt(process.env.WEBHOOK_BACKOFF_BASE_SECONDS || "30"));
+const BACKOFF_MAX_SECONDS = 6 * 3600;
+const DELIVERY_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000");
+const DELIVERY_BATCH_SIZE = 25;
+const MAX_WEBHOOKS_PER_AGENT = 20;
+// Local receivers are for development and tests; production hooks must be public
+const ALLOW_LOOPBACK = process.env.WEBHOOK_ALLOW_LOOPBACK === "true";
+
+export const WEBHOOK_EVENTS = [
+  "offered",
+  "offer_countered",
+  "offer_accepted",
+  "offer_rejected",
+  "offer_expired",
+  "created",
+  "job_application",
+  "job_assigned",
+  "recurring_paused",
+  "recurring_resumed",
+  "recurring_cancelled",
+  "recurring_finished",
+  "amendment_proposed",
+  "amendment_approved",
+  "amendment_rejected",
+  "amendment_withdrawn",
+  "acknowledged",
+  "cancellation_requested",
+  "cancellation_consented",
+  "cancellation_declined",
+  "cancellation_withdrawn",
+  "cancelled",
+  "completed",
+  "released",
+  "disputed",
+  "refunded",
+  "milestone_completed",
+  "milestone_released",
+  "payee_completed",
+  "deliverable_verified",
+  "deliverable_rejected",
+  "arbiter_assigned",
+  "evidence_submitted",
+  "dispute_expired",
+  "dispute_resolved",
+] as const;
+
+// ─── Types ───
+export interface Webhook {
+  id: string;
+  agent_id: string;
+  escrow_id: string | null;
+  url: string;
+  secret: string;
+  events: string;
+  active: number;
+  created_at: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload: string;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  next_attempt_at: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+export interface DeadLetter {
+  id: string;
+  delivery_id: string;
+  webhook_id: string;
+  agent_id: string;
+  event: string;
+  payload: string;
+  attempts: number;
+  last_error: string | null;
+  created_at: number;
+  replayed_at: number | null;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+function iso(ts: number | null): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+// ─── Addresses ───
+// Deliveries must not reach the network the server runs in: private,
+// link-local (cloud metadata), shared, multicast and reserved ranges. BlockList
+// matches IPv4-mapped IPv6 addresses against the IPv4 ranges; NAT64 is listed
+const LOOPBACK_RANGES = new BlockList();
+LOOPBACK_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK_RANGES.addAddress("::1", "ipv6");
+
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv4");
+for (const [net, prefix] of [
+  ["::", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv6");
+
+function isLoopback(address: string): boolean {
+  return LOOPBACK_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+function isReachable(address: string): boolean {
+  if (isLoopback(address)) return ALLOW_LOOPBACK;
+  return !NON_PUBLIC_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Checks every address a hostname resolves to as the connection is made, so a
+// name registered as public can't later be pointed at an internal one
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    const blocked = addresses.find((a) => !isReachable(a.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), "");
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// ─── Subscriptions ───
+
+// IP literals are checked here; hostnames when a delivery connects. http:// is
+// only accepted for loopback receivers, which WEBHOOK_ALLOW_LOOPBACK enables
+function validateUrl(raw: string | undefined): string {
+  let url: URL;
+  try {
+    url = new URL(raw ?? "");
+  } catch {
+    throw new EscrowError("invalid_webhook", "url must be an absolute http(s) URL");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const loopback = host === "localhost" || (isIP(host) !== 0 && isLoopback(host));
+  if (loopback ? !ALLOW_LOOPBACK : isIP(host) !== 0 && !isReachable(host)) {
+    throw new EscrowError("invalid_webhook", "url must point to a public host");
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && loopback)) {
+    throw new EscrowError("invalid_webhook", "url must use https (http is allowed for localhost only)");
+  }
+  return url.toString();
+}
+
+function validateEvents(events: string[] | undefined): string[] {
+  if (events === undefined || events.length === 0) return ["*"];
+  if (events.includes("*")) return ["*"];
+  const unknown = events.filter((e) => !(WEBHOOK_EVENTS as readonly string[]).includes(e));
+  if (unknown.length) {
+    throw new EscrowError("invalid_webhook", `Unknown events: ${unknown.join(", ")}. Valid: ${WEBHOOK_EVENTS.join(", ")}`);
+  }
+  return [...new Set(events)];
+}
+
+export function registerWebhook(
+  agentId: string,
+  input: { url: string | undefined; events?: string[]; escrowId?: string }
+): Webhook {
+  const url = validateUrl(input.url);
+  const events = validateEvents(input.events);
+
+  const escrowId = input.escrowId?.trim() || null;
+  if (escrowId) {
+    const escrow = getEscrow(escrowId);
+    if (!escrow) throw new EscrowError("not_found", "Escrow not found");
+    if (![escrow.creator_id, ...counterpartyIds(escrow), escrow.arbiter_id].includes(agentId)) {
+      throw new EscrowError("forbidden", "Only escrow participants can subscribe to its events");
+    }
+  }
+
+  const { count } = escrowDb.prepare(
+    "SELECT COUNT(*) AS count FROM webhooks WHERE agent_id = ? AND active = 1"
+  ).get(agentId) as { count: number };
+  if (count >= MAX_WEBHOOKS_PER_AGENT) {
+    throw new EscrowError("invalid_webhook", `At most ${MAX_WEBHOOKS_PER_AGENT} active webhooks per agent`);
+  }
+
+  const id = newId("whk");
+  const secret = `whsec_${randomBytes(24).toString("hex")}`;
+  escrowDb.prepare(
+    "INSERT INTO webhooks (id, agent_id, escrow_id, url, secret, events) VALUES (?, ?, ?, ?, ?, ?)"
+  ).run(id, agentId, escrowId, url, secret, JSON.stringify(events));
+  return getWebhook(agentId, id);
+}
+
+export function getWebhook(agentId: string, id: string): Webhook {
+  const webhook = escrowDb.prepare("SELECT * FROM webhooks WHERE id = ? AND agent_id = ?").get(id, agentId) as
+    | Webhook
+    | undefined;
+  if (!webhook) throw new EscrowError("not_found", "Webhook not found");
+  return webhook;
+}
+
+export function listWebhooks(agentId: string): Webhook[] {
+  return escrowDb.prepare(
+    "SELECT * FROM webhooks WHERE agent_id = ? AND active = 1 ORDER BY created_at ASC"
+  ).all(agentId) as Webhook[];
+}
+
+export function deleteWebhook(agentId: string, id: string): void {
+  getWebhook(agentId, id);
+  escrowDb.transaction(() => {
+    escrowDb.prepare("UPDATE webhooks SET active = 0 WHERE id = ?").run(id);
+    // Nothing left to deliver to a removed endpoint
+    escrowDb.prepare(
+      "UPDATE webhook_deliveries SET status = 'dead', last_error = 'webhook deleted' WHERE webhook_id = ? AND status = 'pending'"
+    ).run(id);
+  })();
+}
+
+export function listDeliveries(agentId: string, webhookId: string, limit = 50): WebhookDelivery[] {
+  getWebhook(agentId, webhookId);
+  return escrowDb.prepare(
+    "SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?"
+  ).all(webhookId, Math.min(Math.max(1, limit), 200)) as WebhookDelivery[];
+}
+
+// ─── Fan-out ───
+function buildPayload(event: EscrowEvent): string {
+  const escrow = getEscrow(event.escrow_id);
+  return JSON.stringify({
+    id: event.id,
+    type: `escrow.${event.event}`,
+    created_at: iso(event.created_at),
+    data: {
+      escrow_id: event.escrow_id,
+      event: event.event,
+      actor_id: event.actor_id,
+      note: event.note,
+      escrow: escrow
+        ? {
+            status: escrow.status,
+            currency: escrow.currency,
+            amount_usd: microsToUsd(escrow.amount_micros),
+            creator_id: escrow.creator_id,
+            counterparty_id: escrow.counterparty_id,
+            auto_release_at: iso(escrow.auto_release_at),
+          }
+        : null,
+    },
+  });
+}
+
+function enqueueDeliveries(event: EscrowEvent): void {
+  const escrow = getEscrow(event.escrow_id);
+  if (!escrow) return;
+
+  // Agent-wide subscriptions of anyone involved, plus subscriptions scoped to this escrow
+  const parties = [escrow.creator_id, ...counterpartyIds(escrow), escrow.arbiter_id].filter((p): p is string => !!p);
+  const hooks = escrowDb.prepare(`
+    SELECT * FROM webhooks
+    WHERE active = 1 AND (
+      escrow_id = ? OR (escrow_id IS NULL AND agent_id IN (${parties.map(() => "?").join(", ")}))
+    )
+  `).all(escrow.id, ...parties) as Webhook[];
+
+  const matching = hooks.filter((h) => {
+    const events = JSON.parse(h.events) as string[];
+    return events.includes("*") || events.includes(event.event);
+  });
+  if (matching.length === 0) return;
+
+  const payload = buildPayload(event);
+  const insert = escrowDb.prepare(
+    "INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload) VALUES (?, ?, ?, ?, ?)"
+  );
+  for (const hook of matching) insert.run(newId("dlv"), hook.id, event.id, event.event, payload);
+}
+
+onEscrowEvent(enqueueDeliveries);
+
+// ─── Delivery worker ───
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function backoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+// Claims a due delivery by pushing its next attempt past the request timeout;
+// returns false if another worker (the REST or MCP process) claimed it first.
+function claimDelivery(delivery: WebhookDelivery, now: number): boolean {
+  const leaseUntil = now + Math.ceil(DELIVERY_TIMEOUT_MS / 1000) + 30;
+  return escrowDb.prepare(
+    "UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ? AND status = 'pending' AND next_attempt_at = ?"
+  ).run(leaseUntil, delivery.id, delivery.next_attempt_at).changes > 0;
+}
+
+function recordFailure(delivery: WebhookDelivery, webhook: Webhook, statusCode: number | null, error: string): void {
+  const attempts = delivery.attempts + 1;
+  escrowDb.transaction(() => {
+    if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      escrowDb.prepare(
+        "UPDATE webhook_deliveries SET status = 'dead', attempts = ?, last_status_code = ?, last_error = ? WHERE id = ?"
+      ).run(attempts, statusCode, error, delivery.id);
+      escrowDb.prepare(`
+        INSERT INTO webhook_dead_letters (id, delivery_id, webhook_id, agent_id, event, payload, attempts, last_error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(newId("dlq"), delivery.id, webhook.id, webhook.agent_id, delivery.event, delivery.payload, attempts, error);
+      console.error(`[webhooks] delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${error}`);
+    } else {
+      const nextAt = Math.floor(Date.now() / 1000) + backoffSeconds(attempts);
+      escrowDb.prepare(
+        "UPDATE webhook_deliveries SET attempts = ?, next_attempt_at = ?, last_status_code = ?, last_error = ? WHERE id = ?"
+      ).run(attempts, nextAt, statusCode, error, delivery.id);
+    }
+  })();
+}
+
+// POSTs through node's http(s) client rather than fetch, so the connection is
+// made to an address guardedLookup has checked; resolves with the status code
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  // IP literals skip the lookup
+  if (isIP(host) !== 0 && !isReachable(host)) return Promise.reject(new Error(`${host} is not a public address`));
+  const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: "POST",
+      headers: { ...headers, "content-length": String(Buffer.byteLength(body)) },
+      lookup: guardedLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const webhook = escrowDb.prepare("SELECT * FROM webhooks WHERE id = ?").get(delivery.webhook_id) as Webhook | undefined;
+  if (!webhook || !webhook.active) return;
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const status = await post(webhook.url, {
+      "content-type": "application/json",
+      "user-agent": "purpleflea-escrow-webhooks/1.0",
+      "x-escrow-event": delivery.event,
+      "x-escrow-delivery": delivery.id,
+      "x-escrow-timestamp": String(timestamp),
+      "x-escrow-signature": `sha256=${signPayload(webhook.secret, timestamp, delivery.payload)}`,
+    }, delivery.payload);
+    if (status >= 200 && status < 300) {
+      escrowDb.prepare(
+        "UPDATE webhook_deliveries SET status = 'delivered', attempts = attempts + 1, last_status_code = ?, last_error = NULL, delivered_at = unixepoch() WHERE id = ?"
+      ).run(status, delivery.id);
+    } else {
+      recordFailure(delivery, webhook, status, `HTTP ${status}`);
+    }
+  } catch (err: any) {
+    recordFailure(delivery, webhook, null, err?.message ?? String(err));
+  }
+}
+
+let workerRunning = false;
+
+export async function processWebhookDeliveries(): Promise<void> {
+  if (workerRunning) return;
+  workerRunning = true;
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const due = escrowDb.prepare(
+      "SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?"
+    ).all(now, DELIVERY_BATCH_SIZE) as WebhookDelivery[];
+
+    for (const delivery of due) {
+      if (!claimDelivery(delivery, now)) continue;
+      await attemptDelivery(delivery);
+    }
+  } catch (err: any) {
+    console.error("[webhooks] worker error:", err?.message);
+  } finally {
+    workerRunning = false;
+  }
+}
+
+// ─── Dead letters ───
+export function listDeadLetters(agentId: string, includeReplayed = false): DeadLetter[] {
+  return escrowDb.prepare(`
+    SELECT * FROM webhook_dead_letters
+    WHERE agent_id = ? ${includeReplayed ? "" : "AND replayed_at IS NULL"}
+    ORDER BY created_at DESC LIMIT 200
+  `).all(agentId) as DeadLetter[];
+}
+
+/** Re-queues a dead-lettered delivery as a fresh delivery with a full retry budget. */
+export function replayDeadLetter(agentId: string, deadLetterId: string): WebhookDelivery {
+  const dead = escrowDb.prepare("SELECT * FROM webhook_dead_letters WHERE id = ? AND agent_id = ?").get(deadLetterId, agentId) as
+    | DeadLetter
+    | undefined;
+  if (!dead) throw new EscrowError("not_found", "Dead letter not found");
+  const webhook = getWebhook(agentId, dead.webhook_id);
+  if (!webhook.active) throw new EscrowError("invalid_status", "Webhook has been deleted");
+
+  const original = escrowDb.prepare("SELECT event_id FROM webhook_deliveries WHERE id = ?").get(dead.delivery_id) as
+    | { event_id: string }
+    | undefined;
+  const id = newId("dlv");
+  escrowDb.transaction(() => {
+    escrowDb.prepare(
+      "INSERT INTO webhook_deliveries (id, webhook_id, event_id, event, payload) VALUES (?, ?, ?, ?, ?)"
+    ).run(id, webhook.id, original?.event_id ?? dead.delivery_id, dead.event, dead.payload);
+    escrowDb.prepare("UPDATE webhook_dead_letters SET replayed_at = unixepoch() WHERE id = ?").run(dead.id);
+  })();
+  return escrowDb.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(id) as WebhookDelivery;
+}
+
+// ─── Views ───
+export function webhookView(webhook: Webhook, opts: { includeSecret?: boolean } = {}) {
+  return {
+    webhook_id: webhook.id,
+    url: webhook.url,
+    escrow_id: webhook.escrow_id,
+    events: JSON.parse(webhook.events) as string[],
+    active: webhook.active === 1,
+    created_at: iso(webhook.created_at),
+    ...(opts.includeSecret ? { secret: webhook.secret } : {}),
+  };
+}
+
+export function deliveryView(delivery: WebhookDelivery) {
+  return {
+    delivery_id: delivery.id,
+    event_id: delivery.event_id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    next_attempt_at: delivery.status === "pending" ? iso(delivery.next_attempt_at) : null,
+    last_status_code: delivery.last_status_code,
+    last_error: delivery.last_error,
+    created_at: iso(delivery.created_at),
+    delivered_at: iso(delivery.delivered_at),
+  };
+}
+
+export function deadLetterView(dead: DeadLetter) {
+  return {
+    dead_letter_id: dead.id,
+    delivery_id: dead.delivery_id,
+    webhook_id: dead.webhook_id,
+    event: dead.event,
+    attempts: dead.attempts,
+    last_error: dead.last_error,
+    payload: JSON.parse(dead.payload),
+    created_at: iso(dead.created_at),
+    replayed_at: iso(dead.replayed_at),
+  };
+}
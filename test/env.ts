@@ -0,0 +1,17 @@
+/**
+ * Test environment — import first, before anything from src/. Points the
+ * escrow DB at a fresh temp directory and selects the in-memory balance
+ * provider, so each test file runs in isolation from the casino. Webhooks may
+ * target loopback so deliveries can go to a local receiver.
+ */
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const dir = mkdtempSync(join(tmpdir(), "escrow-test-"));
+process.env.ESCROW_DB_PATH = join(dir, "escrow.db");
+process.env.BALANCE_PROVIDER = "memory";
+delete process.env.BALANCE_MEMORY_SEED;
+delete process.env.CURRENCY_PROVIDERS;
+process.env.WEBHOOK_MAX_ATTEMPTS = "3";
+process.env.WEBHOOK_ALLOW_LOOPBACK = "true";
@@ -0,0 +1,160 @@
+import "./env.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { balanceProvider } from "../src/balance-provider.js";
+import type { MemoryBalanceProvider } from "../src/balance-memory.js";
+import { escrowDb, getEscrow } from "../src/db.js";
+import { createEscrow, completeEscrow, releaseEscrow } from "../src/escrow-service.js";
+import { createOffer, acceptOffer, expireOffers } from "../src/offers.js";
+import { createFeeRule, getFeeRule } from "../src/fees.js";
+import { proposeAmendment, approveAmendment } from "../src/amendments.js";
+import { cancelEscrow } from "../src/cancellations.js";
+import { applyToJob, getApplications } from "../src/job-board.js";
+import { applySettlementLegs, getSettlement, openSettlement, reconcileSettlements } from "../src/settlement.js";
+import { accountBalance, HOUSE_ACCOUNT } from "../src/ledger.js";
+import { checkMoneyConsistency } from "../src/consistency.js";
+import { usdToMicros } from "../src/money.js";
+
+const provider = balanceProvider as MemoryBalanceProvider;
+provider.addAgent({ id: "ag_alice", api_key: "dev_alice", balance_usd: 100 });
+provider.addAgent({ id: "ag_bob", api_key: "dev_bob" });
+
+const balance = async (agentId: string) => (await provider.getAgent(agentId))!.balance;
+const locks = (escrowId: string) =>
+  escrowDb.prepare("SELECT status, origin FROM settlements WHERE escrow_id = ? AND kind = 'lock' ORDER BY rowid").all(escrowId);
+
+test("create locks the amount and release pays the counterparty less commission", async () => {
+  const before = await balance("ag_alice");
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 10, description: "Summarize a paper", counterpartyId: "ag_bob" });
+  assert.equal(escrow.status, "funded");
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(10));
+  assert.deepEqual(locks(escrow.id), [{ status: "applied", origin: "create" }]);
+
+  await completeEscrow("ag_bob", escrow.id);
+  const { escrow: released } = await releaseEscrow("ag_alice", escrow.id);
+  assert.equal(released.status, "released");
+  assert.equal(await balance("ag_bob"), usdToMicros(9.9));
+  assert.equal(accountBalance(HOUSE_ACCOUNT), usdToMicros(0.1));
+  assert.equal(checkMoneyConsistency().ok, true);
+});
+
+test("an offer locks nothing until it is accepted", async () => {
+  const before = await balance("ag_alice");
+  const offer = await createOffer("ag_alice", { amountUsd: 5, description: "Translate a README", counterpartyId: "ag_bob" });
+  assert.equal(offer.status, "offered");
+  assert.equal(await balance("ag_alice"), before);
+
+  const { escrow } = await acceptOffer("ag_bob", offer.id);
+  assert.equal(escrow.status, "funded");
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(5));
+  assert.deepEqual(locks(offer.id), [{ status: "applied", origin: "accept" }]);
+});
+
+test("a lock left behind by a crashed acceptance is rolled back, and the offer can still be accepted", async () => {
+  const offer = await createOffer("ag_alice", { amountUsd: 2, description: "Label a dataset", counterpartyId: "ag_bob" });
+  const before = await balance("ag_alice");
+
+  // The debit went through but the process died before the acceptance was recorded
+  const id = escrowDb.transaction(() =>
+    openSettlement(offer.id, "lock", [
+      { agentId: "ag_alice", direction: "debit", amount: offer.amount_micros, reason: "test", reference: `${offer.id}_accept_crashed` },
+    ], 0, "USD", "accept")
+  )();
+  await applySettlementLegs(getSettlement(id)!);
+  await assert.rejects(acceptOffer("ag_bob", offer.id), { code: "invalid_status" });
+
+  await reconcileSettlements(0);
+  assert.equal(getSettlement(id)!.status, "rolled_back");
+  assert.equal(await balance("ag_alice"), before);
+  assert.equal(getEscrow(offer.id)!.status, "offered");
+
+  await acceptOffer("ag_bob", offer.id);
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(2));
+  assert.equal(checkMoneyConsistency().ok, true);
+});
+
+test("a debit the wallet applied before failing stays pending and is reversed by the reconciler", async () => {
+  const before = await balance("ag_alice");
+  const applyLegs = provider.applyLegs;
+  provider.applyLegs = async (legs) => {
+    await applyLegs.call(provider, legs);
+    throw new Error("wallet timed out");
+  };
+  try {
+    await assert.rejects(
+      createEscrow("ag_alice", { amountUsd: 3, description: "Draft a changelog", counterpartyId: "ag_bob" }),
+      { code: "debit_failed" }
+    );
+  } finally {
+    provider.applyLegs = applyLegs;
+  }
+  const [lock] = escrowDb.prepare("SELECT id, status FROM settlements WHERE kind = 'lock' ORDER BY rowid DESC LIMIT 1").all() as { id: string; status: string }[];
+  assert.equal(lock.status, "pending");
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(3));
+
+  await reconcileSettlements(0);
+  assert.equal(getSettlement(lock.id)!.status, "rolled_back");
+  assert.equal(await balance("ag_alice"), before);
+  assert.equal(checkMoneyConsistency().ok, true);
+});
+
+test("a top-up the wallet applied before failing is reversed once the retried approval goes through", async () => {
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 4, description: "Review a pull request", counterpartyId: "ag_bob" });
+  proposeAmendment("ag_bob", escrow.id, { amountUsd: 6 });
+  const before = await balance("ag_alice");
+  const applyLegs = provider.applyLegs;
+  provider.applyLegs = async (legs) => {
+    await applyLegs.call(provider, legs);
+    throw new Error("wallet timed out");
+  };
+  try {
+    await assert.rejects(approveAmendment("ag_alice", escrow.id), { code: "debit_failed" });
+  } finally {
+    provider.applyLegs = applyLegs;
+  }
+  const approved = await approveAmendment("ag_alice", escrow.id);
+  assert.equal(approved.status, "approved");
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(4));
+
+  await reconcileSettlements(0);
+  assert.equal(before - (await balance("ag_alice")), usdToMicros(2));
+  assert.equal(getEscrow(escrow.id)!.amount_micros, usdToMicros(6));
+  assert.equal(checkMoneyConsistency().ok, true);
+});
+
+test("an offer uses up its promo code only when it is accepted", async () => {
+  const promo = createFeeRule("adm_test", {
+    kind: "promo",
+    commissionPct: 0.5,
+    code: "OFFERS",
+    expiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+    maxUses: 1,
+  });
+  const input = { amountUsd: 2, description: "Tag some images", counterpartyId: "ag_bob", promoCode: "offers" };
+
+  const lapsed = await createOffer("ag_alice", input);
+  escrowDb.prepare("UPDATE escrows SET offer_expires_at = 0 WHERE id = ?").run(lapsed.id);
+  expireOffers();
+  assert.equal(getEscrow(lapsed.id)!.status, "expired");
+  assert.equal(getFeeRule(promo.id)!.uses, 0);
+
+  const offer = await createOffer("ag_alice", input);
+  assert.equal(getFeeRule(promo.id)!.uses, 0);
+  const { escrow } = await acceptOffer("ag_bob", offer.id);
+  assert.equal(escrow.commission_micros, usdToMicros(0.01));
+  assert.equal(getFeeRule(promo.id)!.uses, 1);
+});
+
+test("the creator can withdraw an open job nobody was assigned for a full refund", async () => {
+  const before = await balance("ag_alice");
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 8, description: "Scrape a catalogue", counterpartyId: undefined, job: { claimMode: "creator_picks" } });
+  assert.equal(escrow.status, "open");
+  await applyToJob("ag_bob", escrow.id, "I can do it");
+
+  const { escrow: cancelled, refund } = await cancelEscrow("ag_alice", escrow.id, "No longer needed");
+  assert.equal(cancelled.status, "cancelled");
+  assert.deepEqual(refund, { amount: usdToMicros(8), fee: 0 });
+  assert.equal(await balance("ag_alice"), before);
+  assert.deepEqual(getApplications(escrow.id).map((a) => a.status), ["declined"]);
+  assert.equal(checkMoneyConsistency().ok, true);
+});
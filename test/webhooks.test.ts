@@ -0,0 +1,124 @@
+import "./env.js";
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { balanceProvider } from "../src/balance-provider.js";
+import type { MemoryBalanceProvider } from "../src/balance-memory.js";
+import { escrowDb } from "../src/db.js";
+import { createEscrow, completeEscrow, releaseEscrow } from "../src/escrow-service.js";
+import {
+  registerWebhook,
+  processWebhookDeliveries,
+  listDeadLetters,
+  replayDeadLetter,
+  signPayload,
+  type Webhook,
+  type WebhookDelivery,
+} from "../src/webhooks.js";
+
+const provider = balanceProvider as MemoryBalanceProvider;
+provider.addAgent({ id: "ag_alice", api_key: "dev_alice", balance_usd: 100 });
+provider.addAgent({ id: "ag_bob", api_key: "dev_bob" });
+
+// A local receiver that answers each path with its next queued status (200 once the queue is empty)
+const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+const statuses = new Map<string, number[]>();
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.get(req.url!)?.shift() ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const deliveriesFor = (webhook: Webhook, event: string) =>
+  escrowDb.prepare("SELECT * FROM webhook_deliveries WHERE webhook_id = ? AND event = ? ORDER BY rowid").all(webhook.id, event) as WebhookDelivery[];
+
+// Skips the backoff so the next run retries straight away
+const makeDue = (webhook: Webhook) =>
+  escrowDb.prepare("UPDATE webhook_deliveries SET next_attempt_at = 0 WHERE webhook_id = ? AND status = 'pending'").run(webhook.id);
+
+test("deliveries are signed with the webhook secret", async () => {
+  const webhook = registerWebhook("ag_alice", { url: `${baseUrl}/signed`, events: ["created"] });
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 10, description: "Signed delivery", counterpartyId: "ag_bob" });
+  await processWebhookDeliveries();
+
+  const [delivery] = deliveriesFor(webhook, "created");
+  assert.equal(delivery.status, "delivered");
+  const request = received.find((r) => r.headers["x-escrow-delivery"] === delivery.id)!;
+  const timestamp = Number(request.headers["x-escrow-timestamp"]);
+  assert.equal(request.headers["x-escrow-signature"], `sha256=${signPayload(webhook.secret, timestamp, request.body)}`);
+  const payload = JSON.parse(request.body);
+  assert.equal(payload.type, "escrow.created");
+  assert.equal(payload.data.escrow_id, escrow.id);
+});
+
+test("a failed delivery is retried with backoff", async () => {
+  const webhook = registerWebhook("ag_alice", { url: `${baseUrl}/retried`, events: ["completed"] });
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 5, description: "Retried delivery", counterpartyId: "ag_bob" });
+  statuses.set("/retried", [500]);
+  await completeEscrow("ag_bob", escrow.id);
+  await processWebhookDeliveries();
+
+  let [delivery] = deliveriesFor(webhook, "completed");
+  assert.equal(delivery.status, "pending");
+  assert.equal(delivery.attempts, 1);
+  assert.equal(delivery.last_status_code, 500);
+  assert.ok(delivery.next_attempt_at > Math.floor(Date.now() / 1000));
+
+  makeDue(webhook);
+  await processWebhookDeliveries();
+  [delivery] = deliveriesFor(webhook, "completed");
+  assert.equal(delivery.status, "delivered");
+  assert.equal(delivery.attempts, 2);
+});
+
+test("an exhausted delivery is dead-lettered and can be replayed", async () => {
+  const webhook = registerWebhook("ag_bob", { url: `${baseUrl}/dead`, events: ["released"] });
+  const { escrow } = await createEscrow("ag_alice", { amountUsd: 3, description: "Dead-lettered delivery", counterpartyId: "ag_bob" });
+  statuses.set("/dead", [503, 503, 503]);
+  await releaseEscrow("ag_alice", escrow.id);
+  for (let attempt = 0; attempt < 3; attempt++) {
+    makeDue(webhook);
+    await processWebhookDeliveries();
+  }
+
+  const [delivery] = deliveriesFor(webhook, "released");
+  assert.equal(delivery.status, "dead");
+  const [dead] = listDeadLetters("ag_bob");
+  assert.equal(dead.delivery_id, delivery.id);
+  assert.equal(dead.attempts, 3);
+
+  const replay = replayDeadLetter("ag_bob", dead.id);
+  await processWebhookDeliveries();
+  const replayed = deliveriesFor(webhook, "released").find((d) => d.id === replay.id)!;
+  assert.equal(replayed.status, "delivered");
+  assert.equal(replayed.payload, delivery.payload);
+  assert.deepEqual(listDeadLetters("ag_bob"), []);
+});
+
+test("webhooks cannot target private, link-local or metadata addresses", async () => {
+  for (const url of ["https://10.0.0.5/hook", "https://172.16.4.1/hook", "https://192.168.1.1/hook", "https://169.254.169.254/latest", "https://[fd12::1]/hook"]) {
+    assert.throws(() => registerWebhook("ag_alice", { url }), { code: "invalid_webhook" }, url);
+  }
+
+  // A hook stored before the check is refused when the delivery connects
+  const webhook = registerWebhook("ag_alice", { url: `${baseUrl}/internal`, events: ["created"] });
+  escrowDb.prepare("UPDATE webhooks SET url = 'https://169.254.169.254/latest' WHERE id = ?").run(webhook.id);
+  await createEscrow("ag_alice", { amountUsd: 1, description: "Internal delivery", counterpartyId: "ag_bob" });
+  await processWebhookDeliveries();
+  const [delivery] = deliveriesFor(webhook, "created");
+  assert.equal(delivery.status, "pending");
+  assert.match(delivery.last_error!, /not a public address/);
+});